@@ -6,11 +6,13 @@ import { FirstTimeLogin } from './components/FirstTimeLogin';
 import { SessionProvider, useSession } from './context/SessionContext';
 import { ToastProvider } from './context/ToastContext'; // Import ToastProvider
 import { ContentUpdateProvider } from './context/ContentUpdateContext';
+import { AcademicYearProvider } from './context/AcademicYearContext';
 import { BackgroundTaskProvider } from './context/BackgroundTaskContext';
 import { BackgroundTaskProgress } from './components/common/BackgroundTaskProgress';
 import { BackgroundMediaProvider } from './context/BackgroundMediaContext';
 import { BackgroundMediaPlayer } from './components/common/BackgroundMediaPlayer';
 import { setupDebugKeyboardShortcuts } from './utils/navigationUtils';
+import { isDistrictCoordinator } from './utils/locations';
 
 const AppContent: React.FC = () => {
   const { session } = useSession();
@@ -24,9 +26,9 @@ const AppContent: React.FC = () => {
     return <FirstTimeLogin />;
   }
 
-  // If user is Admin OR is a Teacher with Edit Permissions, show AdminView
+  // If user is Admin OR is a Teacher with Edit Permissions or district reports, show AdminView
   // AdminView handles hiding specific menus for non-admins internally.
-  if (currentUser.role === 'admin' || (currentUser.role === 'teacher' && currentUser.canEdit)) {
+  if (currentUser.role === 'admin' || (currentUser.role === 'teacher' && currentUser.canEdit) || isDistrictCoordinator(currentUser)) {
     return <AdminView />;
   }
 
@@ -45,13 +47,15 @@ const App: React.FC = () => {
     <SessionProvider>
       <ToastProvider> {/* Wrap AppContent with ToastProvider */}
         <ContentUpdateProvider>
-          <BackgroundTaskProvider>
-            <BackgroundMediaProvider>
-              <AppContent />
-              <BackgroundTaskProgress />
-              <BackgroundMediaPlayer />
-            </BackgroundMediaProvider>
-          </BackgroundTaskProvider>
+          <AcademicYearProvider>
+            <BackgroundTaskProvider>
+              <BackgroundMediaProvider>
+                <AppContent />
+                <BackgroundTaskProgress />
+                <BackgroundMediaPlayer />
+              </BackgroundMediaProvider>
+            </BackgroundTaskProvider>
+          </AcademicYearProvider>
         </ContentUpdateProvider>
       </ToastProvider>
     </SessionProvider>
@@ -11,12 +11,20 @@ import { fileURLToPath } from 'url';
 // If your routes are CommonJS (use require), either convert them or rename to .cjs and import dynamically.
 // Try ESM import first:
 import apiRoutes from './routes/index.cjs';
+import { startPublishScheduler } from './utils/publishSchedule.cjs';
+import { backfillSearchFields } from './utils/search.cjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 
+// req.ip (used by the sign-in throttle and audit log) comes from X-Forwarded-For only for the
+// proxies trusted here: Vercel's edge in front of the deployed functions, none locally.
+// TRUST_PROXY takes any Express 'trust proxy' value, e.g. 1 or "loopback".
+const trustProxy = process.env.TRUST_PROXY ?? (process.env.VERCEL ? '1' : '');
+if (trustProxy) app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+
 // Middleware
 app.use(cors({
     origin: "*",
@@ -103,6 +111,14 @@ export const startServer = async () => {
 
         // Increase timeout to 5 minutes for large uploads
         server.setTimeout(5 * 60 * 1000);
+
+        // Apply scheduled publish dates even while no requests come in
+        startPublishScheduler();
+
+        // Index anything saved before search existed; serverless deploys run scripts/backfill-search.js
+        backfillSearchFields()
+            .then(indexed => console.log('✓ Search index backfilled:', indexed))
+            .catch(error => console.error('✗ Search backfill failed:', error && (error.stack || error)));
     } catch (error) {
         console.error('Failed to start server:', error && (error.stack || error));
         process.exit(1);
@@ -0,0 +1,83 @@
+const { Class } = require('../models.cjs');
+const { HIERARCHY_LEVELS } = require('../utils/hierarchy.cjs');
+const { getArchivedYearNames } = require('../utils/academicYears.cjs');
+const { resolveTarget } = require('./audit.cjs');
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const LEVEL_BY_ENTITY = new Map(HIERARCHY_LEVELS.map((level, index) => [level.Model.modelName, index]));
+const PARENT_FIELDS = HIERARCHY_LEVELS.slice(1).map((level, index) => ({ field: level.parentField, levelIndex: index }));
+
+// POSTs on a node that leave it unchanged: a copy reads its source, downloads are counted elsewhere
+const NON_MODIFYING_ACTIONS = ['copy', 'download', 'download-email'];
+
+// Every node a write touches, as level index → ids: the node in the path, the nodes in
+// body.ids, the parents named in the body and a move or copy target
+const collectTouchedNodes = (req) => {
+    const { entity, entityId } = resolveTarget(req.path);
+    const levelIndex = LEVEL_BY_ENTITY.get(entity);
+    const touched = HIERARCHY_LEVELS.map(() => new Set());
+    if (levelIndex === undefined) return touched;
+
+    const add = (index, id) => { if (id && index >= 0) touched[index].add(String(id)); };
+    const action = req.path.split('/').filter(Boolean).pop();
+    const body = req.body || {};
+
+    if (entityId && !NON_MODIFYING_ACTIONS.includes(action)) add(levelIndex, entityId);
+    if (Array.isArray(body.ids)) body.ids.forEach(id => add(levelIndex, id));
+    if (body.targetParentId) add(levelIndex - 1, body.targetParentId);
+    for (const { field, levelIndex: parentIndex } of PARENT_FIELDS) add(parentIndex, body[field]);
+    return touched;
+};
+
+// Walks each level's ids up to their classes, one query per level
+const findClassIds = async (touched) => {
+    const pending = touched.map(ids => new Set(ids));
+    for (let index = pending.length - 1; index > 0; index--) {
+        if (pending[index].size === 0) continue;
+        const { Model, parentField } = HIERARCHY_LEVELS[index];
+        const ids = [...pending[index]].filter(id => /^[a-f0-9]{24}$/i.test(id));
+        const docs = await Model.find({ _id: { $in: ids } }).setOptions({ withDeleted: true }).select(parentField).lean();
+        docs.forEach(doc => pending[index - 1].add(String(doc[parentField])));
+    }
+    return [...pending[0]].filter(id => /^[a-f0-9]{24}$/i.test(id));
+};
+
+// Name of an archived year the request would change, if any
+const findArchivedYear = async (req) => {
+    const archived = await getArchivedYearNames();
+    if (archived.length === 0) return null;
+
+    const body = req.body || {};
+    if (body.academicYear && archived.includes(body.academicYear)) return body.academicYear;
+
+    const classIds = await findClassIds(collectTouchedNodes(req));
+    if (classIds.length === 0) return null;
+    const locked = await Class.findOne({ _id: { $in: classIds }, academicYear: { $in: archived } })
+        .setOptions({ withDeleted: true }).select('academicYear').lean();
+    return locked ? locked.academicYear : null;
+};
+
+const requireOpenYear = async (req, res, next) => {
+    try {
+        const year = await findArchivedYear(req);
+        if (!year) return next();
+        console.warn(`[Academic Year] Refused ${req.method} ${req.path}: ${year} is archived`);
+        return res.status(403).json({
+            message: `The ${year} academic year is archived and read-only.`,
+            code: 'YEAR_ARCHIVED',
+            academicYear: year
+        });
+    } catch (error) {
+        console.error('[Academic Year] Check failed:', error);
+        return res.status(500).json({ message: 'Failed to check the academic year' });
+    }
+};
+
+// Router-wide: no write may change the classes of an archived year. Multipart bodies are
+// parsed by multer inside the route, so upload routes add requireOpenYear after multer.
+const protectArchivedYears = (req, res, next) => {
+    if (!WRITE_METHODS.includes(req.method) || req.is('multipart/form-data')) return next();
+    return requireOpenYear(req, res, next);
+};
+
+module.exports = { protectArchivedYears, requireOpenYear };
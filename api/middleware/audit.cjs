@@ -0,0 +1,157 @@
+const mongoose = require('mongoose');
+const models = require('../models.cjs');
+const { getClientIp } = require('../utils/loginThrottle.cjs');
+
+const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Mutating requests that are not administrative changes
+const SKIPPED_ROUTES = [
+    // Signed-out sign-in, sign-up and reset: LoginAttempt covers these. 2FA changes stay logged.
+    /^\/auth\/(login|webmaster-login|2fa\/verify|forgot-password|reset-password|register)\/?$/,
+    /^\/stats\//,                   // view and download counters
+    /^\/upload\/signature\/?$/,     // only signs a client-side upload
+    /^\/content\/get-signed-url\/?$/,
+    /^\/users\/import\/preview\/?$/, // reads the sheet, creates nothing
+    /^\/syllabus\/import\/preview\/?$/
+];
+
+const HIERARCHY_MODELS = { classes: 'Class', subjects: 'Subject', units: 'Unit', subUnits: 'SubUnit', lessons: 'Lesson' };
+const RECYCLE_BIN_MODELS = { ...HIERARCHY_MODELS, contents: 'Content' };
+const LOCATION_MODELS = { districts: 'District', 'sub-districts': 'SubDistrict', schools: 'School' };
+
+// Never copied into the log, even as a before/after value
+const SECRET_FIELDS = ['password', 'passwordReset', 'codeHash', 'newPassword', 'confirmPassword', 'currentPassword', 'code', 'recoveryCode'];
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+const MAX_STRING_LENGTH = 500;
+
+const isObjectId = (value) => typeof value === 'string' && /^[a-f0-9]{24}$/i.test(value);
+
+// Which document (or collection) a request acts on, judged from its path
+const resolveTarget = (path) => {
+    const [root, second, third, fourth] = path.split('/').filter(Boolean);
+    const idOrNull = (value) => isObjectId(value) ? value : null;
+
+    if (HIERARCHY_MODELS[root]) return { entity: HIERARCHY_MODELS[root], entityId: idOrNull(second) };
+    if (root === 'content' || root === 'upload') return { entity: 'Content', entityId: idOrNull(second) };
+    if (root === 'users') return { entity: 'User', entityId: idOrNull(second) };
+    if (root === 'user') return { entity: 'User', entityId: idOrNull(third) }; // approve/reject-teacher/:userId
+    if (root === 'locations') return { entity: LOCATION_MODELS[second] || null, entityId: idOrNull(third) };
+    if (root === 'collections') return { entity: third || null, entityId: null };
+    if (root === 'admin' && second === 'recycle-bin') return { entity: RECYCLE_BIN_MODELS[third] || null, entityId: idOrNull(fourth) };
+    if (root === 'academic-years') return { entity: 'AcademicYear', entityId: idOrNull(second) };
+    if (root === 'files') return { entity: 'File', entityId: second ? decodeURIComponent(second) : null };
+    return { entity: null, entityId: null };
+};
+
+const loadSnapshot = async (entity, entityId) => {
+    const Model = models[entity];
+    if (!Model || !isObjectId(entityId)) return null;
+    // Recycle Bin rows included, so deletes and restores still show their before/after
+    return Model.findById(entityId).setOptions({ withDeleted: true }).lean();
+};
+
+// Plain, bounded copy of a value for storage: secrets redacted, long text cut
+const sanitize = (value, depth = 0) => {
+    if (value === null || value === undefined) return value;
+    if (value instanceof Date) return value;
+    if (value instanceof mongoose.Types.ObjectId) return String(value);
+    if (typeof value === 'string') {
+        return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)` : value;
+    }
+    if (typeof value !== 'object') return value;
+    if (depth >= 4) return '[…]';
+    if (Array.isArray(value)) {
+        const items = value.slice(0, 50).map(item => sanitize(item, depth + 1));
+        return value.length > 50 ? [...items, `… ${value.length - 50} more`] : items;
+    }
+    const copy = {};
+    for (const [key, item] of Object.entries(value)) {
+        copy[key] = SECRET_FIELDS.includes(key) ? '[redacted]' : sanitize(item, depth + 1);
+    }
+    return copy;
+};
+
+// Top-level fields whose values differ between the two snapshots
+const diffDocuments = (before, after) => {
+    const changes = {};
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    for (const key of keys) {
+        if (IGNORED_FIELDS.includes(key)) continue;
+        const from = before ? before[key] : undefined;
+        const to = after ? after[key] : undefined;
+        if (JSON.stringify(from) === JSON.stringify(to)) continue;
+        changes[key] = SECRET_FIELDS.includes(key)
+            ? { before: '[redacted]', after: '[redacted]' }
+            : { before: sanitize(from), after: sanitize(to) };
+    }
+    return changes;
+};
+
+const getActor = (req) => {
+    if (req.webmaster) {
+        return { actorType: 'webmaster', actorId: req.webmaster._id, actorName: req.webmaster.username, actorRole: 'webmaster' };
+    }
+    if (req.user) {
+        return { actorType: 'user', actorId: req.user._id, actorName: req.user.name || req.user.username, actorRole: req.user.role };
+    }
+    return { actorType: 'anonymous' };
+};
+
+// The id of a newly created document, from the common response shapes
+const createdIdFrom = (body) => {
+    if (!body || typeof body !== 'object') return null;
+    const id = body._id || (body.content && body.content._id) || (body.user && body.user._id);
+    return id ? String(id) : null;
+};
+
+// Records every mutating request in AuditLog once the response is sent. Mount after
+// authenticate so the actor is known. Logging failures never affect the request.
+const auditLog = async (req, res, next) => {
+    if (!AUDITED_METHODS.includes(req.method) || SKIPPED_ROUTES.some(pattern => pattern.test(req.path))) {
+        return next();
+    }
+
+    const target = resolveTarget(req.path);
+    let before = null;
+    try {
+        before = await loadSnapshot(target.entity, target.entityId);
+    } catch (error) {
+        console.error('[Audit] Failed to load snapshot:', error.message);
+    }
+
+    let responseBody;
+    const originalJson = res.json.bind(res);
+    res.json = (body) => {
+        responseBody = body;
+        return originalJson(body);
+    };
+
+    res.on('finish', async () => {
+        try {
+            const success = res.statusCode < 400;
+            const entityId = target.entityId || (req.method === 'POST' && success ? createdIdFrom(responseBody) : null);
+            const after = success && req.method !== 'DELETE' ? await loadSnapshot(target.entity, entityId) : null;
+            const hasSnapshots = !!(before || after);
+
+            await models.AuditLog.create({
+                ...getActor(req),
+                action: `${req.method} ${req.route ? req.route.path : req.path}`,
+                method: req.method,
+                path: req.path,
+                entity: target.entity,
+                entityId,
+                changes: success && hasSnapshots ? diffDocuments(before, after) : undefined,
+                details: hasSnapshots ? undefined : sanitize(req.body),
+                statusCode: res.statusCode,
+                success,
+                ipAddress: getClientIp(req)
+            });
+        } catch (error) {
+            console.error('[Audit] Failed to write audit entry:', error.message);
+        }
+    });
+
+    next();
+};
+
+module.exports = { auditLog, diffDocuments, resolveTarget };
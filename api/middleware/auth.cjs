@@ -0,0 +1,167 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { User, Webmaster } = require('../models.cjs');
+
+const TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '12h';
+// Time allowed between the password step and the authenticator code
+const CHALLENGE_EXPIRES_IN = '5m';
+const SESSION_KINDS = ['user', 'webmaster'];
+
+// Every instance must sign with the same secret. On Vercel each function instance is its own
+// process, so a generated secret would reject tokens issued by the others: production refuses
+// to start without one. In development a random secret only costs the sessions on restart.
+const IS_PRODUCTION = process.env.NODE_ENV === 'production' || !!process.env.VERCEL;
+let tokenSecret = process.env.JWT_SECRET;
+if (!tokenSecret) {
+    if (IS_PRODUCTION) {
+        throw new Error('JWT_SECRET is not set. Configure it in the environment (see README).');
+    }
+    console.warn('[Auth] JWT_SECRET is not set; using a random per-process secret');
+    tokenSecret = crypto.randomBytes(48).toString('hex');
+}
+
+// Routes reachable without a session. Media endpoints are loaded by <video>/<img>/pdf.js
+// tags that cannot attach an Authorization header; the location lookups feed the sign-up form.
+const PUBLIC_ROUTES = [
+    { method: 'POST', pattern: /^\/auth\/login\/?$/ },
+    { method: 'POST', pattern: /^\/auth\/webmaster-login\/?$/ },
+    { method: 'POST', pattern: /^\/auth\/2fa\/verify\/?$/ },
+    { method: 'POST', pattern: /^\/auth\/forgot-password\/?$/ },
+    { method: 'POST', pattern: /^\/auth\/reset-password\/?$/ },
+    { method: 'POST', pattern: /^\/auth\/register\/?$/ },
+    { method: 'GET', pattern: /^\/locations\/?$/ },
+    { method: 'GET', pattern: /^\/content\/[^/]+\/file\/?$/ },
+    { method: 'GET', pattern: /^\/files\/[^/]+\/?$/ },
+    { method: 'GET', pattern: /^\/proxy\/pdf\/?$/ }
+];
+
+// Until FirstTimeLogin is completed a user may only read their session and
+// update their own profile/password (ownership is checked by requireSelfOrPermission)
+const ONBOARDING_ROUTES = [
+    { method: 'GET', pattern: /^\/auth\/session\/?$/ },
+    { method: 'GET', pattern: /^\/users\/[^/]+\/profile\/?$/ },
+    { method: 'PUT', pattern: /^\/users\/[^/]+\/(profile|update-profile|change-password)\/?$/ }
+];
+
+const matchesRoute = (routes, req) =>
+    routes.some(route => route.method === req.method && route.pattern.test(req.path));
+
+const isPublicRoute = (req) =>
+    req.method === 'OPTIONS' || matchesRoute(PUBLIC_ROUTES, req);
+
+const signToken = (payload) => {
+    const token = jwt.sign(payload, tokenSecret, { expiresIn: TOKEN_EXPIRES_IN });
+    const { exp } = jwt.decode(token);
+    return { token, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+const issueUserToken = (user) => signToken({
+    sub: String(user._id),
+    kind: 'user',
+    role: user.role
+});
+
+const issueWebmasterToken = (webmaster) => signToken({
+    sub: String(webmaster._id),
+    kind: 'webmaster'
+});
+
+// Proof that the password step succeeded for an account with two-factor enabled.
+// Its kind is not a session kind, so authenticate() refuses it as a bearer token.
+const issueTwoFactorChallenge = (accountType, account) => {
+    const challengeToken = jwt.sign(
+        { sub: String(account._id), kind: '2fa-challenge', accountType },
+        tokenSecret,
+        { expiresIn: CHALLENGE_EXPIRES_IN }
+    );
+    const { exp } = jwt.decode(challengeToken);
+    return { challengeToken, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+// The challenge payload, or null when it is missing, expired or not a challenge
+const readTwoFactorChallenge = (challengeToken) => {
+    try {
+        const payload = jwt.verify(String(challengeToken || ''), tokenSecret);
+        return payload.kind === '2fa-challenge' && SESSION_KINDS.includes(payload.accountType) ? payload : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+const readBearerToken = (req) => {
+    const header = req.headers.authorization || '';
+    const [scheme, token] = header.split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+};
+
+const rejectSession = (res, code, message) => res.status(401).json({ message, code });
+
+// Resolves req.user (or req.webmaster) from the Authorization header on every /api route.
+// Anonymous requests are only let through to PUBLIC_ROUTES.
+const authenticate = async (req, res, next) => {
+    req.user = null;
+    req.webmaster = null;
+
+    const isPublic = isPublicRoute(req);
+    const token = readBearerToken(req);
+
+    if (!token) {
+        if (isPublic) return next();
+        return rejectSession(res, 'AUTH_REQUIRED', 'Authentication required. Please sign in.');
+    }
+
+    let payload;
+    try {
+        payload = jwt.verify(token, tokenSecret);
+        if (!SESSION_KINDS.includes(payload.kind)) throw new Error('Not a session token');
+    } catch (error) {
+        // A stale token must not block the login screen itself
+        if (isPublic) return next();
+        if (error.name === 'TokenExpiredError') {
+            return rejectSession(res, 'TOKEN_EXPIRED', 'Your session has expired. Please sign in again.');
+        }
+        return rejectSession(res, 'TOKEN_INVALID', 'Invalid session. Please sign in again.');
+    }
+
+    try {
+        if (payload.kind === 'webmaster') {
+            req.webmaster = await Webmaster.findById(payload.sub).select('-password').lean();
+        } else {
+            req.user = await User.findById(payload.sub).select('-password').lean();
+        }
+    } catch (error) {
+        console.error('[Auth] Session lookup failed:', error);
+        return res.status(500).json({ message: error.message });
+    }
+
+    if (!req.user && !req.webmaster) {
+        if (isPublic) return next();
+        return rejectSession(res, 'TOKEN_INVALID', 'Account no longer exists. Please sign in again.');
+    }
+
+    // Deactivating an account revokes its sessions: the token stops working on the next request
+    if (req.user && req.user.status === 'inactive') {
+        req.user = null;
+        if (isPublic) return next();
+        return rejectSession(res, 'ACCOUNT_INACTIVE', 'This account has been deactivated. Please contact the admin.');
+    }
+
+    if (req.user && req.user.isFirstLogin && !isPublic && !matchesRoute(ONBOARDING_ROUTES, req)) {
+        return res.status(403).json({
+            message: 'Please complete your profile setup before continuing.',
+            code: 'ONBOARDING_REQUIRED'
+        });
+    }
+
+    req.auth = payload;
+    next();
+};
+
+module.exports = {
+    authenticate,
+    issueUserToken,
+    issueWebmasterToken,
+    issueTwoFactorChallenge,
+    readTwoFactorChallenge,
+    isPublicRoute
+};
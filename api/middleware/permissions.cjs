@@ -0,0 +1,103 @@
+const { hasScopeRestrictions, canEditLessons } = require('../utils/editScopes.cjs');
+
+// Declarative role → permission table. Routes state the permission they need with
+// requirePermission('...'); which roles hold it is decided only here.
+//
+// Effective roles:
+//   webmaster - database maintenance account (AdminCollectionsPanel)
+//   admin     - full administrator
+//   editor    - teacher with canEdit
+//   teacher   - read-only teacher
+//   coordinator - teacher flagged isDistrictCoordinator; reports and download
+//               logs, held to their own district (see utils/locations.cjs)
+//   student
+const ROLE_PERMISSIONS = {
+    webmaster: ['collections:manage'],
+    admin: [
+        'content:read', 'content:write', 'content:review',
+        'hierarchy:write',
+        'users:read', 'users:write',
+        'teacher-requests:review', 'registrations:review',
+        'downloads:read', 'stats:read',
+        'locations:write', 'audit:read', 'recycle-bin:manage',
+        'academic-years:manage'
+    ],
+    coordinator: ['downloads:read', 'stats:read'],
+    editor: ['content:read', 'content:write', 'stats:read'],
+    teacher: ['content:read', 'stats:read'],
+    student: ['content:read']
+};
+
+const isDistrictCoordinator = (user) => !!(user && user.role === 'teacher' && user.isDistrictCoordinator && user.districtId);
+
+const getEffectiveRoles = (req) => {
+    if (req.webmaster) return ['webmaster'];
+
+    const user = req.user;
+    if (!user) return [];
+
+    switch (user.role) {
+        case 'admin':
+            return ['admin'];
+        case 'teacher': {
+            const roles = user.canEdit ? ['editor', 'teacher'] : ['teacher'];
+            return isDistrictCoordinator(user) ? ['coordinator', ...roles] : roles;
+        }
+        case 'student':
+            return ['student'];
+        default:
+            return [];
+    }
+};
+
+const hasPermission = (req, permission) =>
+    getEffectiveRoles(req).some(role => (ROLE_PERMISSIONS[role] || []).includes(permission));
+
+// Every refused call gets the same 403 shape so the client can handle it in one place
+const sendForbidden = (res, permission) => res.status(403).json({
+    message: 'You do not have permission to perform this action.',
+    code: 'FORBIDDEN',
+    permission
+});
+
+const requirePermission = (permission) => (req, res, next) => {
+    if (hasPermission(req, permission)) return next();
+    console.warn(`[Permissions] Denied ${req.method} ${req.path} (needs ${permission})`);
+    return sendForbidden(res, permission);
+};
+
+// For per-user routes (profile, password): the account owner, or anyone holding `permission`
+const requireSelfOrPermission = (permission, getTargetUserId = (req) => req.params.id) => (req, res, next) => {
+    const targetUserId = getTargetUserId(req);
+    if (req.user && targetUserId && String(req.user._id) === String(targetUserId)) return next();
+    return requirePermission(permission)(req, res, next);
+};
+
+// Content writes by a teacher with editScopes must stay inside those scopes.
+// resolveLessonIds(req) returns the lessons the request touches.
+const requireEditScope = (resolveLessonIds) => async (req, res, next) => {
+    if (!hasScopeRestrictions(req.user)) return next();
+    try {
+        const lessonIds = await resolveLessonIds(req);
+        if (lessonIds.length === 0) {
+            return res.status(400).json({ message: 'A lessonId is required for this change' });
+        }
+        if (await canEditLessons(req.user, lessonIds)) return next();
+    } catch (error) {
+        console.error('[Permissions] Edit scope check failed:', error);
+        return res.status(error.status || 500).json({ message: error.message });
+    }
+    console.warn(`[Permissions] Denied ${req.method} ${req.path} (outside edit scope)`);
+    return sendForbidden(res, 'content:write');
+};
+
+module.exports = {
+    ROLE_PERMISSIONS,
+    isDistrictCoordinator,
+    getEffectiveRoles,
+    hasPermission,
+    sendForbidden,
+    requirePermission,
+    requireSelfOrPermission,
+    requireEditScope
+};
@@ -1,4 +1,18 @@
 const mongoose = require('mongoose');
+const { titleSearchText, bodySearchFields } = require('./utils/searchText.cjs');
+
+// Optional TOTP second factor (admins and the webmaster). Secrets and recovery-code
+// digests are never selected by default, so they stay out of API responses.
+const twoFactorSchema = new mongoose.Schema({
+    enabled: { type: Boolean, default: false },
+    enabledAt: { type: Date },
+    secret: { type: String, select: false },
+    // Issued by /auth/2fa/setup, promoted to secret once a code from it is confirmed
+    pendingSecret: { type: String, select: false },
+    recoveryCodes: { type: [String], select: false },
+    // Last accepted time step; older codes are refused to prevent replay
+    lastUsedStep: { type: Number, select: false }
+}, { _id: false });
 
 const userSchema = new mongoose.Schema({
     username: { type: String, required: true, unique: true },
@@ -10,39 +24,78 @@ const userSchema = new mongoose.Schema({
     isFirstLogin: { type: Boolean, default: true },
     mobileNumber: { type: String },
     canEdit: { type: Boolean, default: false },
+    // Restricts canEdit to parts of the hierarchy; empty means unrestricted
+    editScopes: [{
+        _id: false,
+        classId: { type: mongoose.Schema.Types.ObjectId, ref: 'Class', required: true },
+        subjectId: { type: mongoose.Schema.Types.ObjectId, ref: 'Subject', default: null },
+        unitId: { type: mongoose.Schema.Types.ObjectId, ref: 'Unit', default: null }
+    }],
+    // canEdit teacher whose content needs an admin's approval before it is published
+    requiresReview: { type: Boolean, default: false },
     totalDownloads: { type: Number, default: 0 },
     worksheetDownloads: { type: Number, default: 0 },
     requestRole: { type: String, default: null },
-    teacherRequestStatus: { type: String, enum: ['pending', 'approved', 'rejected'], default: null }
+    teacherRequestStatus: { type: String, enum: ['pending', 'approved', 'rejected'], default: null },
+    districtId: { type: mongoose.Schema.Types.ObjectId, ref: 'District', default: null },
+    subDistrictId: { type: mongoose.Schema.Types.ObjectId, ref: 'SubDistrict', default: null },
+    schoolId: { type: mongoose.Schema.Types.ObjectId, ref: 'School', default: null },
+    // Teacher who may read download logs and reports for every school in their districtId
+    isDistrictCoordinator: { type: Boolean, default: false },
+    studentClass: { type: String },
+    // Set for students who signed up themselves; pending accounts stay inactive until approved
+    registrationStatus: { type: String, enum: ['pending', 'approved', 'rejected', null], default: null },
+    registrationReviewedAt: { type: Date },
+    registrationNote: { type: String },
+    // Pending "forgot password" code; cleared once used
+    passwordReset: {
+        codeHash: { type: String, select: false },
+        expiresAt: { type: Date },
+        attempts: { type: Number }
+    },
+    twoFactor: { type: twoFactorSchema, default: () => ({}) }
 }, { timestamps: true });
 
 const classSchema = new mongoose.Schema({
     name: { type: String, required: true },
-    isPublished: { type: Boolean, default: false } // Publish toggle
+    isPublished: { type: Boolean, default: false }, // Publish toggle
+    // Position among siblings (drag-and-drop in Course Structure); older rows without one sort first
+    order: { type: Number },
+    // AcademicYear.name this class belongs to; everything below the class shares it
+    academicYear: { type: String, index: true }
 }, { timestamps: true });
 
 const subjectSchema = new mongoose.Schema({
     name: { type: String, required: true },
     classId: { type: mongoose.Schema.Types.ObjectId, ref: 'Class', required: true },
-    isPublished: { type: Boolean, default: false } // Publish toggle
+    isPublished: { type: Boolean, default: false }, // Publish toggle
+    order: { type: Number }
 }, { timestamps: true });
 
 const unitSchema = new mongoose.Schema({
     name: { type: String, required: true },
     subjectId: { type: mongoose.Schema.Types.ObjectId, ref: 'Subject', required: true },
-    isPublished: { type: Boolean, default: false } // Publish toggle
+    isPublished: { type: Boolean, default: false }, // Publish toggle
+    order: { type: Number }
 }, { timestamps: true });
 
 const subUnitSchema = new mongoose.Schema({
     name: { type: String, required: true },
     unitId: { type: mongoose.Schema.Types.ObjectId, ref: 'Unit', required: true },
-    isPublished: { type: Boolean, default: false } // Publish toggle
+    isPublished: { type: Boolean, default: false }, // Publish toggle
+    order: { type: Number }
 }, { timestamps: true });
 
 const lessonSchema = new mongoose.Schema({
     name: { type: String, required: true },
     subUnitId: { type: mongoose.Schema.Types.ObjectId, ref: 'SubUnit', required: true },
     isPublished: { type: Boolean, default: false }, // Publish toggle
+    order: { type: Number },
+    // Lesson overview (validated in utils/lessonMetadata.cjs)
+    learningObjectives: { type: [String], default: undefined },
+    periods: { type: Number }, // estimated teaching periods
+    keywords: { type: [String], default: undefined },
+    competencies: { type: [{ type: String, enum: ['CP1', 'CP2', 'CP3', 'CP4', 'CP5', 'CP6', 'CP7'] }], default: undefined },
     // View Counts
     notesViewCount: { type: Number, default: 0 },
     qaViewCount: { type: Number, default: 0 },
@@ -80,9 +133,24 @@ const lessonSchema = new mongoose.Schema({
 
 const webmasterSchema = new mongoose.Schema({
     username: { type: String, required: true, unique: true },
-    password: { type: String, required: true }
+    password: { type: String, required: true },
+    twoFactor: { type: twoFactorSchema, default: () => ({}) }
 }, { timestamps: true });
 
+// Who did something to a content item, as shown in its history
+const actorSchema = {
+    userId: { type: mongoose.Schema.Types.ObjectId },
+    name: { type: String }
+};
+
+// One entry in a content item's review thread (utils/contentReview.cjs)
+const reviewCommentSchema = new mongoose.Schema({
+    author: actorSchema,
+    text: { type: String },
+    quote: { type: String }, // passage of the body the comment is about
+    action: { type: String, enum: ['submitted', 'approved', 'changes_requested'] } // set when it came with a step
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
 const contentSchema = new mongoose.Schema({
     lessonId: { type: mongoose.Schema.Types.ObjectId, ref: 'Lesson', required: true },
     type: { type: String, required: true },
@@ -104,9 +172,34 @@ const contentSchema = new mongoose.Schema({
     viewCount: { type: Number, default: 0 },
     downloadCount: { type: Number, default: 0 },
     isPublished: { type: Boolean, default: false }, // Publish toggle
-    metadata: { type: mongoose.Schema.Types.Mixed }
+    // Source of a hierarchy copy; the copy shares its stored file until that is duplicated
+    copiedFrom: { type: mongoose.Schema.Types.ObjectId, ref: 'Content' },
+    metadata: { type: mongoose.Schema.Types.Mixed },
+    // Editorial review, only for items written by a teacher with requiresReview. Absent means
+    // the item never went through review and follows isPublished alone.
+    review: {
+        status: { type: String, enum: ['draft', 'submitted', 'approved', 'changes_requested'] },
+        submittedBy: actorSchema,
+        submittedAt: { type: Date },
+        reviewedBy: actorSchema,
+        reviewedAt: { type: Date },
+        comments: { type: [reviewCommentSchema], default: undefined }
+    }
 }, { timestamps: true });
 
+// Saved versions of a content item's title, body and metadata, newest last (utils/contentRevisions.cjs)
+const contentRevisionSchema = new mongoose.Schema({
+    contentId: { type: mongoose.Schema.Types.ObjectId, ref: 'Content', required: true },
+    title: { type: String },
+    body: { type: String },
+    metadata: { type: mongoose.Schema.Types.Mixed },
+    // Who saved this version; empty for the version that existed before history was kept
+    savedBy: actorSchema,
+    restoredFrom: { type: mongoose.Schema.Types.ObjectId } // revision this one was restored from
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+contentRevisionSchema.index({ contentId: 1, createdAt: -1 });
+
 const downloadSchema = new mongoose.Schema({
     userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }, // Optional if guest
     contentId: { type: mongoose.Schema.Types.ObjectId, ref: 'Content', required: true },
@@ -126,8 +219,103 @@ downloadSchema.index({ downloadedAt: -1 });
 
 // Create indexes for better query performance
 contentSchema.index({ lessonId: 1, type: 1 });
+contentSchema.index({ 'review.status': 1 }, { sparse: true });
 userSchema.index({ username: 1 });
 
+// Soft delete for the course hierarchy and content: a deleted row keeps its data, gets
+// deletedAt, and drops out of every query. The Recycle Bin (utils/recycleBin.cjs) reads
+// them with the withDeleted option, e.g. Model.find(filter).setOptions({ withDeleted: true }).
+const SOFT_DELETE_QUERIES = ['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'distinct', 'updateOne', 'updateMany'];
+
+const softDelete = (schema) => {
+    schema.add({
+        deletedAt: { type: Date },
+        deletedBy: { type: String }, // display name of whoever deleted it
+        // Set on rows deleted along with an ancestor: the Recycle Bin entry they belong to
+        deletedWith: { type: mongoose.Schema.Types.ObjectId }
+    });
+    schema.pre(SOFT_DELETE_QUERIES, function () {
+        // A filter on deletedAt itself (the Recycle Bin listing) is left as written
+        if (this.getOptions().withDeleted || 'deletedAt' in this.getFilter()) return;
+        this.where({ deletedAt: null });
+    });
+    schema.pre('aggregate', function () {
+        if (this.options.withDeleted) return;
+        this.pipeline().unshift({ $match: { deletedAt: null } });
+    });
+    schema.index({ deletedAt: 1 });
+};
+
+[classSchema, subjectSchema, unitSchema, subUnitSchema, lessonSchema, contentSchema].forEach(schema => schema.plugin(softDelete));
+
+// Scheduled release: the publish scheduler (utils/publishSchedule.cjs) flips isPublished when
+// publishAt or unpublishAt comes round, then clears that date
+const publishSchedule = (schema) => {
+    schema.add({
+        publishAt: { type: Date },
+        unpublishAt: { type: Date }
+    });
+    schema.index({ publishAt: 1 }, { sparse: true });
+    schema.index({ unpublishAt: 1 }, { sparse: true });
+};
+
+[classSchema, subjectSchema, unitSchema, subUnitSchema, lessonSchema, contentSchema].forEach(schema => schema.plugin(publishSchedule));
+
+// Global search (utils/search.cjs): plain-text copies of the title and body, kept up to date on
+// every write and covered by one text index. Not selected by default, they double the body's size.
+const searchIndex = (schema, { titleField, bodyField }) => {
+    schema.add({
+        search: {
+            title: { type: String, select: false },
+            body: { type: String, select: false },
+            stems: { type: String, select: false }
+        }
+    });
+
+    const searchFields = (source, has) => {
+        const fields = {};
+        if (has(titleField)) fields['search.title'] = titleSearchText(source(titleField));
+        if (bodyField && has(bodyField)) {
+            const { body, stems } = bodySearchFields(source(bodyField));
+            fields['search.body'] = body;
+            fields['search.stems'] = stems;
+        }
+        return fields;
+    };
+
+    schema.pre('save', function () {
+        const fields = searchFields(field => this.get(field), field => this.isNew || this.isModified(field));
+        Object.entries(fields).forEach(([path, value]) => this.set(path, value));
+    });
+    schema.pre('insertMany', function (next, docs) {
+        for (const doc of docs) {
+            const fields = searchFields(field => doc[field], () => true);
+            doc.search = { title: fields['search.title'], body: fields['search.body'], stems: fields['search.stems'] };
+        }
+        next();
+    });
+    schema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function () {
+        const update = this.getUpdate();
+        if (!update || Array.isArray(update)) return;
+        const $set = update.$set || {};
+        const fields = searchFields(field => (field in $set ? $set[field] : update[field]), field => field in $set || field in update);
+        if (Object.keys(fields).length > 0) this.setUpdate({ ...update, $set: { ...$set, ...fields } });
+    });
+
+    schema.index(
+        { 'search.title': 'text', 'search.stems': 'text', 'search.body': 'text' },
+        {
+            name: 'search_text',
+            weights: { 'search.title': 10, 'search.stems': 2, 'search.body': 1 },
+            default_language: 'none', // no English stemming or stop words; Tamil is stemmed in searchText.cjs
+            language_override: 'searchLanguage'
+        }
+    );
+};
+
+[classSchema, subjectSchema, unitSchema, subUnitSchema, lessonSchema].forEach(schema => schema.plugin(searchIndex, { titleField: 'name' }));
+contentSchema.plugin(searchIndex, { titleField: 'title', bodyField: 'body' });
+
 // DownloadLog Schema for tracking all downloads
 const downloadLogSchema = new mongoose.Schema({
     userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
@@ -156,6 +344,83 @@ downloadLogSchema.index({ userId: 1, downloadedAt: -1 });
 downloadLogSchema.index({ downloadStatus: 1, downloadedAt: -1 });
 downloadLogSchema.index({ contentType: 1 });
 
+// Who changed what: one entry per POST/PUT/DELETE request, written by middleware/audit.cjs
+const auditLogSchema = new mongoose.Schema({
+    actorType: { type: String, enum: ['user', 'webmaster', 'anonymous'], required: true },
+    actorId: { type: mongoose.Schema.Types.ObjectId },
+    actorName: { type: String },
+    actorRole: { type: String },
+    action: { type: String, required: true }, // e.g. "PUT /lessons/:id"
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    entity: { type: String }, // model or collection name
+    entityId: { type: String },
+    // Changed top-level fields only: { field: { before, after } }; secrets are redacted
+    changes: { type: mongoose.Schema.Types.Mixed },
+    details: { type: mongoose.Schema.Types.Mixed }, // request body summary when there is no single target
+    statusCode: { type: Number },
+    success: { type: Boolean },
+    ipAddress: { type: String },
+    createdAt: { type: Date, default: Date.now }
+});
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ entity: 1, entityId: 1, createdAt: -1 });
+
+// Syllabus versions. Each class is tagged with one (Class.academicYear); the current year is
+// the default view, archived years are read-only (middleware/academicYear.cjs).
+const academicYearSchema = new mongoose.Schema({
+    name: { type: String, required: true, trim: true, unique: true }, // e.g. "2025-26"
+    isCurrent: { type: Boolean, default: false },
+    isArchived: { type: Boolean, default: false }
+}, { timestamps: true });
+
+// Location lookups (District → SubDistrict → School), managed by admins
+const districtSchema = new mongoose.Schema({
+    name: { type: String, required: true, trim: true, unique: true }
+}, { timestamps: true });
+
+const subDistrictSchema = new mongoose.Schema({
+    districtId: { type: mongoose.Schema.Types.ObjectId, ref: 'District', required: true },
+    name: { type: String, required: true, trim: true }
+}, { timestamps: true });
+
+const schoolSchema = new mongoose.Schema({
+    districtId: { type: mongoose.Schema.Types.ObjectId, ref: 'District', required: true },
+    subDistrictId: { type: mongoose.Schema.Types.ObjectId, ref: 'SubDistrict', default: null },
+    name: { type: String, required: true, trim: true }
+}, { timestamps: true });
+
+subDistrictSchema.index({ districtId: 1, name: 1 }, { unique: true });
+schoolSchema.index({ districtId: 1, subDistrictId: 1, name: 1 }, { unique: true });
+userSchema.index({ districtId: 1, schoolId: 1 });
+
+// Failed-login counters, one document per username or client IP
+const loginThrottleSchema = new mongoose.Schema({
+    key: { type: String, required: true, unique: true }, // e.g. "user:ravi", "ip:10.0.0.4"
+    scope: { type: String, enum: ['username', 'ip'], required: true },
+    failures: { type: Number, default: 0 },
+    lastFailureAt: { type: Date },
+    lockedUntil: { type: Date, default: null }
+}, { timestamps: true });
+
+// Login audit trail. Never stores the submitted password.
+const loginAttemptSchema = new mongoose.Schema({
+    accountType: { type: String, enum: ['user', 'webmaster'], required: true },
+    username: { type: String },
+    userId: { type: mongoose.Schema.Types.ObjectId },
+    success: { type: Boolean, required: true },
+    reason: { type: String }, // success | invalid_credentials | locked | ...
+    ipAddress: { type: String },
+    userAgent: { type: String },
+    attemptedAt: { type: Date, default: Date.now }
+});
+
+loginThrottleSchema.index({ lockedUntil: 1 });
+loginAttemptSchema.index({ username: 1, attemptedAt: -1 });
+loginAttemptSchema.index({ ipAddress: 1, attemptedAt: -1 });
+
 module.exports = {
     User: mongoose.model('User', userSchema),
     Class: mongoose.model('Class', classSchema),
@@ -164,7 +429,15 @@ module.exports = {
     SubUnit: mongoose.model('SubUnit', subUnitSchema),
     Lesson: mongoose.model('Lesson', lessonSchema),
     Content: mongoose.model('Content', contentSchema),
+    ContentRevision: mongoose.model('ContentRevision', contentRevisionSchema),
     Webmaster: mongoose.model('Webmaster', webmasterSchema),
     Download: mongoose.model('Download', downloadSchema),
-    DownloadLog: mongoose.model('DownloadLog', downloadLogSchema)
+    DownloadLog: mongoose.model('DownloadLog', downloadLogSchema),
+    LoginThrottle: mongoose.model('LoginThrottle', loginThrottleSchema),
+    LoginAttempt: mongoose.model('LoginAttempt', loginAttemptSchema),
+    District: mongoose.model('District', districtSchema),
+    SubDistrict: mongoose.model('SubDistrict', subDistrictSchema),
+    School: mongoose.model('School', schoolSchema),
+    AuditLog: mongoose.model('AuditLog', auditLogSchema),
+    AcademicYear: mongoose.model('AcademicYear', academicYearSchema)
 };
\ No newline at end of file
@@ -6,10 +6,63 @@ const fs = require('fs');
 const bcrypt = require('bcryptjs');
 const axios = require('axios');
 const nodemailer = require('nodemailer');
+const QRCode = require('qrcode');
 const router = express.Router();
 require('dotenv').config({ path: path.join(__dirname, '../.env') }); // Ensure env vars are loaded
-const { User, Class, Subject, Unit, SubUnit, Lesson, Content, Webmaster, Download, DownloadLog } = require('../models.cjs');
+const { User, Class, Subject, Unit, SubUnit, Lesson, Content, Webmaster, Download, DownloadLog, District, SubDistrict, School, AuditLog } = require('../models.cjs');
 const { v2: cloudinary } = require('cloudinary');
+const {
+    hashPassword,
+    verifyUserPassword,
+    RESET_CODE_MAX_ATTEMPTS,
+    createResetCode,
+    matchesResetCode
+} = require('../utils/password.cjs');
+const { getMailConfig, sendMail, escapeHtml } = require('../utils/mailer.cjs');
+const { MAX_IMPORT_ROWS, IMPORT_CONCURRENCY, mapWithConcurrency, parseUserSheet, validateImportRows, generateInitialPassword } = require('../utils/userImport.cjs');
+const { generateSecret, verifyTotp, buildOtpAuthUri, generateRecoveryCodes, findRecoveryCode } = require('../utils/totp.cjs');
+const {
+    sleep,
+    getClientIp,
+    checkLoginThrottle,
+    recordLoginFailure,
+    recordLoginSuccess,
+    limitRequest,
+    unlockUsername,
+    unlockIp,
+    getLockedUsernames,
+    getLockedIps,
+    recordLoginAttempt,
+    sendLoginLocked,
+    sendRequestLimited
+} = require('../utils/loginThrottle.cjs');
+const { authenticate, issueUserToken, issueWebmasterToken, issueTwoFactorChallenge, readTwoFactorChallenge } = require('../middleware/auth.cjs');
+const { auditLog } = require('../middleware/audit.cjs');
+const { requirePermission, requireSelfOrPermission, requireEditScope, hasPermission, sendForbidden } = require('../middleware/permissions.cjs');
+const { lessonFromBody, lessonFromContentParam, lessonsFromContentIds, lessonsFromCloudinaryFile, lessonsFromUploadedFile } = require('../utils/editScopes.cjs');
+const { resolveLocation, hasLocationInput, getLocationFilter, getUserIdsForLocation } = require('../utils/locations.cjs');
+const { getDeletionSummary, softDeleteSubtree, moveNode, copySubtree, duplicateStoredFile } = require('../utils/hierarchy.cjs');
+const { listRecycleBin, restoreEntry, purgeEntry } = require('../utils/recycleBin.cjs');
+const { publishScheduleMiddleware, updatePublishSchedule, listScheduledEvents } = require('../utils/publishSchedule.cjs');
+const { getHierarchyTree } = require('../utils/hierarchyTree.cjs');
+const { listAcademicYears, getCurrentYear, createAcademicYear, updateAcademicYear, classYearFilter, resolveClassYear, getArchivedYearNames } = require('../utils/academicYears.cjs');
+const { protectArchivedYears, requireOpenYear } = require('../middleware/academicYear.cjs');
+const { previewSyllabusImport, importSyllabus, exportSyllabus } = require('../utils/syllabusImport.cjs');
+const { buildMetadataUpdate, updateLessonMetadata } = require('../utils/lessonMetadata.cjs');
+const { recordRevision, listRevisions, restoreRevision } = require('../utils/contentRevisions.cjs');
+const { searchAll } = require('../utils/search.cjs');
+const {
+    requiresReview,
+    publishedContentFilter,
+    assertCanPublish,
+    initialReviewState,
+    applyReviewRules,
+    submitForReview,
+    addReviewComment,
+    decideReview,
+    listReviewQueue,
+    getReviewItem
+} = require('../utils/contentReview.cjs');
 // const { CloudinaryStorage } = require('multer-storage-cloudinary');
 
 // Cloudinary Config
@@ -19,6 +72,14 @@ cloudinary.config({
     api_secret: process.env.CLOUDINARY_API_SECRET
 });
 
+// Resolve req.user / req.webmaster from the bearer token before any route runs
+router.use(authenticate);
+router.use(auditLog);
+// Apply scheduled publish / unpublish dates that have come due
+router.use(publishScheduleMiddleware);
+// Archived academic years are read-only
+router.use(protectArchivedYears);
+
 // Helper function to clean and format strings for filenames
 const cleanForFilename = (str) => {
     if (!str) return '';
@@ -219,9 +280,111 @@ const extractHierarchyFromRequest = async (req) => {
     };
 };
 
-// --- Multer Configuration for File Uploads ---
+// --- Academic Years ---
+// Syllabus versions; GET /classes?academicYear=2025-26 lists one year's classes
+router.get('/academic-years', requirePermission('content:read'), async (req, res) => {
+    try {
+        res.json(await listAcademicYears());
+    } catch (error) {
+        console.error('[Academic Years] List error:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.post('/academic-years', requirePermission('academic-years:manage'), async (req, res) => {
+    try {
+        const year = await createAcademicYear(req.body);
+        console.log(`[Academic Years] Created ${year.name}${year.isCurrent ? ' (current)' : ''}`);
+        res.status(201).json(year);
+    } catch (error) {
+        console.error('[Academic Years] Create error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// { isCurrent: true } switches the default year and archives older ones; { isArchived } opens or closes one
+router.put('/academic-years/:id', requirePermission('academic-years:manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ message: 'Invalid academic year ID' });
+        }
+        res.json(await updateAcademicYear(req.params.id, req.body));
+    } catch (error) {
+        console.error('[Academic Years] Update error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// --- Syllabus Import / Export ---
+// Classes → chapters as an indented outline, CSV (one path per row) or JSON ([{ name, children }]).
+// Step 1 shows what would be created; nodes are matched to existing ones by name.
+router.post('/syllabus/import/preview', requirePermission('hierarchy:write'), async (req, res) => {
+    try {
+        res.json(await previewSyllabusImport(req.body));
+    } catch (error) {
+        console.error('[Syllabus Import] Preview failed:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// Step 2: creates the missing nodes, all or nothing
+router.post('/syllabus/import', requirePermission('hierarchy:write'), async (req, res) => {
+    try {
+        const result = await importSyllabus(req.body);
+        console.log(`[Syllabus Import] ${result.counts.existing} existing, created:`, result.counts.new);
+        res.status(201).json({ success: true, ...result });
+    } catch (error) {
+        console.error('[Syllabus Import] Import failed:', error);
+        res.status(error.status || 500).json({ message: error.message, errors: error.errors });
+    }
+});
+
+// ?format=outline|csv|json with ?academicYear=... or ?classId=...; returns the file's text
+router.get('/syllabus/export', requirePermission('hierarchy:write'), async (req, res) => {
+    try {
+        const { format, academicYear, classId } = req.query;
+        res.json(await exportSyllabus({ format, academicYear, classId }));
+    } catch (error) {
+        console.error('[Syllabus Export] Error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// --- Hierarchy Tree ---
+// Nested classes → lessons with content counts per type, in one aggregation.
+// ?kind=subjects&id=... for one node's subtree, ?depth=N to stop N levels down,
+// ?academicYear=... for one year's classes. ?onlyPublished=true is forced for readers without
+// content:write.
+router.get('/tree', requirePermission('content:read'), async (req, res) => {
+    try {
+        const { kind, id, depth, onlyPublished, academicYear } = req.query;
+        const publishedOnly = onlyPublished === 'true' || !hasPermission(req, 'content:write');
+        const tree = await getHierarchyTree({ kind, id, depth, onlyPublished: publishedOnly, academicYear });
+        res.json(tree);
+    } catch (error) {
+        console.error('[Tree] Error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// --- Global Search ---
+// ?q=... over content and hierarchy names; ?classId= / ?subjectId= / ?academicYear= narrow it,
+// ?type= keeps to one resource type, ?status=published|draft|all (editors only)
+router.get('/search', requirePermission('content:read'), async (req, res) => {
+    try {
+        const { q, classId, subjectId, academicYear, type, status, limit } = req.query;
+        res.json(await searchAll(
+            { q, classId, subjectId, academicYear, type, status, limit },
+            { publishedOnly: !hasPermission(req, 'content:write') }
+        ));
+    } catch (error) {
+        console.error('[Search] Error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
 // --- Hierarchy Endpoint ---
-router.get('/hierarchy/:lessonId', async (req, res) => {
+router.get('/hierarchy/:lessonId', requirePermission('content:read'), async (req, res) => {
     try {
         const { lessonId } = req.params;
         if (!mongoose.Types.ObjectId.isValid(lessonId)) {
@@ -271,6 +434,9 @@ router.get('/hierarchy/:lessonId', async (req, res) => {
             unitName,
             subUnitName,
             lessonName,
+            classId: populatedLesson.subUnitId.unitId.subjectId.classId._id,
+            subjectId: populatedLesson.subUnitId.unitId.subjectId._id,
+            unitId: populatedLesson.subUnitId.unitId._id,
             notesDownloadCount: populatedLesson.notesDownloadCount || 0,
             qaDownloadCount: populatedLesson.qaDownloadCount || 0,
 
@@ -286,7 +452,11 @@ router.get('/hierarchy/:lessonId', async (req, res) => {
             activityDownloadCount: populatedLesson.activityDownloadCount || 0,
             worksheetPdfDownloadCount: populatedLesson.worksheetPdfDownloadCount || 0,
             questionPaperPdfDownloadCount: populatedLesson.questionPaperPdfDownloadCount || 0,
-            isPublished: populatedLesson.isPublished
+            isPublished: populatedLesson.isPublished,
+            learningObjectives: populatedLesson.learningObjectives || [],
+            periods: populatedLesson.periods ?? null,
+            keywords: populatedLesson.keywords || [],
+            competencies: populatedLesson.competencies || []
         });
 
     } catch (error) {
@@ -295,6 +465,7 @@ router.get('/hierarchy/:lessonId', async (req, res) => {
     }
 });
 
+// --- Multer Configuration for File Uploads ---
 // --- Multer Configuration for Memory Storage ---
 const upload = multer({
     storage: multer.memoryStorage(),
@@ -307,7 +478,7 @@ const upload = multer({
 });
 
 // --- File Upload Routes ---
-router.post('/upload', upload.single('file'), async (req, res) => {
+router.post('/upload', requirePermission('content:write'), upload.single('file'), requireEditScope(lessonFromBody), requireOpenYear, async (req, res) => {
     try {
         const { type, title, lessonId, folder } = req.body;
 
@@ -530,7 +701,8 @@ router.post('/upload', upload.single('file'), async (req, res) => {
                 metadata: {
                     hierarchyPath: uploadFolder,
                     ...hierarchy // Store full hierarchy details
-                }
+                },
+                ...initialReviewState(req)
             };
 
             console.log('[Upload] Creating content with validated data:', {
@@ -613,7 +785,7 @@ router.post('/upload', upload.single('file'), async (req, res) => {
 });
 
 // Add URL-based content creation route
-router.post('/content/url', async (req, res) => {
+router.post('/content/url', requirePermission('content:write'), requireEditScope(lessonFromBody), async (req, res) => {
     try {
         console.log('[Content/URL] Request received:', req.body);
         const { lessonId, type, title, url, metadata } = req.body;
@@ -644,7 +816,8 @@ router.post('/content/url', async (req, res) => {
                 lessonName: hierarchy.lessonName,
                 resourceFolder: 'External',
                 isExternal: true
-            }
+            },
+            ...initialReviewState(req)
         };
 
         const newContent = new Content(contentData);
@@ -662,7 +835,7 @@ router.post('/content/url', async (req, res) => {
 });
 
 // --- Signature Generation for Client-Side Upload ---
-router.post('/upload/signature', async (req, res) => {
+router.post('/upload/signature', requirePermission('content:write'), requireEditScope(lessonFromBody), async (req, res) => {
     try {
         const { lessonId, type, title, mimeType } = req.body;
 
@@ -741,7 +914,7 @@ router.post('/upload/signature', async (req, res) => {
 });
 
 // New: Two-step Cloudinary upload and save route
-router.post('/content/cloudinary-save', async (req, res) => {
+router.post('/content/cloudinary-save', requirePermission('content:write'), requireEditScope(lessonFromBody), async (req, res) => {
     try {
         console.log('[Cloudinary-Save] Request received:', {
             lessonId: req.body.lessonId,
@@ -813,7 +986,8 @@ router.post('/content/cloudinary-save', async (req, res) => {
             metadata: {
                 hierarchyPath: hierarchy.hierarchyPath || '',
                 ...hierarchy // Store full hierarchy details
-            }
+            },
+            ...initialReviewState(req)
         };
 
         console.log('[Cloudinary-Save] Creating content with data:', {
@@ -860,7 +1034,7 @@ router.post('/content/cloudinary-save', async (req, res) => {
 });
 
 // Duplicate check endpoint
-router.get('/content/check-duplicate', async (req, res) => {
+router.get('/content/check-duplicate', requirePermission('content:write'), async (req, res) => {
     try {
         const { lessonId, title, type, fileName, fileSize } = req.query;
 
@@ -914,7 +1088,7 @@ router.get('/content/check-duplicate', async (req, res) => {
 });
 
 // Cloudinary cleanup endpoint
-router.post('/cloudinary/cleanup', async (req, res) => {
+router.post('/cloudinary/cleanup', requirePermission('content:write'), requireEditScope(lessonsFromCloudinaryFile), async (req, res) => {
     try {
         const { publicId, resourceType } = req.body;
 
@@ -1132,46 +1306,22 @@ router.get('/content/:id/file', async (req, res) => {
 });
 
 // Delete uploaded file and content record
-router.delete('/content/:id', async (req, res) => {
+router.delete('/content/:id', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
     try {
-        const contentId = req.params.id;
-
-        // Find the content record first
-        const content = await Content.findById(contentId);
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ message: 'Invalid content ID' });
+        }
+        const content = await Content.findById(req.params.id).select('title type filePath').lean();
         if (!content) {
             return res.status(404).json({ message: 'Content not found' });
         }
 
-        // Delete file from filesystem if it exists
-        // Delete file from Cloudinary (if publicId exists) or filesystem
-        if (content.metadata && content.metadata.cloudinaryPublicId) {
-            try {
-                // Determine resource type based on content type
-                let resourceType = 'image';
-                if (content.type === 'video' || content.type === 'audio') resourceType = 'video';
-
-                await cloudinary.uploader.destroy(content.metadata.cloudinaryPublicId, { resource_type: resourceType });
-                console.log('[API /content/:id] Cloudinary file deleted:', content.metadata.cloudinaryPublicId);
-            } catch (cloudError) {
-                console.error('Error deleting from Cloudinary:', cloudError);
-            }
-        } else if (content.filePath) {
-            const fullFilePath = content.filePath.startsWith(path.sep) ?
-                content.filePath :
-                path.resolve(__dirname, '../../', content.filePath);
-
-            if (fs.existsSync(fullFilePath)) {
-                fs.unlinkSync(fullFilePath);
-                console.log('[API /content/:id] Local file deleted:', fullFilePath);
-            }
-        }
-
-        // Delete the content record from database
-        await Content.findByIdAndDelete(contentId);
+        // Stored files stay until the Recycle Bin entry is purged
+        await softDeleteSubtree(Content, content._id, getDeletedBy(req));
 
         res.json({
             success: true,
-            message: 'File and content deleted successfully',
+            message: 'Content moved to the Recycle Bin',
             deletedContent: {
                 id: content._id,
                 title: content.title,
@@ -1185,10 +1335,28 @@ router.delete('/content/:id', async (req, res) => {
     }
 });
 
+// Gives copied content its own stored file (second step of a hierarchy copy)
+router.post('/content/:id/duplicate-file', requirePermission('hierarchy:write'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ message: 'Invalid content ID' });
+        }
+        const content = await Content.findById(req.params.id);
+        if (!content) {
+            return res.status(404).json({ message: 'Content not found' });
+        }
+        const duplicated = await duplicateStoredFile(content);
+        res.json({ success: true, duplicated });
+    } catch (error) {
+        console.error('[Duplicate File] Error:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
 // Delete file by filename only (without database record)
-router.delete('/files/:filename', (req, res) => {
+router.delete('/files/:filename', requirePermission('content:write'), requireEditScope(lessonsFromUploadedFile), (req, res) => {
     try {
-        const filename = req.params.filename;
+        const filename = path.basename(req.params.filename);
         const filePath = path.join(__dirname, '../../uploads', filename);
 
         if (!fs.existsSync(filePath)) {
@@ -1213,50 +1381,500 @@ router.delete('/files/:filename', (req, res) => {
 router.post('/auth/login', async (req, res) => {
     try {
         const { username, password } = req.body;
-        console.log('Login attempt:', { username, password }); // DEBUG LOG
+        const ip = getClientIp(req);
+
+        const throttle = await checkLoginThrottle('user', username, ip);
+        if (throttle.locked) {
+            await recordLoginAttempt(req, { accountType: 'user', username, success: false, reason: 'locked' });
+            return sendLoginLocked(res, throttle.retryAfterSeconds);
+        }
+        if (throttle.delayMs) await sleep(throttle.delayMs);
 
-        // In a real app, use bcrypt to compare hashed passwords
         const user = await User.findOne({ username });
-        console.log('User found:', user); // DEBUG LOG
 
-        if (!user || user.password !== password) { // Simple comparison for now as per mock
-            console.log('Password mismatch:', { expected: user?.password, received: password }); // DEBUG LOG
+        // Legacy plaintext passwords are upgraded to bcrypt on a successful match
+        if (!user || !(await verifyUserPassword(user, password))) {
+            const failure = await recordLoginFailure('user', username, ip);
+            await recordLoginAttempt(req, { accountType: 'user', username, userId: user?._id, success: false, reason: 'invalid_credentials' });
+            if (failure.locked) return sendLoginLocked(res, failure.retryAfterSeconds);
             return res.status(401).json({ message: 'Invalid credentials' });
         }
 
-        const token = `mock-token-${user._id}`; // Replace with JWT in production
-        const { password: _, ...userWithoutPass } = user.toObject();
-        res.json({ user: userWithoutPass, token });
+        // With a second factor pending, the failure counter is only cleared once the code is accepted
+        const needsSecondFactor = requiresTwoFactor('user', user);
+        if (!needsSecondFactor) await recordLoginSuccess('user', username);
+
+        if (user.registrationStatus === 'pending' || user.registrationStatus === 'rejected') {
+            await recordLoginAttempt(req, { accountType: 'user', username, userId: user._id, success: false, reason: `registration_${user.registrationStatus}` });
+            return res.status(403).json({
+                message: user.registrationStatus === 'pending'
+                    ? 'Your registration is awaiting admin approval.'
+                    : 'Your registration was not approved. Please contact the admin.',
+                code: user.registrationStatus === 'pending' ? 'REGISTRATION_PENDING' : 'REGISTRATION_REJECTED'
+            });
+        }
+
+        if (user.status === 'inactive') {
+            await recordLoginAttempt(req, { accountType: 'user', username, userId: user._id, success: false, reason: 'inactive' });
+            return res.status(403).json({
+                message: 'This account has been deactivated. Please contact the admin.',
+                code: 'ACCOUNT_INACTIVE'
+            });
+        }
+
+        if (needsSecondFactor) {
+            await recordLoginAttempt(req, { accountType: 'user', username, userId: user._id, success: false, reason: 'two_factor_required' });
+            return sendTwoFactorChallenge(res, 'user', user);
+        }
+
+        await recordLoginAttempt(req, { accountType: 'user', username, userId: user._id, success: true, reason: 'success' });
+
+        const { token, expiresAt } = issueUserToken(user);
+        res.json({ user: toAccountResponse(user), token, expiresAt });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Current session (used by the client to validate a stored token on load)
+router.get('/auth/session', async (req, res) => {
+    if (!req.user) {
+        return res.status(401).json({ message: 'No active user session', code: 'AUTH_REQUIRED' });
+    }
+    res.json({ user: req.user, expiresAt: new Date(req.auth.exp * 1000).toISOString() });
+});
+
+// --- Password Reset ---
+const findUserByIdentifier = async (identifier, projection) => {
+    const query = (filter) => projection ? User.findOne(filter).select(projection) : User.findOne(filter);
+    return (await query({ username: identifier })) || (await query({ email: identifier }));
+};
+
+router.post('/auth/forgot-password', async (req, res) => {
+    try {
+        const identifier = String(req.body.identifier || '').trim();
+        if (!identifier) {
+            return res.status(400).json({ message: 'Username or email is required' });
+        }
+
+        // Same answer whether or not the account exists, so this can't be used to probe usernames
+        const genericResponse = {
+            success: true,
+            message: 'If the account exists, a reset code has been sent to its email address.'
+        };
+
+        // Counted per identifier whether or not an account has it, so the limit reveals nothing either
+        const limit = await limitRequest('password-reset', identifier, getClientIp(req));
+        if (limit.limited) return sendRequestLimited(res, limit.retryAfterSeconds);
+
+        const user = await findUserByIdentifier(identifier, '+passwordReset.codeHash');
+        if (!user || !user.email || user.status === 'inactive') {
+            console.log('[Password Reset] No eligible account for identifier');
+            return res.json(genericResponse);
+        }
+
+        // A code requested while the last one is still valid replaces it but keeps its expiry and
+        // wrong-guess count, so asking again never buys more guesses
+        const { code, codeHash, expiresAt: freshExpiry } = createResetCode();
+        const previous = user.passwordReset;
+        const keepPrevious = !!previous?.codeHash && previous.expiresAt > new Date();
+        const expiresAt = keepPrevious ? previous.expiresAt : freshExpiry;
+        const attempts = keepPrevious ? previous.attempts || 0 : 0;
+        await User.updateOne({ _id: user._id }, { $set: { passwordReset: { codeHash, expiresAt, attempts } } });
+        const minutesLeft = Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 60000));
+
+        try {
+            await sendMail({
+                to: user.email,
+                subject: 'Tamil Vizhuthugal - Password reset code',
+                text: `Your password reset code is ${code}. It expires in ${minutesLeft} minutes. If you did not request this, ignore this email.`,
+                html: `
+                    <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px;">
+                        <h2 style="color: #1a73e8;">வணக்கம் ${escapeHtml(user.name)}!</h2>
+                        <p style="font-size: 16px; color: #333;">Use this code to reset your password:</p>
+                        <p style="font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #202124;">${code}</p>
+                        <p style="font-size: 14px; color: #666;">The code expires in ${minutesLeft} minutes and can only be used once.
+                        If you did not request a password reset, you can ignore this email.</p>
+                    </div>
+                `
+            });
+        } catch (mailError) {
+            // Still the generic answer: an error here would only ever show for real accounts.
+            // The code is kept so the wrong-guess count is not reset either.
+            console.error('[Password Reset] Failed to send reset email:', mailError.message);
+            return res.json(genericResponse);
+        }
+
+        console.log(`[Password Reset] Code sent for user ${user._id}`);
+        res.json(genericResponse);
+    } catch (error) {
+        console.error('[Password Reset] Error:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.post('/auth/reset-password', async (req, res) => {
+    try {
+        const identifier = String(req.body.identifier || '').trim();
+        const { code, newPassword, confirmPassword } = req.body;
+
+        if (!identifier || !code || !newPassword) {
+            return res.status(400).json({ message: 'Username or email, reset code and new password are required' });
+        }
+        if (newPassword.length < 3) {
+            return res.status(400).json({ message: 'New password must be at least 3 characters long' });
+        }
+        if (confirmPassword !== undefined && newPassword !== confirmPassword) {
+            return res.status(400).json({ message: 'New passwords do not match' });
+        }
+
+        const limit = await limitRequest('password-reset-code', identifier, getClientIp(req));
+        if (limit.limited) return sendRequestLimited(res, limit.retryAfterSeconds);
+
+        const invalidCode = () => res.status(400).json({ message: 'Invalid or expired reset code' });
+
+        const user = await findUserByIdentifier(identifier, '+passwordReset.codeHash');
+        const reset = user?.passwordReset;
+        if (!user || !reset?.codeHash) return invalidCode();
+
+        if (!reset.expiresAt || reset.expiresAt < new Date()) {
+            await User.updateOne({ _id: user._id }, { $unset: { passwordReset: 1 } });
+            return invalidCode();
+        }
+
+        // Claim an attempt before comparing, so parallel guesses cannot all get in under the cap.
+        // Spent codes stay until they expire so a new request cannot start the count again.
+        const claimed = await User.updateOne(
+            { _id: user._id, 'passwordReset.codeHash': reset.codeHash, 'passwordReset.attempts': { $not: { $gte: RESET_CODE_MAX_ATTEMPTS } } },
+            { $inc: { 'passwordReset.attempts': 1 } }
+        );
+        if (claimed.modifiedCount === 0 || !matchesResetCode(code, reset.codeHash)) return invalidCode();
+
+        // Consume the code atomically so a second request with the same code fails
+        const result = await User.updateOne(
+            { _id: user._id, 'passwordReset.codeHash': reset.codeHash },
+            { $set: { password: await hashPassword(newPassword) }, $unset: { passwordReset: 1 } }
+        );
+        if (result.modifiedCount === 0) return invalidCode();
+
+        console.log(`[Password Reset] Password reset for user ${user._id}`);
+        res.json({ success: true, message: 'Password reset successfully. Please sign in with your new password.' });
     } catch (error) {
+        console.error('[Password Reset] Error:', error);
         res.status(500).json({ message: error.message });
     }
 });
 
+// --- Student Self-Registration ---
+// Creates an inactive student account that an admin approves from the registration queue
+router.post('/auth/register', async (req, res) => {
+    try {
+        const fields = ['name', 'username', 'email', 'mobileNumber', 'schoolId', 'studentClass'];
+        const data = {};
+        for (const field of fields) {
+            data[field] = String(req.body[field] || '').trim();
+        }
+        const { password } = req.body;
+
+        const missing = fields.filter(field => !data[field]);
+        if (missing.length > 0 || !password) {
+            return res.status(400).json({ message: 'All fields are required', fields: missing });
+        }
+        if (!/^\S+@\S+\.\S+$/.test(data.email)) {
+            return res.status(400).json({ message: 'Please enter a valid email address', field: 'email' });
+        }
+        if (!/^[0-9+\-\s]{10,15}$/.test(data.mobileNumber)) {
+            return res.status(400).json({ message: 'Please enter a valid mobile number', field: 'mobileNumber' });
+        }
+        if (password.length < 3) {
+            return res.status(400).json({ message: 'Password must be at least 3 characters long', field: 'password' });
+        }
+
+        // Keeps the approval queue from being flooded: per email address and per IP
+        const limit = await limitRequest('register', data.email, getClientIp(req));
+        if (limit.limited) return sendRequestLimited(res, limit.retryAfterSeconds);
+
+        if (await User.findOne({ username: data.username })) {
+            return res.status(400).json({ message: 'Username already exists', field: 'username' });
+        }
+        if (await User.findOne({ email: data.email })) {
+            return res.status(400).json({ message: 'Email already exists', field: 'email' });
+        }
+        if (await User.findOne({ mobileNumber: data.mobileNumber })) {
+            return res.status(400).json({ message: 'Mobile number already exists', field: 'mobileNumber' });
+        }
+        Object.assign(data, await resolveLocation({ schoolId: data.schoolId }));
+
+        const user = await User.create({
+            ...data,
+            password: await hashPassword(password),
+            role: 'student',
+            status: 'inactive',
+            isFirstLogin: false,
+            registrationStatus: 'pending'
+        });
+
+        console.log(`[Registration] New student registration ${user._id}`);
+        res.status(201).json({
+            success: true,
+            message: 'Registration submitted. You will receive an email once an admin reviews your account.'
+        });
+    } catch (error) {
+        console.error('[Registration] Error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
 // --- Webmaster Auth Route ---
 router.post('/auth/webmaster-login', async (req, res) => {
     try {
         const { username, password } = req.body;
-        console.log('Webmaster login attempt:', { username, password });
+        const ip = getClientIp(req);
+
+        const throttle = await checkLoginThrottle('webmaster', username, ip);
+        if (throttle.locked) {
+            await recordLoginAttempt(req, { accountType: 'webmaster', username, success: false, reason: 'locked' });
+            return sendLoginLocked(res, throttle.retryAfterSeconds);
+        }
+        if (throttle.delayMs) await sleep(throttle.delayMs);
 
         const webmaster = await Webmaster.findOne({ username });
-        console.log('Webmaster found:', webmaster);
 
-        if (!webmaster || !bcrypt.compareSync(password, webmaster.password)) {
-            console.log('Webmaster password mismatch:', { expected: webmaster?.password ? 'hashed' : 'none', received: password });
+        if (!webmaster || !password || !bcrypt.compareSync(password, webmaster.password)) {
+            const failure = await recordLoginFailure('webmaster', username, ip);
+            await recordLoginAttempt(req, { accountType: 'webmaster', username, userId: webmaster?._id, success: false, reason: 'invalid_credentials' });
+            if (failure.locked) return sendLoginLocked(res, failure.retryAfterSeconds);
             return res.status(401).json({ message: 'Invalid webmaster credentials' });
         }
 
-        const token = `webmaster-token-${webmaster._id}`;
-        const { password: _, ...webmasterWithoutPass } = webmaster.toObject();
-        res.json({ webmaster: webmasterWithoutPass, token });
+        if (requiresTwoFactor('webmaster', webmaster)) {
+            await recordLoginAttempt(req, { accountType: 'webmaster', username, userId: webmaster._id, success: false, reason: 'two_factor_required' });
+            return sendTwoFactorChallenge(res, 'webmaster', webmaster);
+        }
+
+        await recordLoginSuccess('webmaster', username);
+        await recordLoginAttempt(req, { accountType: 'webmaster', username, userId: webmaster._id, success: true, reason: 'success' });
+
+        const { token, expiresAt } = issueWebmasterToken(webmaster);
+        res.json({ webmaster: toAccountResponse(webmaster), token, expiresAt });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// --- Two-Factor Authentication (admins and the webmaster) ---
+const TWO_FACTOR_SECRETS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep';
+const TWO_FACTOR_MODELS = { user: User, webmaster: Webmaster };
+
+const requiresTwoFactor = (accountType, account) =>
+    !!account?.twoFactor?.enabled && (accountType === 'webmaster' || account.role === 'admin');
+
+// Account document as returned to the client: no password, only the public 2FA flags
+const toAccountResponse = (account) => {
+    const { password: _, twoFactor, ...rest } = account.toObject();
+    return { ...rest, twoFactor: { enabled: !!twoFactor?.enabled, enabledAt: twoFactor?.enabledAt } };
+};
+
+const sendTwoFactorChallenge = (res, accountType, account) =>
+    res.json({ twoFactorRequired: true, ...issueTwoFactorChallenge(accountType, account) });
+
+// Accepts either a current authenticator code or an unused recovery code. Both are consumed
+// atomically (last time step / digest pulled) so the same code cannot be used twice.
+const consumeSecondFactor = async (accountType, account, { code, recoveryCode }) => {
+    const Model = TWO_FACTOR_MODELS[accountType];
+    const twoFactor = account.twoFactor || {};
+
+    if (recoveryCode) {
+        const index = findRecoveryCode(recoveryCode, twoFactor.recoveryCodes);
+        if (index === -1) return null;
+        const digest = twoFactor.recoveryCodes[index];
+        const result = await Model.updateOne(
+            { _id: account._id, 'twoFactor.recoveryCodes': digest },
+            { $pull: { 'twoFactor.recoveryCodes': digest } }
+        );
+        return result.modifiedCount ? 'recovery_code' : null;
+    }
+
+    const step = verifyTotp(twoFactor.secret, code, { lastUsedStep: twoFactor.lastUsedStep });
+    if (step === null) return null;
+    const result = await Model.updateOne(
+        { _id: account._id, $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }] },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount ? 'totp' : null;
+};
+
+// The signed-in account that may manage its own second factor, with secrets loaded
+const loadTwoFactorAccount = async (req) => {
+    if (req.webmaster) {
+        return { accountType: 'webmaster', account: await Webmaster.findById(req.webmaster._id).select(TWO_FACTOR_SECRETS) };
+    }
+    if (req.user && req.user.role === 'admin') {
+        return { accountType: 'user', account: await User.findById(req.user._id).select(TWO_FACTOR_SECRETS) };
+    }
+    return { accountType: null, account: null };
+};
+
+const withTwoFactorAccount = (handler) => async (req, res) => {
+    try {
+        const { accountType, account } = await loadTwoFactorAccount(req);
+        if (!account) {
+            return res.status(403).json({ message: 'Two-factor authentication is only available to admin and webmaster accounts.', code: 'FORBIDDEN' });
+        }
+        await handler(req, res, accountType, account);
+    } catch (error) {
+        console.error('[2FA] Error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+};
+
+const twoFactorStatus = (account) => ({
+    enabled: !!account.twoFactor?.enabled,
+    enabledAt: account.twoFactor?.enabledAt || null,
+    recoveryCodesRemaining: account.twoFactor?.enabled ? (account.twoFactor.recoveryCodes || []).length : 0
+});
+
+router.get('/auth/2fa/status', withTwoFactorAccount(async (req, res, accountType, account) => {
+    res.json(twoFactorStatus(account));
+}));
+
+// Step 1 of enrollment: a fresh secret, shown as a QR code and as text for manual entry.
+// Nothing changes for sign-in until /auth/2fa/enable confirms a code from it.
+router.post('/auth/2fa/setup', withTwoFactorAccount(async (req, res, accountType, account) => {
+    if (account.twoFactor?.enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already enabled.' });
+    }
+
+    const secret = generateSecret();
+    await TWO_FACTOR_MODELS[accountType].updateOne({ _id: account._id }, { $set: { 'twoFactor.pendingSecret': secret } });
+
+    const otpauthUrl = buildOtpAuthUri(secret, account.username);
+    res.json({ secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) });
+}));
+
+// Step 2: the first code from the authenticator app proves it is set up. Recovery codes are
+// returned only in this response.
+router.post('/auth/2fa/enable', withTwoFactorAccount(async (req, res, accountType, account) => {
+    const pendingSecret = account.twoFactor?.pendingSecret;
+    if (account.twoFactor?.enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already enabled.' });
+    }
+    if (!pendingSecret) {
+        return res.status(400).json({ message: 'Start the setup again to get a new QR code.' });
+    }
+
+    const step = verifyTotp(pendingSecret, req.body.code);
+    if (step === null) {
+        return res.status(400).json({ message: 'That code is not valid. Check the time on your device and try again.', field: 'code' });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await TWO_FACTOR_MODELS[accountType].updateOne({ _id: account._id }, {
+        $set: {
+            twoFactor: {
+                enabled: true,
+                enabledAt: new Date(),
+                secret: pendingSecret,
+                recoveryCodes: hashes,
+                lastUsedStep: step
+            }
+        }
+    });
+
+    console.log(`[2FA] Enabled for ${accountType} ${account.username}`);
+    res.json({ success: true, recoveryCodes: codes });
+}));
+
+// Needs the password and a current code (or a recovery code), so an unattended session can't turn it off
+router.post('/auth/2fa/disable', withTwoFactorAccount(async (req, res, accountType, account) => {
+    if (!account.twoFactor?.enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is not enabled.' });
+    }
+
+    const Model = TWO_FACTOR_MODELS[accountType];
+    const withPassword = await Model.findById(account._id).select('password');
+    const passwordOk = accountType === 'user'
+        ? await verifyUserPassword(withPassword, req.body.password)
+        : !!req.body.password && bcrypt.compareSync(req.body.password, withPassword.password);
+    if (!passwordOk) {
+        return res.status(400).json({ message: 'Password is incorrect.', field: 'password' });
+    }
+    if (!(await consumeSecondFactor(accountType, account, req.body))) {
+        return res.status(400).json({ message: 'That code is not valid.', field: 'code' });
+    }
+
+    await Model.updateOne({ _id: account._id }, { $set: { twoFactor: { enabled: false } } });
+    console.log(`[2FA] Disabled for ${accountType} ${account.username}`);
+    res.json({ success: true });
+}));
+
+// Replaces every recovery code (e.g. after using several or losing the printed list)
+router.post('/auth/2fa/recovery-codes', withTwoFactorAccount(async (req, res, accountType, account) => {
+    if (!account.twoFactor?.enabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is not enabled.' });
+    }
+    if (!(await consumeSecondFactor(accountType, account, { code: req.body.code }))) {
+        return res.status(400).json({ message: 'That code is not valid.', field: 'code' });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await TWO_FACTOR_MODELS[accountType].updateOne({ _id: account._id }, { $set: { 'twoFactor.recoveryCodes': hashes } });
+    res.json({ success: true, recoveryCodes: codes });
+}));
+
+// Second sign-in step for /auth/login and /auth/webmaster-login. Wrong codes count towards
+// the same lockout as wrong passwords.
+router.post('/auth/2fa/verify', async (req, res) => {
+    try {
+        const challenge = readTwoFactorChallenge(req.body.challengeToken);
+        if (!challenge) {
+            return res.status(401).json({ message: 'Your sign-in attempt has expired. Please sign in again.', code: 'CHALLENGE_EXPIRED' });
+        }
+
+        const { accountType } = challenge;
+        const account = await TWO_FACTOR_MODELS[accountType].findById(challenge.sub).select(TWO_FACTOR_SECRETS);
+        if (!account || !requiresTwoFactor(accountType, account)) {
+            return res.status(401).json({ message: 'Your sign-in attempt has expired. Please sign in again.', code: 'CHALLENGE_EXPIRED' });
+        }
+
+        const { username } = account;
+        const ip = getClientIp(req);
+
+        const throttle = await checkLoginThrottle(accountType, username, ip);
+        if (throttle.locked) {
+            await recordLoginAttempt(req, { accountType, username, userId: account._id, success: false, reason: 'locked' });
+            return sendLoginLocked(res, throttle.retryAfterSeconds);
+        }
+        if (throttle.delayMs) await sleep(throttle.delayMs);
+
+        if (accountType === 'user' && account.status === 'inactive') {
+            return res.status(403).json({ message: 'This account has been deactivated. Please contact the admin.', code: 'ACCOUNT_INACTIVE' });
+        }
+
+        const recoveryCodeCount = (account.twoFactor.recoveryCodes || []).length;
+        const method = await consumeSecondFactor(accountType, account, req.body);
+        if (!method) {
+            const failure = await recordLoginFailure(accountType, username, ip);
+            await recordLoginAttempt(req, { accountType, username, userId: account._id, success: false, reason: 'invalid_two_factor' });
+            if (failure.locked) return sendLoginLocked(res, failure.retryAfterSeconds);
+            return res.status(401).json({ message: 'Invalid authentication code' });
+        }
+
+        await recordLoginSuccess(accountType, username);
+        await recordLoginAttempt(req, { accountType, username, userId: account._id, success: true, reason: method === 'recovery_code' ? 'success_recovery_code' : 'success' });
+
+        const { token, expiresAt } = accountType === 'user' ? issueUserToken(account) : issueWebmasterToken(account);
+        const recoveryCodesRemaining = recoveryCodeCount - (method === 'recovery_code' ? 1 : 0);
+        res.json({ [accountType]: toAccountResponse(account), token, expiresAt, recoveryCodesRemaining });
     } catch (error) {
+        console.error('[2FA] Verify error:', error);
         res.status(500).json({ message: error.message });
     }
 });
 
 // --- Collection Management Routes ---
 // Get all collections except webmaster
-router.get('/collections/list', async (req, res) => {
+router.get('/collections/list', requirePermission('collections:manage'), async (req, res) => {
     try {
         const collections = [
             { name: 'users', displayName: 'பயனர்கள் (Users)', count: await User.countDocuments() },
@@ -1276,7 +1894,7 @@ router.get('/collections/list', async (req, res) => {
 });
 
 // Export collection data
-router.get('/collections/export/:collectionName', async (req, res) => {
+router.get('/collections/export/:collectionName', requirePermission('collections:manage'), async (req, res) => {
     try {
         const { collectionName } = req.params;
 
@@ -1327,7 +1945,7 @@ router.get('/collections/export/:collectionName', async (req, res) => {
 });
 
 // Import collection data
-router.post('/collections/import/:collectionName', async (req, res) => {
+router.post('/collections/import/:collectionName', requirePermission('collections:manage'), async (req, res) => {
     try {
         const { collectionName } = req.params;
         const { data } = req.body;
@@ -1345,6 +1963,9 @@ router.post('/collections/import/:collectionName', async (req, res) => {
 
                 switch (collectionName) {
                     case 'users':
+                        if (itemData.password) {
+                            itemData.password = await hashPassword(itemData.password, { allowHashed: true });
+                        }
                         await User.updateOne({ _id }, itemData, { upsert: true });
                         break;
                     case 'classes':
@@ -1388,7 +2009,7 @@ router.post('/collections/import/:collectionName', async (req, res) => {
 });
 
 // Clear collection data
-router.delete('/collections/clear/:collectionName', async (req, res) => {
+router.delete('/collections/clear/:collectionName', requirePermission('collections:manage'), async (req, res) => {
     try {
         const { collectionName } = req.params;
 
@@ -1493,54 +2114,344 @@ router.delete('/collections/clear/:collectionName', async (req, res) => {
     }
 });
 
-// --- User Routes ---
-router.get('/users', async (req, res) => {
+// --- Location Lookups (districts, sub-districts, schools) ---
+const LOCATION_KINDS = {
+    districts: { model: District, label: 'District', userField: 'districtId' },
+    'sub-districts': { model: SubDistrict, label: 'Sub-district', userField: 'subDistrictId' },
+    schools: { model: School, label: 'School', userField: 'schoolId' }
+};
+
+const getLocationKind = (req, res) => {
+    const kind = LOCATION_KINDS[req.params.kind];
+    if (!kind) res.status(404).json({ message: 'Unknown location type' });
+    return kind;
+};
+
+// Public: the sign-up form needs the school list before there is a session
+router.get('/locations', async (req, res) => {
     try {
-        const users = await User.find({}, '-password');
-        res.json(users);
+        const [districts, subDistricts, schools] = await Promise.all([
+            District.find().sort({ name: 1 }).lean(),
+            SubDistrict.find().sort({ name: 1 }).lean(),
+            School.find().sort({ name: 1 }).lean()
+        ]);
+        res.json({ districts, subDistricts, schools });
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
 });
 
-router.post('/users', async (req, res) => {
+router.post('/locations/:kind', requirePermission('locations:write'), async (req, res) => {
     try {
-        const { email, username, mobileNumber } = req.body;
+        const kind = getLocationKind(req, res);
+        if (!kind) return;
 
-        // Check for duplicate email
-        if (email) {
-            const existingEmailUser = await User.findOne({ email });
-            if (existingEmailUser) {
-                return res.status(400).json({
-                    message: 'Email already exists',
-                    field: 'email'
-                });
-            }
+        const name = String(req.body.name || '').trim();
+        if (!name) {
+            return res.status(400).json({ message: 'Name is required' });
         }
 
-        // Check for duplicate username
-        if (username) {
-            const existingUsernameUser = await User.findOne({ username });
-            if (existingUsernameUser) {
-                return res.status(400).json({
-                    message: 'Username already exists',
-                    field: 'username'
-                });
+        const data = { name };
+        if (kind.model !== District) {
+            const { districtId, subDistrictId } = await resolveLocation({
+                districtId: req.body.districtId,
+                subDistrictId: kind.model === School ? req.body.subDistrictId : undefined
+            });
+            if (!districtId) {
+                return res.status(400).json({ message: 'District is required' });
             }
+            data.districtId = districtId;
+            if (kind.model === School) data.subDistrictId = subDistrictId;
         }
 
-        // Check for duplicate mobile number
-        if (mobileNumber) {
-            const existingMobileUser = await User.findOne({ mobileNumber });
-            if (existingMobileUser) {
-                return res.status(400).json({
-                    message: 'Mobile number already exists',
-                    field: 'mobileNumber'
-                });
-            }
+        const created = await kind.model.create(data);
+        res.status(201).json(created);
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(409).json({ message: 'An entry with this name already exists here' });
+        }
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// Rename only: moving an entry to another parent would leave users' stored parents stale
+router.put('/locations/:kind/:id', requirePermission('locations:write'), async (req, res) => {
+    try {
+        const kind = getLocationKind(req, res);
+        if (!kind) return;
+
+        const name = String(req.body.name || '').trim();
+        if (!name) {
+            return res.status(400).json({ message: 'Name is required' });
+        }
+
+        const updated = await kind.model.findByIdAndUpdate(req.params.id, { name }, { new: true, runValidators: true });
+        if (!updated) {
+            return res.status(404).json({ message: `${kind.label} not found` });
+        }
+        res.json(updated);
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(409).json({ message: 'An entry with this name already exists here' });
+        }
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.delete('/locations/:kind/:id', requirePermission('locations:write'), async (req, res) => {
+    try {
+        const kind = getLocationKind(req, res);
+        if (!kind) return;
+
+        const { id } = req.params;
+        const [userCount, subDistrictCount, schoolCount] = await Promise.all([
+            User.countDocuments({ [kind.userField]: id }),
+            kind.model === District ? SubDistrict.countDocuments({ districtId: id }) : 0,
+            kind.model === School ? 0 : School.countDocuments({ [kind.userField]: id })
+        ]);
+        if (userCount + subDistrictCount + schoolCount > 0) {
+            return res.status(409).json({
+                message: `${kind.label} is still in use and cannot be deleted`,
+                usage: { users: userCount, subDistricts: subDistrictCount, schools: schoolCount }
+            });
+        }
+
+        const deleted = await kind.model.findByIdAndDelete(id);
+        if (!deleted) {
+            return res.status(404).json({ message: `${kind.label} not found` });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// --- User Routes ---
+router.get('/users', requirePermission('users:read'), async (req, res) => {
+    try {
+        const users = await User.find({}, '-password');
+        res.json(users);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Usernames currently locked out by failed sign-ins
+router.get('/users/login-locks', requirePermission('users:read'), async (req, res) => {
+    try {
+        res.json(await getLockedUsernames());
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Addresses locked after too many failed sign-ins from them (any username)
+router.get('/users/login-locks/ips', requirePermission('users:read'), async (req, res) => {
+    try {
+        res.json(await getLockedIps());
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.post('/users/login-locks/ips/unlock', requirePermission('users:write'), async (req, res) => {
+    try {
+        const ip = String(req.body?.ip || '').trim();
+        if (!ip) {
+            return res.status(400).json({ message: 'An IP address is required' });
+        }
+
+        await unlockIp(ip);
+        console.log(`[Login Throttle] IP ${ip} unlocked by ${req.user?.username || 'admin'}`);
+        res.json({ success: true, message: 'IP address unlocked successfully' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.post('/users/:id/unlock', requirePermission('users:write'), async (req, res) => {
+    try {
+        const user = await User.findById(req.params.id).select('username');
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        await unlockUsername(user.username);
+        console.log(`[Login Throttle] ${user.username} unlocked by ${req.user?.username || 'admin'}`);
+        res.json({ success: true, message: 'User unlocked successfully' });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// --- Bulk User Import ---
+// Step 1: parse the uploaded CSV/XLSX and return every row with its validation errors
+router.post('/users/import/preview', requirePermission('users:write'), upload.single('file'), async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ message: 'No file uploaded' });
+        }
+
+        const rows = await validateImportRows(await parseUserSheet(req.file.buffer, req.file.originalname));
+        res.json({
+            rows,
+            total: rows.length,
+            invalid: rows.filter(row => row.errors.length > 0).length
+        });
+    } catch (error) {
+        console.error('[User Import] Preview failed:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+const sendWelcomeEmail = (user, password) => sendMail({
+    to: user.email,
+    subject: 'Tamil Vizhuthugal - Your account details',
+    html: `
+        <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px;">
+            <h2 style="color: #1a73e8;">வணக்கம் ${escapeHtml(user.name)}!</h2>
+            <p style="font-size: 16px; color: #333;">An account has been created for you.</p>
+            <p style="font-size: 15px;">Username: <strong>${escapeHtml(user.username)}</strong><br/>
+            Password: <strong>${escapeHtml(password)}</strong></p>
+            <p style="font-size: 14px; color: #666;">You will be asked to choose a new password when you first sign in.</p>
+        </div>
+    `
+});
+
+// Step 2: create the previewed rows in one batch. Rows are re-validated here; nothing is
+// created unless every row is valid. Generated passwords are returned once for download.
+router.post('/users/import', requirePermission('users:write'), async (req, res) => {
+    try {
+        const { rows, sendEmails } = req.body;
+        if (!Array.isArray(rows) || rows.length === 0) {
+            return res.status(400).json({ message: 'No rows to import' });
+        }
+
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({ message: `Too many rows (${rows.length}). Import at most ${MAX_IMPORT_ROWS} users at a time.` });
+        }
+
+        const fields = ['name', 'username', 'email', 'role', 'mobileNumber', 'district', 'school'];
+        const cleanRows = rows.map((row, index) => {
+            const clean = { rowNumber: row.rowNumber || index + 2 };
+            for (const field of fields) clean[field] = String(row[field] || '').trim();
+            clean.role = clean.role.toLowerCase();
+            return clean;
+        });
+
+        const validated = await validateImportRows(cleanRows);
+        const invalid = validated.filter(row => row.errors.length > 0);
+        if (invalid.length > 0) {
+            return res.status(400).json({ message: `${invalid.length} row(s) have errors`, rows: validated });
+        }
+
+        const credentials = validated.map(row => ({ row, password: generateInitialPassword() }));
+        const docs = await mapWithConcurrency(credentials, IMPORT_CONCURRENCY, async ({ row, password }) => ({
+            _id: new mongoose.Types.ObjectId(),
+            name: row.name,
+            username: row.username,
+            email: row.email,
+            role: row.role,
+            mobileNumber: row.mobileNumber || undefined,
+            districtId: row.districtId || null,
+            subDistrictId: row.subDistrictId || null,
+            schoolId: row.schoolId || null,
+            password: await hashPassword(password),
+            status: 'active',
+            isFirstLogin: true
+        }));
+
+        try {
+            await User.insertMany(docs, { ordered: true });
+        } catch (insertError) {
+            // All or nothing: remove whatever part of the batch was written before the failure
+            await User.deleteMany({ _id: { $in: docs.map(doc => doc._id) } });
+            throw insertError;
+        }
+        console.log(`[User Import] Created ${docs.length} users`);
+
+        const emailFailures = [];
+        if (sendEmails) {
+            await mapWithConcurrency(credentials, IMPORT_CONCURRENCY, async ({ row, password }) => {
+                try {
+                    await sendWelcomeEmail(row, password);
+                } catch (mailError) {
+                    console.error(`[User Import] Welcome email failed for ${row.username}:`, mailError.message);
+                    emailFailures.push(row.username);
+                }
+            });
+        }
+
+        res.status(201).json({
+            success: true,
+            created: credentials.map(({ row, password }) => ({
+                name: row.name,
+                username: row.username,
+                email: row.email,
+                role: row.role,
+                password
+            })),
+            emailFailures
+        });
+    } catch (error) {
+        console.error('[User Import] Import failed:', error);
+        if (error.code === 11000) {
+            return res.status(409).json({ message: 'Some usernames were taken while importing. Please preview the file again.' });
+        }
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.post('/users', requirePermission('users:write'), async (req, res) => {
+    try {
+        const { email, username, mobileNumber } = req.body;
+
+        // Check for duplicate email
+        if (email) {
+            const existingEmailUser = await User.findOne({ email });
+            if (existingEmailUser) {
+                return res.status(400).json({
+                    message: 'Email already exists',
+                    field: 'email'
+                });
+            }
+        }
+
+        // Check for duplicate username
+        if (username) {
+            const existingUsernameUser = await User.findOne({ username });
+            if (existingUsernameUser) {
+                return res.status(400).json({
+                    message: 'Username already exists',
+                    field: 'username'
+                });
+            }
+        }
+
+        // Check for duplicate mobile number
+        if (mobileNumber) {
+            const existingMobileUser = await User.findOne({ mobileNumber });
+            if (existingMobileUser) {
+                return res.status(400).json({
+                    message: 'Mobile number already exists',
+                    field: 'mobileNumber'
+                });
+            }
+        }
+
+        const userData = { ...req.body };
+        delete userData.twoFactor;
+        if (hasLocationInput(userData)) {
+            Object.assign(userData, await resolveLocation(userData));
+        }
+        if (userData.isDistrictCoordinator && !userData.districtId) {
+            return res.status(400).json({ message: 'A district coordinator must be assigned a district', field: 'districtId' });
         }
 
-        const newUser = new User(req.body);
+        const newUser = new User(userData);
+        if (newUser.password) {
+            newUser.password = await hashPassword(newUser.password);
+        }
         await newUser.save();
         const { password, ...userWithoutPass } = newUser.toObject();
         res.status(201).json(userWithoutPass);
@@ -1549,7 +2460,7 @@ router.post('/users', async (req, res) => {
     }
 });
 
-router.put('/users/:id', async (req, res) => {
+router.put('/users/:id', requirePermission('users:write'), async (req, res) => {
     try {
         const { email, username, mobileNumber } = req.body;
         const userId = req.params.id;
@@ -1587,14 +2498,36 @@ router.put('/users/:id', async (req, res) => {
             }
         }
 
-        const updatedUser = await User.findByIdAndUpdate(req.params.id, req.body, { new: true }).select('-password');
+        const updates = { ...req.body };
+        // Only the account owner manages their second factor (/auth/2fa/*)
+        delete updates.twoFactor;
+        if (updates.password) {
+            updates.password = await hashPassword(updates.password);
+        } else {
+            // Never blank out the stored hash with an empty value
+            delete updates.password;
+        }
+
+        if (hasLocationInput(updates)) {
+            Object.assign(updates, await resolveLocation(updates));
+        }
+        if (updates.isDistrictCoordinator) {
+            const districtId = 'districtId' in updates
+                ? updates.districtId
+                : (await User.findById(userId).select('districtId').lean())?.districtId;
+            if (!districtId) {
+                return res.status(400).json({ message: 'A district coordinator must be assigned a district', field: 'districtId' });
+            }
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(req.params.id, updates, { new: true }).select('-password');
         res.json(updatedUser);
     } catch (error) {
         res.status(400).json({ message: error.message });
     }
 });
 
-router.delete('/users/:id', async (req, res) => {
+router.delete('/users/:id', requirePermission('users:write'), async (req, res) => {
     try {
         await User.findByIdAndDelete(req.params.id);
         res.json({ success: true });
@@ -1604,7 +2537,7 @@ router.delete('/users/:id', async (req, res) => {
 });
 
 // Profile update route for first-time login
-router.put('/users/:id/profile', async (req, res) => {
+router.put('/users/:id/profile', requireSelfOrPermission('users:write'), async (req, res) => {
     try {
         const { password, mobileNumber } = req.body;
 
@@ -1625,7 +2558,7 @@ router.put('/users/:id/profile', async (req, res) => {
         const updatedUser = await User.findByIdAndUpdate(
             req.params.id,
             {
-                password,
+                password: await hashPassword(password),
                 mobileNumber,
                 isFirstLogin: false
             },
@@ -1644,7 +2577,7 @@ router.put('/users/:id/profile', async (req, res) => {
 });
 
 // Profile update route for general profile updates (name, email, mobile)
-router.put('/users/:id/update-profile', async (req, res) => {
+router.put('/users/:id/update-profile', requireSelfOrPermission('users:write'), async (req, res) => {
     try {
         const { name, email, mobileNumber } = req.body;
 
@@ -1660,6 +2593,16 @@ router.put('/users/:id/update-profile', async (req, res) => {
         if (mobileNumber) {
             updateData.mobileNumber = mobileNumber;
         }
+        if (hasLocationInput(req.body)) {
+            Object.assign(updateData, await resolveLocation(req.body));
+
+            // A coordinator's district decides which reports they see, so only an admin may move it
+            const current = await User.findById(req.params.id).select('isDistrictCoordinator districtId').lean();
+            if (current && current.isDistrictCoordinator && !hasPermission(req, 'users:write') &&
+                String(current.districtId || '') !== String(updateData.districtId || '')) {
+                return sendForbidden(res, 'users:write');
+            }
+        }
 
         const updatedUser = await User.findByIdAndUpdate(
             req.params.id,
@@ -1678,12 +2621,12 @@ router.put('/users/:id/update-profile', async (req, res) => {
         });
     } catch (error) {
         console.error('Profile update error:', error);
-        res.status(500).json({ message: error.message });
+        res.status(error.status || 500).json({ message: error.message });
     }
 });
 
 // Password change route
-router.put('/users/:id/change-password', async (req, res) => {
+router.put('/users/:id/change-password', requireSelfOrPermission('users:write'), async (req, res) => {
     try {
         const { currentPassword, newPassword, confirmPassword } = req.body;
 
@@ -1714,15 +2657,15 @@ router.put('/users/:id/change-password', async (req, res) => {
             return res.status(404).json({ message: 'User not found' });
         }
 
-        // Verify current password (simple comparison for now)
-        if (user.password !== currentPassword) {
+        // Verify current password (also upgrades a legacy plaintext password)
+        if (!(await verifyUserPassword(user, currentPassword))) {
             return res.status(401).json({
                 message: 'Current password is incorrect'
             });
         }
 
         // Update password
-        user.password = newPassword;
+        user.password = await hashPassword(newPassword);
         await user.save();
 
         res.json({
@@ -1736,7 +2679,7 @@ router.put('/users/:id/change-password', async (req, res) => {
 });
 
 // Get user profile
-router.get('/users/:id/profile', async (req, res) => {
+router.get('/users/:id/profile', requireSelfOrPermission('users:read'), async (req, res) => {
     try {
         const user = await User.findById(req.params.id).select('-password');
 
@@ -1755,33 +2698,33 @@ router.get('/users/:id/profile', async (req, res) => {
 });
 
 // --- Hierarchy Routes (Generic Handler) ---
-// Bulk Publish/Unpublish Routes
-router.put('/classes/publish-all', async (req, res) => {
+// Bulk Publish/Unpublish Routes. Publishing by hand drops any pending scheduled release.
+router.put('/classes/publish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
-        const result = await Class.updateMany({}, { $set: { isPublished: true } });
+        const result = await Class.updateMany({ academicYear: { $nin: await getArchivedYearNames() } }, { $set: { isPublished: true }, $unset: { publishAt: 1 } });
         res.json({ success: true, message: 'All classes published', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/classes/unpublish-all', async (req, res) => {
+router.put('/classes/unpublish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         // Unpublish ALL classes (or maybe we should require confirmation for ALL?)
         // Assuming unpublish all classes in the system.
-        const result = await Class.updateMany({}, { $set: { isPublished: false } });
+        const result = await Class.updateMany({ academicYear: { $nin: await getArchivedYearNames() } }, { $set: { isPublished: false } });
         res.json({ success: true, message: 'All classes unpublished', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/subjects/publish-all', async (req, res) => {
+router.put('/subjects/publish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { classId } = req.body;
         if (!classId) return res.status(400).json({ message: 'Class ID required' });
-        const result = await Subject.updateMany({ classId }, { $set: { isPublished: true } });
+        const result = await Subject.updateMany({ classId }, { $set: { isPublished: true }, $unset: { publishAt: 1 } });
         res.json({ success: true, message: 'All subjects published', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/subjects/unpublish-all', async (req, res) => {
+router.put('/subjects/unpublish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { classId } = req.body;
         if (!classId) return res.status(400).json({ message: 'Class ID required' });
@@ -1790,16 +2733,16 @@ router.put('/subjects/unpublish-all', async (req, res) => {
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/units/publish-all', async (req, res) => {
+router.put('/units/publish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { subjectId } = req.body;
         if (!subjectId) return res.status(400).json({ message: 'Subject ID required' });
-        const result = await Unit.updateMany({ subjectId }, { $set: { isPublished: true } });
+        const result = await Unit.updateMany({ subjectId }, { $set: { isPublished: true }, $unset: { publishAt: 1 } });
         res.json({ success: true, message: 'All units published', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/units/unpublish-all', async (req, res) => {
+router.put('/units/unpublish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { subjectId } = req.body;
         if (!subjectId) return res.status(400).json({ message: 'Subject ID required' });
@@ -1808,16 +2751,16 @@ router.put('/units/unpublish-all', async (req, res) => {
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/subUnits/publish-all', async (req, res) => {
+router.put('/subUnits/publish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { unitId } = req.body;
         if (!unitId) return res.status(400).json({ message: 'Unit ID required' });
-        const result = await SubUnit.updateMany({ unitId }, { $set: { isPublished: true } });
+        const result = await SubUnit.updateMany({ unitId }, { $set: { isPublished: true }, $unset: { publishAt: 1 } });
         res.json({ success: true, message: 'All sub-units published', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/subUnits/unpublish-all', async (req, res) => {
+router.put('/subUnits/unpublish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { unitId } = req.body;
         if (!unitId) return res.status(400).json({ message: 'Unit ID required' });
@@ -1825,16 +2768,16 @@ router.put('/subUnits/unpublish-all', async (req, res) => {
         res.json({ success: true, message: 'All sub-units unpublished', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
-router.put('/lessons/publish-all', async (req, res) => {
+router.put('/lessons/publish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { subUnitId } = req.body;
         if (!subUnitId) return res.status(400).json({ message: 'SubUnit ID is required' });
-        const result = await Lesson.updateMany({ subUnitId }, { $set: { isPublished: true } });
+        const result = await Lesson.updateMany({ subUnitId }, { $set: { isPublished: true }, $unset: { publishAt: 1 } });
         res.json({ success: true, message: 'All lessons published', count: result.modifiedCount });
     } catch (error) { res.status(500).json({ message: error.message }); }
 });
 
-router.put('/lessons/unpublish-all', async (req, res) => {
+router.put('/lessons/unpublish-all', requirePermission('hierarchy:write'), async (req, res) => {
     try {
         const { subUnitId } = req.body;
         if (!subUnitId) {
@@ -1856,36 +2799,51 @@ router.put('/lessons/unpublish-all', async (req, res) => {
     }
 });
 
+// Shown in the Recycle Bin next to each entry
+const getDeletedBy = (req) => req.webmaster ? req.webmaster.username : (req.user ? req.user.name || req.user.username : undefined);
+
+// Manual order first; _id keeps creation order for rows saved before ordering existed
+const HIERARCHY_SORT = { order: 1, _id: 1 };
+
 const createCrudRoutes = (Model, routeName, parentField = null) => {
-    router.get(`/${routeName}`, async (req, res) => {
+    router.get(`/${routeName}`, requirePermission('content:read'), async (req, res) => {
         try {
             const query = {};
             if (parentField && req.query[parentField]) {
                 query[parentField] = req.query[parentField];
             }
+            if (!parentField && req.query.academicYear) {
+                Object.assign(query, await classYearFilter(req.query.academicYear));
+            }
             // Support filtering by published status
             if (req.query.onlyPublished === 'true') {
                 query.isPublished = true;
             }
 
-            const items = await Model.find(query);
+            const items = await Model.find(query).sort(HIERARCHY_SORT);
             res.json(items);
         } catch (error) {
             res.status(500).json({ message: error.message });
         }
     });
 
-    router.post(`/${routeName}`, async (req, res) => {
+    router.post(`/${routeName}`, requirePermission('hierarchy:write'), async (req, res) => {
         try {
             const newItem = new Model(req.body);
+            // New classes go to the requested academic year, else the current one
+            if (!parentField) newItem.academicYear = await resolveClassYear(req.body.academicYear);
+            // New items go to the end of their siblings
+            const last = await Model.findOne(parentField ? { [parentField]: newItem[parentField] } : {})
+                .sort({ order: -1 }).select('order').lean();
+            newItem.order = (last && typeof last.order === 'number' ? last.order : -1) + 1;
             await newItem.save();
             res.status(201).json(newItem);
         } catch (error) {
-            res.status(400).json({ message: error.message });
+            res.status(error.status || 400).json({ message: error.message });
         }
     });
 
-    router.put(`/${routeName}/:id`, async (req, res) => {
+    router.put(`/${routeName}/:id`, requirePermission('hierarchy:write'), async (req, res) => {
         try {
             const updatedItem = await Model.findByIdAndUpdate(req.params.id, req.body, { new: true });
             res.json(updatedItem);
@@ -1894,31 +2852,182 @@ const createCrudRoutes = (Model, routeName, parentField = null) => {
         }
     });
 
-    router.delete(`/${routeName}/:id`, async (req, res) => {
+    // Saves a drag-and-drop order. ids must list every sibling under one parent, in the new order.
+    router.post(`/${routeName}/reorder`, requirePermission('hierarchy:write'), async (req, res) => {
         try {
-            await Model.findByIdAndDelete(req.params.id);
-            // Note: Cascading deletes should be handled here or in pre-remove hooks
+            const { ids } = req.body;
+            if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => mongoose.Types.ObjectId.isValid(id))) {
+                return res.status(400).json({ message: 'A list of IDs is required' });
+            }
+            if (new Set(ids.map(String)).size !== ids.length) {
+                return res.status(400).json({ message: 'The list contains duplicate IDs' });
+            }
+
+            const items = await Model.find({ _id: { $in: ids } }).select(parentField || 'academicYear').lean();
+            if (items.length !== ids.length) {
+                return res.status(404).json({ message: `Some ${routeName} were not found` });
+            }
+
+            let siblingFilter = {};
+            if (parentField) {
+                const parents = new Set(items.map(item => String(item[parentField])));
+                if (parents.size > 1) {
+                    return res.status(400).json({ message: `All ${routeName} must share the same parent` });
+                }
+                siblingFilter[parentField] = items[0][parentField];
+            } else {
+                // Classes are siblings within one academic year; untagged ones belong to the current year
+                const current = await getCurrentYear();
+                const years = new Set(items.map(item => item.academicYear || (current ? current.name : null)));
+                if (years.size > 1) {
+                    return res.status(400).json({ message: `All ${routeName} must belong to the same academic year` });
+                }
+                const [year] = years;
+                if (year) siblingFilter = await classYearFilter(year);
+            }
+            if (await Model.countDocuments(siblingFilter) !== ids.length) {
+                return res.status(400).json({ message: `The list must include every one of these ${routeName}` });
+            }
+
+            await Model.bulkWrite(ids.map((id, index) => ({
+                updateOne: { filter: { _id: id }, update: { $set: { order: index } } }
+            })));
             res.json({ success: true });
         } catch (error) {
+            console.error('[Reorder] Error:', error);
+            res.status(500).json({ message: error.message });
+        }
+    });
+
+    if (parentField) {
+        // Re-parents the node under targetParentId; its whole subtree goes with it
+        router.post(`/${routeName}/:id/move`, requirePermission('hierarchy:write'), async (req, res) => {
+            try {
+                if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                    return res.status(400).json({ message: `Invalid ${Model.modelName} ID` });
+                }
+                const moved = await moveNode(Model, req.params.id, req.body.targetParentId);
+                if (!moved) return res.status(404).json({ message: `${Model.modelName} not found` });
+                res.json(moved);
+            } catch (error) {
+                console.error('[Move] Error:', error);
+                res.status(error.status || 500).json({ message: error.message });
+            }
+        });
+    }
+
+    // Duplicates the node, its descendants and their content (unpublished). Stored files are
+    // duplicated afterwards, one POST /content/:id/duplicate-file per entry in pendingFiles.
+    // A class can be copied into another academicYear as that year's starting draft.
+    router.post(`/${routeName}/:id/copy`, requirePermission('hierarchy:write'), async (req, res) => {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return res.status(400).json({ message: `Invalid ${Model.modelName} ID` });
+            }
+            const result = parentField
+                ? await copySubtree(Model, req.params.id, req.body.targetParentId)
+                : await copySubtree(Model, req.params.id, undefined, {
+                    academicYear: req.body.academicYear ? await resolveClassYear(req.body.academicYear) : undefined
+                });
+            if (!result) return res.status(404).json({ message: `${Model.modelName} not found` });
+            console.log(`[Copy] ${Model.modelName} ${req.params.id} -> ${result.rootId}:`, result.copied);
+            res.status(201).json({ success: true, ...result });
+        } catch (error) {
+            console.error('[Copy] Error:', error);
+            res.status(error.status || 500).json({ message: error.message });
+        }
+    });
+
+    // Counts shown in the confirmation dialog before a cascading delete
+    router.get(`/${routeName}/:id/deletion-summary`, requirePermission('hierarchy:write'), async (req, res) => {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return res.status(400).json({ message: `Invalid ${Model.modelName} ID` });
+            }
+            const summary = await getDeletionSummary(Model, req.params.id);
+            if (!summary) return res.status(404).json({ message: `${Model.modelName} not found` });
+            res.json(summary);
+        } catch (error) {
+            res.status(500).json({ message: error.message });
+        }
+    });
+
+    // Moves the node with every descendant and their content to the Recycle Bin
+    router.delete(`/${routeName}/:id`, requirePermission('hierarchy:write'), async (req, res) => {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return res.status(400).json({ message: `Invalid ${Model.modelName} ID` });
+            }
+            const deleted = await softDeleteSubtree(Model, req.params.id, getDeletedBy(req));
+            if (!deleted) return res.status(404).json({ message: `${Model.modelName} not found` });
+            console.log(`[Cascade Delete] ${Model.modelName} ${req.params.id}:`, deleted);
+            res.json({ success: true, deleted });
+        } catch (error) {
+            console.error('[Cascade Delete] Error:', error);
             res.status(500).json({ message: error.message });
         }
     });
 };
 
 
+// Schedule dates only change through the /schedule routes; publishing by hand drops a
+// pending release so the scheduler does not act on it later
+const publishUpdate = (body) => {
+    const { publishAt, unpublishAt, ...updates } = body;
+    return updates.isPublished === true ? { $set: updates, $unset: { publishAt: 1 } } : { $set: updates };
+};
+
+// Sets or clears publishAt / unpublishAt (see utils/publishSchedule.cjs)
+const handleScheduleUpdate = (Model) => async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ message: `Invalid ${Model.modelName} ID` });
+        }
+        const updated = await updatePublishSchedule(Model, req.params.id, req.body);
+        res.json(updated);
+    } catch (error) {
+        console.error('[Publish Schedule] Update error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+};
+
+// Fields a hierarchy node's PUT may change. Parents, order, schedules and the Recycle Bin have
+// routes of their own; lesson metadata goes through the same checks as /lessons/:id/metadata.
+const HIERARCHY_UPDATE_FIELDS = ['name', 'isPublished'];
+
 // Explicit Update Routes for Hierarchy to ensure isPublished works and requests are logged
 const handleHierarchyUpdate = (Model) => async (req, res) => {
     try {
         console.log(`[Update] Updating ${Model.modelName} ${req.params.id}`, req.body);
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ message: `Invalid ${Model.modelName} ID` });
+        }
 
-        // Handle isPublished explicitly if present, along with other fields
-        const updates = { ...req.body };
+        const updates = {};
+        for (const field of HIERARCHY_UPDATE_FIELDS) {
+            if (req.body[field] !== undefined) updates[field] = req.body[field];
+        }
+        if (updates.name !== undefined) {
+            if (typeof updates.name !== 'string' || !updates.name.trim()) {
+                return res.status(400).json({ message: 'Name is required' });
+            }
+            updates.name = updates.name.trim();
+        }
+        if (updates.isPublished !== undefined && typeof updates.isPublished !== 'boolean') {
+            return res.status(400).json({ message: 'isPublished must be true or false' });
+        }
 
-        const updated = await Model.findByIdAndUpdate(
-            req.params.id,
-            { $set: updates },
-            { new: true }
-        );
+        const update = publishUpdate(updates);
+        if (Model === Lesson) {
+            const metadata = buildMetadataUpdate(req.body);
+            Object.assign(update.$set, metadata.$set);
+            if (metadata.$unset) update.$unset = { ...update.$unset, ...metadata.$unset };
+        }
+        if (Object.keys(update.$set).length === 0 && !update.$unset) {
+            return res.status(400).json({ message: 'Nothing to update' });
+        }
+
+        const updated = await Model.findByIdAndUpdate(req.params.id, update, { new: true });
 
         if (!updated) {
             return res.status(404).json({ message: `${Model.modelName} not found` });
@@ -1928,16 +3037,42 @@ const handleHierarchyUpdate = (Model) => async (req, res) => {
         res.json(updated);
     } catch (error) {
         console.error(`[Update] Error:`, error);
-        res.status(400).json({ message: error.message });
+        res.status(error.status || 400).json({ message: error.message });
     }
 };
 
 // Register explicit update routes BEFORE createCrudRoutes to take precedence
-router.put('/classes/:id', handleHierarchyUpdate(Class));
-router.put('/subjects/:id', handleHierarchyUpdate(Subject));
-router.put('/units/:id', handleHierarchyUpdate(Unit));
-router.put('/subUnits/:id', handleHierarchyUpdate(SubUnit));
-router.put('/lessons/:id', handleHierarchyUpdate(Lesson));
+router.put('/classes/:id', requirePermission('hierarchy:write'), handleHierarchyUpdate(Class));
+router.put('/subjects/:id', requirePermission('hierarchy:write'), handleHierarchyUpdate(Subject));
+router.put('/units/:id', requirePermission('hierarchy:write'), handleHierarchyUpdate(Unit));
+router.put('/subUnits/:id', requirePermission('hierarchy:write'), handleHierarchyUpdate(SubUnit));
+router.put('/lessons/:id', requirePermission('hierarchy:write'), handleHierarchyUpdate(Lesson));
+router.put('/classes/:id/schedule', requirePermission('hierarchy:write'), handleScheduleUpdate(Class));
+router.put('/subjects/:id/schedule', requirePermission('hierarchy:write'), handleScheduleUpdate(Subject));
+router.put('/units/:id/schedule', requirePermission('hierarchy:write'), handleScheduleUpdate(Unit));
+router.put('/subUnits/:id/schedule', requirePermission('hierarchy:write'), handleScheduleUpdate(SubUnit));
+router.put('/lessons/:id/schedule', requirePermission('hierarchy:write'), handleScheduleUpdate(Lesson));
+// Learning objectives, teaching periods, keywords and competencies (CP1–CP7) for the lesson overview
+router.put('/lessons/:id/metadata', requirePermission('hierarchy:write'), async (req, res) => {
+    try {
+        res.json(await updateLessonMetadata(req.params.id, req.body));
+    } catch (error) {
+        console.error('[Lesson Metadata] Error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+// A teacher who needs review may only schedule the release of approved items
+const requireApprovalToSchedule = async (req, res, next) => {
+    if (!requiresReview(req.user) || !req.body.publishAt) return next();
+    try {
+        const content = await Content.findById(req.params.id).select('review').lean();
+        if (content) assertCanPublish(req, content);
+        next();
+    } catch (error) {
+        res.status(error.status || 500).json({ message: error.message });
+    }
+};
+router.put('/content/:id/schedule', requirePermission('content:write'), requireEditScope(lessonFromContentParam), requireApprovalToSchedule, handleScheduleUpdate(Content));
 
 createCrudRoutes(Class, 'classes');
 createCrudRoutes(Subject, 'subjects', 'classId');
@@ -1946,16 +3081,21 @@ createCrudRoutes(SubUnit, 'subUnits', 'unitId');
 createCrudRoutes(Lesson, 'lessons', 'subUnitId');
 
 // Explicit PUT route for Content updates (including isPublished)
-router.put('/content/:id', async (req, res) => {
+router.put('/content/:id', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
     try {
         const { id } = req.params;
-        const updates = req.body;
+        // Review state only changes through the /review routes and the rules in applyReviewRules
+        const { review, ...updates } = req.body;
 
         console.log(`[API /content/:id] Updating content ${id}:`, updates);
 
+        const previous = await Content.findById(id).lean();
+        if (!previous) {
+            return res.status(404).json({ message: 'Content not found' });
+        }
         const updatedContent = await Content.findByIdAndUpdate(
             id,
-            { $set: updates },
+            applyReviewRules(req, previous, updates, publishUpdate(updates)),
             { new: true }
         );
 
@@ -1963,16 +3103,97 @@ router.put('/content/:id', async (req, res) => {
             return res.status(404).json({ message: 'Content not found' });
         }
 
+        // The save has happened; a failed revision is logged rather than reported as a failed save
+        await recordRevision(previous, updatedContent.toObject(), req)
+            .catch(error => console.error('[Revisions] Failed to record revision:', error));
+
         res.json(updatedContent);
     } catch (error) {
         console.error('[API /content/:id] Update error:', error);
-        res.status(500).json({ message: error.message });
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// --- Content Revisions ---
+// Every save that changes a title, body or metadata keeps the new version (last 50)
+router.get('/content/:id/revisions', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
+    try {
+        res.json(await listRevisions(req.params.id));
+    } catch (error) {
+        console.error('[Revisions] List error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+router.post('/content/:id/revisions/:revisionId/restore', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
+    try {
+        const restored = await restoreRevision(req.params.id, req.params.revisionId, req, {
+            applyRules: (previous, updates, update) => applyReviewRules(req, previous, updates, update)
+        });
+        console.log(`[Revisions] Content ${req.params.id} restored to revision ${req.params.revisionId}`);
+        res.json(restored);
+    } catch (error) {
+        console.error('[Revisions] Restore error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// --- Editorial Review ---
+// Teachers with requiresReview submit content; admins approve it or ask for changes (utils/contentReview.cjs)
+router.get('/reviews', requirePermission('content:review'), async (req, res) => {
+    try {
+        res.json(await listReviewQueue({ status: req.query.status || undefined }));
+    } catch (error) {
+        console.error('[Review] Queue error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+router.get('/content/:id/review', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
+    try {
+        res.json(await getReviewItem(req.params.id));
+    } catch (error) {
+        console.error('[Review] Load error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+router.post('/content/:id/review/submit', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
+    try {
+        const content = await submitForReview(req.params.id, req, req.body);
+        console.log(`[Review] Content ${req.params.id} submitted for review`);
+        res.json(content);
+    } catch (error) {
+        console.error('[Review] Submit error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// { text, quote? } - quote is the passage of the body the comment is about
+router.post('/content/:id/review/comments', requirePermission('content:write'), requireEditScope(lessonFromContentParam), async (req, res) => {
+    try {
+        res.json(await addReviewComment(req.params.id, req, req.body));
+    } catch (error) {
+        console.error('[Review] Comment error:', error);
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// { decision: 'approve' | 'request_changes', comment?, publish? }
+router.post('/content/:id/review/decision', requirePermission('content:review'), async (req, res) => {
+    try {
+        const result = await decideReview(req.params.id, req, req.body);
+        console.log(`[Review] Content ${req.params.id}: ${req.body.decision}`);
+        res.json(result);
+    } catch (error) {
+        console.error('[Review] Decision error:', error);
+        res.status(error.status || 500).json({ message: error.message });
     }
 });
 
 // --- Content Routes ---
 // Updated to always return grouped format for consistency across all views  
-router.get('/content', async (req, res) => {
+router.get('/content', requirePermission('content:read'), async (req, res) => {
     try {
         const { lessonId, type, onlyPublished } = req.query;
 
@@ -1990,7 +3211,7 @@ router.get('/content', async (req, res) => {
         }
 
         if (type) query.type = type;
-        if (onlyPublished === 'true') query.isPublished = true;
+        if (onlyPublished === 'true') Object.assign(query, publishedContentFilter());
 
         console.log('[API /content] Query:', query);
 
@@ -2024,7 +3245,7 @@ router.get('/content', async (req, res) => {
 });
 
 // Flashcard-specific endpoint
-router.get('/flashcards/:lessonId', async (req, res) => {
+router.get('/flashcards/:lessonId', requirePermission('content:read'), async (req, res) => {
     try {
         const { lessonId } = req.params;
         console.log('[API /flashcards] Request for lessonId:', lessonId);
@@ -2045,7 +3266,7 @@ router.get('/flashcards/:lessonId', async (req, res) => {
             type: 'flashcard'
         };
         if (req.query.onlyPublished === 'true') {
-            query.isPublished = true;
+            Object.assign(query, publishedContentFilter());
         }
 
         const flashcards = await Content.find(query);
@@ -2070,7 +3291,7 @@ router.get('/flashcards/:lessonId', async (req, res) => {
 });
 
 // Q&A-specific endpoint with enhanced features
-router.get('/qa/:lessonId', async (req, res) => {
+router.get('/qa/:lessonId', requirePermission('content:read'), async (req, res) => {
     try {
         const { lessonId } = req.params;
         const { questionType, cognitiveProcess, marks, limit, skip, onlyPublished } = req.query;
@@ -2104,7 +3325,7 @@ router.get('/qa/:lessonId', async (req, res) => {
             query['metadata.marks'] = Number(marks);
         }
         if (onlyPublished === 'true') {
-            query.isPublished = true;
+            Object.assign(query, publishedContentFilter());
         }
 
         // Build options
@@ -2144,7 +3365,7 @@ router.get('/qa/:lessonId', async (req, res) => {
 });
 
 // Get Q&A statistics for a lesson
-router.get('/qa/:lessonId/stats', async (req, res) => {
+router.get('/qa/:lessonId/stats', requirePermission('content:read'), async (req, res) => {
     try {
         const { lessonId } = req.params;
 
@@ -2231,7 +3452,7 @@ router.get('/qa/:lessonId/stats', async (req, res) => {
     }
 });
 
-router.post('/content', async (req, res) => {
+router.post('/content', requirePermission('content:write'), requireEditScope(lessonFromBody), async (req, res) => {
     try {
         console.log('[API] Content creation request:', {
             type: req.body.type,
@@ -2257,9 +3478,11 @@ router.post('/content', async (req, res) => {
         }
 
         // Ensure lessonId is properly converted to ObjectId
+        const { review, ...body } = req.body;
         const contentData = {
-            ...req.body,
-            lessonId: new mongoose.Types.ObjectId(req.body.lessonId)
+            ...body,
+            lessonId: new mongoose.Types.ObjectId(req.body.lessonId),
+            ...initialReviewState(req)
         };
 
         console.log('[API] Content data to save:', {
@@ -2300,90 +3523,10 @@ router.post('/content', async (req, res) => {
     }
 });
 
-router.delete('/content/:id', async (req, res) => {
-    try {
-        const contentId = req.params.id;
-        console.log('[API /content/:id DELETE] Starting deletion for content ID:', contentId);
-
-        // Find the content record first to get file path
-        const content = await Content.findById(contentId);
-        if (!content) {
-            console.log('[API /content/:id DELETE] Content not found:', contentId);
-            return res.status(404).json({ message: 'Content not found' });
-        }
-
-        console.log('[API /content/:id DELETE] Found content:', {
-            id: content._id,
-            title: content.title,
-            type: content.type,
-            storage: content.storage,
-            filePath: content.filePath,
-            filePublicId: content.file?.publicId
-        });
-
-        // Delete file from Cloudinary (if publicId exists) or filesystem
-        if (content.file && content.file.publicId) {
-            try {
-                // Determine resource type based on content type
-                let resourceType = 'image';
-                if (content.type === 'video' || content.type === 'audio') resourceType = 'video';
-
-                console.log('[API /content/:id DELETE] Deleting Cloudinary file:', {
-                    publicId: content.file.publicId,
-                    resourceType: resourceType
-                });
-
-                await cloudinary.uploader.destroy(content.file.publicId, { resource_type: resourceType });
-                console.log('[API /content/:id DELETE] Cloudinary file deleted successfully:', content.file.publicId);
-            } catch (cloudError) {
-                console.error('[API /content/:id DELETE] Error deleting from Cloudinary:', cloudError);
-                // Don't fail the entire deletion if Cloudinary cleanup fails
-            }
-        } else if (content.filePath) {
-            const fullFilePath = content.filePath.startsWith(path.sep) ?
-                content.filePath :
-                path.resolve(__dirname, '../../', content.filePath);
-
-            console.log('[API /content/:id DELETE] Deleting local file:', fullFilePath);
-
-            if (fs.existsSync(fullFilePath)) {
-                fs.unlinkSync(fullFilePath);
-                console.log('[API /content/:id DELETE] Local file deleted successfully:', fullFilePath);
-            } else {
-                console.log('[API /content/:id DELETE] Local file not found for deletion:', fullFilePath);
-            }
-        } else {
-            console.log('[API /content/:id DELETE] No file to delete (no filePath or publicId)');
-        }
-
-        // Delete the content record from database
-        console.log('[API /content/:id DELETE] Deleting content record from database:', contentId);
-        await Content.findByIdAndDelete(contentId);
-
-        console.log('[API /content/:id DELETE] Content deletion completed successfully:', contentId);
-
-        res.json({
-            success: true,
-            message: 'Content and associated file deleted successfully',
-            deletedContent: {
-                id: content._id,
-                title: content.title,
-                type: content.type,
-                filePath: content.filePath,
-                filePublicId: content.file?.publicId
-            }
-        });
-    } catch (error) {
-        console.error('[API /content/:id DELETE] Content deletion error:', error);
-        res.status(500).json({ message: error.message });
-    }
-});
-
-
 
 // --- Download & Email Route ---
 // --- Enhanced Download Route with Brevo SMTP ---
-router.post('/content/:id/download', async (req, res) => {
+router.post('/content/:id/download', requirePermission('content:read'), async (req, res) => {
     const contentId = req.params.id;
     const { email, userId: requestUserId } = req.body; // userId can be sent from frontend
 
@@ -2615,7 +3758,7 @@ router.post('/content/:id/download', async (req, res) => {
 });
 
 // Deprecated: Old route kept for backward compatibility (temporarily)
-router.post('/content/:id/download-email', async (req, res) => {
+router.post('/content/:id/download-email', requirePermission('content:read'), async (req, res) => {
     // Redirect logic to new handler or keep as is? 
     // For safety, let's keep it but logging a warning, OR just copy the new logic here?
     // I'll make it use the new logic to ensure consistency immediately.
@@ -2638,8 +3781,15 @@ router.post('/content/:id/download-email', async (req, res) => {
 
 // --- Stats Route ---
 // --- Stats Route ---
-router.get('/stats', async (req, res) => {
+// Content counts are platform-wide; user and download counts follow the location filter
+router.get('/stats', requirePermission('stats:read'), async (req, res) => {
     try {
+        const userQuery = getLocationFilter(req) || {};
+        const downloadQuery = { downloadStatus: 'success' };
+        if (Object.keys(userQuery).length > 0) {
+            downloadQuery.userId = { $in: await getUserIdsForLocation(userQuery) };
+        }
+
         const [
             classCount, classPublished,
             subjectCount, subjectPublished,
@@ -2649,6 +3799,7 @@ router.get('/stats', async (req, res) => {
             contentCount, contentPublished,
             userCount,
             adminCount, teacherCount, studentCount,
+            downloadCount,
             contentByType
         ] = await Promise.all([
             Class.countDocuments(), Class.countDocuments({ isPublished: true }),
@@ -2657,10 +3808,11 @@ router.get('/stats', async (req, res) => {
             SubUnit.countDocuments(), SubUnit.countDocuments({ isPublished: true }),
             Lesson.countDocuments(), Lesson.countDocuments({ isPublished: true }),
             Content.countDocuments(), Content.countDocuments({ isPublished: true }),
-            User.countDocuments(),
-            User.countDocuments({ role: 'admin' }),
-            User.countDocuments({ role: 'teacher' }),
-            User.countDocuments({ role: 'student' }),
+            User.countDocuments(userQuery),
+            User.countDocuments({ ...userQuery, role: 'admin' }),
+            User.countDocuments({ ...userQuery, role: 'teacher' }),
+            User.countDocuments({ ...userQuery, role: 'student' }),
+            DownloadLog.countDocuments(downloadQuery),
             Content.aggregate([
                 { $group: { _id: '$type', count: { $sum: 1 } } }
             ])
@@ -2673,7 +3825,7 @@ router.get('/stats', async (req, res) => {
 
         res.json({
             classCount, subjectCount, unitCount, subUnitCount, lessonCount, contentCount, userCount,
-            adminCount, teacherCount, studentCount,
+            adminCount, teacherCount, studentCount, downloadCount,
             contentByType: resourceCounts,
 
             // Publication Stats
@@ -2689,7 +3841,7 @@ router.get('/stats', async (req, res) => {
             lessonUnpublishedCount: lessonCount - lessonPublished
         });
     } catch (error) {
-        res.status(500).json({ message: error.message });
+        res.status(error.status || 500).json({ message: error.message });
     }
 });
 
@@ -2698,7 +3850,7 @@ router.get('/stats', async (req, res) => {
 
 
 // --- Increment Download Stats Route ---
-router.post('/stats/download/lesson/:id', async (req, res) => {
+router.post('/stats/download/lesson/:id', requirePermission('content:read'), async (req, res) => {
     try {
         const { id } = req.params;
         const { type } = req.body; // 'notes' or 'qa'
@@ -2736,7 +3888,7 @@ router.post('/stats/download/lesson/:id', async (req, res) => {
 
 // --- Export PDF & Email Route ---
 // --- Export PDF & Email Route ---
-router.post('/export/send-pdf', upload.single('file'), async (req, res) => {
+router.post('/export/send-pdf', requirePermission('content:read'), upload.single('file'), async (req, res) => {
     let downloadLog = null;
     const adminPhone = '7904838296';
 
@@ -2859,19 +4011,8 @@ router.post('/export/send-pdf', upload.single('file'), async (req, res) => {
         }
 
         // 4. Configure Email
-        // Force load .env from api folder (Robustness check)
-        if (!process.env.BREVO_USER && !process.env.SMTP_USER && !process.env.EMAIL_USER) {
-            const p1 = path.join(__dirname, '../.env');
-            const p2 = path.join(process.cwd(), 'api/.env');
-            require('dotenv').config({ path: p1 });
-            require('dotenv').config({ path: p2 });
-        }
-
-        const emailUser = process.env.EMAIL_USER || process.env.SMTP_USER || process.env.BREVO_USER;
-        const emailPass = process.env.EMAIL_PASS || process.env.SMTP_PASS || process.env.BREVO_PASS;
-        const senderEmail = process.env.SENDER_EMAIL || emailUser;
-
-        if (!emailUser || !emailPass) {
+        const mailConfig = getMailConfig();
+        if (!mailConfig) {
             console.error('[Export PDF] Email credentials missing');
             if (downloadLog) {
                 await DownloadLog.findByIdAndUpdate(downloadLog._id, {
@@ -2885,30 +4026,8 @@ router.post('/export/send-pdf', upload.single('file'), async (req, res) => {
             });
         }
 
-        let transporterConfig;
-        if (process.env.SMTP_HOST) {
-            const port = parseInt(process.env.SMTP_PORT || '465');
-            transporterConfig = {
-                host: process.env.SMTP_HOST,
-                port: port,
-                secure: port === 465,
-                auth: { user: emailUser, pass: emailPass }
-            };
-        } else if (process.env.BREVO_USER) {
-            transporterConfig = {
-                host: 'smtp-relay.brevo.com',
-                port: 587,
-                secure: false,
-                auth: { user: emailUser, pass: emailPass }
-            };
-        } else {
-            transporterConfig = {
-                service: 'gmail',
-                auth: { user: emailUser, pass: emailPass }
-            };
-        }
-
-        const transporter = nodemailer.createTransport(transporterConfig);
+        const senderEmail = mailConfig.senderEmail;
+        const transporter = nodemailer.createTransport(mailConfig.transport);
 
         // 5. Send Mail
         // 5. Send Mail
@@ -2980,7 +4099,7 @@ router.post('/export/send-pdf', upload.single('file'), async (req, res) => {
 
 
 // --- Admin: Get Download Logs ---
-router.get('/admin/downloads', async (req, res) => {
+router.get('/admin/downloads', requirePermission('downloads:read'), async (req, res) => {
     try {
         const { status, page = 1, limit = 50, userId, contentType, startDate, endDate } = req.query;
 
@@ -2995,6 +4114,12 @@ router.get('/admin/downloads', async (req, res) => {
             query.userId = userId;
         }
 
+        const locationFilter = getLocationFilter(req);
+        if (locationFilter) {
+            const userIds = await getUserIdsForLocation(locationFilter);
+            query.userId = { $in: userId ? userIds.filter(id => String(id) === String(userId)) : userIds };
+        }
+
         if (contentType) {
             query.contentType = contentType;
         }
@@ -3030,145 +4155,178 @@ router.get('/admin/downloads', async (req, res) => {
 
     } catch (error) {
         console.error('[Admin Downloads] Error:', error);
-        res.status(500).json({ success: false, message: error.message });
+        res.status(error.status || 500).json({ success: false, message: error.message });
     }
 });
 
-// --- Admin: Get Download Stats ---
-router.get('/admin/downloads/stats', async (req, res) => {
+// --- Admin: Audit Log ---
+router.get('/admin/audit-logs', requirePermission('audit:read'), async (req, res) => {
     try {
-        const [totalDownloads, successDownloads, failedDownloads, recentDownloads] = await Promise.all([
-            DownloadLog.countDocuments(),
-            DownloadLog.countDocuments({ downloadStatus: 'success' }),
-            DownloadLog.countDocuments({ downloadStatus: 'failed' }),
-            DownloadLog.find()
-                .populate('userId', 'name email')
-                .populate('contentId', 'title type')
-                .sort({ downloadedAt: -1 })
-                .limit(10)
+        const { actorId, actorType, entity, entityId, startDate, endDate, page = 1, limit = 50 } = req.query;
+
+        if (actorId && !mongoose.Types.ObjectId.isValid(actorId)) {
+            return res.status(400).json({ success: false, message: 'Invalid actorId' });
+        }
+        for (const [label, value] of [['startDate', startDate], ['endDate', endDate]]) {
+            if (value && Number.isNaN(new Date(value).getTime())) {
+                return res.status(400).json({ success: false, message: `Invalid ${label}` });
+            }
+        }
+
+        const query = {};
+        if (actorId) query.actorId = actorId;
+        if (actorType) query.actorType = actorType;
+        if (entity) query.entity = entity;
+        if (entityId) query.entityId = entityId;
+        if (startDate || endDate) {
+            query.createdAt = {};
+            if (startDate) query.createdAt.$gte = new Date(startDate);
+            if (endDate) {
+                // Date-only end dates include the whole day
+                const end = new Date(endDate);
+                if (/^\d{4}-\d{2}-\d{2}$/.test(endDate)) end.setUTCHours(23, 59, 59, 999);
+                query.createdAt.$lte = end;
+            }
+        }
+
+        const pageSize = Math.min(parseInt(limit) || 50, 200);
+        const skip = (Math.max(parseInt(page) || 1, 1) - 1) * pageSize;
+
+        const [logs, total, entities] = await Promise.all([
+            AuditLog.find(query).sort({ createdAt: -1 }).skip(skip).limit(pageSize).lean(),
+            AuditLog.countDocuments(query),
+            AuditLog.distinct('entity')
         ]);
 
         res.json({
             success: true,
-            stats: {
-                total: totalDownloads,
-                success: successDownloads,
-                failed: failedDownloads,
-                successRate: totalDownloads > 0 ? ((successDownloads / totalDownloads) * 100).toFixed(2) : 0
-            },
-            recentDownloads
+            logs,
+            entities: entities.filter(Boolean).sort(),
+            pagination: {
+                total,
+                page: parseInt(page) || 1,
+                pages: Math.ceil(total / pageSize)
+            }
         });
-
     } catch (error) {
-        console.error('[Admin Stats] Error:', error);
+        console.error('[Audit Log] Error:', error);
         res.status(500).json({ success: false, message: error.message });
     }
 });
 
-// --- DELETE Content ---
-router.delete('/content/:id', async (req, res) => {
+// --- Admin: Publish Schedule ---
+// Scheduled releases and withdrawals in [from, to) for the calendar view
+router.get('/admin/publish-schedule', requirePermission('hierarchy:write'), async (req, res) => {
     try {
-        const { id } = req.params;
-        console.log('[Delete Content] Request to delete content:', id);
-
-        // Validate ID format
-        if (!mongoose.Types.ObjectId.isValid(id)) {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid content ID format'
-            });
-        }
+        res.json({ success: true, ...(await listScheduledEvents(req.query)) });
+    } catch (error) {
+        console.error('[Publish Schedule] Error:', error);
+        res.status(error.status || 500).json({ success: false, message: error.message });
+    }
+});
 
-        // Find the content first to get file info for cleanup
-        const content = await Content.findById(id);
+// --- Admin: Recycle Bin ---
+// Soft-deleted hierarchy nodes and content. Entries past the retention period are purged in
+// batches by the publish schedule sweep (utils/publishSchedule.cjs).
+router.get('/admin/recycle-bin', requirePermission('recycle-bin:manage'), async (req, res) => {
+    try {
+        const { kind, page, limit } = req.query;
+        res.json({ success: true, ...(await listRecycleBin({ kind, page, limit })) });
+    } catch (error) {
+        console.error('[Recycle Bin] Error:', error);
+        res.status(error.status || 500).json({ success: false, message: error.message });
+    }
+});
 
-        if (!content) {
-            return res.status(404).json({
-                success: false,
-                message: 'Content not found'
-            });
+router.post('/admin/recycle-bin/:kind/:id/restore', requirePermission('recycle-bin:manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ success: false, message: 'Invalid ID' });
         }
+        const restored = await restoreEntry(req.params.kind, req.params.id);
+        res.json({ success: true, restored });
+    } catch (error) {
+        console.error('[Recycle Bin] Restore error:', error);
+        res.status(error.status || 500).json({ success: false, message: error.message });
+    }
+});
 
-        console.log('[Delete Content] Found content:', {
-            id: content._id,
-            title: content.title,
-            type: content.type,
-            storage: content.storage,
-            hasFile: !!content.file
-        });
-
-        // Delete from database
-        await Content.findByIdAndDelete(id);
-        console.log('[Delete Content] Content deleted from database');
-
-        // Optional: Clean up Cloudinary file if it exists
-        if (content.storage === 'cloudinary' && content.file && content.file.publicId) {
-            try {
-                let resourceType = 'raw';
-                if (content.type === 'video' || content.type === 'audio') {
-                    resourceType = 'video';
-                } else if (content.file.mime && content.file.mime.startsWith('image/')) {
-                    resourceType = 'image';
-                }
+// Permanent delete, stored files included
+router.delete('/admin/recycle-bin/:kind/:id', requirePermission('recycle-bin:manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ success: false, message: 'Invalid ID' });
+        }
+        const deleted = await purgeEntry(req.params.kind, req.params.id);
+        res.json({ success: true, deleted });
+    } catch (error) {
+        console.error('[Recycle Bin] Purge error:', error);
+        res.status(error.status || 500).json({ success: false, message: error.message });
+    }
+});
 
-                await cloudinary.uploader.destroy(content.file.publicId, { resource_type: resourceType });
-                console.log('[Delete Content] Cloudinary file deleted:', content.file.publicId);
-            } catch (cloudinaryError) {
-                console.error('[Delete Content] Cloudinary cleanup failed (non-critical):', cloudinaryError.message);
-                // Don't fail the request if Cloudinary cleanup fails
-            }
+// --- Admin: Get Download Stats ---
+router.get('/admin/downloads/stats', requirePermission('downloads:read'), async (req, res) => {
+    try {
+        const query = {};
+        const locationFilter = getLocationFilter(req);
+        if (locationFilter) {
+            query.userId = { $in: await getUserIdsForLocation(locationFilter) };
         }
 
+        const [totalDownloads, successDownloads, failedDownloads, recentDownloads] = await Promise.all([
+            DownloadLog.countDocuments(query),
+            DownloadLog.countDocuments({ ...query, downloadStatus: 'success' }),
+            DownloadLog.countDocuments({ ...query, downloadStatus: 'failed' }),
+            DownloadLog.find(query)
+                .populate('userId', 'name email')
+                .populate('contentId', 'title type')
+                .sort({ downloadedAt: -1 })
+                .limit(10)
+        ]);
+
         res.json({
             success: true,
-            message: 'Content deleted successfully'
+            stats: {
+                total: totalDownloads,
+                success: successDownloads,
+                failed: failedDownloads,
+                successRate: totalDownloads > 0 ? ((successDownloads / totalDownloads) * 100).toFixed(2) : 0
+            },
+            recentDownloads
         });
 
     } catch (error) {
-        console.error('[Delete Content] Error:', error);
-        res.status(500).json({
-            success: false,
-            message: error.message || 'Failed to delete content'
-        });
+        console.error('[Admin Stats] Error:', error);
+        res.status(error.status || 500).json({ success: false, message: error.message });
     }
 });
 
+
 // Bulk delete content
-router.post('/content/bulk-delete', async (req, res) => {
+router.post('/content/bulk-delete', requirePermission('content:write'), requireEditScope(lessonsFromContentIds), async (req, res) => {
     try {
         const { ids } = req.body;
 
         if (!ids || !Array.isArray(ids) || ids.length === 0) {
             return res.status(400).json({ success: false, message: 'No IDs provided' });
         }
+        if (!ids.every(id => mongoose.Types.ObjectId.isValid(id))) {
+            return res.status(400).json({ success: false, message: 'Invalid ID' });
+        }
 
         console.log(`[Bulk Delete] Deleting ${ids.length} content items`);
 
-        // Find items to delete to clean up Cloudinary
-        const itemsToDelete = await Content.find({ _id: { $in: ids } });
-
-        for (const item of itemsToDelete) {
-            if (item.storage === 'cloudinary' && item.file && item.file.publicId) {
-                try {
-                    let resourceType = 'raw';
-                    if (item.type === 'video' || item.type === 'audio') {
-                        resourceType = 'video';
-                    } else if (item.file.mime && item.file.mime.startsWith('image/')) {
-                        resourceType = 'image';
-                    }
-                    await cloudinary.uploader.destroy(item.file.publicId, { resource_type: resourceType });
-                } catch (e) {
-                    console.error(`[Bulk Delete] Failed to delete Cloudinary file for ${item._id}:`, e.message);
-                }
-            }
-        }
-
-        const result = await Content.deleteMany({ _id: { $in: ids } });
+        // Each item becomes its own Recycle Bin entry; stored files stay until it is purged
+        const result = await Content.updateMany(
+            { _id: { $in: ids } },
+            { $set: { deletedAt: new Date(), deletedBy: getDeletedBy(req) } }
+        );
 
         res.json({
             success: true,
-            message: `${result.deletedCount} items deleted successfully`,
-            deletedCount: result.deletedCount
+            message: `${result.modifiedCount} items moved to the Recycle Bin`,
+            deletedCount: result.modifiedCount
         });
     } catch (error) {
         console.error('[Bulk Delete] Error:', error);
@@ -3180,7 +4338,7 @@ router.post('/content/bulk-delete', async (req, res) => {
 // --- User Teacher Request Routes ---
 
 // Request to become a teacher
-router.post('/user/request-teacher', async (req, res) => {
+router.post('/user/request-teacher', requireSelfOrPermission('users:write', (req) => req.body.userId), async (req, res) => {
     try {
         const { userId } = req.body;
         if (!userId) return res.status(400).json({ message: 'User ID required' });
@@ -3207,7 +4365,7 @@ router.post('/user/request-teacher', async (req, res) => {
 });
 
 // Get all teacher requests (Admin only)
-router.get('/user/teacher-requests', async (req, res) => {
+router.get('/user/teacher-requests', requirePermission('teacher-requests:review'), async (req, res) => {
     try {
         // Fetch users who have requested 'teacher' role, or are approved/rejected
         const users = await User.find({
@@ -3221,7 +4379,7 @@ router.get('/user/teacher-requests', async (req, res) => {
 });
 
 // Approve teacher request
-router.post('/user/approve-teacher/:userId', async (req, res) => {
+router.post('/user/approve-teacher/:userId', requirePermission('teacher-requests:review'), async (req, res) => {
     try {
         const { userId } = req.params;
         const user = await User.findById(userId);
@@ -3239,7 +4397,7 @@ router.post('/user/approve-teacher/:userId', async (req, res) => {
 });
 
 // Reject teacher request
-router.post('/user/reject-teacher/:userId', async (req, res) => {
+router.post('/user/reject-teacher/:userId', requirePermission('teacher-requests:review'), async (req, res) => {
     try {
         const { userId } = req.params;
         const user = await User.findById(userId);
@@ -3255,8 +4413,84 @@ router.post('/user/reject-teacher/:userId', async (req, res) => {
     }
 });
 
+// --- Student Registration Queue (Admin only) ---
+router.get('/user/registrations', requirePermission('registrations:review'), async (req, res) => {
+    try {
+        const users = await User.find({
+            registrationStatus: { $in: ['pending', 'approved', 'rejected'] }
+        }).select('-password').sort({ createdAt: -1 });
+        res.json(users);
+    } catch (error) {
+        console.error('Error fetching registrations:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
+const sendRegistrationDecisionEmail = (user, decision, note) => sendMail({
+    to: user.email,
+    subject: decision === 'approve'
+        ? 'Tamil Vizhuthugal - Your account has been approved'
+        : 'Tamil Vizhuthugal - Your registration was not approved',
+    html: `
+        <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px;">
+            <h2 style="color: #1a73e8;">வணக்கம் ${escapeHtml(user.name)}!</h2>
+            ${decision === 'approve'
+                ? `<p style="font-size: 16px; color: #333;">Your student account has been approved. You can now sign in with the username <strong>${escapeHtml(user.username)}</strong>.</p>`
+                : `<p style="font-size: 16px; color: #333;">Sorry, your registration could not be approved.</p>`}
+            ${note ? `<p style="font-size: 14px; color: #555;">Note from the admin: ${escapeHtml(note)}</p>` : ''}
+        </div>
+    `
+});
+
+// Approve or reject one or more registrations: { userIds: [...], decision: 'approve' | 'reject', note? }
+router.post('/user/registrations/review', requirePermission('registrations:review'), async (req, res) => {
+    try {
+        const { userIds, decision } = req.body;
+        const note = String(req.body.note || '').trim();
+
+        if (!Array.isArray(userIds) || userIds.length === 0) {
+            return res.status(400).json({ message: 'No users selected' });
+        }
+        if (!['approve', 'reject'].includes(decision)) {
+            return res.status(400).json({ message: 'Decision must be approve or reject' });
+        }
+
+        const users = await User.find({
+            _id: { $in: userIds.filter(id => mongoose.Types.ObjectId.isValid(id)) },
+            registrationStatus: { $in: ['pending', 'approved', 'rejected'] }
+        });
+
+        const updates = decision === 'approve'
+            ? { registrationStatus: 'approved', status: 'active' }
+            : { registrationStatus: 'rejected', status: 'inactive' };
+
+        const emailFailures = [];
+        for (const user of users) {
+            await User.updateOne({ _id: user._id }, {
+                $set: { ...updates, registrationReviewedAt: new Date(), registrationNote: note || null }
+            });
+            try {
+                await sendRegistrationDecisionEmail(user, decision, note);
+            } catch (mailError) {
+                console.error(`[Registration] Decision email failed for ${user._id}:`, mailError.message);
+                emailFailures.push(user.username);
+            }
+        }
+
+        res.json({
+            success: true,
+            message: `${users.length} registration${users.length === 1 ? '' : 's'} ${decision === 'approve' ? 'approved' : 'rejected'}`,
+            updated: users.length,
+            emailFailures
+        });
+    } catch (error) {
+        console.error('Error reviewing registrations:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
 // Generate Signed URL for Private/Authenticated Access
-router.post('/content/get-signed-url', (req, res) => {
+router.post('/content/get-signed-url', requirePermission('content:read'), (req, res) => {
     try {
         const { publicId, resourceType, format } = req.body;
 
@@ -0,0 +1,26 @@
+// One-off migration: fills the search fields on classes, subjects, units, sub-units, lessons and
+// contents saved before global search existed. Safe to re-run; rows already indexed are skipped.
+// Usage (from api/): npm run backfill:search
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { backfillSearchFields } from '../utils/search.cjs';
+
+const run = async () => {
+    const uri = process.env.MONGODB_URI;
+    if (!uri) {
+        throw new Error('MONGODB_URI is not defined in environment variables');
+    }
+
+    await mongoose.connect(uri);
+    try {
+        const indexed = await backfillSearchFields();
+        console.log('✓ Search index backfilled:', indexed);
+    } finally {
+        await mongoose.disconnect();
+    }
+};
+
+run().catch(error => {
+    console.error('✗ Search backfill failed:', error && (error.stack || error));
+    process.exit(1);
+});
@@ -0,0 +1,77 @@
+const { AcademicYear, Class } = require('../models.cjs');
+const { httpError } = require('./hierarchy.cjs');
+
+const MAX_NAME_LENGTH = 20;
+
+// Newest first; "2025-26" style names sort by year
+const listAcademicYears = () => AcademicYear.find().sort({ name: -1 }).lean();
+
+const getCurrentYear = () => AcademicYear.findOne({ isCurrent: true }).lean();
+
+// The first year becomes current and takes every class created before years existed
+const createAcademicYear = async ({ name } = {}) => {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) throw httpError(400, 'A name is required, e.g. 2025-26');
+    if (trimmed.length > MAX_NAME_LENGTH) throw httpError(400, `The name can be at most ${MAX_NAME_LENGTH} characters`);
+    if (await AcademicYear.exists({ name: trimmed })) throw httpError(409, `${trimmed} already exists`);
+
+    const isFirst = (await AcademicYear.countDocuments()) === 0;
+    const year = await AcademicYear.create({ name: trimmed, isCurrent: isFirst });
+    if (isFirst) {
+        await Class.updateMany({ academicYear: null }, { $set: { academicYear: trimmed } }).setOptions({ withDeleted: true });
+    }
+    return year;
+};
+
+// isCurrent: true makes this the default year and archives every older one. isArchived
+// opens or closes a single year; the current year cannot be archived.
+const updateAcademicYear = async (id, { isCurrent, isArchived } = {}) => {
+    const year = await AcademicYear.findById(id);
+    if (!year) throw httpError(404, 'Academic year not found');
+
+    if (isCurrent === true && !year.isCurrent) {
+        await AcademicYear.updateMany({ _id: { $ne: year._id } }, { $set: { isCurrent: false } });
+        await AcademicYear.updateMany({ name: { $lt: year.name } }, { $set: { isArchived: true } });
+        year.isCurrent = true;
+        year.isArchived = false;
+    } else if (isCurrent === false && year.isCurrent) {
+        throw httpError(400, 'Make another year current instead');
+    }
+
+    if (typeof isArchived === 'boolean' && isArchived !== year.isArchived) {
+        if (isArchived && year.isCurrent) throw httpError(400, 'The current year cannot be archived');
+        year.isArchived = isArchived;
+    }
+
+    await year.save();
+    return year;
+};
+
+// Classes of one year. Classes never tagged (e.g. restored from a collection import) are
+// shown with the current year.
+const classYearFilter = async (name) => {
+    const year = await AcademicYear.findOne({ name }).select('isCurrent').lean();
+    return year && year.isCurrent ? { academicYear: { $in: [name, null] } } : { academicYear: name };
+};
+
+// The year a new class goes to: the one asked for, else the current year (none before years exist)
+const resolveClassYear = async (name) => {
+    if (name) {
+        if (!(await AcademicYear.exists({ name }))) throw httpError(400, `Unknown academic year: ${name}`);
+        return name;
+    }
+    const current = await getCurrentYear();
+    return current ? current.name : undefined;
+};
+
+const getArchivedYearNames = () => AcademicYear.distinct('name', { isArchived: true });
+
+module.exports = {
+    listAcademicYears,
+    getCurrentYear,
+    createAcademicYear,
+    updateAcademicYear,
+    classYearFilter,
+    resolveClassYear,
+    getArchivedYearNames
+};
@@ -0,0 +1,201 @@
+const mongoose = require('mongoose');
+const { Content, User } = require('../models.cjs');
+const { HIERARCHY_LEVELS, httpError, getBreadcrumbs } = require('./hierarchy.cjs');
+const { hasRevisedChange, savedByFrom } = require('./contentRevisions.cjs');
+const { sendMail, escapeHtml } = require('./mailer.cjs');
+
+// Editorial review for teachers flagged requiresReview:
+//
+//   draft → submitted → approved → published
+//                     ↘ changes_requested → submitted ...
+//
+// Only the author's own saves move an item back to draft; anyone who may publish directly
+// approves an item by publishing it.
+const REVIEW_STATUSES = ['draft', 'submitted', 'approved', 'changes_requested'];
+const PENDING_REVIEW = ['draft', 'submitted', 'changes_requested'];
+const DECISIONS = { approve: 'approved', request_changes: 'changes_requested' };
+const CONTENT_LEVEL_INDEX = HIERARCHY_LEVELS.length - 1;
+const MAX_QUOTE_LENGTH = 500;
+
+const requiresReview = (user) => !!(user && user.role === 'teacher' && user.canEdit && user.requiresReview);
+
+// What onlyPublished means for content: published and, if it went through review, approved
+const publishedContentFilter = () => ({ isPublished: true, 'review.status': { $nin: PENDING_REVIEW } });
+
+const assertCanPublish = (req, content) => {
+    if (requiresReview(req.user) && content.review?.status !== 'approved') {
+        throw httpError(409, 'This item needs approval before it can be published. Submit it for review first.');
+    }
+};
+
+// Review changes for a save by `req` of the stored item with the requested updates: { $set, $unset }
+const reviewChangesForSave = (req, previous, updates) => {
+    const status = previous.review?.status;
+    if (!requiresReview(req.user)) {
+        return updates.isPublished === true && PENDING_REVIEW.includes(status)
+            ? { $set: { 'review.status': 'approved', 'review.reviewedBy': savedByFrom(req), 'review.reviewedAt': new Date() } }
+            : {};
+    }
+    if (hasRevisedChange(previous, { ...previous, ...updates })) {
+        // An edited item goes offline until it is approved again, scheduled release included;
+        // one already in the queue or being reworked keeps its place
+        return {
+            $set: { 'review.status': ['submitted', 'changes_requested'].includes(status) ? status : 'draft', isPublished: false },
+            $unset: { publishAt: 1 }
+        };
+    }
+    if (updates.isPublished === true && !previous.isPublished) assertCanPublish(req, previous);
+    return {};
+};
+
+// Fields every newly created item gets: new work by a teacher who needs review starts as an
+// unpublished draft
+const initialReviewState = (req) => requiresReview(req.user) ? { isPublished: false, review: { status: 'draft' } } : {};
+
+// `update` (the Mongo update built from `updates`) with the review rules merged in. Every write
+// of title, body or metadata goes through here: PUT /content/:id and revision restores.
+const applyReviewRules = (req, previous, updates, update) => {
+    const { $set, $unset } = reviewChangesForSave(req, previous, updates);
+    const merged = { ...update, $set: { ...update.$set, ...$set } };
+    if ($unset) merged.$unset = { ...update.$unset, ...$unset };
+    return merged;
+};
+
+const commentFrom = (req, { text, quote, action }) => ({
+    author: savedByFrom(req),
+    text: String(text || '').trim() || undefined,
+    quote: String(quote || '').trim().slice(0, MAX_QUOTE_LENGTH) || undefined,
+    action
+});
+
+const findContent = async (contentId) => {
+    if (!mongoose.Types.ObjectId.isValid(contentId)) throw httpError(400, 'Invalid content ID');
+    const content = await Content.findById(contentId).lean();
+    if (!content) throw httpError(404, 'Content not found');
+    return content;
+};
+
+// The update only applies while the status is still `status`, so two reviewers cannot both decide
+const updateIfStatus = async (contentId, status, update) => {
+    const updated = await Content.findOneAndUpdate({ _id: contentId, 'review.status': status ?? null }, update, { new: true });
+    if (!updated) throw httpError(409, 'This item was changed by someone else. Reload and try again.');
+    return updated;
+};
+
+const submitForReview = async (contentId, req, { comment } = {}) => {
+    const content = await findContent(contentId);
+    const status = content.review?.status;
+    if (status === 'submitted') throw httpError(409, 'This item is already waiting for review');
+    if (status === 'approved' || (!status && content.isPublished)) {
+        throw httpError(409, 'This item is already approved; edit it to send a new version for review');
+    }
+    return updateIfStatus(contentId, status, {
+        $set: { 'review.status': 'submitted', 'review.submittedBy': savedByFrom(req), 'review.submittedAt': new Date() },
+        $push: { 'review.comments': commentFrom(req, { text: comment, action: 'submitted' }) }
+    });
+};
+
+const addReviewComment = async (contentId, req, { text, quote } = {}) => {
+    await findContent(contentId);
+    const comment = commentFrom(req, { text, quote });
+    if (!comment.text) throw httpError(400, 'Comment text is required');
+    return Content.findByIdAndUpdate(contentId, { $push: { 'review.comments': comment } }, { new: true });
+};
+
+const stripTags = (html) => String(html || '').replace(/<[^>]*>/g, '').trim() || 'Untitled';
+
+const sendReviewDecisionEmail = (user, content, decision, comment) => sendMail({
+    to: user.email,
+    subject: decision === 'approve'
+        ? 'Tamil Vizhuthugal - Your content was approved'
+        : 'Tamil Vizhuthugal - Changes requested on your content',
+    html: `
+        <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px;">
+            <h2 style="color: #1a73e8;">வணக்கம் ${escapeHtml(user.name)}!</h2>
+            <p style="font-size: 16px; color: #333;">
+                ${decision === 'approve'
+                    ? `<strong>${escapeHtml(stripTags(content.title))}</strong> has been approved${content.isPublished ? ' and published' : '. You can publish it now'}.`
+                    : `The reviewer asked for changes to <strong>${escapeHtml(stripTags(content.title))}</strong>. Make them and submit it again.`}
+            </p>
+            ${comment ? `<p style="font-size: 14px; color: #555;">Reviewer's note: ${escapeHtml(comment)}</p>` : ''}
+        </div>
+    `
+});
+
+// Approve or request changes on a submitted item: { decision, comment?, publish? }.
+// The author is emailed; a failed email does not undo the decision.
+const decideReview = async (contentId, req, { decision, comment, publish } = {}) => {
+    if (!DECISIONS[decision]) throw httpError(400, 'Decision must be approve or request_changes');
+    const entry = commentFrom(req, { text: comment, action: DECISIONS[decision] });
+    if (decision === 'request_changes' && !entry.text) throw httpError(400, 'Say what needs to change');
+
+    const content = await findContent(contentId);
+    if (content.review?.status !== 'submitted') throw httpError(409, 'This item is not waiting for review');
+
+    const $set = { 'review.status': DECISIONS[decision], 'review.reviewedBy': savedByFrom(req), 'review.reviewedAt': new Date() };
+    const update = { $set, $push: { 'review.comments': entry } };
+    if (decision === 'approve' && publish) {
+        $set.isPublished = true;
+        update.$unset = { publishAt: 1 };
+    }
+    const updated = await updateIfStatus(contentId, 'submitted', update);
+
+    let emailSent = false;
+    const authorId = updated.review?.submittedBy?.userId;
+    const author = authorId && await User.findById(authorId).select('name email').lean();
+    if (author?.email) {
+        try {
+            await sendReviewDecisionEmail(author, updated, decision, entry.text);
+            emailSent = true;
+        } catch (mailError) {
+            console.error(`[Review] Decision email failed for ${contentId}:`, mailError.message);
+        }
+    }
+    return { content: updated, emailSent };
+};
+
+// Items in one review state (oldest submission first), with their place in the course and
+// how many items are in each state
+const listReviewQueue = async ({ status = 'submitted' } = {}) => {
+    if (!REVIEW_STATUSES.includes(status)) throw httpError(400, `Status must be one of ${REVIEW_STATUSES.join(', ')}`);
+
+    const [docs, totals] = await Promise.all([
+        Content.find({ 'review.status': status })
+            .select('title type lessonId isPublished review updatedAt')
+            .sort({ 'review.submittedAt': 1, updatedAt: 1 })
+            .lean(),
+        Content.aggregate([
+            { $match: { 'review.status': { $in: REVIEW_STATUSES } } },
+            { $group: { _id: '$review.status', count: { $sum: 1 } } }
+        ])
+    ]);
+    const breadcrumbs = await getBreadcrumbs(docs.map(doc => ({ levelIndex: CONTENT_LEVEL_INDEX, doc })));
+
+    const counts = Object.fromEntries(REVIEW_STATUSES.map(key => [key, 0]));
+    for (const { _id, count } of totals) counts[_id] = count;
+
+    return {
+        items: docs.map((doc, index) => ({ ...doc, breadcrumb: breadcrumbs[index] })),
+        counts
+    };
+};
+
+// One item with its body and review thread, for the review panel
+const getReviewItem = async (contentId) => {
+    const content = await findContent(contentId);
+    const [breadcrumb] = await getBreadcrumbs([{ levelIndex: CONTENT_LEVEL_INDEX, doc: content }]);
+    return { ...content, breadcrumb };
+};
+
+module.exports = {
+    requiresReview,
+    publishedContentFilter,
+    assertCanPublish,
+    initialReviewState,
+    applyReviewRules,
+    submitForReview,
+    addReviewComment,
+    decideReview,
+    listReviewQueue,
+    getReviewItem
+};
@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+const { Content, ContentRevision } = require('../models.cjs');
+const { httpError } = require('./hierarchy.cjs');
+
+// Fields a revision keeps. Publish state, counters and stored files are not versioned.
+const REVISED_FIELDS = ['title', 'body', 'metadata'];
+const MAX_REVISIONS = 50; // per content item; the oldest are dropped
+
+const snapshot = (doc) => Object.fromEntries(REVISED_FIELDS.map(field => [field, doc[field]]));
+
+const hasRevisedChange = (before, after) =>
+    REVISED_FIELDS.some(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+
+const savedByFrom = (req) => {
+    if (req.user) return { userId: req.user._id, name: req.user.name || req.user.username };
+    if (req.webmaster) return { userId: req.webmaster._id, name: req.webmaster.username };
+    return undefined;
+};
+
+// Keeps a revision of `after` when a save changed its title, body or metadata. The first
+// time, the version it replaced is kept too, so the text before any tracked save can be restored.
+const recordRevision = async (before, after, req, { restoredFrom } = {}) => {
+    if (!before || !after || !hasRevisedChange(before, after)) return null;
+    const contentId = after._id;
+
+    if (!(await ContentRevision.exists({ contentId }))) {
+        await ContentRevision.create({ contentId, ...snapshot(before), createdAt: before.updatedAt || before.createdAt });
+    }
+    const revision = await ContentRevision.create({ contentId, ...snapshot(after), savedBy: savedByFrom(req), restoredFrom });
+
+    const stale = await ContentRevision.find({ contentId }).sort({ createdAt: -1, _id: -1 }).skip(MAX_REVISIONS).select('_id').lean();
+    if (stale.length > 0) await ContentRevision.deleteMany({ _id: { $in: stale.map(doc => doc._id) } });
+    return revision;
+};
+
+// Newest first
+const listRevisions = async (contentId) => {
+    if (!mongoose.Types.ObjectId.isValid(contentId)) throw httpError(400, 'Invalid content ID');
+    if (!(await Content.exists({ _id: contentId }))) throw httpError(404, 'Content not found');
+    return ContentRevision.find({ contentId }).sort({ createdAt: -1, _id: -1 }).lean();
+};
+
+// Puts a revision's title, body and metadata back; the restore is itself a new revision.
+// applyRules(previous, updates, update) adds what a save of `updates` implies besides the
+// fields themselves (the review rules in contentReview.cjs).
+const restoreRevision = async (contentId, revisionId, req, { applyRules = (previous, updates, update) => update } = {}) => {
+    if (!mongoose.Types.ObjectId.isValid(contentId) || !mongoose.Types.ObjectId.isValid(revisionId)) {
+        throw httpError(400, 'Invalid ID');
+    }
+    const revision = await ContentRevision.findOne({ _id: revisionId, contentId }).lean();
+    if (!revision) throw httpError(404, 'Revision not found');
+    const before = await Content.findById(contentId).lean();
+    if (!before) throw httpError(404, 'Content not found');
+
+    const updates = snapshot(revision);
+    if (!updates.title) updates.title = before.title; // required on Content
+    const $set = {};
+    const $unset = {};
+    for (const field of REVISED_FIELDS) {
+        if (updates[field] === undefined) $unset[field] = 1;
+        else $set[field] = updates[field];
+    }
+    const update = Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+    const restored = await Content.findByIdAndUpdate(contentId, applyRules(before, updates, update), { new: true });
+    await recordRevision(before, restored.toObject(), req, { restoredFrom: revision._id });
+    return restored;
+};
+
+module.exports = { hasRevisedChange, savedByFrom, recordRevision, listRevisions, restoreRevision };
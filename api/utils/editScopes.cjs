@@ -0,0 +1,99 @@
+const mongoose = require('mongoose');
+const { SubUnit, Unit, Subject, Lesson, Content } = require('../models.cjs');
+const { httpError } = require('./hierarchy.cjs');
+
+// A scope with only classId covers the whole class; subjectId/unitId narrow it.
+// Keep in sync with utils/editScopes.ts on the client.
+const scopeCovers = (scope, path) => {
+    if (String(scope.classId) !== String(path.classId)) return false;
+    if (scope.subjectId && String(scope.subjectId) !== String(path.subjectId)) return false;
+    if (scope.unitId && String(scope.unitId) !== String(path.unitId)) return false;
+    return true;
+};
+
+const hasScopeRestrictions = (user) =>
+    !!user && user.role !== 'admin' && Array.isArray(user.editScopes) && user.editScopes.length > 0;
+
+const canEditPath = (user, path) => {
+    if (!user) return false;
+    if (!hasScopeRestrictions(user)) return true;
+    if (!path) return false;
+    return user.editScopes.some(scope => scopeCovers(scope, path));
+};
+
+// Walk lesson → subUnit → unit → subject to find the class/subject/unit a lesson lives in
+const getLessonPath = async (lessonId) => {
+    if (!mongoose.Types.ObjectId.isValid(lessonId)) return null;
+
+    const lesson = await Lesson.findById(lessonId).select('subUnitId').lean();
+    if (!lesson) return null;
+    const subUnit = await SubUnit.findById(lesson.subUnitId).select('unitId').lean();
+    if (!subUnit) return null;
+    const unit = await Unit.findById(subUnit.unitId).select('subjectId').lean();
+    if (!unit) return null;
+    const subject = await Subject.findById(unit.subjectId).select('classId').lean();
+    if (!subject) return null;
+
+    return { classId: subject.classId, subjectId: subject._id, unitId: unit._id };
+};
+
+// True when every lesson in the list falls inside one of the user's edit scopes. A scoped user
+// must name at least one lesson, and a missing id never passes.
+const canEditLessons = async (user, lessonIds) => {
+    if (!hasScopeRestrictions(user)) return true;
+    if (lessonIds.length === 0 || lessonIds.some(id => !id)) return false;
+
+    const uniqueIds = [...new Set(lessonIds.map(String))];
+    for (const lessonId of uniqueIds) {
+        if (!canEditPath(user, await getLessonPath(lessonId))) return false;
+    }
+    return true;
+};
+
+// Lesson resolvers for requireEditScope. Each returns the lessons the request touches; an
+// empty list means the request named none.
+const lessonFromBody = (req) => (req.body && req.body.lessonId ? [req.body.lessonId] : []);
+
+// The content's current lesson, plus the target lesson when an update moves it
+const lessonFromContentParam = async (req) => {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) return [];
+    const content = await Content.findById(req.params.id).select('lessonId').lean();
+    if (!content) throw httpError(404, 'Content not found');
+    return req.body && req.body.lessonId ? [content.lessonId, req.body.lessonId] : [content.lessonId];
+};
+
+const lessonsFromContentIds = async (req) => {
+    const ids = Array.isArray(req.body.ids) ? req.body.ids.filter(id => mongoose.Types.ObjectId.isValid(id)) : [];
+    const contents = await Content.find({ _id: { $in: ids } }).select('lessonId').lean();
+    return contents.map(content => content.lessonId);
+};
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every item that keeps the stored file, Recycle Bin included. A file no item uses yet (an
+// upload being cleaned up) belongs to the lesson the request names.
+const lessonsUsingFile = async (req, reference) => {
+    const contents = await Content.find(reference).setOptions({ withDeleted: true }).select('lessonId').lean();
+    return contents.length > 0 ? contents.map(content => content.lessonId) : lessonFromBody(req);
+};
+
+const lessonsFromCloudinaryFile = (req) => {
+    const publicId = String((req.body && req.body.publicId) || '');
+    if (!publicId) return [];
+    return lessonsUsingFile(req, { $or: [{ 'file.publicId': publicId }, { 'metadata.cloudinaryPublicId': publicId }] });
+};
+
+const lessonsFromUploadedFile = (req) =>
+    lessonsUsingFile(req, { filePath: new RegExp(`(^|[\\\\/])${escapeRegExp(String(req.params.filename).split(/[\\/]/).pop())}$`) });
+
+module.exports = {
+    hasScopeRestrictions,
+    canEditPath,
+    getLessonPath,
+    canEditLessons,
+    lessonFromBody,
+    lessonFromContentParam,
+    lessonsFromContentIds,
+    lessonsFromCloudinaryFile,
+    lessonsFromUploadedFile
+};
@@ -0,0 +1,378 @@
+const path = require('path');
+const fs = require('fs');
+const { v2: cloudinary } = require('cloudinary');
+const mongoose = require('mongoose');
+const { Class, Subject, Unit, SubUnit, Lesson, Content, ContentRevision } = require('../models.cjs');
+
+// Class → Subject → Unit → SubUnit → Lesson → Content, each level pointing at its parent
+const HIERARCHY_LEVELS = [
+    { key: 'classes', Model: Class, parentField: null },
+    { key: 'subjects', Model: Subject, parentField: 'classId' },
+    { key: 'units', Model: Unit, parentField: 'subjectId' },
+    { key: 'subUnits', Model: SubUnit, parentField: 'unitId' },
+    { key: 'lessons', Model: Lesson, parentField: 'subUnitId' },
+    { key: 'contents', Model: Content, parentField: 'lessonId' }
+];
+
+const getLevelIndex = (Model) => HIERARCHY_LEVELS.findIndex(level => level.Model === Model);
+
+const CONTENT_FILE_FIELDS = 'type storage filePath file metadata.cloudinaryPublicId';
+
+// Ids of the node and everything below it, per level. Null when the node does not exist.
+// Soft-deleted rows are skipped unless withDeleted is set.
+const collectSubtree = async (Model, id, { withDeleted = false } = {}) => {
+    const start = getLevelIndex(Model);
+    if (start === -1) throw new Error(`${Model.modelName} is not a hierarchy level`);
+    if (!(await Model.findOne({ _id: id }).setOptions({ withDeleted }).select('_id').lean())) return null;
+    return collectDescendants(start, [id], { withDeleted });
+};
+
+// Same shape for several nodes of one level at once (e.g. all classes of a year)
+const collectDescendants = async (levelIndex, ids, { withDeleted = false } = {}) => {
+    const subtree = Object.fromEntries(HIERARCHY_LEVELS.map(level => [level.key, []]));
+    subtree[HIERARCHY_LEVELS[levelIndex].key] = ids;
+
+    for (let index = levelIndex + 1; index < HIERARCHY_LEVELS.length; index++) {
+        const { key, Model: ChildModel, parentField } = HIERARCHY_LEVELS[index];
+        const parentIds = subtree[HIERARCHY_LEVELS[index - 1].key];
+        if (parentIds.length === 0) break;
+        subtree[key] = await ChildModel.distinct('_id', { [parentField]: { $in: parentIds } }).setOptions({ withDeleted });
+    }
+    return subtree;
+};
+
+const hasStoredFile = (content) =>
+    !!(content.file?.publicId || content.metadata?.cloudinaryPublicId || content.filePath);
+
+// Cloudinary needs the resource type the asset was uploaded as; the delivery URL records it
+const getCloudinaryResourceType = (content) => {
+    const fromUrl = /\/(image|video|raw)\/upload\//.exec(content.file?.url || content.filePath || '');
+    if (fromUrl) return fromUrl[1];
+    if (content.type === 'video' || content.type === 'audio') return 'video';
+    if (content.file?.mime?.startsWith('image/')) return 'image';
+    return 'raw';
+};
+
+const getPublicId = (content) => content.file?.publicId || content.metadata?.cloudinaryPublicId;
+
+// Copied content shares its source's file until duplicate-file gives it its own, so a file
+// is only removed once no other Content points at it (including content in the Recycle Bin)
+const isFileShared = async (content, excludeIds = [content._id]) => {
+    const publicId = getPublicId(content);
+    let reference;
+    if (publicId) reference = { $or: [{ 'file.publicId': publicId }, { 'metadata.cloudinaryPublicId': publicId }] };
+    else if (content.filePath) reference = { filePath: content.filePath };
+    else return false;
+    return !!(await Content.findOne({ ...reference, _id: { $nin: excludeIds } }).setOptions({ withDeleted: true }).select('_id').lean());
+};
+
+// Best effort: a file that is already gone (or a Cloudinary error) never blocks the delete
+const removeStoredFile = async (content) => {
+    const publicId = getPublicId(content);
+    try {
+        if (publicId) {
+            await cloudinary.uploader.destroy(publicId, { resource_type: getCloudinaryResourceType(content) });
+        } else if (content.filePath) {
+            const fullFilePath = path.isAbsolute(content.filePath)
+                ? content.filePath
+                : path.resolve(__dirname, '../../', content.filePath);
+            if (fs.existsSync(fullFilePath)) fs.unlinkSync(fullFilePath);
+        }
+        return true;
+    } catch (error) {
+        console.error(`[Cascade Delete] Failed to remove file for content ${content._id}:`, error.message);
+        return false;
+    }
+};
+
+const summarize = (subtree, contents) => ({
+    ...Object.fromEntries(Object.entries(subtree).map(([key, ids]) => [key, ids.length])),
+    files: contents.filter(hasStoredFile).length
+});
+
+// What deleting the node would remove, for the confirmation dialog
+const getDeletionSummary = async (Model, id) => {
+    const subtree = await collectSubtree(Model, id);
+    if (!subtree) return null;
+    const contents = await Content.find({ _id: { $in: subtree.contents } }).select(CONTENT_FILE_FIELDS).lean();
+    return summarize(subtree, contents);
+};
+
+// Moves the node and every live descendant to the Recycle Bin. The node becomes the bin
+// entry; descendants point at it through deletedWith so a restore brings back exactly them.
+const softDeleteSubtree = async (Model, id, deletedBy) => {
+    const subtree = await collectSubtree(Model, id);
+    if (!subtree) return null;
+
+    const deletedAt = new Date();
+    const start = getLevelIndex(Model);
+    for (let index = start; index < HIERARCHY_LEVELS.length; index++) {
+        const { key, Model: LevelModel } = HIERARCHY_LEVELS[index];
+        if (subtree[key].length === 0) continue;
+        const update = index === start ? { deletedAt, deletedBy } : { deletedAt, deletedWith: id };
+        await LevelModel.updateMany({ _id: { $in: subtree[key] } }, { $set: update });
+    }
+
+    const contents = await Content.find({ _id: { $in: subtree.contents } }).select(CONTENT_FILE_FIELDS).setOptions({ withDeleted: true }).lean();
+    return summarize(subtree, contents);
+};
+
+// Permanently deletes the node, every descendant (including ones already in the Recycle
+// Bin) and their stored files. Children go first so an interrupted run leaves a smaller,
+// still-connected tree rather than orphans. Download history is kept: those records carry
+// their own copy of the titles for reporting.
+const deleteSubtree = async (Model, id) => {
+    const subtree = await collectSubtree(Model, id, { withDeleted: true });
+    if (!subtree) return null;
+
+    const contents = await Content.find({ _id: { $in: subtree.contents } }).select(CONTENT_FILE_FIELDS).setOptions({ withDeleted: true }).lean();
+    let filesFailed = 0;
+    const removed = new Set();
+    for (const content of contents.filter(hasStoredFile)) {
+        const key = getPublicId(content) || content.filePath;
+        if (removed.has(key) || await isFileShared(content, subtree.contents)) continue;
+        removed.add(key);
+        if (!(await removeStoredFile(content))) filesFailed++;
+    }
+
+    if (subtree.contents.length) await ContentRevision.deleteMany({ contentId: { $in: subtree.contents } });
+    for (const { key, Model: LevelModel } of [...HIERARCHY_LEVELS].reverse()) {
+        if (subtree[key].length) await LevelModel.deleteMany({ _id: { $in: subtree[key] } });
+    }
+
+    return { ...summarize(subtree, contents), filesFailed };
+};
+
+// --- Move & copy ---
+
+const getParentLevel = (Model) => {
+    const index = getLevelIndex(Model);
+    if (index === -1) throw new Error(`${Model.modelName} is not a hierarchy level`);
+    return index > 0 ? HIERARCHY_LEVELS[index - 1] : null;
+};
+
+const nextOrder = async (Model, filter) => {
+    const last = await Model.findOne(filter).sort({ order: -1 }).select('order').lean();
+    return (last && typeof last.order === 'number' ? last.order : -1) + 1;
+};
+
+const httpError = (status, message) => Object.assign(new Error(message), { status });
+
+// Checks targetParentId against the level above Model. Classes have no parent.
+const assertTargetParent = async (Model, targetParentId) => {
+    const parentLevel = getParentLevel(Model);
+    if (!parentLevel) {
+        if (targetParentId) throw httpError(400, `A ${Model.modelName} has no parent to move or copy into`);
+        return;
+    }
+    if (!targetParentId || !mongoose.Types.ObjectId.isValid(targetParentId)) {
+        throw httpError(400, `A target ${parentLevel.Model.modelName} is required`);
+    }
+    if (!(await parentLevel.Model.exists({ _id: targetParentId }))) {
+        throw httpError(404, `Target ${parentLevel.Model.modelName} not found`);
+    }
+};
+
+// Re-parents the node (its descendants follow through their own parent links) and
+// places it last among its new siblings. Returns null when the node does not exist.
+const moveNode = async (Model, id, targetParentId) => {
+    const { parentField } = HIERARCHY_LEVELS[getLevelIndex(Model)];
+    if (!parentField) throw httpError(400, `A ${Model.modelName} has no parent to move into`);
+    await assertTargetParent(Model, targetParentId);
+
+    const node = await Model.findById(id);
+    if (!node) return null;
+    if (String(node[parentField]) === String(targetParentId)) return node;
+
+    node[parentField] = targetParentId;
+    node.order = await nextOrder(Model, { [parentField]: targetParentId });
+    await node.save();
+    return node;
+};
+
+// Per-document view and download counters start again from zero on a copy, and a copy is a
+// fresh draft: no schedule and no review history or approval
+const COUNTER_FIELD = /(View|Download)Count$/i;
+
+const toCopy = (doc, newId) => {
+    const copy = { ...doc, _id: newId, isPublished: false };
+    delete copy.__v;
+    delete copy.publishAt;
+    delete copy.unpublishAt;
+    delete copy.review;
+    delete copy.createdAt;
+    delete copy.updatedAt;
+    for (const field of Object.keys(copy)) {
+        if (COUNTER_FIELD.test(field)) delete copy[field];
+    }
+    return copy;
+};
+
+// Duplicates the node and everything below it under targetParentId (omitted for classes).
+// Copies start unpublished and the copied Content shares its source's stored file:
+// `pendingFiles` lists the copies whose file still has to be duplicated through
+// duplicateStoredFile, which the client does one request at a time.
+// A class copy can go to another academicYear (a new year's starting draft); it keeps its
+// name there.
+const copySubtree = async (Model, id, targetParentId, { academicYear } = {}) => {
+    await assertTargetParent(Model, targetParentId);
+    const subtree = await collectSubtree(Model, id);
+    if (!subtree) return null;
+
+    const start = getLevelIndex(Model);
+    const idMap = new Map();
+    const inserted = [];
+    const pendingFiles = [];
+
+    try {
+        for (let index = start; index < HIERARCHY_LEVELS.length; index++) {
+            const { key, Model: LevelModel, parentField } = HIERARCHY_LEVELS[index];
+            if (subtree[key].length === 0) continue;
+
+            const docs = await LevelModel.find({ _id: { $in: subtree[key] } }).sort({ order: 1, _id: 1 }).lean();
+            const copies = docs.map(doc => {
+                const newId = new mongoose.Types.ObjectId();
+                idMap.set(String(doc._id), newId);
+                const copy = toCopy(doc, newId);
+                if (parentField) copy[parentField] = index === start ? targetParentId : idMap.get(String(doc[parentField]));
+                if (LevelModel === Content) {
+                    copy.copiedFrom = doc._id;
+                    if (getPublicId(doc) || (doc.filePath && !/^https?:\/\//i.test(doc.filePath))) pendingFiles.push(String(newId));
+                }
+                return copy;
+            });
+
+            if (index === start) {
+                const root = copies[0];
+                const sameParent = parentField
+                    ? String(docs[0][parentField]) === String(targetParentId)
+                    : !academicYear || academicYear === docs[0].academicYear;
+                if (sameParent && root.name) root.name = `${root.name} (Copy)`;
+                if (!parentField && academicYear) root.academicYear = academicYear;
+                root.order = await nextOrder(LevelModel, parentField ? { [parentField]: targetParentId } : {});
+            }
+
+            await LevelModel.insertMany(copies);
+            inserted.push({ Model: LevelModel, ids: copies.map(copy => copy._id) });
+        }
+    } catch (error) {
+        // Don't leave half a copy behind
+        for (const { Model: LevelModel, ids } of inserted.reverse()) {
+            await LevelModel.deleteMany({ _id: { $in: ids } }).catch(() => {});
+        }
+        throw error;
+    }
+
+    return {
+        rootId: String(idMap.get(String(id))),
+        copied: Object.fromEntries(Object.entries(subtree).map(([key, ids]) => [key, ids.length])),
+        pendingFiles
+    };
+};
+
+const makeCopyName = (fileName) => {
+    const ext = path.extname(fileName);
+    return `${path.basename(fileName, ext)}-copy-${Date.now()}${ext}`;
+};
+
+// Gives a copied Content its own stored file. Does nothing once the file is no longer
+// shared (already duplicated, or the source was deleted), so retries are safe.
+const duplicateStoredFile = async (content) => {
+    if (!(await isFileShared(content))) return false;
+
+    const publicId = getPublicId(content);
+    if (publicId) {
+        // Older uploads only record metadata.cloudinaryPublicId, with the delivery URL in filePath
+        const isHttpUrl = /^https?:\/\//i.test(content.filePath || '');
+        const resourceType = getCloudinaryResourceType(content);
+        const sourceUrl = content.file?.url || (isHttpUrl ? content.filePath : cloudinary.url(publicId, { resource_type: resourceType, secure: true }));
+        const folder = path.posix.dirname(publicId);
+        const result = await cloudinary.uploader.upload(sourceUrl, {
+            resource_type: resourceType,
+            ...(folder !== '.' && { folder })
+        });
+        if (content.file?.publicId) {
+            content.set({ 'file.url': result.secure_url, 'file.publicId': result.public_id });
+        } else {
+            content.metadata = { ...content.metadata, cloudinaryPublicId: result.public_id };
+            content.markModified('metadata');
+            if (isHttpUrl) content.filePath = result.secure_url;
+        }
+    } else if (content.filePath && !/^https?:\/\//i.test(content.filePath)) {
+        const fullFilePath = path.isAbsolute(content.filePath)
+            ? content.filePath
+            : path.resolve(__dirname, '../../', content.filePath);
+        if (!fs.existsSync(fullFilePath)) return false;
+        const copyName = makeCopyName(fullFilePath);
+        await fs.promises.copyFile(fullFilePath, path.join(path.dirname(fullFilePath), copyName));
+        content.filePath = path.join(path.dirname(content.filePath), copyName);
+    } else {
+        return false;
+    }
+
+    await content.save();
+    return true;
+};
+
+const displayName = (doc) => doc.name || doc.title || 'Untitled';
+
+// Class → ... names above each { levelIndex, doc } entry, resolved one level at a time.
+// Ancestors in the Recycle Bin are included and flagged as deleted.
+const getBreadcrumbs = async (entries) => {
+    const wanted = HIERARCHY_LEVELS.map(() => new Set());
+    const parentOf = ({ levelIndex, doc }) => {
+        const { parentField } = HIERARCHY_LEVELS[levelIndex];
+        return parentField && doc[parentField] ? String(doc[parentField]) : null;
+    };
+    for (const entry of entries) {
+        const parentId = parentOf(entry);
+        if (parentId) wanted[entry.levelIndex - 1].add(parentId);
+    }
+
+    const nodes = new Map();
+    for (let index = HIERARCHY_LEVELS.length - 2; index >= 0; index--) {
+        if (wanted[index].size === 0) continue;
+        const { Model, parentField } = HIERARCHY_LEVELS[index];
+        const docs = await Model.find({ _id: { $in: [...wanted[index]] } })
+            .select(`name deletedAt ${parentField || ''}`).setOptions({ withDeleted: true }).lean();
+        for (const doc of docs) {
+            nodes.set(String(doc._id), { levelIndex: index, doc });
+            const parentId = parentOf({ levelIndex: index, doc });
+            if (parentId) wanted[index - 1].add(parentId);
+        }
+    }
+
+    return entries.map(entry => {
+        const crumbs = [];
+        let parentId = parentOf(entry);
+        while (parentId && nodes.has(parentId)) {
+            const node = nodes.get(parentId);
+            crumbs.unshift({
+                _id: parentId,
+                kind: HIERARCHY_LEVELS[node.levelIndex].key,
+                name: displayName(node.doc),
+                deleted: !!node.doc.deletedAt
+            });
+            parentId = parentOf(node);
+        }
+        return crumbs;
+    });
+};
+
+module.exports = {
+    HIERARCHY_LEVELS,
+    getLevelIndex,
+    httpError,
+    displayName,
+    getBreadcrumbs,
+    collectSubtree,
+    collectDescendants,
+    isFileShared,
+    removeStoredFile,
+    getDeletionSummary,
+    softDeleteSubtree,
+    deleteSubtree,
+    moveNode,
+    copySubtree,
+    duplicateStoredFile
+};
@@ -0,0 +1,122 @@
+const mongoose = require('mongoose');
+const { HIERARCHY_LEVELS, httpError } = require('./hierarchy.cjs');
+const { classYearFilter } = require('./academicYears.cjs');
+const { publishedContentFilter } = require('./contentReview.cjs');
+
+const NODE_FIELDS = { name: 1, isPublished: 1, publishAt: 1, order: 1 };
+const SIBLING_SORT = { order: 1, _id: 1 };
+const LESSON_INDEX = HIERARCHY_LEVELS.findIndex(level => level.key === 'lessons');
+const CONTENT_LEVEL = HIERARCHY_LEVELS[LESSON_INDEX + 1];
+
+// The soft-delete plugin only filters the outer pipeline; every $lookup filters for itself
+const visibleFilter = (onlyPublished) => onlyPublished ? { deletedAt: null, isPublished: true } : { deletedAt: null };
+
+// Per lesson: content counted by type and publish state, without loading the content
+const contentCountsLookup = (onlyPublished) => ({
+    $lookup: {
+        from: CONTENT_LEVEL.Model.collection.name,
+        let: { parentId: '$_id' },
+        pipeline: [
+            {
+                $match: {
+                    $expr: { $eq: [`$${CONTENT_LEVEL.parentField}`, '$$parentId'] },
+                    ...(onlyPublished ? { deletedAt: null, ...publishedContentFilter() } : visibleFilter(false))
+                }
+            },
+            { $group: { _id: { type: '$type', isPublished: { $eq: ['$isPublished', true] } }, count: { $sum: 1 } } }
+        ],
+        as: 'contentCounts'
+    }
+});
+
+// Nested lookups for levelIndex + 1 ... down to `levels` levels below, lessons getting content counts
+const childrenStages = (levelIndex, levels, onlyPublished) => {
+    if (levelIndex === LESSON_INDEX) return [contentCountsLookup(onlyPublished)];
+    if (levels <= 0) return [];
+    const child = HIERARCHY_LEVELS[levelIndex + 1];
+    return [{
+        $lookup: {
+            from: child.Model.collection.name,
+            let: { parentId: '$_id' },
+            pipeline: [
+                { $match: { $expr: { $eq: [`$${child.parentField}`, '$$parentId'] }, ...visibleFilter(onlyPublished) } },
+                { $sort: SIBLING_SORT },
+                { $project: NODE_FIELDS },
+                ...childrenStages(levelIndex + 1, levels - 1, onlyPublished)
+            ],
+            as: 'children'
+        }
+    }];
+};
+
+const emptyCounts = () => ({ total: 0, published: 0, byType: {} });
+
+const addCounts = (into, from) => {
+    into.total += from.total;
+    into.published += from.published;
+    for (const [type, { total, published }] of Object.entries(from.byType)) {
+        const entry = into.byType[type] || (into.byType[type] = { total: 0, published: 0 });
+        entry.total += total;
+        entry.published += published;
+    }
+};
+
+// Aggregation output → API nodes. Counts add up from the lessons; they are only present
+// when the tree reaches lesson level.
+const toNode = (doc, levelIndex) => {
+    const node = {
+        _id: String(doc._id),
+        kind: HIERARCHY_LEVELS[levelIndex].key,
+        name: doc.name,
+        isPublished: !!doc.isPublished,
+        publishAt: doc.publishAt || null
+    };
+    if (doc.contentCounts) {
+        node.counts = emptyCounts();
+        for (const { _id: { type, isPublished }, count } of doc.contentCounts) {
+            addCounts(node.counts, {
+                total: count,
+                published: isPublished ? count : 0,
+                byType: { [type]: { total: count, published: isPublished ? count : 0 } }
+            });
+        }
+    }
+    if (doc.children) {
+        node.children = doc.children.map(child => toNode(child, levelIndex + 1));
+        if (node.children.every(child => child.counts)) {
+            node.counts = emptyCounts();
+            node.children.forEach(child => addCounts(node.counts, child.counts));
+        }
+    }
+    return node;
+};
+
+// Classes → lessons as one nested structure from a single aggregation. With kind and id, only
+// that node's subtree; depth limits how many levels below the top are included. The whole
+// tree can be limited to the classes of one academicYear.
+const getHierarchyTree = async ({ kind, id, depth, onlyPublished = false, academicYear } = {}) => {
+    const levelIndex = kind ? HIERARCHY_LEVELS.findIndex(level => level.key === kind) : 0;
+    if (levelIndex < 0 || levelIndex > LESSON_INDEX) throw httpError(400, `Unknown tree root: ${kind}`);
+    if (kind && !mongoose.Types.ObjectId.isValid(id)) throw httpError(400, 'A valid id is required with kind');
+
+    const maxDepth = LESSON_INDEX - levelIndex;
+    const parsedDepth = parseInt(depth, 10);
+    const levels = Number.isNaN(parsedDepth) ? maxDepth : Math.min(Math.max(parsedDepth, 0), maxDepth);
+
+    const { Model } = HIERARCHY_LEVELS[levelIndex];
+    const match = onlyPublished ? { isPublished: true } : {};
+    if (kind) match._id = new mongoose.Types.ObjectId(id);
+    else if (academicYear) Object.assign(match, await classYearFilter(academicYear));
+
+    const docs = await Model.aggregate([
+        { $match: match },
+        { $sort: SIBLING_SORT },
+        { $project: NODE_FIELDS },
+        ...childrenStages(levelIndex, levels, onlyPublished)
+    ]);
+    if (kind && docs.length === 0) throw httpError(404, `${Model.modelName} not found`);
+
+    return docs.map(doc => toNode(doc, levelIndex));
+};
+
+module.exports = { getHierarchyTree };
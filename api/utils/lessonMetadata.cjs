@@ -0,0 +1,80 @@
+const mongoose = require('mongoose');
+const { Lesson } = require('../models.cjs');
+const { httpError } = require('./hierarchy.cjs');
+
+// Same keys as the Q&A cognitive process tags (CognitiveProcess in types.ts)
+const COGNITIVE_PROCESSES = ['CP1', 'CP2', 'CP3', 'CP4', 'CP5', 'CP6', 'CP7'];
+const MAX_OBJECTIVES = 20;
+const MAX_OBJECTIVE_LENGTH = 300;
+const MAX_KEYWORDS = 30;
+const MAX_KEYWORD_LENGTH = 50;
+const MAX_PERIODS = 200;
+
+const METADATA_FIELDS = 'learningObjectives periods keywords competencies';
+
+// Trimmed, non-empty, de-duplicated (case-insensitive) strings
+const cleanList = (value, field, { max, maxLength }) => {
+    if (!Array.isArray(value)) throw httpError(400, `${field} must be a list`);
+    const seen = new Set();
+    const items = [];
+    for (const entry of value) {
+        if (typeof entry !== 'string') throw httpError(400, `${field} must be a list of text`);
+        const item = entry.trim();
+        if (!item || seen.has(item.toLowerCase())) continue;
+        if (item.length > maxLength) throw httpError(400, `Each entry in ${field} can be at most ${maxLength} characters`);
+        seen.add(item.toLowerCase());
+        items.push(item);
+    }
+    if (items.length > max) throw httpError(400, `${field} can have at most ${max} entries`);
+    return items;
+};
+
+// Only the fields present in the body are changed; null clears a field
+const buildMetadataUpdate = (body = {}) => {
+    const $set = {};
+    const $unset = {};
+    const put = (field, value) => {
+        if (value === null || (Array.isArray(value) && value.length === 0)) $unset[field] = '';
+        else $set[field] = value;
+    };
+
+    if (body.learningObjectives !== undefined) {
+        put('learningObjectives', body.learningObjectives === null ? null
+            : cleanList(body.learningObjectives, 'learningObjectives', { max: MAX_OBJECTIVES, maxLength: MAX_OBJECTIVE_LENGTH }));
+    }
+    if (body.keywords !== undefined) {
+        put('keywords', body.keywords === null ? null
+            : cleanList(body.keywords, 'keywords', { max: MAX_KEYWORDS, maxLength: MAX_KEYWORD_LENGTH }));
+    }
+    if (body.periods !== undefined) {
+        const periods = body.periods === null || body.periods === '' ? null : Number(body.periods);
+        if (periods !== null && (!Number.isInteger(periods) || periods < 1 || periods > MAX_PERIODS)) {
+            throw httpError(400, `periods must be a whole number from 1 to ${MAX_PERIODS}`);
+        }
+        put('periods', periods);
+    }
+    if (body.competencies !== undefined) {
+        const competencies = body.competencies === null ? [] : body.competencies;
+        if (!Array.isArray(competencies) || competencies.some(code => !COGNITIVE_PROCESSES.includes(code))) {
+            throw httpError(400, `competencies must be a list of ${COGNITIVE_PROCESSES.join(', ')}`);
+        }
+        // Stored in CP order, whatever order they were ticked in
+        put('competencies', COGNITIVE_PROCESSES.filter(code => competencies.includes(code)));
+    }
+
+    const update = {};
+    if (Object.keys($set).length > 0) update.$set = $set;
+    if (Object.keys($unset).length > 0) update.$unset = $unset;
+    return update;
+};
+
+const updateLessonMetadata = async (id, body) => {
+    if (!mongoose.Types.ObjectId.isValid(id)) throw httpError(400, 'Invalid lesson ID');
+    const update = buildMetadataUpdate(body);
+    if (Object.keys(update).length === 0) throw httpError(400, 'Nothing to update');
+    const lesson = await Lesson.findByIdAndUpdate(id, update, { new: true }).select(`name ${METADATA_FIELDS}`).lean();
+    if (!lesson) throw httpError(404, 'Lesson not found');
+    return lesson;
+};
+
+module.exports = { buildMetadataUpdate, updateLessonMetadata };
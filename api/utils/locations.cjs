@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+const { User, District, SubDistrict, School } = require('../models.cjs');
+const { hasPermission, isDistrictCoordinator } = require('../middleware/permissions.cjs');
+
+const LOCATION_FIELDS = ['districtId', 'subDistrictId', 'schoolId'];
+
+const locationError = (message) => {
+    const error = new Error(message);
+    error.status = 400;
+    return error;
+};
+
+const toId = (value) => {
+    if (value === undefined || value === null || value === '') return null;
+    if (!mongoose.Types.ObjectId.isValid(value)) throw locationError('Invalid location id');
+    return String(value);
+};
+
+// Validate a { districtId, subDistrictId, schoolId } selection against the lookup
+// collections. Parents are filled in from the narrowest level given, and a school
+// or sub-district from a different district is rejected.
+const resolveLocation = async (input = {}) => {
+    const ids = {};
+    for (const field of LOCATION_FIELDS) ids[field] = toId(input[field]);
+
+    if (ids.schoolId) {
+        const school = await School.findById(ids.schoolId).lean();
+        if (!school) throw locationError('School not found');
+        if (ids.subDistrictId && String(school.subDistrictId) !== ids.subDistrictId) {
+            throw locationError('School does not belong to the selected sub-district');
+        }
+        if (ids.districtId && String(school.districtId) !== ids.districtId) {
+            throw locationError('School does not belong to the selected district');
+        }
+        ids.districtId = String(school.districtId);
+        ids.subDistrictId = school.subDistrictId ? String(school.subDistrictId) : null;
+    }
+
+    if (ids.subDistrictId) {
+        const subDistrict = await SubDistrict.findById(ids.subDistrictId).lean();
+        if (!subDistrict) throw locationError('Sub-district not found');
+        if (ids.districtId && String(subDistrict.districtId) !== ids.districtId) {
+            throw locationError('Sub-district does not belong to the selected district');
+        }
+        ids.districtId = String(subDistrict.districtId);
+    }
+
+    if (ids.districtId && !(await District.exists({ _id: ids.districtId }))) {
+        throw locationError('District not found');
+    }
+
+    return ids;
+};
+
+// True when a request body carries any of the location fields
+const hasLocationInput = (body = {}) => LOCATION_FIELDS.some(field => field in body);
+
+// User filter for reports and download logs, built from ?districtId=&subDistrictId=&schoolId=.
+// District coordinators (without wider access) are always held to their own district.
+// Returns null when the request is not location-filtered.
+const getLocationFilter = (req) => {
+    const filter = {};
+    for (const field of LOCATION_FIELDS) {
+        const value = toId(req.query[field]);
+        if (value) filter[field] = new mongoose.Types.ObjectId(value);
+    }
+
+    if (isDistrictCoordinator(req.user) && !hasPermission(req, 'users:read')) {
+        filter.districtId = req.user.districtId;
+    }
+
+    return Object.keys(filter).length > 0 ? filter : null;
+};
+
+const getUserIdsForLocation = (filter) => User.find(filter).distinct('_id');
+
+module.exports = {
+    LOCATION_FIELDS,
+    resolveLocation,
+    hasLocationInput,
+    getLocationFilter,
+    getUserIdsForLocation
+};
@@ -0,0 +1,229 @@
+const { LoginThrottle, LoginAttempt } = require('../models.cjs');
+
+// Failed sign-ins are counted per username and per client IP. After a couple of failures each
+// further attempt is slowed down; at the threshold the username (or IP) is locked for a while.
+// Failures older than the lockout window are forgotten.
+const USERNAME_MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '5');
+const IP_MAX_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20');
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+const LOCKOUT_MS = LOCKOUT_MINUTES * 60 * 1000;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// req.ip honours X-Forwarded-For only as far as the app's 'trust proxy' setting (api/index.js)
+// allows, so a client cannot pick the address it is counted under
+const getClientIp = (req) => req.ip || req.socket?.remoteAddress || 'unknown';
+
+const normalizeUsername = (username) => String(username || '').trim().toLowerCase();
+
+const throttleKeys = (accountType, username, ip) => [
+    { key: `${accountType}:${normalizeUsername(username)}`, scope: 'username', maxFailures: USERNAME_MAX_FAILURES },
+    { key: `ip:${ip}`, scope: 'ip', maxFailures: IP_MAX_FAILURES }
+];
+
+const isStale = (doc, now) => !doc.lastFailureAt || now - doc.lastFailureAt.getTime() > LOCKOUT_MS;
+
+const progressiveDelay = (failures) =>
+    failures < 2 ? 0 : Math.min(BASE_DELAY_MS * 2 ** (failures - 2), MAX_DELAY_MS);
+
+const secondsUntil = (date, now) => Math.max(1, Math.ceil((date.getTime() - now) / 1000));
+
+// Called before checking credentials. Returns whether the attempt is locked out and how long to stall it.
+const checkLoginThrottle = async (accountType, username, ip) => {
+    const now = Date.now();
+    const keys = throttleKeys(accountType, username, ip).map(k => k.key);
+    const docs = await LoginThrottle.find({ key: { $in: keys } }).lean();
+
+    let retryAfterSeconds = 0;
+    let delayMs = 0;
+    for (const doc of docs) {
+        if (doc.lockedUntil && doc.lockedUntil.getTime() > now) {
+            retryAfterSeconds = Math.max(retryAfterSeconds, secondsUntil(doc.lockedUntil, now));
+        } else if (!isStale(doc, now)) {
+            delayMs = Math.max(delayMs, progressiveDelay(doc.failures));
+        }
+    }
+
+    return { locked: retryAfterSeconds > 0, retryAfterSeconds, delayMs };
+};
+
+// One atomic update per key so parallel requests cannot overwrite each other's count: a stale
+// or expired counter starts again at 1, and reaching maxFailures sets lockedUntil.
+const countFailure = ({ key, scope, maxFailures }, now) => {
+    const windowStart = new Date(now.getTime() - LOCKOUT_MS);
+    const startsOver = {
+        $or: [
+            { $lt: [{ $ifNull: ['$lastFailureAt', new Date(0)] }, windowStart] },
+            { $and: [{ $ne: [{ $ifNull: ['$lockedUntil', null] }, null] }, { $lte: ['$lockedUntil', now] }] }
+        ]
+    };
+    return LoginThrottle.findOneAndUpdate(
+        { key },
+        [
+            {
+                $set: {
+                    scope,
+                    failures: { $cond: [startsOver, 1, { $add: [{ $ifNull: ['$failures', 0] }, 1] }] },
+                    lockedUntil: { $cond: [startsOver, null, { $ifNull: ['$lockedUntil', null] }] },
+                    lastFailureAt: now
+                }
+            },
+            {
+                $set: {
+                    lockedUntil: {
+                        $cond: [{ $gte: ['$failures', maxFailures] }, { $ifNull: ['$lockedUntil', new Date(now.getTime() + LOCKOUT_MS)] }, null]
+                    }
+                }
+            }
+        ],
+        { upsert: true, new: true }
+    ).lean();
+};
+
+const recordLoginFailure = async (accountType, username, ip) => {
+    const now = new Date();
+    let retryAfterSeconds = 0;
+
+    for (const entry of throttleKeys(accountType, username, ip)) {
+        const doc = await countFailure(entry, now);
+        if (doc.lockedUntil) {
+            if (doc.failures === entry.maxFailures) {
+                console.warn(`[Login Throttle] Locked ${entry.scope} after ${doc.failures} failures until ${doc.lockedUntil.toISOString()}`);
+            }
+            retryAfterSeconds = Math.max(retryAfterSeconds, secondsUntil(doc.lockedUntil, now.getTime()));
+        }
+    }
+
+    return { locked: retryAfterSeconds > 0, retryAfterSeconds };
+};
+
+// Public requests limited whether or not they succeed (reset codes, sign-ups). Each one counts
+// per account and per IP under keys of its own, in the same window as sign-in failures; once a
+// limit is passed the request is refused until the window ends.
+const REQUEST_LIMITS = {
+    'password-reset': {
+        account: parseInt(process.env.PASSWORD_RESET_MAX_REQUESTS || '3'),
+        ip: parseInt(process.env.PASSWORD_RESET_MAX_IP_REQUESTS || '10')
+    },
+    // Guesses at a reset code; the code itself also allows only a few attempts
+    'password-reset-code': {
+        account: parseInt(process.env.PASSWORD_RESET_MAX_CODE_ATTEMPTS || '10'),
+        ip: parseInt(process.env.PASSWORD_RESET_MAX_IP_CODE_ATTEMPTS || '20')
+    },
+    register: {
+        account: 3,
+        ip: parseInt(process.env.REGISTER_MAX_IP_REQUESTS || '5')
+    }
+};
+
+const limitRequest = async (action, identifier, ip) => {
+    const limits = REQUEST_LIMITS[action];
+    const entries = [{ key: `${action}-ip:${ip}`, scope: 'ip', maxFailures: limits.ip }];
+    const account = normalizeUsername(identifier);
+    if (account) entries.push({ key: `${action}:${account}`, scope: 'username', maxFailures: limits.account });
+
+    const now = new Date();
+    let retryAfterSeconds = 0;
+    for (const entry of entries) {
+        const doc = await countFailure(entry, now);
+        if (doc.failures > entry.maxFailures) {
+            retryAfterSeconds = Math.max(retryAfterSeconds, secondsUntil(doc.lockedUntil, now.getTime()));
+        }
+    }
+    if (retryAfterSeconds) console.warn(`[Request Limit] Refused ${action} (${entries.map(entry => entry.scope).join(', ')})`);
+    return { limited: retryAfterSeconds > 0, retryAfterSeconds };
+};
+
+// A successful sign-in clears the username counter. The IP counter is left to expire so one
+// valid account can't be used to reset guessing from a shared address.
+const recordLoginSuccess = (accountType, username) =>
+    LoginThrottle.deleteOne({ key: `${accountType}:${normalizeUsername(username)}` });
+
+const unlockUsername = (username) =>
+    LoginThrottle.deleteOne({ key: `user:${normalizeUsername(username)}` });
+
+const unlockIp = (ip) =>
+    LoginThrottle.deleteOne({ key: `ip:${String(ip || '').trim()}` });
+
+const getLocks = (scope, prefix) => LoginThrottle.find({
+    scope,
+    key: new RegExp(`^${prefix}`),
+    lockedUntil: { $gt: new Date() }
+}).lean();
+
+const getLockedUsernames = async () => {
+    const docs = await getLocks('username', 'user:');
+    return docs.map(doc => ({
+        username: doc.key.slice('user:'.length),
+        failures: doc.failures,
+        lockedUntil: doc.lockedUntil
+    }));
+};
+
+const getLockedIps = async () => {
+    const docs = await getLocks('ip', 'ip:');
+    return docs.map(doc => ({
+        ip: doc.key.slice('ip:'.length),
+        failures: doc.failures,
+        lockedUntil: doc.lockedUntil
+    }));
+};
+
+// Audit entries must never block the login itself
+const recordLoginAttempt = async (req, { accountType, username, userId, success, reason }) => {
+    try {
+        await LoginAttempt.create({
+            accountType,
+            username: String(username || '').trim().slice(0, 100),
+            userId,
+            success,
+            reason,
+            ipAddress: getClientIp(req),
+            userAgent: String(req.headers['user-agent'] || '').slice(0, 300)
+        });
+    } catch (error) {
+        console.error('[Login Audit] Failed to record attempt:', error.message);
+    }
+};
+
+const sendRateLimited = (res, retryAfterSeconds, message, code) => {
+    res.set('Retry-After', String(retryAfterSeconds));
+    return res.status(429).json({ message, code, retryAfter: retryAfterSeconds });
+};
+
+const minutesText = (seconds) => {
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes > 1 ? 's' : ''}`;
+};
+
+const sendLoginLocked = (res, retryAfterSeconds) => sendRateLimited(
+    res,
+    retryAfterSeconds,
+    `Too many failed sign-in attempts. Please try again in ${minutesText(retryAfterSeconds)} or contact the admin.`,
+    'LOGIN_LOCKED'
+);
+
+const sendRequestLimited = (res, retryAfterSeconds) => sendRateLimited(
+    res,
+    retryAfterSeconds,
+    `Too many requests. Please try again in ${minutesText(retryAfterSeconds)}.`,
+    'RATE_LIMITED'
+);
+
+module.exports = {
+    sleep,
+    getClientIp,
+    checkLoginThrottle,
+    recordLoginFailure,
+    recordLoginSuccess,
+    limitRequest,
+    unlockUsername,
+    unlockIp,
+    getLockedUsernames,
+    getLockedIps,
+    recordLoginAttempt,
+    sendLoginLocked,
+    sendRequestLimited
+};
@@ -0,0 +1,81 @@
+const path = require('path');
+const nodemailer = require('nodemailer');
+
+const SENDER_NAME = 'Tamil Vizhuthugal';
+
+// Transport selection, in order:
+//   SMTP_HOST  - any SMTP server; credentials are optional so a local capture server
+//                (MailHog, smtp4dev, ...) works with just SMTP_HOST/SMTP_PORT
+//   BREVO_USER - Brevo relay
+//   otherwise  - Gmail with EMAIL_USER/EMAIL_PASS
+const getMailConfig = () => {
+    // Force load .env from api folder (Robustness check)
+    if (!process.env.SMTP_HOST && !process.env.BREVO_USER && !process.env.SMTP_USER && !process.env.EMAIL_USER) {
+        require('dotenv').config({ path: path.join(__dirname, '../.env') });
+        require('dotenv').config({ path: path.join(process.cwd(), 'api/.env') });
+    }
+
+    const emailUser = process.env.EMAIL_USER || process.env.SMTP_USER || process.env.BREVO_USER;
+    const emailPass = process.env.EMAIL_PASS || process.env.SMTP_PASS || process.env.BREVO_PASS;
+    const senderEmail = process.env.SENDER_EMAIL || emailUser || 'no-reply@localhost';
+    const auth = emailUser && emailPass ? { user: emailUser, pass: emailPass } : undefined;
+
+    if (process.env.SMTP_HOST) {
+        const port = parseInt(process.env.SMTP_PORT || '465');
+        return {
+            senderEmail,
+            transport: {
+                host: process.env.SMTP_HOST,
+                port,
+                secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+                auth
+            }
+        };
+    }
+
+    if (!auth) return null;
+
+    if (process.env.BREVO_USER) {
+        return {
+            senderEmail,
+            transport: { host: 'smtp-relay.brevo.com', port: 587, secure: false, auth }
+        };
+    }
+
+    return { senderEmail, transport: { service: 'gmail', auth } };
+};
+
+// For user-supplied values interpolated into email HTML
+const escapeHtml = (value) => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const isMailConfigured = () => !!getMailConfig();
+
+// Send one message with the configured transport. Throws when no transport is configured.
+const sendMail = async ({ to, subject, html, text, attachments }) => {
+    const config = getMailConfig();
+    if (!config) {
+        throw new Error('Server email credentials missing. Please check api/.env file.');
+    }
+
+    const transporter = nodemailer.createTransport(config.transport);
+    return transporter.sendMail({
+        from: `"${SENDER_NAME}" <${config.senderEmail}>`,
+        to,
+        subject,
+        html,
+        text,
+        attachments
+    });
+};
+
+module.exports = {
+    getMailConfig,
+    isMailConfigured,
+    escapeHtml,
+    sendMail
+};
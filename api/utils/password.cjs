@@ -0,0 +1,82 @@
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+
+const SALT_ROUNDS = 10;
+
+// bcrypt hashes look like $2a$10$<53 chars>; anything else is a legacy plaintext password
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+const isPasswordHash = (value) => typeof value === 'string' && BCRYPT_HASH_PATTERN.test(value);
+
+// Always hashes what a user typed, even if it looks like a hash. allowHashed is only for
+// restoring exported accounts, whose passwords are already bcrypt hashes.
+const hashPassword = async (password, { allowHashed = false } = {}) => {
+    if (allowHashed && isPasswordHash(password)) return password;
+    return bcrypt.hash(String(password), SALT_ROUNDS);
+};
+
+// Compare a submitted password against a stored one. Legacy rows that still hold
+// plaintext are compared directly and flagged so the caller can upgrade them.
+const verifyPassword = async (password, stored) => {
+    if (!password || !stored) return { match: false, needsRehash: false };
+
+    if (isPasswordHash(stored)) {
+        return { match: await bcrypt.compare(String(password), stored), needsRehash: false };
+    }
+
+    const match = String(password) === stored;
+    return { match, needsRehash: match };
+};
+
+// Verify a User document's password and, on a successful plaintext match,
+// replace the stored value with a bcrypt hash (one-time lazy migration).
+const verifyUserPassword = async (user, password) => {
+    if (!user) return false;
+
+    const { match, needsRehash } = await verifyPassword(password, user.password);
+    if (match && needsRehash) {
+        try {
+            await user.constructor.updateOne({ _id: user._id }, { $set: { password: await hashPassword(password) } });
+            console.log(`[Auth] Upgraded plaintext password to bcrypt for user ${user._id}`);
+        } catch (error) {
+            console.error('[Auth] Password rehash failed (login still allowed):', error.message);
+        }
+    }
+    return match;
+};
+
+// --- Password reset codes ---
+// Six-digit codes mailed to the user. Only a SHA-256 digest is stored; the code is
+// short-lived, single-use and locked after a few wrong guesses.
+const RESET_CODE_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '15');
+const RESET_CODE_MAX_ATTEMPTS = 5;
+
+const digestResetCode = (code) => crypto.createHash('sha256').update(String(code).trim()).digest('hex');
+
+const createResetCode = () => {
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    return {
+        code,
+        codeHash: digestResetCode(code),
+        expiresAt: new Date(Date.now() + RESET_CODE_TTL_MINUTES * 60 * 1000)
+    };
+};
+
+const matchesResetCode = (code, codeHash) => {
+    if (!code || !codeHash) return false;
+    const expected = Buffer.from(codeHash, 'hex');
+    const actual = Buffer.from(digestResetCode(code), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+module.exports = {
+    SALT_ROUNDS,
+    isPasswordHash,
+    hashPassword,
+    verifyPassword,
+    verifyUserPassword,
+    RESET_CODE_TTL_MINUTES,
+    RESET_CODE_MAX_ATTEMPTS,
+    createResetCode,
+    matchesResetCode
+};
@@ -0,0 +1,146 @@
+const { HIERARCHY_LEVELS, httpError, displayName, getBreadcrumbs } = require('./hierarchy.cjs');
+const { purgeExpired } = require('./recycleBin.cjs');
+
+// How often one instance sweeps for due publish / unpublish dates and expired Recycle Bin entries
+const SWEEP_INTERVAL_MS = Math.max(parseInt(process.env.PUBLISH_SCHEDULE_INTERVAL_SECONDS, 10) || 60, 5) * 1000;
+
+// Flips everything whose publishAt / unpublishAt has passed and clears that date, so a
+// later manual toggle is not overridden. Returns { published, unpublished } per level key.
+const applyPublishSchedule = async (now = new Date()) => {
+    const published = {};
+    const unpublished = {};
+    for (const { key, Model } of HIERARCHY_LEVELS) {
+        const release = await Model.updateMany(
+            { publishAt: { $lte: now } },
+            { $set: { isPublished: true }, $unset: { publishAt: 1 } }
+        );
+        // Unpublish runs second: a row with both dates in the past ends up unpublished
+        const withdraw = await Model.updateMany(
+            { unpublishAt: { $lte: now } },
+            { $set: { isPublished: false }, $unset: { unpublishAt: 1 } }
+        );
+        if (release.modifiedCount) published[key] = release.modifiedCount;
+        if (withdraw.modifiedCount) unpublished[key] = withdraw.modifiedCount;
+    }
+    return { published, unpublished };
+};
+
+let lastSweep = 0;
+let runningSweep = null;
+
+// Throttled sweep shared by the request middleware and the local server timer: applies due
+// dates, then purges a batch of Recycle Bin entries past retention. Concurrent callers wait on
+// the same run.
+const runPublishScheduleIfDue = async () => {
+    if (runningSweep) return runningSweep;
+    if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return null;
+    lastSweep = Date.now();
+    runningSweep = (async () => {
+        const result = await applyPublishSchedule();
+        const total = [...Object.values(result.published), ...Object.values(result.unpublished)].reduce((sum, n) => sum + n, 0);
+        if (total) console.log('[Publish Schedule] Applied:', JSON.stringify(result));
+
+        const purged = await purgeExpired();
+        if (purged) console.log(`[Recycle Bin] Purged ${purged} expired entries`);
+        return { ...result, purged };
+    })().finally(() => { runningSweep = null; });
+    return runningSweep;
+};
+
+// There is no cron on the serverless deployment, so due dates are applied before the request
+// that would first see them. A failed sweep is logged and retried on the next interval.
+const publishScheduleMiddleware = async (req, res, next) => {
+    try {
+        await runPublishScheduleIfDue();
+    } catch (error) {
+        console.error('[Publish Schedule] Sweep failed:', error);
+    }
+    next();
+};
+
+// Long-running local server: also sweep on a timer so dates and retention apply with no traffic
+const startPublishScheduler = () => {
+    const timer = setInterval(() => {
+        runPublishScheduleIfDue().catch(error => console.error('[Publish Schedule] Sweep failed:', error));
+    }, SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+};
+
+const parseScheduleDate = (value, label) => {
+    if (value === null || value === '') return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) throw httpError(400, `${label} is not a valid date`);
+    return date;
+};
+
+// Applies { publishAt, unpublishAt } from a request body to a hierarchy node or content item.
+// A key left out keeps its current value; null clears it. A release date in the future takes
+// the item offline until then, one in the past publishes it straight away.
+const updatePublishSchedule = async (Model, id, body = {}) => {
+    const doc = await Model.findById(id);
+    if (!doc) throw httpError(404, `${Model.modelName} not found`);
+
+    const now = new Date();
+    const publishAt = 'publishAt' in body ? parseScheduleDate(body.publishAt, 'Publish date') : doc.publishAt || null;
+    const unpublishAt = 'unpublishAt' in body ? parseScheduleDate(body.unpublishAt, 'Unpublish date') : doc.unpublishAt || null;
+
+    if (unpublishAt && unpublishAt <= now) throw httpError(400, 'Unpublish date must be in the future');
+    if (publishAt && unpublishAt && unpublishAt <= publishAt) throw httpError(400, 'Unpublish date must be after the publish date');
+
+    if (publishAt && publishAt <= now) {
+        doc.isPublished = true;
+        doc.publishAt = undefined;
+    } else if (publishAt) {
+        doc.isPublished = false;
+        doc.publishAt = publishAt;
+    } else {
+        doc.publishAt = undefined;
+    }
+    doc.unpublishAt = unpublishAt || undefined;
+
+    await doc.save();
+    return doc;
+};
+
+// Upcoming releases and withdrawals between from and to, soonest first, for the calendar
+const listScheduledEvents = async ({ from, to } = {}) => {
+    const start = from ? new Date(from) : new Date();
+    const end = to ? new Date(to) : new Date(start.getTime() + 31 * 24 * 60 * 60 * 1000);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) throw httpError(400, 'Invalid date range');
+
+    const entries = [];
+    for (const [levelIndex, level] of HIERARCHY_LEVELS.entries()) {
+        const range = { $gte: start, $lt: end };
+        const docs = await level.Model.find({ $or: [{ publishAt: range }, { unpublishAt: range }] })
+            .select(`name title type isPublished publishAt unpublishAt ${level.parentField || ''}`).lean();
+        entries.push(...docs.map(doc => ({ levelIndex, doc })));
+    }
+    const breadcrumbs = await getBreadcrumbs(entries);
+
+    const events = [];
+    entries.forEach(({ levelIndex, doc }, index) => {
+        const base = {
+            _id: String(doc._id),
+            kind: HIERARCHY_LEVELS[levelIndex].key,
+            name: displayName(doc),
+            contentType: doc.type,
+            breadcrumb: breadcrumbs[index]
+        };
+        const inRange = (date) => date && date >= start && date < end;
+        if (inRange(doc.publishAt)) events.push({ ...base, action: 'publish', at: doc.publishAt });
+        if (inRange(doc.unpublishAt)) events.push({ ...base, action: 'unpublish', at: doc.unpublishAt });
+    });
+    events.sort((a, b) => new Date(a.at) - new Date(b.at));
+
+    return { from: start, to: end, events };
+};
+
+module.exports = {
+    applyPublishSchedule,
+    runPublishScheduleIfDue,
+    publishScheduleMiddleware,
+    startPublishScheduler,
+    updatePublishSchedule,
+    listScheduledEvents
+};
@@ -0,0 +1,114 @@
+const { HIERARCHY_LEVELS, getLevelIndex, httpError, displayName, getBreadcrumbs, deleteSubtree } = require('./hierarchy.cjs');
+
+// Deleted classes, subjects, ... and content stay restorable for this many days, then are
+// purged for real (stored files included)
+const RETENTION_DAYS = Math.max(parseInt(process.env.RECYCLE_BIN_RETENTION_DAYS, 10) || 30, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Expired entries purged per request, to stay well inside the serverless time limit
+const PURGE_BATCH_SIZE = 10;
+
+const getLevel = (kind) => {
+    const level = HIERARCHY_LEVELS.find(candidate => candidate.key === kind);
+    if (!level) throw httpError(400, `Unknown item type: ${kind}`);
+    return level;
+};
+
+const purgeDateFor = (deletedAt) => new Date(new Date(deletedAt).getTime() + RETENTION_DAYS * DAY_MS);
+
+// Bin entries are the rows deleted directly; rows deleted along with them carry deletedWith
+const BIN_ENTRY_FILTER = { deletedAt: { $ne: null }, deletedWith: null };
+
+// Newest first, across every level (or one kind)
+const listRecycleBin = async ({ kind, page = 1, limit = 50 } = {}) => {
+    const levels = kind ? [getLevel(kind)] : HIERARCHY_LEVELS;
+    const entries = [];
+    for (const level of levels) {
+        const docs = await level.Model.find(BIN_ENTRY_FILTER)
+            .select(`name title type deletedAt deletedBy ${level.parentField || ''}`).lean();
+        entries.push(...docs.map(doc => ({ levelIndex: getLevelIndex(level.Model), doc })));
+    }
+    entries.sort((a, b) => new Date(b.doc.deletedAt) - new Date(a.doc.deletedAt));
+
+    const pageSize = Math.min(Math.max(parseInt(limit, 10) || 50, 1), 200);
+    const currentPage = Math.max(parseInt(page, 10) || 1, 1);
+    const pageEntries = entries.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+    const breadcrumbs = await getBreadcrumbs(pageEntries);
+
+    return {
+        items: pageEntries.map(({ levelIndex, doc }, index) => ({
+            _id: String(doc._id),
+            kind: HIERARCHY_LEVELS[levelIndex].key,
+            name: displayName(doc),
+            contentType: doc.type,
+            deletedAt: doc.deletedAt,
+            deletedBy: doc.deletedBy || null,
+            purgeAt: purgeDateFor(doc.deletedAt),
+            breadcrumb: breadcrumbs[index]
+        })),
+        retentionDays: RETENTION_DAYS,
+        pagination: { total: entries.length, page: currentPage, pages: Math.ceil(entries.length / pageSize) }
+    };
+};
+
+const findEntry = async (kind, id) => {
+    const level = getLevel(kind);
+    const doc = await level.Model.findOne({ _id: id, ...BIN_ENTRY_FILTER }).lean();
+    if (!doc) throw httpError(404, 'Item not found in the Recycle Bin');
+    return { level, doc };
+};
+
+// Brings back the entry and everything deleted with it. Refused while its parent is itself
+// deleted: that has to be restored first.
+const restoreEntry = async (kind, id) => {
+    const { level, doc } = await findEntry(kind, id);
+    if (level.parentField) {
+        const parentLevel = HIERARCHY_LEVELS[getLevelIndex(level.Model) - 1];
+        const parent = await parentLevel.Model.findById(doc[level.parentField])
+            .select('name deletedAt').setOptions({ withDeleted: true }).lean();
+        if (!parent) throw httpError(409, `The ${parentLevel.Model.modelName.toLowerCase()} it belonged to no longer exists`);
+        if (parent.deletedAt) throw httpError(409, `Its ${parentLevel.Model.modelName.toLowerCase()} "${displayName(parent)}" is in the Recycle Bin too; restore that first`);
+    }
+
+    const restored = {};
+    for (const { key, Model } of HIERARCHY_LEVELS.slice(getLevelIndex(level.Model))) {
+        const result = await Model.updateMany(
+            { $or: [{ _id: doc._id }, { deletedWith: doc._id }] },
+            { $unset: { deletedAt: 1, deletedBy: 1, deletedWith: 1 } }
+        ).setOptions({ withDeleted: true });
+        restored[key] = result.modifiedCount;
+    }
+    return restored;
+};
+
+// Permanent: the entry, everything below it and their stored files
+const purgeEntry = async (kind, id) => {
+    const { level, doc } = await findEntry(kind, id);
+    return deleteSubtree(level.Model, doc._id);
+};
+
+// Purges entries past the retention period, oldest first, a batch at a time
+const purgeExpired = async (limit = PURGE_BATCH_SIZE) => {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * DAY_MS);
+    const expired = [];
+    for (const level of HIERARCHY_LEVELS) {
+        const docs = await level.Model.find({ ...BIN_ENTRY_FILTER, deletedAt: { $lte: cutoff } })
+            .select('deletedAt').sort({ deletedAt: 1 }).limit(limit).lean();
+        expired.push(...docs.map(doc => ({ level, doc })));
+    }
+    expired.sort((a, b) => new Date(a.doc.deletedAt) - new Date(b.doc.deletedAt));
+
+    let purged = 0;
+    for (const { level, doc } of expired.slice(0, limit)) {
+        // An ancestor purged earlier in this batch may already have taken it
+        if (await deleteSubtree(level.Model, doc._id)) purged++;
+    }
+    return purged;
+};
+
+module.exports = {
+    RETENTION_DAYS,
+    listRecycleBin,
+    restoreEntry,
+    purgeEntry,
+    purgeExpired
+};
@@ -0,0 +1,175 @@
+const mongoose = require('mongoose');
+const { Class, Subject } = require('../models.cjs');
+const { HIERARCHY_LEVELS, httpError, getBreadcrumbs, collectSubtree, collectDescendants } = require('./hierarchy.cjs');
+const { classYearFilter } = require('./academicYears.cjs');
+const { publishedContentFilter } = require('./contentReview.cjs');
+const { plainText, titleSearchText, bodySearchFields, queryTerms, snippetAround } = require('./searchText.cjs');
+
+// Global search over content titles and bodies and the names of classes, subjects, units,
+// sub-units and lessons, using the search_text index the searchIndex plugin in models.cjs maintains.
+const CONTENT_INDEX = HIERARCHY_LEVELS.length - 1;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const NODE_LIMIT = 8;
+const STATUSES = ['published', 'draft', 'all'];
+
+// Rows saved before search existed have no search fields until this has run over them:
+// scripts/backfill-search.js once after deploying, and the local server at startup. Batched
+// because content bodies can be large.
+const BACKFILL_BATCH = { nodes: 500, contents: 50 };
+
+const backfillSearchFields = async () => {
+    const indexed = {};
+    for (const [levelIndex, { key, Model }] of HIERARCHY_LEVELS.entries()) {
+        const isContent = levelIndex === CONTENT_INDEX;
+        const batch = isContent ? BACKFILL_BATCH.contents : BACKFILL_BATCH.nodes;
+        indexed[key] = 0;
+        for (;;) {
+            const docs = await Model.find({ 'search.title': { $exists: false } })
+                .select(isContent ? 'title body' : 'name').limit(batch).setOptions({ withDeleted: true }).lean();
+            if (docs.length === 0) break;
+
+            // bulkWrite skips the update hooks, so the fields are worked out here
+            await Model.bulkWrite(docs.map(doc => {
+                const search = isContent
+                    ? { title: titleSearchText(doc.title), ...bodySearchFields(doc.body) }
+                    : { title: titleSearchText(doc.name) };
+                return { updateOne: { filter: { _id: doc._id }, update: { $set: { search } } } };
+            }));
+            indexed[key] += docs.length;
+        }
+    }
+    return indexed;
+};
+
+const toObjectId = (id, label) => {
+    if (!mongoose.Types.ObjectId.isValid(id)) throw httpError(400, `Invalid ${label}`);
+    return new mongoose.Types.ObjectId(id);
+};
+
+// Ids per level that results must fall under, or null for everything
+const resolveScope = async ({ classId, subjectId, academicYear }) => {
+    if (subjectId) {
+        const scope = await collectSubtree(Subject, toObjectId(subjectId, 'subjectId'));
+        if (!scope) throw httpError(404, 'Subject not found');
+        return scope;
+    }
+    if (classId) {
+        const scope = await collectSubtree(Class, toObjectId(classId, 'classId'));
+        if (!scope) throw httpError(404, 'Class not found');
+        return scope;
+    }
+    if (academicYear) {
+        const classIds = await Class.distinct('_id', await classYearFilter(academicYear));
+        return collectDescendants(0, classIds);
+    }
+    return null;
+};
+
+// Ancestors students cannot see: unpublished, or in the Recycle Bin
+const hiddenAncestorIds = async (breadcrumbs) => {
+    const hidden = new Set();
+    for (const [levelIndex, { key, Model }] of HIERARCHY_LEVELS.entries()) {
+        if (levelIndex === CONTENT_INDEX) continue;
+        const ids = new Set();
+        for (const crumbs of breadcrumbs) {
+            for (const crumb of crumbs) {
+                if (crumb.deleted) hidden.add(crumb._id);
+                else if (crumb.kind === key) ids.add(crumb._id);
+            }
+        }
+        if (ids.size === 0) continue;
+        const unpublished = await Model.distinct('_id', { _id: { $in: [...ids] }, isPublished: { $ne: true } });
+        unpublished.forEach(id => hidden.add(String(id)));
+    }
+    return hidden;
+};
+
+const textMatch = (terms) => ({ $text: { $search: terms.join(' ') } });
+const byScore = { score: { $meta: 'textScore' } };
+
+const searchContents = async (terms, { scope, type, status, limit }) => {
+    const filter = textMatch(terms);
+    if (scope) filter.lessonId = { $in: scope.lessons };
+    if (type) filter.type = type;
+    if (status === 'published') Object.assign(filter, publishedContentFilter());
+    else if (status === 'draft') filter.$nor = [publishedContentFilter()];
+
+    const docs = await HIERARCHY_LEVELS[CONTENT_INDEX].Model.find(filter)
+        .select({ ...byScore, title: 1, type: 1, lessonId: 1, isPublished: 1, 'review.status': 1, 'search.body': 1 })
+        .sort(byScore).limit(limit).lean();
+    return docs.map(doc => ({
+        levelIndex: CONTENT_INDEX,
+        doc,
+        result: {
+            _id: doc._id,
+            title: plainText(doc.title) || 'Untitled',
+            type: doc.type,
+            lessonId: doc.lessonId,
+            isPublished: !!doc.isPublished,
+            reviewStatus: doc.review?.status || null,
+            snippet: snippetAround(doc.search?.body, terms),
+            score: doc.score
+        }
+    }));
+};
+
+const searchNodes = async (terms, { scope, status }) => {
+    const hits = [];
+    for (const [levelIndex, { key, Model, parentField }] of HIERARCHY_LEVELS.entries()) {
+        if (levelIndex === CONTENT_INDEX) continue;
+        const filter = textMatch(terms);
+        if (scope) filter._id = { $in: scope[key] };
+        if (status === 'published') filter.isPublished = true;
+        else if (status === 'draft') filter.isPublished = { $ne: true };
+
+        const docs = await Model.find(filter)
+            .select({ ...byScore, name: 1, isPublished: 1, ...(parentField ? { [parentField]: 1 } : {}) })
+            .sort(byScore).limit(NODE_LIMIT).lean();
+        hits.push(...docs.map(doc => ({
+            levelIndex,
+            doc,
+            result: { _id: doc._id, kind: key, name: doc.name, isPublished: !!doc.isPublished, score: doc.score }
+        })));
+    }
+    return hits.sort((a, b) => b.result.score - a.result.score).slice(0, NODE_LIMIT);
+};
+
+// { contents, nodes } for the query `q`, best first, each with the names and ids above it.
+// publishedOnly (readers without content:write) keeps to what students can open.
+const searchAll = async ({ q, classId, subjectId, academicYear, type, status, limit } = {}, { publishedOnly = false } = {}) => {
+    const terms = queryTerms(typeof q === 'string' ? q : '');
+    if (terms.length === 0) return { contents: [], nodes: [] };
+    if (status && !STATUSES.includes(status)) throw httpError(400, `Unknown status: ${status}`);
+
+    const parsedLimit = parseInt(limit, 10);
+    const options = {
+        scope: await resolveScope({ classId, subjectId, academicYear }),
+        type: typeof type === 'string' && type ? type : null,
+        status: publishedOnly ? 'published' : status || 'all',
+        limit: Number.isNaN(parsedLimit) ? DEFAULT_LIMIT : Math.min(Math.max(parsedLimit, 1), MAX_LIMIT)
+    };
+
+    const contentHits = await searchContents(terms, options);
+    // A resource type asks for resources, not places in the syllabus
+    const nodeHits = options.type ? [] : await searchNodes(terms, options);
+
+    const hits = [...contentHits, ...nodeHits];
+    const breadcrumbs = await getBreadcrumbs(hits);
+    const hidden = publishedOnly ? await hiddenAncestorIds(breadcrumbs) : new Set();
+
+    const contents = [];
+    const nodes = [];
+    hits.forEach((hit, index) => {
+        const breadcrumb = breadcrumbs[index];
+        if (breadcrumb.some(crumb => crumb.deleted || hidden.has(crumb._id))) return;
+        const entry = { ...hit.result, breadcrumb: breadcrumb.map(({ _id, kind, name }) => ({ _id, kind, name })) };
+        (hit.levelIndex === CONTENT_INDEX ? contents : nodes).push(entry);
+    });
+    return { contents, nodes };
+};
+
+module.exports = {
+    searchAll,
+    backfillSearchFields
+};
@@ -0,0 +1,120 @@
+// Plain text for the full-text index (utils/search.cjs). Titles and bodies are stored as HTML,
+// or as JSON for quizzes and flashcards, so the index keeps a plain copy of each.
+//
+// MongoDB has no Tamil analyser: with default_language 'none' it only splits on spaces and
+// punctuation. Case suffixes are part of the word in Tamil (பள்ளியில், பள்ளிக்கு), so each
+// Tamil word is also indexed by a rough stem, and queries are stemmed the same way.
+
+const MAX_INDEXED_BODY = 100000; // characters; the rest of a very long body is not searchable
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+const INVISIBLE = /[​-‍﻿]/g; // zero-width space / joiners that split Tamil words in pasted text
+const TAMIL = /[஀-௿]/;
+const WORD_SPLIT = /[^\p{L}\p{M}\p{N}]+/u;
+const PULLI = '்';
+
+// Longest first; only the first match is removed
+const TAMIL_SUFFIXES = [
+    'த்திலிருந்து', 'களிலிருந்து', 'யிலிருந்து', 'விலிருந்து', 'ிலிருந்து',
+    'ங்களுக்கு', 'ங்களில்', 'ங்களை', 'ங்கள்', // plural of -ம் nouns: மரங்கள் → மர, like மரம்
+    'த்துக்கு', 'களுக்கு', 'த்தில்', 'த்தின்', 'த்தால்', 'த்தோடு', 'களில்', 'களின்', 'களால்', 'களோடு',
+    'ுக்கு', 'யுடன்', 'ுடன்', 'யில்', 'யின்', 'யால்', 'வில்', 'வின்', 'வால்', 'க்கு',
+    'த்தை', 'களை', 'கள்', 'ில்', 'ின்', 'ால்', 'ோடு', 'ும்', 'யை', 'வை', 'ை', 'ம்'
+];
+const MIN_STEM_LENGTH = 2;
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code) => {
+    if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) && point > 0 && point <= 0x10FFFF ? String.fromCodePoint(point) : ' ';
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+});
+
+const stripHtml = (html) => decodeEntities(String(html ?? '')
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' '));
+
+const normalize = (text) => String(text ?? '').normalize('NFC').replace(INVISIBLE, '').replace(/\s+/g, ' ').trim();
+
+// String values of a JSON body (question text, options, card faces), keys left out
+const jsonStrings = (value, out = []) => {
+    if (typeof value === 'string') out.push(value);
+    else if (Array.isArray(value)) value.forEach(item => jsonStrings(item, out));
+    else if (value && typeof value === 'object') Object.values(value).forEach(item => jsonStrings(item, out));
+    return out;
+};
+
+const plainText = (value) => {
+    const text = String(value ?? '').trim();
+    if (!text || text.startsWith('data:')) return ''; // inline files
+    if (/^[[{]/.test(text)) {
+        try {
+            return normalize(jsonStrings(JSON.parse(text)).map(stripHtml).join(' '));
+        } catch {
+            // not JSON after all
+        }
+    }
+    return normalize(stripHtml(text));
+};
+
+const tamilStem = (word) => {
+    let stem = word;
+    const suffix = TAMIL_SUFFIXES.find(ending => stem.endsWith(ending) && [...stem].length - [...ending].length >= MIN_STEM_LENGTH);
+    if (suffix) stem = stem.slice(0, -suffix.length);
+    return stem.endsWith(PULLI) ? stem.slice(0, -1) : stem;
+};
+
+const tokenize = (text) => normalize(text).toLowerCase().split(WORD_SPLIT).filter(Boolean);
+
+// Stems of the Tamil words in `text` that differ from the word, space separated
+const stemsOf = (text) => {
+    const stems = new Set();
+    for (const token of tokenize(text)) {
+        if (!TAMIL.test(token)) continue;
+        const stem = tamilStem(token);
+        if (stem !== token) stems.add(stem);
+    }
+    return [...stems].join(' ');
+};
+
+// Indexed title: the plain title followed by its stems
+const titleSearchText = (title) => {
+    const plain = plainText(title);
+    return [plain, stemsOf(plain)].filter(Boolean).join(' ');
+};
+
+const bodySearchFields = (body) => {
+    const plain = plainText(body).slice(0, MAX_INDEXED_BODY);
+    return { body: plain, stems: stemsOf(plain) };
+};
+
+// Words for a $text search: the query's words and their stems
+const queryTerms = (query) => {
+    const terms = new Set();
+    for (const token of tokenize(query)) {
+        terms.add(token);
+        if (TAMIL.test(token)) terms.add(tamilStem(token));
+    }
+    return [...terms];
+};
+
+// ~length characters of `text` around the first term found, for a result snippet
+const snippetAround = (text, terms, length = 160) => {
+    if (!text) return '';
+    const lower = text.toLowerCase();
+    const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+    const hit = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, hit - Math.floor(length / 3));
+    const end = Math.min(text.length, start + length);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+module.exports = {
+    plainText,
+    tamilStem,
+    titleSearchText,
+    bodySearchFields,
+    queryTerms,
+    snippetAround
+};
@@ -0,0 +1,295 @@
+const mongoose = require('mongoose');
+const { HIERARCHY_LEVELS, httpError } = require('./hierarchy.cjs');
+const { getHierarchyTree } = require('./hierarchyTree.cjs');
+const { classYearFilter, resolveClassYear } = require('./academicYears.cjs');
+const { parseCsv } = require('./userImport.cjs');
+
+// Syllabus outlines cover classes → lessons; content is never imported or exported
+const LEVELS = HIERARCHY_LEVELS.slice(0, HIERARCHY_LEVELS.findIndex(level => level.key === 'lessons') + 1);
+const FORMATS = ['outline', 'csv', 'json'];
+const CSV_HEADERS = ['Class', 'Subject', 'Unit', 'Sub-Unit', 'Chapter'];
+const MAX_NODES = 5000;
+const MAX_NAME_LENGTH = 200;
+
+const nameKey = (name) => name.trim().toLowerCase();
+
+// One level per indent step; tabs or any consistent number of spaces. "- " / "* " bullets are dropped.
+const parseOutline = (text, errors) => {
+    const roots = [];
+    const stack = []; // { indent, node } for the open ancestors of the next line
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        const indent = line.match(/^\s*/)[0].replace(/\t/g, '    ').length;
+        const name = line.trim().replace(/^[-*•]\s+/, '');
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+        const node = { name, line: index + 1, children: [] };
+        if (stack.length >= LEVELS.length) {
+            errors.push(`Line ${index + 1}: "${name}" is more than ${LEVELS.length} levels deep`);
+            return;
+        }
+        (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+        stack.push({ indent, node });
+    });
+    return roots;
+};
+
+// One row per path: Class, Subject, Unit, Sub-Unit, Chapter. Leading empty cells repeat the
+// row above, so a sheet only needs to name a class once.
+const parseCsvOutline = (text, errors) => {
+    const rows = parseCsv(text);
+    const header = (rows[0] || []).map(cell => cell.trim().toLowerCase().replace(/[\s_-]/g, ''));
+    const hasHeader = ['class', 'classes'].includes(header[0]);
+    if (hasHeader) rows.shift();
+
+    const roots = [];
+    let previous = [];
+    rows.forEach((cells, rowIndex) => {
+        const index = hasHeader ? rowIndex + 1 : rowIndex; // file row = index + 1
+        const names = cells.map(cell => String(cell || '').trim());
+        if (names.every(name => !name)) return;
+        const firstName = names.findIndex(Boolean);
+        const lastName = names.length - 1 - [...names].reverse().findIndex(Boolean);
+        const own = names.slice(firstName, lastName + 1);
+        if (firstName > previous.length) {
+            errors.push(`Row ${index + 1}: starts below a level the rows above never named`);
+            return;
+        }
+        if (own.some(name => !name)) {
+            errors.push(`Row ${index + 1}: a level is empty between two names`);
+            return;
+        }
+        const path = [...previous.slice(0, firstName), ...own];
+        if (path.length > LEVELS.length) {
+            errors.push(`Row ${index + 1}: more than ${LEVELS.length} columns`);
+            return;
+        }
+
+        let siblings = roots;
+        for (const name of path) {
+            let node = siblings.find(candidate => nameKey(candidate.name) === nameKey(name));
+            if (!node) {
+                node = { name, line: index + 1, children: [] };
+                siblings.push(node);
+            }
+            siblings = node.children;
+        }
+        previous = path;
+    });
+    return roots;
+};
+
+// [{ name, children: [...] }], the shape GET /tree and the JSON export use
+const parseJsonOutline = (text, errors) => {
+    let data;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        errors.push(`Invalid JSON: ${error.message}`);
+        return [];
+    }
+    const toNodes = (items, depth, path) => {
+        if (!Array.isArray(items)) {
+            errors.push(`${path || 'The top level'} must be a list of { "name", "children" } objects`);
+            return [];
+        }
+        if (depth >= LEVELS.length && items.length > 0) {
+            errors.push(`${path} has children more than ${LEVELS.length} levels deep`);
+            return [];
+        }
+        return items.map((item, index) => {
+            const name = item && typeof item.name === 'string' ? item.name : '';
+            const itemPath = `${path ? `${path} › ` : ''}${name || `#${index + 1}`}`;
+            return { name, children: item && item.children ? toNodes(item.children, depth + 1, itemPath) : [] };
+        });
+    };
+    return toNodes(Array.isArray(data) ? data : data && data.children, 0, '');
+};
+
+const PARSERS = { outline: parseOutline, csv: parseCsvOutline, json: parseJsonOutline };
+
+// Checks names and folds siblings that share a name (case-insensitive) into one node
+const normalize = (nodes, errors, counter) => {
+    const merged = [];
+    for (const node of nodes) {
+        const name = node.name.trim();
+        counter.count++;
+        if (!name) {
+            errors.push(node.line ? `Line ${node.line}: empty name` : 'A node has no name');
+            continue;
+        }
+        if (name.length > MAX_NAME_LENGTH) errors.push(`"${name.slice(0, 40)}…" is longer than ${MAX_NAME_LENGTH} characters`);
+        const existing = merged.find(candidate => nameKey(candidate.name) === nameKey(name));
+        if (existing) existing.children.push(...node.children);
+        else merged.push({ name, children: node.children });
+    }
+    merged.forEach(node => { node.children = normalize(node.children, errors, counter); });
+    return merged;
+};
+
+// Parsed, de-duplicated outline plus every problem found in it
+const parseSyllabus = (format, content) => {
+    if (!FORMATS.includes(format)) throw httpError(400, `Format must be one of: ${FORMATS.join(', ')}`);
+    if (typeof content !== 'string' || !content.trim()) throw httpError(400, 'The outline is empty');
+
+    const errors = [];
+    const counter = { count: 0 };
+    const roots = normalize(PARSERS[format](content.replace(/^\uFEFF/, ''), errors), errors, counter);
+    if (counter.count > MAX_NODES) errors.push(`Too many entries (${counter.count}). Import at most ${MAX_NODES} at a time.`);
+    return { roots, errors };
+};
+
+// Pairs each outline node with an existing sibling of the same name or a new _id, and collects
+// the documents to insert per level. New siblings go after the existing ones, in outline order.
+const planImport = async (roots, { academicYear, session }) => {
+    const inserts = LEVELS.map(() => []);
+    const counts = { existing: 0, new: Object.fromEntries(LEVELS.map(level => [level.key, 0])) };
+
+    // Below a new node everything is new, so its children need no lookup
+    const plan = async (nodes, levelIndex, parentId, parentIsNew) => {
+        const { key, Model, parentField } = LEVELS[levelIndex];
+        let existing = [];
+        if (!parentField) {
+            const filter = academicYear ? await classYearFilter(academicYear) : {};
+            existing = await Model.find(filter).select('name order').session(session).lean();
+        } else if (!parentIsNew) {
+            existing = await Model.find({ [parentField]: parentId }).select('name order').session(session).lean();
+        }
+        let order = existing.reduce((max, doc) => Math.max(max, typeof doc.order === 'number' ? doc.order : -1), -1);
+
+        const planned = [];
+        for (const node of nodes) {
+            const match = existing.find(doc => doc.name && nameKey(doc.name) === nameKey(node.name));
+            const _id = match ? match._id : new mongoose.Types.ObjectId();
+            if (match) {
+                counts.existing++;
+            } else {
+                counts.new[key]++;
+                const doc = { _id, name: node.name, isPublished: false, order: ++order };
+                if (parentField) doc[parentField] = parentId;
+                else if (academicYear) doc.academicYear = academicYear;
+                inserts[levelIndex].push(doc);
+            }
+            planned.push({
+                _id: String(_id),
+                kind: key,
+                name: node.name,
+                status: match ? 'existing' : 'new',
+                children: node.children.length > 0 ? await plan(node.children, levelIndex + 1, _id, !match) : []
+            });
+        }
+        return planned;
+    };
+
+    const tree = await plan(roots, 0, null, false);
+    return { tree, counts, inserts };
+};
+
+const previewSyllabusImport = async ({ format, content, academicYear }) => {
+    const { roots, errors } = parseSyllabus(format, content);
+    const year = await resolveClassYear(academicYear);
+    const { tree, counts } = await planImport(roots, { academicYear: year });
+    return { academicYear: year || null, tree, counts, errors };
+};
+
+// A standalone mongod (a typical local setup) refuses transactions; Atlas and other replica
+// sets accept them
+const isTransactionUnsupported = (error) =>
+    !!error && (error.code === 20 || /Transaction numbers are only allowed|replica set/i.test(error.message || ''));
+
+// Inserts the planned nodes level by level. Without a session nothing rolls the inserts back,
+// so a failure part-way deletes what this import created.
+const insertPlanned = async (roots, { academicYear, session = null }) => {
+    const { tree, counts, inserts } = await planImport(roots, { academicYear, session });
+    const inserted = [];
+    try {
+        for (let index = 0; index < LEVELS.length; index++) {
+            if (inserts[index].length === 0) continue;
+            await LEVELS[index].Model.insertMany(inserts[index], { session });
+            inserted.push({ Model: LEVELS[index].Model, ids: inserts[index].map(doc => doc._id) });
+        }
+    } catch (error) {
+        if (!session) {
+            for (const { Model, ids } of inserted.reverse()) {
+                await Model.deleteMany({ _id: { $in: ids } }).catch(() => {});
+            }
+        }
+        throw error;
+    }
+    return { academicYear: academicYear || null, tree, counts };
+};
+
+// Creates every missing node in one transaction, or with a best-effort rollback when the server
+// does not support transactions (see README). Nodes that already exist are left as they are,
+// so importing the same outline twice creates nothing the second time.
+const importSyllabus = async ({ format, content, academicYear }) => {
+    const { roots, errors } = parseSyllabus(format, content);
+    if (errors.length > 0) {
+        const error = httpError(400, `The outline has ${errors.length} problem(s)`);
+        error.errors = errors;
+        throw error;
+    }
+    const year = await resolveClassYear(academicYear);
+
+    const session = await mongoose.startSession();
+    try {
+        let result;
+        await session.withTransaction(async () => {
+            result = await insertPlanned(roots, { academicYear: year, session });
+        });
+        return result;
+    } catch (error) {
+        if (!isTransactionUnsupported(error)) throw error;
+        console.warn('[Syllabus Import] MongoDB does not support transactions here; importing without one');
+        return insertPlanned(roots, { academicYear: year });
+    } finally {
+        await session.endSession();
+    }
+};
+
+const csvEscape = (value) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const SERIALIZERS = {
+    outline: (nodes) => {
+        const lines = [];
+        const walk = (items, depth) => items.forEach(node => {
+            lines.push(`${'  '.repeat(depth)}${node.name}`);
+            walk(node.children || [], depth + 1);
+        });
+        walk(nodes, 0);
+        return lines.join('\n') + '\n';
+    },
+    // Full path on every row, one row per node with nothing below it
+    csv: (nodes) => {
+        const rows = [CSV_HEADERS.join(',')];
+        const walk = (items, path) => items.forEach(node => {
+            const nodePath = [...path, node.name];
+            if (node.children && node.children.length > 0) walk(node.children, nodePath);
+            else rows.push(nodePath.map(csvEscape).join(','));
+        });
+        walk(nodes, []);
+        return rows.join('\r\n') + '\r\n';
+    },
+    json: (nodes) => {
+        const strip = (items) => items.map(node => node.children && node.children.length > 0
+            ? { name: node.name, children: strip(node.children) }
+            : { name: node.name });
+        return JSON.stringify(strip(nodes), null, 2) + '\n';
+    }
+};
+
+const EXTENSIONS = { outline: 'txt', csv: 'csv', json: 'json' };
+
+// One year's classes (or a single class) in a format importSyllabus reads back
+const exportSyllabus = async ({ format = 'outline', academicYear, classId } = {}) => {
+    if (!FORMATS.includes(format)) throw httpError(400, `Format must be one of: ${FORMATS.join(', ')}`);
+    const tree = await getHierarchyTree(classId ? { kind: 'classes', id: classId } : { academicYear });
+    const label = classId ? (tree[0] && tree[0].name) : academicYear || 'all';
+    return {
+        format,
+        filename: `syllabus_${String(label).replace(/[^\w.-]+/g, '_')}.${EXTENSIONS[format]}`,
+        content: SERIALIZERS[format](tree)
+    };
+};
+
+module.exports = { FORMATS, previewSyllabusImport, importSyllabus, exportSyllabus };
@@ -0,0 +1,138 @@
+const crypto = require('crypto');
+
+// RFC 6238 time-based one-time passwords (the codes shown by Google Authenticator,
+// Authy, etc.): HMAC-SHA1 over 30-second steps, 6 digits.
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Learning Platform';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// All time reads go through this so tests can pin the clock (see setTotpClock)
+let clock = () => Date.now();
+
+const setTotpClock = (fn) => {
+    clock = typeof fn === 'function' ? fn : () => Date.now();
+};
+
+const base32Encode = (buffer) => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+};
+
+const base32Decode = (input) => {
+    const cleaned = String(input || '').toUpperCase().replace(/[\s=-]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes = [];
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 secret');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+const generateSecret = () => base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+const currentStep = (now = clock()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+const generateCodeForStep = (secret, step) => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+const generateTotp = (secret, now = clock()) => generateCodeForStep(secret, currentStep(now));
+
+const safeEqual = (a, b) => {
+    const left = Buffer.from(String(a));
+    const right = Buffer.from(String(b));
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Returns the matched time step, or null. Steps at or before lastUsedStep are refused
+// so an intercepted code cannot be replayed within its validity window.
+const verifyTotp = (secret, code, { now = clock(), lastUsedStep = null } = {}) => {
+    const normalized = String(code || '').replace(/\s/g, '');
+    if (!secret || !new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+
+    const step = currentStep(now);
+    for (let candidate = step - DRIFT_STEPS; candidate <= step + DRIFT_STEPS; candidate++) {
+        if (lastUsedStep !== null && lastUsedStep !== undefined && candidate <= lastUsedStep) continue;
+        if (safeEqual(generateCodeForStep(secret, candidate), normalized)) return candidate;
+    }
+    return null;
+};
+
+// otpauth:// URI understood by authenticator apps (and encoded into the enrollment QR code)
+const buildOtpAuthUri = (secret, accountName) => {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// --- Recovery codes ---
+// Single-use codes shown once at enrollment; only SHA-256 digests are stored.
+const normalizeRecoveryCode = (code) => String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const digestRecoveryCode = (code) =>
+    crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const generateRecoveryCodes = () => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = base32Encode(crypto.randomBytes(5)); // 8 characters
+        return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+    });
+    return { codes, hashes: codes.map(digestRecoveryCode) };
+};
+
+// Index of the matching stored digest, or -1
+const findRecoveryCode = (code, hashes = []) => {
+    if (!normalizeRecoveryCode(code)) return -1;
+    const digest = digestRecoveryCode(code);
+    return hashes.findIndex(hash => safeEqual(hash, digest));
+};
+
+module.exports = {
+    STEP_SECONDS,
+    setTotpClock,
+    base32Encode,
+    base32Decode,
+    generateSecret,
+    currentStep,
+    generateTotp,
+    verifyTotp,
+    buildOtpAuthUri,
+    generateRecoveryCodes,
+    findRecoveryCode
+};
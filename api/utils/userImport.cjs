@@ -0,0 +1,250 @@
+const crypto = require('crypto');
+const ExcelJS = require('exceljs');
+const { User, District, School } = require('../models.cjs');
+
+// One import runs in a single request: every row costs a bcrypt hash (~120 ms) and possibly a
+// welcome email, and the whole batch must finish inside the serverless time limit (30 s)
+const MAX_IMPORT_ROWS = 100;
+const IMPORT_CONCURRENCY = 5;
+const IMPORTABLE_ROLES = ['student', 'teacher'];
+
+// Accepted header spellings for each column (compared lower-cased, without spaces/_/-)
+const COLUMN_ALIASES = {
+    name: ['name', 'fullname'],
+    username: ['username', 'userid', 'login'],
+    email: ['email', 'emailid', 'emailaddress'],
+    role: ['role', 'type'],
+    mobileNumber: ['mobile', 'mobilenumber', 'mobileno', 'phone', 'phonenumber'],
+    district: ['district'],
+    school: ['school', 'schoolname']
+};
+const REQUIRED_COLUMNS = ['name', 'username', 'email', 'role'];
+
+const normalizeHeader = (header) => String(header || '').toLowerCase().replace(/[\s_\-.]/g, '');
+
+const mapHeaders = (headers) => {
+    const columnIndex = {};
+    headers.forEach((header, index) => {
+        const key = normalizeHeader(header);
+        for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+            if (aliases.includes(key) && columnIndex[field] === undefined) columnIndex[field] = index;
+        }
+    });
+    return columnIndex;
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF/LF line endings
+const parseCsv = (text) => {
+    const rows = [];
+    let row = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+const cellText = (value) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') {
+        if (value.text) return String(value.text); // hyperlinks (e.g. mailto: emails)
+        if (value.richText) return value.richText.map(part => part.text).join('');
+        if (value.result !== undefined) return String(value.result); // formulas
+    }
+    return String(value);
+};
+
+const readXlsx = async (buffer) => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const rows = [];
+    sheet.eachRow({ includeEmpty: true }, (row) => {
+        // row.values is 1-based
+        rows.push(row.values.slice(1).map(cellText));
+    });
+    return rows;
+};
+
+// Parse an uploaded CSV/XLSX into plain row objects keyed by field name
+const parseUserSheet = async (buffer, filename) => {
+    const isXlsx = /\.xlsx$/i.test(filename || '');
+    const table = isXlsx
+        ? await readXlsx(buffer)
+        : parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+
+    const [headers = [], ...body] = table;
+    const columnIndex = mapHeaders(headers);
+    const missingColumns = REQUIRED_COLUMNS.filter(field => columnIndex[field] === undefined);
+    if (missingColumns.length > 0) {
+        const error = new Error(`Missing required column(s): ${missingColumns.join(', ')}`);
+        error.status = 400;
+        throw error;
+    }
+
+    const rows = [];
+    body.forEach((cells, index) => {
+        if (cells.every(cell => !String(cell || '').trim())) return; // skip blank lines
+        const row = { rowNumber: index + 2 }; // +1 for header, +1 for 1-based numbering
+        for (const field of Object.keys(COLUMN_ALIASES)) {
+            const cellIndex = columnIndex[field];
+            row[field] = cellIndex === undefined ? '' : String(cells[cellIndex] || '').trim();
+        }
+        row.role = row.role.toLowerCase();
+        rows.push(row);
+    });
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+        const error = new Error(`Too many rows (${rows.length}). Import at most ${MAX_IMPORT_ROWS} users at a time.`);
+        error.status = 400;
+        throw error;
+    }
+    return rows;
+};
+
+// Attach an `errors` array to every row: field checks, duplicates inside the file and
+// clashes with existing accounts (username is the unique index; email/mobile mirror POST /users)
+const validateImportRows = async (rows) => {
+    const seen = { username: new Map(), email: new Map(), mobileNumber: new Map() };
+    const validated = rows.map(row => ({ ...row, errors: [] }));
+
+    for (const row of validated) {
+        if (!row.name) row.errors.push('Name is required');
+        if (!row.username) row.errors.push('Username is required');
+        else if (/\s/.test(row.username)) row.errors.push('Username cannot contain spaces');
+        if (!row.email) row.errors.push('Email is required');
+        else if (!/^\S+@\S+\.\S+$/.test(row.email)) row.errors.push('Invalid email');
+        if (!IMPORTABLE_ROLES.includes(row.role)) row.errors.push(`Role must be ${IMPORTABLE_ROLES.join(' or ')}`);
+        if (row.mobileNumber && !/^[0-9+\-\s]{10,15}$/.test(row.mobileNumber)) row.errors.push('Invalid mobile number');
+
+        for (const field of Object.keys(seen)) {
+            const value = field === 'mobileNumber' ? row[field] : row[field].toLowerCase();
+            if (!value) continue;
+            if (seen[field].has(value)) {
+                row.errors.push(`Duplicate ${field === 'mobileNumber' ? 'mobile number' : field} (also on row ${seen[field].get(value)})`);
+            } else {
+                seen[field].set(value, row.rowNumber);
+            }
+        }
+    }
+
+    const values = (field) => validated.map(row => row[field]).filter(Boolean);
+    const existing = await User.find({
+        $or: [
+            { username: { $in: values('username') } },
+            { email: { $in: values('email') } },
+            { mobileNumber: { $in: values('mobileNumber') } }
+        ]
+    }).select('username email mobileNumber').lean();
+
+    const taken = {
+        username: new Set(existing.map(user => user.username)),
+        email: new Set(existing.map(user => user.email)),
+        mobileNumber: new Set(existing.map(user => user.mobileNumber).filter(Boolean))
+    };
+    for (const row of validated) {
+        if (taken.username.has(row.username)) row.errors.push('Username already exists');
+        if (taken.email.has(row.email)) row.errors.push('Email already exists');
+        if (row.mobileNumber && taken.mobileNumber.has(row.mobileNumber)) row.errors.push('Mobile number already exists');
+    }
+
+    await matchLocations(validated);
+    return validated;
+};
+
+const nameKey = (name) => String(name || '').trim().toLowerCase();
+
+// District and school columns hold names; map them onto the lookup collections.
+// School names are looked up inside the row's district when one is given.
+const matchLocations = async (rows) => {
+    if (!rows.some(row => row.district || row.school)) return;
+
+    const [districts, schools] = await Promise.all([District.find().lean(), School.find().lean()]);
+    const districtsByName = new Map(districts.map(district => [nameKey(district.name), district]));
+
+    for (const row of rows) {
+        row.districtId = null;
+        row.subDistrictId = null;
+        row.schoolId = null;
+
+        if (row.district) {
+            const district = districtsByName.get(nameKey(row.district));
+            if (!district) {
+                row.errors.push(`Unknown district "${row.district}"`);
+                continue;
+            }
+            row.districtId = String(district._id);
+        }
+
+        if (row.school) {
+            const matches = schools.filter(school =>
+                nameKey(school.name) === nameKey(row.school) &&
+                (!row.districtId || String(school.districtId) === row.districtId)
+            );
+            if (matches.length === 0) {
+                row.errors.push(row.districtId ? `Unknown school "${row.school}" in ${row.district}` : `Unknown school "${row.school}"`);
+            } else if (matches.length > 1) {
+                row.errors.push(`School "${row.school}" exists in several districts; add the district column`);
+            } else {
+                row.districtId = String(matches[0].districtId);
+                row.subDistrictId = matches[0].subDistrictId ? String(matches[0].subDistrictId) : null;
+                row.schoolId = String(matches[0]._id);
+            }
+        }
+    }
+};
+
+// Runs fn over items with at most `limit` calls in flight, keeping the results in order
+const mapWithConcurrency = async (items, limit, fn) => {
+    const results = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
+// Readable initial password (no 0/O/1/l/I); users change it on first login
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+const generateInitialPassword = (length = 10) =>
+    Array.from({ length }, () => PASSWORD_ALPHABET[crypto.randomInt(PASSWORD_ALPHABET.length)]).join('');
+
+module.exports = {
+    MAX_IMPORT_ROWS,
+    IMPORT_CONCURRENCY,
+    mapWithConcurrency,
+    parseCsv,
+    parseUserSheet,
+    validateImportRows,
+    generateInitialPassword
+};
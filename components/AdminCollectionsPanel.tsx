@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSession } from '../context/SessionContext';
 import { User } from '../types';
+import { TwoFactorAnswer } from '../services/api';
+import { TwoFactorCodeForm } from './TwoFactorCodeForm';
+import { TwoFactorSettings } from './TwoFactorSettings';
 
 interface Collection {
   name: string;
@@ -27,6 +30,11 @@ export const AdminCollectionsPanel: React.FC = () => {
   });
   const [importData, setImportData] = useState<Record<string, any>>({});
   const [showImportModal, setShowImportModal] = useState<string | null>(null);
+  // Set while the webmaster still has to enter their authenticator code
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [showSecurity, setShowSecurity] = useState(false);
+  // Webmaster session token, kept in a ref so calls made right after login already use it
+  const webmasterTokenRef = useRef<string | null>(null);
 
   // Check if user is admin
   if (!session.user || session.user.role !== 'admin') {
@@ -41,12 +49,16 @@ export const AdminCollectionsPanel: React.FC = () => {
     );
   }
 
+  const getWebmasterHeaders = (): Record<string, string> =>
+    webmasterTokenRef.current ? { Authorization: `Bearer ${webmasterTokenRef.current}` } : {};
+
   const apiCall = async (endpoint: string, options: RequestInit = {}) => {
     const baseUrl = (import.meta as any).env.VITE_API_URL || '';
     const response = await fetch(`${baseUrl}/api${endpoint}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...getWebmasterHeaders(),
         ...options.headers,
       },
     });
@@ -73,9 +85,10 @@ export const AdminCollectionsPanel: React.FC = () => {
         body: JSON.stringify(credentials)
       });
       
-      if (response.webmaster) {
-        setIsAuthenticated(true);
-        await loadCollections();
+      if (response.twoFactorRequired) {
+        setChallengeToken(response.challengeToken);
+      } else if (response.webmaster) {
+        await startSession(response.token);
       }
     } catch (error: any) {
       alert(`Authentication failed: ${error.message || 'Invalid credentials'}`);
@@ -84,8 +97,28 @@ export const AdminCollectionsPanel: React.FC = () => {
     }
   };
 
+  const startSession = async (token: string) => {
+    webmasterTokenRef.current = token;
+    setChallengeToken(null);
+    setIsAuthenticated(true);
+    await loadCollections();
+  };
+
+  const handleTwoFactorSubmit = async (answer: TwoFactorAnswer) => {
+    const response = await apiCall('/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, ...answer })
+    });
+    if (response.webmaster) {
+      await startSession(response.token);
+    }
+  };
+
   const handleLogout = () => {
+    webmasterTokenRef.current = null;
     setIsAuthenticated(false);
+    setChallengeToken(null);
+    setShowSecurity(false);
     setCredentials({ username: '', password: '' });
   };
 
@@ -108,6 +141,7 @@ export const AdminCollectionsPanel: React.FC = () => {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getWebmasterHeaders(),
         }
       });
 
@@ -205,6 +239,16 @@ export const AdminCollectionsPanel: React.FC = () => {
             <h2 className="text-2xl font-bold text-center mb-6 text-gray-800 dark:text-white">
               Webmaster Access
             </h2>
+            {challengeToken ? (
+              <TwoFactorCodeForm
+                onSubmit={handleTwoFactorSubmit}
+                onCancel={() => {
+                  setChallengeToken(null);
+                  setCredentials(prev => ({ ...prev, password: '' }));
+                }}
+              />
+            ) : (
+            <>
             <p className="text-center text-gray-600 dark:text-gray-300 mb-6">
               Enter webmaster credentials to access Database Management
             </p>
@@ -241,6 +285,8 @@ export const AdminCollectionsPanel: React.FC = () => {
                 {authLoading ? 'Authenticating...' : 'Login'}
               </button>
             </form>
+            </>
+            )}
           </div>
         </div>
       </div>
@@ -258,17 +304,32 @@ export const AdminCollectionsPanel: React.FC = () => {
             Manage database collections - Export, Import and Clear data
           </p>
         </div>
-        <button
-          onClick={handleLogout}
-          className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md transition duration-200 flex items-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
-          </svg>
-          Logout
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowSecurity(!showSecurity)}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md transition duration-200"
+          >
+            {showSecurity ? 'Hide Security' : 'Security'}
+          </button>
+          <button
+            onClick={handleLogout}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md transition duration-200 flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+            </svg>
+            Logout
+          </button>
+        </div>
       </div>
 
+      {showSecurity && (
+        <TwoFactorSettings
+          authToken={webmasterTokenRef.current}
+          className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6"
+        />
+      )}
+
       {loading ? (
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
@@ -6,22 +6,32 @@ interface AdminSidebarProps {
     activePage: string;
     setActivePage: (page: string) => void;
     userRole: UserRole;
+    isCoordinator?: boolean;
 }
 
 const allManagementLinks = [
     { id: 'browser', label: 'Content Browser', roles: ['admin', 'teacher'] },
     { id: 'course-structure', label: 'Course Structure Management', roles: ['admin'] },
+    { id: 'publish-calendar', label: 'Release Calendar', roles: ['admin'] },
+    { id: 'academic-years', label: 'Academic Years', roles: ['admin'] },
+    { id: 'review-queue', label: 'Review Queue', roles: ['admin'] },
     { id: 'quiz-configuration', label: 'Quiz Configuration', roles: ['admin', 'teacher'] },
     { id: 'user-management', label: 'User Management', roles: ['admin'] },
     { id: 'collections-management', label: 'Database Management', roles: ['admin'] },
-    { id: 'downloads', label: 'Download Logs', roles: ['admin'] },
+    { id: 'downloads', label: 'Download Logs', roles: ['admin', 'coordinator'] },
+    { id: 'audit-log', label: 'Audit Log', roles: ['admin'] },
+    { id: 'recycle-bin', label: 'Recycle Bin', roles: ['admin'] },
     { id: 'teacher-requests', label: 'Teacher Requests', roles: ['admin'] },
+    { id: 'student-registrations', label: 'Student Registrations', roles: ['admin'] },
+    { id: 'locations', label: 'Districts & Schools', roles: ['admin'] },
     { id: 'reports', label: 'Reports', roles: ['admin', 'teacher'] },
 ];
 
-export const AdminSidebar: React.FC<AdminSidebarProps> = ({ isOpen, activePage, setActivePage, userRole }) => {
+export const AdminSidebar: React.FC<AdminSidebarProps> = ({ isOpen, activePage, setActivePage, userRole, isCoordinator = false }) => {
 
-    const visibleLinks = allManagementLinks.filter(link => link.roles.includes(userRole));
+    const visibleLinks = allManagementLinks.filter(link =>
+        link.roles.includes(userRole) || (isCoordinator && link.roles.includes('coordinator'))
+    );
 
     return (
         <aside className={`flex flex-col bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out ${isOpen ? 'w-72' : 'w-0'} overflow-hidden shrink-0`}>
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { CascadeSelectors } from './CascadeSelectors';
 import { Sidebar } from './Sidebar';
+import { TreeSelection } from './TreeView';
 import { Header } from './Header';
 import { AdminSidebar } from './AdminSidebar';
 import { ManagementPage } from './ManagementPage';
@@ -15,9 +16,18 @@ import { ContentDisplay } from './ContentDisplay';
 import { useSession } from '../context/SessionContext';
 import { AdminState } from '../types';
 import { useScrollPersistence } from '../hooks/useScrollPersistence';
+import { useUrlNavigation } from '../hooks/useUrlNavigation';
 import { SelectionRestorationIndicator } from './SelectionRestorationIndicator';
 import { DownloadLogsPage } from './admin/DownloadLogsPage';
+import { AuditLogPage } from './admin/AuditLogPage';
+import { RecycleBinPage } from './admin/RecycleBinPage';
+import { PublishCalendarPage } from './admin/PublishCalendarPage';
+import { AcademicYearsPage } from './admin/AcademicYearsPage';
+import { ReviewQueuePage } from './admin/ReviewQueuePage';
 import { TeacherRequests } from './TeacherRequests';
+import { StudentRegistrations } from './StudentRegistrations';
+import { LocationManagement } from './admin/LocationManagement';
+import { isDistrictCoordinator } from '../utils/locations';
 
 export const AdminView: React.FC = () => {
     // ... (rest of imports are fine, just adding TeacherRequests at top and switch case below)
@@ -113,7 +123,7 @@ export const AdminView: React.FC = () => {
     }, [updateStateAndResetScroll, isMobile]);
 
     const handleLessonChange = useCallback((id: string | null) => {
-        updateStateAndResetScroll({ lessonId: id, selectedResourceType: id ? 'book' : null });
+        updateStateAndResetScroll({ lessonId: id, selectedResourceType: null });
         // Auto-hide regular sidebar on mobile when selection changes, but keep admin sidebar open
         if (isMobile) {
             setSidebarOpen(false);
@@ -121,6 +131,14 @@ export const AdminView: React.FC = () => {
         }
     }, [updateStateAndResetScroll, isMobile]);
 
+    // Jump straight to any node from the course tree
+    const handleTreeSelect = useCallback((selection: TreeSelection) => {
+        updateStateAndResetScroll({ ...selection, selectedResourceType: null });
+        if (isMobile) {
+            setSidebarOpen(false);
+        }
+    }, [updateStateAndResetScroll, isMobile]);
+
     const handleSelectResourceType = useCallback((resourceType: ResourceType) => {
         updateStateAndResetScroll({ selectedResourceType: resourceType });
         // Auto-hide regular sidebar on mobile when menu item is selected, but keep admin sidebar open
@@ -139,6 +157,9 @@ export const AdminView: React.FC = () => {
         }
     }, [updateStateAndResetScroll, isMobile]);
 
+    // Address bar ⇄ selection: deep links, back/forward
+    useUrlNavigation(state, updateStateAndResetScroll, { withPages: true });
+
     const handleProfile = useCallback(() => {
         setIsProfilePageOpen(!isProfilePageOpen);
     }, [isProfilePageOpen]);
@@ -149,6 +170,7 @@ export const AdminView: React.FC = () => {
 
     // Determine if user has full admin access
     const isFullAdmin = user.role === 'admin';
+    const isCoordinator = isDistrictCoordinator(user);
 
     const renderContent = () => {
         if (isProfilePageOpen) {
@@ -190,6 +212,8 @@ export const AdminView: React.FC = () => {
                 );
             case 'course-structure':
                 return isFullAdmin ? <ClassManagement /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'review-queue':
+                return isFullAdmin ? <ReviewQueuePage /> : <div className="p-8 text-center">Access Denied</div>;
             case 'quiz-configuration':
                 return <QuizConfiguration />;
             case 'user-management':
@@ -197,9 +221,21 @@ export const AdminView: React.FC = () => {
             case 'collections-management':
                 return isFullAdmin ? <AdminCollectionsPanel /> : <div className="p-8 text-center">Access Denied</div>;
             case 'downloads':
-                return isFullAdmin ? <DownloadLogsPage user={user} /> : <div className="p-8 text-center">Access Denied</div>;
+                return isFullAdmin || isCoordinator ? <DownloadLogsPage user={user} /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'audit-log':
+                return isFullAdmin ? <AuditLogPage /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'publish-calendar':
+                return isFullAdmin ? <PublishCalendarPage /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'academic-years':
+                return isFullAdmin ? <AcademicYearsPage /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'recycle-bin':
+                return isFullAdmin ? <RecycleBinPage /> : <div className="p-8 text-center">Access Denied</div>;
             case 'teacher-requests':
                 return isFullAdmin ? <TeacherRequests /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'student-registrations':
+                return isFullAdmin ? <StudentRegistrations /> : <div className="p-8 text-center">Access Denied</div>;
+            case 'locations':
+                return isFullAdmin ? <LocationManagement /> : <div className="p-8 text-center">Access Denied</div>;
             case 'reports':
                 return <ReportsPage />;
             default:
@@ -215,6 +251,7 @@ export const AdminView: React.FC = () => {
                 onToggleAdminSidebar={() => setAdminSidebarOpen(!adminSidebarOpen)}
                 onLogout={logout}
                 onProfile={handleProfile}
+                onAcademicYearChange={() => handleClassChange(null)}
             />
             <SelectionRestorationIndicator />
             <div className="flex flex-1 overflow-hidden">
@@ -225,6 +262,9 @@ export const AdminView: React.FC = () => {
                         onSelectResourceType={handleSelectResourceType}
                         isOpen={sidebarOpen}
                         isMobile={isMobile}
+                        treeSelection={state}
+                        onTreeSelect={handleTreeSelect}
+                        onlyPublished={user.role !== 'admin' && !user.canEdit}
                     />
                 )}
                 <main
@@ -238,6 +278,7 @@ export const AdminView: React.FC = () => {
                     activePage={state.activePage}
                     setActivePage={handleSetActivePage}
                     userRole={user.role}
+                    isCoordinator={isCoordinator}
                 />
             </div>
         </div>
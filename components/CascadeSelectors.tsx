@@ -3,6 +3,7 @@ import { useApi } from '../hooks/useApi';
 import { getClasses, getSubjectsByClassId, getUnitsBySubjectId, getSubUnitsByUnitId, getLessonsBySubUnitId } from '../services/api';
 import { Class, Subject, Unit, SubUnit, Lesson } from '../types';
 import { SelectionModal } from './SelectionModal';
+import { useAcademicYear } from '../context/AcademicYearContext';
 
 interface CascadeSelectorsProps {
   classId: string | null;
@@ -33,7 +34,9 @@ export const CascadeSelectors: React.FC<CascadeSelectorsProps> = ({
   onModalToggle,
   onlyPublished = false
 }) => {
-  const { data: classes, isLoading: isLoadingClasses } = useApi<Class[]>(() => getClasses(onlyPublished), [onlyPublished]);
+  const { activeYear } = useAcademicYear();
+  const academicYear = activeYear?.name;
+  const { data: classes, isLoading: isLoadingClasses } = useApi<Class[]>(() => getClasses(onlyPublished, academicYear), [onlyPublished, academicYear]);
   const { data: subjects, isLoading: isLoadingSubjects } = useApi<Subject[]>(
     () => getSubjectsByClassId(classId!, onlyPublished),
     [classId, onlyPublished],
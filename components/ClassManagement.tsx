@@ -1,15 +1,190 @@
 import React, { useState, useCallback } from 'react';
 import { useApi } from '../hooks/useApi';
 import * as api from '../services/api';
-import { Class, Subject, Unit, SubUnit, Lesson } from '../types';
-import { PlusIcon, EditIcon, TrashIcon, EyeIcon, EyeOffIcon } from './icons/AdminIcons';
+import { Class, Subject, Unit, SubUnit, Lesson, AcademicYear } from '../types';
+import { PlusIcon, EditIcon, TrashIcon, EyeIcon, EyeOffIcon, GripIcon, CopyIcon, ClockIcon, InfoIcon } from './icons/AdminIcons';
 import { ConfirmModal } from './ConfirmModal';
 import { PublishToggle } from './common/PublishToggle';
+import { PublishScheduleModal } from './common/PublishScheduleModal';
+import { LessonMetadataModal } from './common/LessonMetadataModal';
+import { useToast } from '../context/ToastContext';
+import { useBackgroundTask } from '../context/BackgroundTaskContext';
+import { useAcademicYear } from '../context/AcademicYearContext';
+import { SyllabusImportModal } from './SyllabusImportModal';
 
-type Item = { _id: string; name: string; isPublished?: boolean };
+type Item = { _id: string; name: string; isPublished?: boolean; publishAt?: string; unpublishAt?: string };
 type Level = 'class' | 'subject' | 'unit' | 'subUnit' | 'lesson';
 
+const LEVEL_ROUTES: Record<Level, api.HierarchyRoute> = {
+    class: 'classes', subject: 'subjects', unit: 'units', subUnit: 'subUnits', lesson: 'lessons'
+};
+
+const LEVELS: Level[] = ['class', 'subject', 'unit', 'subUnit', 'lesson'];
+
+const LEVEL_NAMES: Record<Level, string> = {
+    class: 'Class', subject: 'Subject', unit: 'Unit', subUnit: 'Sub-Unit', lesson: 'Chapter'
+};
+
+const EXPORT_TYPES: Record<api.SyllabusFormat, string> = {
+    outline: 'text/plain;charset=utf-8', csv: 'text/csv;charset=utf-8', json: 'application/json'
+};
+
+const downloadSyllabus = ({ format, filename, content }: { format: api.SyllabusFormat; filename: string; content: string }) => {
+    // BOM so Excel opens Tamil names as UTF-8
+    const blob = new Blob([format === 'csv' ? '\uFEFF' + content : content], { type: EXPORT_TYPES[format] });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+};
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+    `${count} ${count === 1 ? singular : pluralForm}`;
+
+// "3 subjects, 12 units, ... and 38 content items" for everything below the node being deleted
+const describeDeletion = (summary: api.HierarchyDeletionSummary) => {
+    const parts = [
+        summary.subjects && plural(summary.subjects, 'subject'),
+        summary.units && plural(summary.units, 'unit'),
+        summary.subUnits && plural(summary.subUnits, 'sub-unit'),
+        summary.lessons && plural(summary.lessons, 'lesson'),
+        summary.contents && plural(summary.contents, 'content item')
+    ].filter(Boolean) as string[];
+    if (parts.length === 0) return 'Nothing else is stored under it.';
+    const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+    return `${list.charAt(0).toUpperCase()}${list.slice(1)} inside it will go with it.`;
+};
+
+
+const selectClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50";
+
+// Move a node under another parent, or copy it (with everything below it) there.
+// The destination is picked level by level down to the new parent; classes can only be
+// copied, optionally into another academic year. Nodes of an archived year can only be copied.
+const TransferModal: React.FC<{
+    item: Item | null;
+    level: Level | null;
+    years: AcademicYear[];
+    sourceYear: AcademicYear | null;
+    onClose: () => void;
+    onMove: (targetParentId: string) => Promise<void>;
+    onCopy: (targetParentId?: string, academicYear?: string) => void;
+}> = ({ item, level, years, sourceYear, onClose, onMove, onCopy }) => {
+    const depth = level ? LEVELS.indexOf(level) : 0;
+    const copyOnly = depth === 0 || !!sourceYear?.isArchived;
+    const openYears = years.filter(year => !year.isArchived);
+    const [mode, setMode] = useState<'move' | 'copy'>('copy');
+    const [path, setPath] = useState<(string | null)[]>([]);
+    const [targetYear, setTargetYear] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    React.useEffect(() => {
+        setMode(copyOnly ? 'copy' : 'move');
+        setPath([]);
+        setTargetYear(sourceYear && !sourceYear.isArchived ? sourceYear.name : years.find(year => year.isCurrent)?.name || '');
+        setError(null);
+    }, [item, copyOnly, sourceYear, years]);
+
+    const [classId, subjectId, unitId, subUnitId] = path;
+    const { data: allClasses } = useApi<Class[]>(api.getClasses, [], !!item && depth > 0);
+    // Archived years can't take new nodes
+    const classes = allClasses?.filter(option => !option.academicYear || openYears.some(year => year.name === option.academicYear)) || null;
+    const { data: subjects } = useApi<Subject[]>(() => api.getSubjectsByClassId(classId!), [classId], !!classId && depth > 1);
+    const { data: units } = useApi<Unit[]>(() => api.getUnitsBySubjectId(subjectId!), [subjectId], !!subjectId && depth > 2);
+    const { data: subUnits } = useApi<SubUnit[]>(() => api.getSubUnitsByUnitId(unitId!), [unitId], !!unitId && depth > 3);
+
+    if (!item || !level) return null;
+
+    const options: (Item[] | null)[] = [classes, subjects, units, subUnits].slice(0, depth);
+    const targetParentId = depth > 0 ? path[depth - 1] || null : undefined;
+    const canSubmit = depth === 0 || !!targetParentId;
+
+    const choose = (index: number, id: string) => setPath([...path.slice(0, index), id || null]);
+
+    const optionLabel = (option: Item & { academicYear?: string }) =>
+        option.academicYear && years.length > 1 ? `${option.name} (${option.academicYear})` : option.name;
 
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit || isSaving) return;
+        if (mode === 'copy') {
+            onCopy(targetParentId || undefined, depth === 0 && targetYear ? targetYear : undefined);
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onMove(targetParentId!);
+        } catch (err: any) {
+            setError(err.message || 'Failed to move');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Move or Copy "{item.name}"</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {depth === 0 && openYears.length > 0 && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Academic Year</label>
+                            <select value={targetYear} onChange={e => setTargetYear(e.target.value)} className={selectClasses}>
+                                {openYears.map(year => <option key={year._id} value={year.name}>{year.name}{year.isCurrent ? ' (current)' : ''}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {!copyOnly && (
+                        <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-300">
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mode === 'move'} onChange={() => setMode('move')} /> Move
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mode === 'copy'} onChange={() => setMode('copy')} /> Copy
+                            </label>
+                        </div>
+                    )}
+                    {options.map((items, index) => (
+                        <div key={LEVELS[index]}>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{LEVEL_NAMES[LEVELS[index]]}</label>
+                            <select
+                                value={path[index] || ''}
+                                onChange={e => choose(index, e.target.value)}
+                                disabled={index > 0 && !path[index - 1]}
+                                className={selectClasses}
+                            >
+                                <option value="">Select {LEVEL_NAMES[LEVELS[index]].toLowerCase()}...</option>
+                                {items?.map(option => <option key={option._id} value={option._id}>{optionLabel(option)}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {mode === 'move'
+                            ? 'Everything under it moves too.'
+                            : depth === 0 && targetYear && targetYear !== sourceYear?.name
+                                ? `Everything under it is copied into ${targetYear} as an unpublished draft, including content and stored files.`
+                                : 'Everything under it is copied, including content and stored files. The copy starts unpublished.'}
+                    </p>
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                    <div className="flex justify-end space-x-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 disabled:opacity-50" disabled={isSaving}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed" disabled={!canSubmit || isSaving}>
+                            {isSaving ? 'Moving...' : (mode === 'move' ? 'Move' : 'Copy')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
 
 const ManagementModal: React.FC<{
     isOpen: boolean;
@@ -40,13 +215,7 @@ const ManagementModal: React.FC<{
         }
     };
 
-    const levelName = {
-        class: 'Class',
-        subject: 'Subject',
-        unit: 'Unit',
-        subUnit: 'Sub-Unit',
-        lesson: 'Chapter'
-    }[level || 'class'];
+    const levelName = LEVEL_NAMES[level || 'class'];
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
@@ -87,7 +256,45 @@ const ManagementColumn: React.FC<{
     onTogglePublish?: (item: Item) => void;
     addDisabled?: boolean;
     onBulkToggle?: (shouldPublish: boolean) => void;
-}> = ({ title, items, isLoading, selectedId, onSelect, onAdd, onEdit, onDelete, onTogglePublish, addDisabled = false, onBulkToggle }) => {
+    onReorder?: (orderedIds: string[]) => void;
+    onTransfer?: (item: Item) => void;
+    onSchedule?: (item: Item) => void;
+    onEditDetails?: (item: Item) => void;
+    // Archived year: browse and copy only
+    readOnly?: boolean;
+}> = ({ title, items, isLoading, selectedId, onSelect, onAdd, onEdit, onDelete, onTogglePublish, addDisabled = false, onBulkToggle, onReorder, onTransfer, onSchedule, onEditDetails, readOnly = false }) => {
+    // While dragging, the list is previewed in its would-be order; it is saved on drag end
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [previewItems, setPreviewItems] = useState<Item[] | null>(null);
+    const visibleItems = previewItems || items;
+    const canReorder = !readOnly && !!onReorder && !!items && items.length > 1;
+
+    const handleDragStart = (e: React.DragEvent, id: string) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', id);
+        setDraggedId(id);
+        setPreviewItems(items);
+    };
+
+    const handleDragOver = (e: React.DragEvent, overId: string) => {
+        if (!draggedId) return;
+        e.preventDefault();
+        if (overId === draggedId || !previewItems) return;
+        const from = previewItems.findIndex(i => i._id === draggedId);
+        const to = previewItems.findIndex(i => i._id === overId);
+        const next = [...previewItems];
+        next.splice(to, 0, ...next.splice(from, 1));
+        setPreviewItems(next);
+    };
+
+    const handleDragEnd = () => {
+        const orderedIds = previewItems?.map(i => i._id);
+        if (onReorder && orderedIds && orderedIds.some((id, index) => id !== items?.[index]?._id)) {
+            onReorder(orderedIds);
+        }
+        setDraggedId(null);
+        setPreviewItems(null);
+    };
 
     // Logic: If EVERY item is unpublished (draft), show "Publish All".
     // Otherwise (if even one is published), show "Unpublish All".
@@ -99,7 +306,7 @@ const ManagementColumn: React.FC<{
             <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center shrink-0 flex-wrap gap-2">
                 <h2 className="font-semibold text-gray-700 dark:text-gray-200 text-sm">{title}</h2>
                 <div className="flex items-center gap-2">
-                    {onBulkToggle && hasItems && (
+                    {!readOnly && onBulkToggle && hasItems && (
                         <button
                             onClick={() => onBulkToggle(allUnpublished)}
                             className={`px-2 py-1 rounded text-xs font-semibold border transition-colors ${allUnpublished
@@ -111,7 +318,7 @@ const ManagementColumn: React.FC<{
                             {allUnpublished ? "Publish All" : "Unpublish All"}
                         </button>
                     )}
-                    <button
+                    {!readOnly && <button
                         onClick={onAdd}
                         disabled={addDisabled}
                         className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-gray-700 disabled:text-gray-400 dark:disabled:text-gray-500 disabled:cursor-not-allowed disabled:hover:bg-transparent"
@@ -119,32 +326,52 @@ const ManagementColumn: React.FC<{
                     >
                         <PlusIcon className="w-3 h-3" />
                         <span>Add</span>
-                    </button>
+                    </button>}
                 </div>
             </div>
             <div className="overflow-y-auto flex-1">
                 {isLoading && !items && <div className="p-4 text-center text-gray-500 text-xs">Loading...</div>}
                 {!isLoading && items?.length === 0 && <div className="p-4 text-center text-xs text-gray-500">No items found.</div>}
-                {items?.map(item => (
+                {visibleItems?.map(item => (
                     <div
                         key={item._id}
                         onClick={() => onSelect(item._id)}
-                        className={`group flex justify-between items-center p-2.5 text-sm cursor-pointer border-l-4 ${selectedId === item._id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/50' : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                        draggable={canReorder}
+                        onDragStart={canReorder ? (e) => handleDragStart(e, item._id) : undefined}
+                        onDragOver={canReorder ? (e) => handleDragOver(e, item._id) : undefined}
+                        onDrop={canReorder ? (e) => e.preventDefault() : undefined}
+                        onDragEnd={canReorder ? handleDragEnd : undefined}
+                        className={`group flex justify-between items-center p-2.5 text-sm cursor-pointer border-l-4 ${draggedId === item._id ? 'opacity-50' : ''} ${selectedId === item._id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/50' : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
                     >
                         <div className="flex items-center overflow-hidden">
-                            {onTogglePublish && (
+                            {canReorder && (
+                                <span className="mr-2 text-gray-300 dark:text-gray-600 group-hover:text-gray-500 cursor-grab" title="Drag to reorder">
+                                    <GripIcon className="w-3 h-3" />
+                                </span>
+                            )}
+                            {!readOnly && onTogglePublish && (
                                 <div className="mr-3">
                                     <PublishToggle
                                         isPublished={!!item.isPublished}
                                         onToggle={() => onTogglePublish(item)}
+                                        publishAt={item.publishAt}
                                     />
                                 </div>
                             )}
                             <span className="font-medium text-gray-800 dark:text-gray-200 truncate pr-2">{item.name}</span>
                         </div>
                         <div onClick={(e) => e.stopPropagation()} className="flex items-center shrink-0">
-                            <button onClick={(e) => { e.stopPropagation(); onEdit(item); }} className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
-                            <button onClick={(e) => { e.stopPropagation(); onDelete(item._id); }} className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                            {!readOnly && <button onClick={(e) => { e.stopPropagation(); onEdit(item); }} className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>}
+                            {!readOnly && onSchedule && (
+                                <button onClick={(e) => { e.stopPropagation(); onSchedule(item); }} className={`p-1 hover:text-blue-600 dark:hover:text-blue-400 ${item.publishAt || item.unpublishAt ? 'text-sky-600 dark:text-sky-400' : 'text-gray-500'}`} title="Schedule publishing"><ClockIcon className="w-4 h-4" /></button>
+                            )}
+                            {!readOnly && onEditDetails && (
+                                <button onClick={(e) => { e.stopPropagation(); onEditDetails(item); }} className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400" title="Objectives, periods, keywords and competencies"><InfoIcon className="w-4 h-4" /></button>
+                            )}
+                            {onTransfer && (
+                                <button onClick={(e) => { e.stopPropagation(); onTransfer(item); }} className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400" title="Move or copy"><CopyIcon className="w-4 h-4" /></button>
+                            )}
+                            {!readOnly && <button onClick={(e) => { e.stopPropagation(); onDelete(item._id); }} className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>}
                         </div>
                     </div>
                 ))}
@@ -163,14 +390,25 @@ export const ClassManagement: React.FC = () => {
 
     const [modalState, setModalState] = useState<{ isOpen: boolean; level: Level | null; itemToEdit: Item | null }>({ isOpen: false, level: null, itemToEdit: null });
     const [confirmModalState, setConfirmModalState] = useState<{ isOpen: boolean; onConfirm: (() => void) | null; title?: string; message?: string }>({ isOpen: false, onConfirm: null });
+    const [transferState, setTransferState] = useState<{ level: Level | null; item: Item | null }>({ level: null, item: null });
+    const [scheduleState, setScheduleState] = useState<{ level: Level | null; item: Item | null }>({ level: null, item: null });
+
+    const [detailsLesson, setDetailsLesson] = useState<Lesson | null>(null);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [exportFormat, setExportFormat] = useState<api.SyllabusFormat>('outline');
+    const [isExporting, setIsExporting] = useState(false);
 
     const [classVersion, setClassVersion] = useState(0);
     const [subjectVersion, setSubjectVersion] = useState(0);
     const [unitVersion, setUnitVersion] = useState(0);
     const [subUnitVersion, setSubUnitVersion] = useState(0);
     const [lessonVersion, setLessonVersion] = useState(0);
+    const { showToast } = useToast();
+    const { addTask } = useBackgroundTask();
+    const { years, activeYear, isReadOnly } = useAcademicYear();
+    const academicYear = activeYear?.name;
 
-    const { data: classes, isLoading: isLoadingClasses } = useApi<Class[]>(api.getClasses, [classVersion]);
+    const { data: classes, isLoading: isLoadingClasses, setData: setClasses } = useApi<Class[]>(() => api.getClasses(false, academicYear), [classVersion, academicYear]);
     const { data: subjects, isLoading: isLoadingSubjects, setData: setSubjects } = useApi<Subject[]>(() => api.getSubjectsByClassId(selectedClassId!), [selectedClassId, subjectVersion], !!selectedClassId);
     const { data: units, isLoading: isLoadingUnits, setData: setUnits } = useApi<Unit[]>(() => api.getUnitsBySubjectId(selectedSubjectId!), [selectedSubjectId, unitVersion], !!selectedSubjectId);
     const { data: subUnits, isLoading: isLoadingSubUnits, setData: setSubUnits } = useApi<SubUnit[]>(() => api.getSubUnitsByUnitId(selectedUnitId!), [selectedUnitId, subUnitVersion], !!selectedUnitId);
@@ -185,7 +423,7 @@ export const ClassManagement: React.FC = () => {
     const openModal = (level: Level, itemToEdit: Item | null = null) => setModalState({ isOpen: true, level, itemToEdit });
     const closeModal = () => setModalState({ isOpen: false, level: null, itemToEdit: null });
 
-    const openConfirmModal = (onConfirm: () => void, title = "Confirm Deletion", message = "Are you sure you want to delete this item and all its contents? This action cannot be undone.") => {
+    const openConfirmModal = (onConfirm: () => void, title = "Confirm Deletion", message = "Are you sure you want to delete this item and all its contents? It can be restored from the Recycle Bin.") => {
         setConfirmModalState({ isOpen: true, onConfirm, title, message });
     };
 
@@ -223,7 +461,10 @@ export const ClassManagement: React.FC = () => {
         }
     }, []);
 
-    const handleDelete = (level: Level, id: string) => {
+    // Another year shows other classes
+    React.useEffect(() => { handleSelect('class', null); }, [academicYear, handleSelect]);
+
+    const handleDelete = async (level: Level, id: string) => {
         const confirmAction = async () => {
             switch (level) {
                 case 'class':
@@ -254,7 +495,76 @@ export const ClassManagement: React.FC = () => {
             }
             closeConfirmModal();
         };
-        openConfirmModal(confirmAction);
+
+        const levelItems: Item[] = { class: classes, subject: subjects, unit: units, subUnit: subUnits, lesson: lessons }[level] || [];
+        const name = levelItems.find(item => item._id === id)?.name;
+        try {
+            const summary = await api.getDeletionSummary(LEVEL_ROUTES[level], id);
+            openConfirmModal(confirmAction, "Confirm Deletion", `Move "${name}" to the Recycle Bin? ${describeDeletion(summary)} It can be restored from there.`);
+        } catch (error) {
+            console.error('Failed to load deletion summary:', error);
+            openConfirmModal(confirmAction);
+        }
+    };
+
+    // Shows the new order straight away; reloads the column if saving it fails
+    const handleReorder = async (level: Level, orderedIds: string[]) => {
+        const inOrder = <T extends Item>(items: T[] | null) => {
+            const byId = new Map((items || []).map(item => [item._id, item]));
+            return orderedIds.map(id => byId.get(id)).filter((item): item is T => !!item);
+        };
+        const reload = { class: setClassVersion, subject: setSubjectVersion, unit: setUnitVersion, subUnit: setSubUnitVersion, lesson: setLessonVersion }[level];
+
+        switch (level) {
+            case 'class': setClasses(inOrder(classes)); break;
+            case 'subject': setSubjects(inOrder(subjects)); break;
+            case 'unit': setUnits(inOrder(units)); break;
+            case 'subUnit': setSubUnits(inOrder(subUnits)); break;
+            case 'lesson': setLessons(inOrder(lessons)); break;
+        }
+        try {
+            await api.reorderHierarchy(LEVEL_ROUTES[level], orderedIds);
+        } catch (error: any) {
+            console.error('Failed to save order:', error);
+            showToast(error.message || 'Failed to save the new order', 'error');
+            reload(v => v + 1);
+        }
+    };
+
+    const closeTransfer = () => setTransferState({ level: null, item: null });
+
+    // Columns that may show the moved or copied node, at its old or new place
+    const reloadFrom = (level: Level) => {
+        const setters = [setClassVersion, setSubjectVersion, setUnitVersion, setSubUnitVersion, setLessonVersion];
+        setters.slice(LEVELS.indexOf(level)).forEach(setVersion => setVersion(v => v + 1));
+    };
+
+    const handleMove = async (targetParentId: string) => {
+        const { level, item } = transferState;
+        if (!level || !item) return;
+        await api.moveHierarchyNode(LEVEL_ROUTES[level], item._id, targetParentId);
+        closeTransfer();
+        reloadFrom(level);
+        showToast(`"${item.name}" moved`, 'success');
+    };
+
+    // Runs in the background: the copy request, then one request per stored file
+    const handleCopy = (targetParentId?: string, targetYear?: string) => {
+        const { level, item } = transferState;
+        if (!level || !item) return;
+        addTask({
+            type: 'copy',
+            title: item.name,
+            route: LEVEL_ROUTES[level],
+            sourceId: item._id,
+            targetParentId,
+            academicYear: targetYear,
+            onCopied: () => reloadFrom(level)
+        });
+        closeTransfer();
+        showToast(targetYear && targetYear !== academicYear
+            ? `Copying "${item.name}" into ${targetYear} in the background`
+            : `Copying "${item.name}" in the background`, 'info');
     };
 
     const handleSave = async (name: string) => {
@@ -264,7 +574,7 @@ export const ClassManagement: React.FC = () => {
                 if (itemToEdit) {
                     await api.updateClass(itemToEdit._id, { name });
                 } else {
-                    await api.addClass(name);
+                    await api.addClass(name, academicYear);
                 }
                 setClassVersion(v => v + 1);
                 break;
@@ -330,9 +640,47 @@ export const ClassManagement: React.FC = () => {
         }
     };
 
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            downloadSyllabus(await api.exportSyllabus(exportFormat, { academicYear }));
+        } catch (e: any) {
+            showToast(e.message || 'Export failed', 'error');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     return (
         <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col">
-            <h1 className="text-lg sm:text-2xl font-bold text-gray-800 dark:text-white mb-4">Course Structure Management</h1>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h1 className="text-lg sm:text-2xl font-bold text-gray-800 dark:text-white">Course Structure Management</h1>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value as api.SyllabusFormat)}
+                        aria-label="Export format"
+                        className="px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-white"
+                    >
+                        <option value="outline">Outline (.txt)</option>
+                        <option value="csv">CSV</option>
+                        <option value="json">JSON</option>
+                    </select>
+                    <button onClick={handleExport} disabled={isExporting} className="px-3 py-2 text-sm rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+                        {isExporting ? 'Exporting...' : 'Export Syllabus'}
+                    </button>
+                    {!isReadOnly && (
+                        <button onClick={() => setIsImportOpen(true)} className="px-3 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700">
+                            Import Syllabus
+                        </button>
+                    )}
+                </div>
+            </div>
+            {isReadOnly && activeYear && (
+                <div className="mb-4 px-4 py-2 rounded-md text-sm bg-amber-50 text-amber-800 border border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-800">
+                    {activeYear.name} is archived and read-only. Copy a class into an open year to reuse its material.
+                </div>
+            )}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 flex-1">
                 <ManagementColumn
                     title="Classes"
@@ -343,6 +691,10 @@ export const ClassManagement: React.FC = () => {
                     onAdd={() => openModal('class')}
                     onEdit={(item) => openModal('class', item)}
                     onDelete={(id) => handleDelete('class', id)}
+                    onReorder={(ids) => handleReorder('class', ids)}
+                    onTransfer={(item) => setTransferState({ level: 'class', item })}
+                    onSchedule={(item) => setScheduleState({ level: 'class', item })}
+                    readOnly={isReadOnly}
                     onTogglePublish={(item) => handleTogglePublish(item, 'class')}
                     onBulkToggle={(shouldPublish) => {
                         openConfirmModal(async () => {
@@ -362,6 +714,10 @@ export const ClassManagement: React.FC = () => {
                     onAdd={() => openModal('subject')}
                     onEdit={(item) => openModal('subject', item)}
                     onDelete={(id) => handleDelete('subject', id)}
+                    onReorder={(ids) => handleReorder('subject', ids)}
+                    onTransfer={(item) => setTransferState({ level: 'subject', item })}
+                    onSchedule={(item) => setScheduleState({ level: 'subject', item })}
+                    readOnly={isReadOnly}
                     onTogglePublish={(item) => handleTogglePublish(item, 'subject')}
                     addDisabled={!selectedClassId}
                     onBulkToggle={(shouldPublish) => {
@@ -384,6 +740,10 @@ export const ClassManagement: React.FC = () => {
                     onAdd={() => openModal('unit')}
                     onEdit={(item) => openModal('unit', item)}
                     onDelete={(id) => handleDelete('unit', id)}
+                    onReorder={(ids) => handleReorder('unit', ids)}
+                    onTransfer={(item) => setTransferState({ level: 'unit', item })}
+                    onSchedule={(item) => setScheduleState({ level: 'unit', item })}
+                    readOnly={isReadOnly}
                     onTogglePublish={(item) => handleTogglePublish(item, 'unit')}
                     addDisabled={!selectedSubjectId}
                     onBulkToggle={(shouldPublish) => {
@@ -406,6 +766,10 @@ export const ClassManagement: React.FC = () => {
                     onAdd={() => openModal('subUnit')}
                     onEdit={(item) => openModal('subUnit', item)}
                     onDelete={(id) => handleDelete('subUnit', id)}
+                    onReorder={(ids) => handleReorder('subUnit', ids)}
+                    onTransfer={(item) => setTransferState({ level: 'subUnit', item })}
+                    onSchedule={(item) => setScheduleState({ level: 'subUnit', item })}
+                    readOnly={isReadOnly}
                     onTogglePublish={(item) => handleTogglePublish(item, 'subUnit')}
                     addDisabled={!selectedUnitId}
                     onBulkToggle={(shouldPublish) => {
@@ -428,6 +792,11 @@ export const ClassManagement: React.FC = () => {
                     onAdd={() => openModal('lesson')}
                     onEdit={(item) => openModal('lesson', item)}
                     onDelete={(id) => handleDelete('lesson', id)}
+                    onReorder={(ids) => handleReorder('lesson', ids)}
+                    onTransfer={(item) => setTransferState({ level: 'lesson', item })}
+                    onSchedule={(item) => setScheduleState({ level: 'lesson', item })}
+                    onEditDetails={(item) => setDetailsLesson(lessons?.find(lesson => lesson._id === item._id) || null)}
+                    readOnly={isReadOnly}
                     onTogglePublish={(item) => handleTogglePublish(item, 'lesson')}
                     addDisabled={!selectedSubUnitId}
                     onBulkToggle={(shouldPublish) => {
@@ -449,6 +818,34 @@ export const ClassManagement: React.FC = () => {
                 itemToEdit={modalState.itemToEdit}
                 level={modalState.level}
             />
+            <TransferModal
+                item={transferState.item}
+                level={transferState.level}
+                years={years}
+                sourceYear={activeYear}
+                onClose={closeTransfer}
+                onMove={handleMove}
+                onCopy={handleCopy}
+            />
+            <LessonMetadataModal
+                lesson={detailsLesson}
+                onClose={() => setDetailsLesson(null)}
+                onSaved={() => setLessonVersion(v => v + 1)}
+            />
+            <SyllabusImportModal
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+                onImported={() => reloadFrom('class')}
+                academicYear={academicYear}
+            />
+            <PublishScheduleModal
+                isOpen={!!scheduleState.item}
+                onClose={() => setScheduleState({ level: null, item: null })}
+                route={scheduleState.level ? LEVEL_ROUTES[scheduleState.level] : 'classes'}
+                item={scheduleState.item}
+                itemName={scheduleState.item?.name || ''}
+                onSaved={() => scheduleState.level && reloadFrom(scheduleState.level)}
+            />
             <ConfirmModal
                 isOpen={confirmModalState.isOpen}
                 onClose={closeConfirmModal}
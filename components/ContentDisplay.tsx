@@ -2,6 +2,8 @@ import React, { useEffect } from 'react';
 import { ResourceType, User } from '../types';
 import { useApi } from '../hooks/useApi';
 import { getHierarchy } from '../services/api';
+import { canEditPath } from '../utils/editScopes';
+import { useAcademicYear } from '../context/AcademicYearContext';
 import { BookView } from './content_views/BookView';
 import { SlideView } from './content_views/SlideView';
 import { WorksheetView } from './content_views/WorksheetView';
@@ -13,6 +15,7 @@ import { VideoView } from './content_views/VideoView';
 import { AudioView } from './content_views/AudioView';
 import { QuizView } from './content_views/QuizView';
 import { QuestionPaperView } from './content_views/QuestionPaperView';
+import { LessonOverviewCard } from './common/LessonOverviewCard';
 
 interface ContentDisplayProps {
   lessonId: string | null;
@@ -41,38 +44,53 @@ export const ContentDisplay: React.FC<ContentDisplayProps> = ({ lessonId, select
     !!lessonId
   );
 
+  const { isReadOnly } = useAcademicYear();
+
+  // Teachers with edit scopes can only edit lessons inside those scopes; archived years
+  // are browse-only (published material, as students saw it)
+  const canEdit = canEditPath(user, hierarchy) && !isReadOnly;
+
   if (!lessonId) {
     return <WelcomeMessage message="Select a chapter to begin" subMessage="Use the selectors at the top to navigate to a chapter." />;
   }
 
   if (!selectedResourceType) {
-    return <WelcomeMessage message="Select a resource" subMessage="Choose a resource type from the sidebar to view its content." />;
+    if (!hierarchy) {
+      return <WelcomeMessage message="Select a resource" subMessage="Choose a resource type from the sidebar to view its content." />;
+    }
+    return (
+      <LessonOverviewCard
+        lessonName={hierarchy.lessonName}
+        path={[hierarchy.className, hierarchy.subjectName, hierarchy.unitName, hierarchy.subUnitName]}
+        metadata={hierarchy}
+      />
+    );
   }
 
   const renderContent = () => {
     switch (selectedResourceType) {
       case 'book':
-        return <BookView lessonId={lessonId} user={user} />;
+        return <BookView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'worksheet':
-        return <WorksheetView lessonId={lessonId} user={user} />;
+        return <WorksheetView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'notes':
-        return <NotesView lessonId={lessonId} user={user} />;
+        return <NotesView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'qa':
-        return <QAView lessonId={lessonId} user={user} />;
+        return <QAView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'flashcard':
-        return <FlashcardView lessonId={lessonId} user={user} />;
+        return <FlashcardView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'video':
-        return <VideoView lessonId={lessonId} user={user} />;
+        return <VideoView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'audio':
-        return <AudioView lessonId={lessonId} user={user} />;
+        return <AudioView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'quiz':
-        return <QuizView lessonId={lessonId} user={user} />;
+        return <QuizView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'questionPaper':
-        return <QuestionPaperView lessonId={lessonId} user={user} />;
+        return <QuestionPaperView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'slide':
-        return <SlideView lessonId={lessonId} user={user} />;
+        return <SlideView lessonId={lessonId} user={user} canEdit={canEdit} />;
       case 'activity':
-        return <GenericContentView lessonId={lessonId} user={user} resourceType={selectedResourceType} />;
+        return <GenericContentView lessonId={lessonId} user={user} canEdit={canEdit} resourceType={selectedResourceType} />;
       default:
         return <WelcomeMessage message="Unknown resource type" subMessage="This resource type is not supported." />;
     }
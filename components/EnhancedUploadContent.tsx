@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { cloudinaryUploadService } from '../services/cloudinaryUpload';
 import { useDuplicatePrevention } from '../hooks/useDuplicatePrevention';
+import { authFetch } from '../services/api';
 
 interface UploadContentProps {
   lessonId: string;
@@ -269,7 +270,7 @@ export const UploadContent: React.FC<UploadContentProps> = ({
     mimeType: string;
     resourceType: string;
   }) => {
-    const response = await fetch('/api/content/cloudinary-save', {
+    const response = await authFetch('/api/content/cloudinary-save', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as api from '../services/api';
+import { useApi } from '../hooks/useApi';
+import { useAcademicYear } from '../context/AcademicYearContext';
+import { RESOURCE_TYPES } from '../constants';
+import { ResourceType, User } from '../types';
+import { hasEditAccess } from '../utils/editScopes';
+import { UrlNavigationState, openNavigationPath } from '../utils/urlNavigation';
+import { SearchIcon, XIcon } from './icons/AdminIcons';
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 300;
+
+const KIND_FIELDS: Record<string, keyof Omit<UrlNavigationState, 'selectedResourceType' | 'activePage'>> = {
+  classes: 'classId',
+  subjects: 'subjectId',
+  units: 'unitId',
+  subUnits: 'subUnitId',
+  lessons: 'lessonId'
+};
+
+const KIND_LABELS: Record<string, string> = {
+  classes: 'Class',
+  subjects: 'Subject',
+  units: 'Unit',
+  subUnits: 'Sub-unit',
+  lessons: 'Lesson'
+};
+
+type SearchHit =
+  | { kind: 'content'; result: api.ContentSearchResult }
+  | { kind: 'node'; result: api.HierarchySearchResult };
+
+// Browse path of a result: the ids above it, the node itself, and a resource's type
+const navigationStateFor = (hit: SearchHit): UrlNavigationState => {
+  const state: UrlNavigationState = { classId: null, subjectId: null, unitId: null, subUnitId: null, lessonId: null, selectedResourceType: null };
+  const crumbs = hit.kind === 'node' ? [...hit.result.breadcrumb, { _id: hit.result._id, kind: hit.result.kind }] : hit.result.breadcrumb;
+  crumbs.forEach(crumb => {
+    const field = KIND_FIELDS[crumb.kind];
+    if (field) state[field] = crumb._id;
+  });
+  if (hit.kind === 'content') state.selectedResourceType = hit.result.type;
+  return state;
+};
+
+const selectClass = 'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 min-w-0';
+
+/**
+ * Header search over every lesson and resource of the academic year shown. Picking a result
+ * opens that lesson and resource through the URL, like a deep link.
+ */
+export const GlobalSearch: React.FC<{ user: User }> = ({ user }) => {
+  const { activeYear } = useAcademicYear();
+  const isEditor = hasEditAccess(user);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [classId, setClassId] = useState('');
+  const [subjectId, setSubjectId] = useState('');
+  const [type, setType] = useState<ResourceType | ''>('');
+  const [status, setStatus] = useState<api.SearchStatus>('all');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Filters start over with the year
+  useEffect(() => {
+    setClassId('');
+    setSubjectId('');
+  }, [activeYear?.name]);
+
+  const { data: classes } = useApi(() => api.getClasses(!isEditor, activeYear?.name), [isEditor, activeYear?.name], isOpen);
+  const { data: subjects } = useApi(() => api.getSubjectsByClassId(classId, !isEditor), [classId, isEditor], isOpen && !!classId);
+
+  const canSearch = isOpen && debouncedQuery.length >= MIN_QUERY_LENGTH;
+  const { data: results, isLoading, error } = useApi(
+    () => api.searchAll(debouncedQuery, {
+      classId: classId || null,
+      subjectId: subjectId || null,
+      academicYear: activeYear?.name,
+      type: type || null,
+      status: isEditor ? status : undefined
+    }),
+    [debouncedQuery, classId, subjectId, type, status, isEditor, activeYear?.name],
+    canSearch
+  );
+
+  const hits: SearchHit[] = canSearch && results ? [
+    ...results.contents.map(result => ({ kind: 'content' as const, result })),
+    ...results.nodes.map(result => ({ kind: 'node' as const, result }))
+  ] : [];
+
+  useEffect(() => setActiveIndex(0), [results]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    // Ctrl+K / ⌘K from anywhere
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsOpen(true);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleShortcut);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleShortcut);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  const openHit = (hit: SearchHit) => {
+    openNavigationPath(navigationStateFor(hit));
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'ArrowDown' && hits.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % hits.length);
+    } else if (e.key === 'ArrowUp' && hits.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + hits.length) % hits.length);
+    } else if (e.key === 'Enter' && hits[activeIndex]) {
+      e.preventDefault();
+      openHit(hits[activeIndex]);
+    }
+  };
+
+  const renderHit = (hit: SearchHit, index: number) => {
+    const path = hit.result.breadcrumb.map(crumb => crumb.name).join(' › ');
+    const resource = hit.kind === 'content' ? RESOURCE_TYPES.find(entry => entry.key === hit.result.type) : undefined;
+    const Icon = resource?.Icon;
+    return (
+      <li key={`${hit.kind}-${hit.result._id}`}>
+        <button
+          onClick={() => openHit(hit)}
+          onMouseEnter={() => setActiveIndex(index)}
+          className={`w-full text-left px-3 py-2 flex items-start gap-3 ${index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+        >
+          {Icon ? (
+            <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${resource?.color || ''}`} />
+          ) : (
+            <span className="mt-0.5 shrink-0 px-1.5 py-0.5 text-[10px] font-medium rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+              {hit.kind === 'node' ? KIND_LABELS[hit.result.kind] : ''}
+            </span>
+          )}
+          <span className="min-w-0 flex-1">
+            <span className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate font-tau-paalai">
+                {hit.kind === 'content' ? hit.result.title : hit.result.name}
+              </span>
+              {isEditor && !hit.result.isPublished && (
+                <span className="shrink-0 px-1.5 py-0.5 text-[10px] rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Draft</span>
+              )}
+            </span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+              {resource ? `${resource.label} · ` : ''}{path}
+            </span>
+            {hit.kind === 'content' && hit.result.snippet && (
+              <span className="block text-xs text-gray-600 dark:text-gray-300 line-clamp-2 font-tau-paalai">{hit.result.snippet}</span>
+            )}
+          </span>
+        </button>
+      </li>
+    );
+  };
+
+  const contentCount = results && canSearch ? results.contents.length : 0;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 h-8 sm:h-7 px-2 sm:px-3 rounded-full sm:rounded-md sm:border sm:border-gray-300 sm:dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="Search lessons and resources (Ctrl+K)"
+        aria-label="Search"
+        aria-expanded={isOpen}
+      >
+        <SearchIcon className="h-5 w-5 sm:h-4 sm:w-4" />
+        <span className="hidden lg:inline text-sm text-gray-500 dark:text-gray-400">Search...</span>
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed sm:absolute left-2 right-2 sm:left-auto sm:right-0 top-16 sm:top-full sm:mt-2 sm:w-[32rem] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50"
+          onKeyDown={handleKeyDown}
+        >
+          <div className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+            <div className="flex items-center gap-2">
+              <SearchIcon className="h-4 w-4 text-gray-400 shrink-0" />
+              <input
+                ref={inputRef}
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Search lessons and resources"
+                className="flex-1 min-w-0 bg-transparent text-sm text-gray-800 dark:text-gray-100 focus:outline-none font-tau-paalai"
+                aria-label="Search text"
+              />
+              {query && (
+                <button onClick={() => { setQuery(''); inputRef.current?.focus(); }} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Clear search">
+                  <XIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <select value={classId} onChange={e => { setClassId(e.target.value); setSubjectId(''); }} className={selectClass} aria-label="Class">
+                <option value="">All classes</option>
+                {(classes || []).map(entry => <option key={entry._id} value={entry._id}>{entry.name}</option>)}
+              </select>
+              <select value={subjectId} onChange={e => setSubjectId(e.target.value)} disabled={!classId} className={`${selectClass} disabled:opacity-50`} aria-label="Subject">
+                <option value="">All subjects</option>
+                {(classId ? subjects || [] : []).map(entry => <option key={entry._id} value={entry._id}>{entry.name}</option>)}
+              </select>
+              <select value={type} onChange={e => setType(e.target.value as ResourceType | '')} className={selectClass} aria-label="Resource type">
+                <option value="">All resources</option>
+                {RESOURCE_TYPES.map(resource => <option key={resource.key} value={resource.key}>{resource.label}</option>)}
+              </select>
+              {isEditor && (
+                <select value={status} onChange={e => setStatus(e.target.value as api.SearchStatus)} className={selectClass} aria-label="Publish state">
+                  <option value="all">Published and drafts</option>
+                  <option value="published">Published only</option>
+                  <option value="draft">Drafts only</option>
+                </select>
+              )}
+            </div>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto">
+            {!canSearch ? (
+              <p className="px-3 py-4 text-xs text-gray-500 dark:text-gray-400">
+                Type at least {MIN_QUERY_LENGTH} characters. Tamil words match with their endings, e.g. பள்ளி finds பள்ளியில்.
+              </p>
+            ) : error ? (
+              <p className="px-3 py-4 text-sm text-red-500">{error.message}</p>
+            ) : isLoading && !results ? (
+              <p className="px-3 py-4 text-sm text-gray-500">Searching...</p>
+            ) : hits.length === 0 ? (
+              <p className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">No matches.</p>
+            ) : (
+              <>
+                {contentCount > 0 && (
+                  <>
+                    <div className="px-3 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">Resources</div>
+                    <ul>{hits.slice(0, contentCount).map((hit, index) => renderHit(hit, index))}</ul>
+                  </>
+                )}
+                {hits.length > contentCount && (
+                  <>
+                    <div className="px-3 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">Lessons and syllabus</div>
+                    <ul>{hits.slice(contentCount).map((hit, index) => renderHit(hit, contentCount + index))}</ul>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,9 @@ import { User } from '../types';
 import { FullScreenIcon, ExitFullScreenIcon, LogoutIcon, SettingsIcon, UsersIcon } from './icons/AdminIcons';
 import { SelectionModal } from './SelectionModal';
 import { ResolutionModal } from './ResolutionModal';
+import { GlobalSearch } from './GlobalSearch';
+import { isDistrictCoordinator } from '../utils/locations';
+import { useAcademicYear } from '../context/AcademicYearContext';
 
 
 interface HeaderProps {
@@ -13,6 +16,8 @@ interface HeaderProps {
     selectedClass?: string;
     onClassSelect?: () => void;
     onProfile?: () => void;
+  // After the academic year is switched, e.g. to clear a selection from the previous year
+  onAcademicYearChange?: () => void;
 }
 
 const MenuIcon: React.FC<{className?: string}> = ({className}) => (
@@ -39,7 +44,8 @@ const ChevronDownIcon: React.FC<{className?: string}> = ({className}) => (
     <svg className={className} stroke="currentColor" fill="none" strokeWidth="2" viewBox="0 0 24 24" strokeLinecap="round" strokeLinejoin="round" height="1em" width="1em" xmlns="http://www.w3.org/2000/svg"><polyline points="6,9 12,15 18,9"></polyline></svg>
 );
 
-export const Header: React.FC<HeaderProps> = ({ user, onToggleSidebar, onToggleAdminSidebar, onLogout, selectedClass, onClassSelect, onProfile }) => {
+export const Header: React.FC<HeaderProps> = ({ user, onToggleSidebar, onToggleAdminSidebar, onLogout, selectedClass, onClassSelect, onProfile, onAcademicYearChange }) => {
+  const { years, activeYear, setActiveYear, isReadOnly } = useAcademicYear();
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -135,8 +141,38 @@ export const Header: React.FC<HeaderProps> = ({ user, onToggleSidebar, onToggleA
             </h1>
           </div>
         )}
+
+        {/* Academic year switcher - older years open read-only */}
+        {activeYear && years.length > 1 && (
+          <div className="flex items-center space-x-1">
+            <select
+              value={activeYear.name}
+              onChange={(e) => {
+                setActiveYear(e.target.value);
+                onAcademicYearChange?.();
+              }}
+              className="px-2 py-1 text-xs sm:text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Academic year"
+              aria-label="Academic year"
+            >
+              {years.map(year => (
+                <option key={year._id} value={year.name}>
+                  {year.name}{year.isCurrent ? ' (current)' : year.isArchived ? ' (archived)' : ' (draft)'}
+                </option>
+              ))}
+            </select>
+            {isReadOnly && (
+              <span className="hidden sm:flex items-center space-x-1 px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300" title="Archived years can be browsed but not changed">
+                <LockClosedIcon className="h-3 w-3" />
+                <span>Read-only</span>
+              </span>
+            )}
+          </div>
+        )}
       </div>
       <div className="flex items-center space-x-1 sm:space-x-2">
+        <GlobalSearch user={user} />
+
         {/* Fullscreen button - Desktop only - Hidden on mobile */}
         <button
           onClick={toggleFullScreen}
@@ -150,8 +186,8 @@ export const Header: React.FC<HeaderProps> = ({ user, onToggleSidebar, onToggleA
           )}
         </button>
 
-        {/* Admin Settings Icon - visible on all devices for admin users */}
-        {user.role === 'admin' && onToggleAdminSidebar && (
+        {/* Admin Settings Icon - visible on all devices for admin users and district coordinators */}
+        {(user.role === 'admin' || isDistrictCoordinator(user)) && onToggleAdminSidebar && (
           <button
             onClick={onToggleAdminSidebar}
             className="w-8 h-8 sm:w-7 sm:h-7 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-150 flex items-center justify-center overflow-hidden"
@@ -0,0 +1,96 @@
+import React from 'react';
+import { LocationLookups, LocationSelection } from '../types';
+
+interface LocationSelectorsProps {
+    lookups: LocationLookups | null;
+    value: LocationSelection;
+    onChange: (value: LocationSelection) => void;
+    // 'filter' offers "All ..." for every level; 'form' asks the user to pick
+    variant?: 'form' | 'filter';
+    lockDistrict?: boolean;
+    requireSchool?: boolean;
+    selectClassName?: string;
+    gridClassName?: string;
+    idPrefix?: string;
+}
+
+// Cascading District → Sub-district → School selects over the managed lookup collections
+export const LocationSelectors: React.FC<LocationSelectorsProps> = ({
+    lookups,
+    value,
+    onChange,
+    variant = 'form',
+    lockDistrict = false,
+    requireSchool = false,
+    selectClassName = "w-full px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:text-white",
+    gridClassName = "grid grid-cols-1 sm:grid-cols-3 gap-3",
+    idPrefix = 'location'
+}) => {
+    const districtId = value.districtId || '';
+    const subDistrictId = value.subDistrictId || '';
+    const schoolId = value.schoolId || '';
+
+    const subDistricts = (lookups?.subDistricts || []).filter(s => s.districtId === districtId);
+    const schools = (lookups?.schools || []).filter(s =>
+        s.districtId === districtId && (!subDistrictId || s.subDistrictId === subDistrictId)
+    );
+
+    const anyLabel = (level: string) => variant === 'filter' ? `All ${level}` : `Select ${level.replace(/s$/, '')}`;
+
+    const handleSchoolChange = (id: string) => {
+        const school = schools.find(s => s._id === id);
+        onChange({
+            districtId: districtId || null,
+            subDistrictId: school ? school.subDistrictId || null : subDistrictId || null,
+            schoolId: id || null
+        });
+    };
+
+    const labelClasses = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+    return (
+        <div className={gridClassName}>
+            <div>
+                <label htmlFor={`${idPrefix}-district`} className={labelClasses}>District</label>
+                <select
+                    id={`${idPrefix}-district`}
+                    value={districtId}
+                    onChange={e => onChange({ districtId: e.target.value || null, subDistrictId: null, schoolId: null })}
+                    disabled={lockDistrict}
+                    required={requireSchool}
+                    className={selectClassName}
+                >
+                    <option value="">{anyLabel('districts')}</option>
+                    {lookups?.districts.map(d => <option key={d._id} value={d._id}>{d.name}</option>)}
+                </select>
+            </div>
+            <div>
+                <label htmlFor={`${idPrefix}-sub-district`} className={labelClasses}>Sub-District</label>
+                <select
+                    id={`${idPrefix}-sub-district`}
+                    value={subDistrictId}
+                    onChange={e => onChange({ districtId: districtId || null, subDistrictId: e.target.value || null, schoolId: null })}
+                    disabled={!districtId || subDistricts.length === 0}
+                    className={selectClassName}
+                >
+                    <option value="">{anyLabel('sub-districts')}</option>
+                    {subDistricts.map(s => <option key={s._id} value={s._id}>{s.name}</option>)}
+                </select>
+            </div>
+            <div>
+                <label htmlFor={`${idPrefix}-school`} className={labelClasses}>School</label>
+                <select
+                    id={`${idPrefix}-school`}
+                    value={schoolId}
+                    onChange={e => handleSchoolChange(e.target.value)}
+                    disabled={!districtId}
+                    required={requireSchool}
+                    className={selectClassName}
+                >
+                    <option value="">{anyLabel('schools')}</option>
+                    {schools.map(s => <option key={s._id} value={s._id}>{s.name}</option>)}
+                </select>
+            </div>
+        </div>
+    );
+};
@@ -2,22 +2,196 @@ import React, { useState } from 'react';
 import * as api from '../services/api';
 import { useSession } from '../context/SessionContext';
 import { AnimatedBackground } from './AnimatedBackground';
+import { StudentSignUp } from './StudentSignUp';
+import { TwoFactorCodeForm } from './TwoFactorCodeForm';
+
+const inputClasses = "w-full px-4 py-3 text-base bg-white/90 dark:bg-gray-700/90 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300 backdrop-blur-sm";
+
+// Two steps: request a code by username/email, then enter the emailed code with a new password
+const ForgotPasswordForm: React.FC<{
+  initialIdentifier: string;
+  onDone: (identifier: string, message: string) => void;
+  onCancel: () => void;
+}> = ({ initialIdentifier, onDone, onCancel }) => {
+  const [step, setStep] = useState<'request' | 'reset'>('request');
+  const [identifier, setIdentifier] = useState(initialIdentifier);
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [info, setInfo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      const result = await api.requestPasswordReset(identifier.trim());
+      setInfo(result.message);
+      setStep('reset');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const result = await api.resetPassword(identifier.trim(), code.trim(), newPassword, confirmPassword);
+      onDone(identifier.trim(), result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form className="space-y-5" onSubmit={step === 'request' ? handleRequest : handleReset}>
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-white">Reset your password</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {step === 'request'
+            ? 'Enter your username or email and we will send a reset code to your email address.'
+            : 'Enter the code from the email and choose a new password.'}
+        </p>
+      </div>
+
+      {info && step === 'reset' && (
+        <div className="p-3 text-sm text-blue-700 dark:text-blue-300 bg-blue-50/80 dark:bg-blue-900/30 rounded-lg border border-blue-200 dark:border-blue-800">
+          {info}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="reset-identifier" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Username or Email
+        </label>
+        <input
+          id="reset-identifier"
+          type="text"
+          value={identifier}
+          onChange={(e) => setIdentifier(e.target.value)}
+          required
+          disabled={step === 'reset'}
+          className={inputClasses}
+          autoComplete="username"
+        />
+      </div>
+
+      {step === 'reset' && (
+        <>
+          <div>
+            <label htmlFor="reset-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Reset Code
+            </label>
+            <input
+              id="reset-code"
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              maxLength={6}
+              className={`${inputClasses} tracking-widest`}
+              placeholder="6-digit code"
+              autoComplete="one-time-code"
+            />
+          </div>
+          <div>
+            <label htmlFor="reset-new-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              New Password
+            </label>
+            <input
+              id="reset-new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+              className={inputClasses}
+              autoComplete="new-password"
+            />
+          </div>
+          <div>
+            <label htmlFor="reset-confirm-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Confirm New Password
+            </label>
+            <input
+              id="reset-confirm-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              className={inputClasses}
+              autoComplete="new-password"
+            />
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="error-message p-3 text-sm text-red-600 dark:text-red-400 bg-red-50/80 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800 backdrop-blur-sm">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full px-4 py-3 text-base font-semibold text-white bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-900 rounded-lg transition-all duration-300 disabled:from-blue-400 disabled:to-blue-500 disabled:cursor-not-allowed shadow-lg"
+      >
+        {isLoading
+          ? (step === 'request' ? 'Sending code...' : 'Resetting...')
+          : (step === 'request' ? 'Send Reset Code' : 'Reset Password')}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" onClick={onCancel} className="text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-300">
+          Back to sign in
+        </button>
+        {step === 'reset' && (
+          <button type="button" onClick={() => { setStep('request'); setCode(''); setError(null); }} className="text-blue-600 hover:text-blue-700 dark:text-blue-400">
+            Send a new code
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
 
 export const Login: React.FC = () => {
-  const { login } = useSession();
+  const { login, sessionExpired, sessionEndCode } = useSession();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [mode, setMode] = useState<'login' | 'forgot' | 'signup' | 'two-factor'>('login');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setNotice(null);
     setIsLoading(true);
     try {
-      const sessionData = await api.loginUser(username, password);
-      login(sessionData);
+      const result = await api.loginUser(username, password);
+      if ('twoFactorRequired' in result) {
+        setChallengeToken(result.challengeToken);
+        setMode('two-factor');
+        return;
+      }
+      login(result);
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -33,13 +207,40 @@ export const Login: React.FC = () => {
     setShowPassword(!showPassword);
   };
 
+  const handleSignUpDone = (newUsername: string, message: string) => {
+    setUsername(newUsername);
+    setPassword('');
+    setError(null);
+    setNotice(message);
+    setMode('login');
+  };
+
+  const handleTwoFactorSubmit = async (answer: api.TwoFactorAnswer) => {
+    const sessionData = await api.verifyTwoFactorLogin(challengeToken || '', answer);
+    login(sessionData);
+  };
+
+  const handleTwoFactorCancel = () => {
+    setChallengeToken(null);
+    setPassword('');
+    setMode('login');
+  };
+
+  const handleResetDone = (identifier: string, message: string) => {
+    if (!identifier.includes('@')) setUsername(identifier);
+    setPassword('');
+    setError(null);
+    setNotice(message);
+    setMode('login');
+  };
+
   return (
     <div className="relative flex items-center justify-center min-h-screen p-4 sm:p-6 lg:p-8">
       {/* Animated Background */}
       <AnimatedBackground />
       
       {/* Login Form Container */}
-      <div className="relative z-10 w-full max-w-md p-6 sm:p-8 space-y-6 bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 mx-auto">
+      <div className={`relative z-10 w-full ${mode === 'signup' ? 'max-w-lg' : 'max-w-md'} p-6 sm:p-8 space-y-6 bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg rounded-2xl shadow-2xl border border-white/20 mx-auto`}>
         <div className="text-center welcome-text">
             <h1 className="text-2xl sm:text-3xl font-bold text-gray-800 dark:text-white mb-2">
               Learning Platform
@@ -48,6 +249,35 @@ export const Login: React.FC = () => {
               Please sign in to your account
             </p>
         </div>
+        {mode === 'forgot' ? (
+          <ForgotPasswordForm
+            initialIdentifier={username}
+            onDone={handleResetDone}
+            onCancel={() => setMode('login')}
+          />
+        ) : mode === 'two-factor' ? (
+          <TwoFactorCodeForm
+            onSubmit={handleTwoFactorSubmit}
+            onCancel={handleTwoFactorCancel}
+            inputClassName={inputClasses}
+            buttonClassName="w-full px-4 py-3 text-base font-semibold text-white bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-900 rounded-lg transition-all duration-300 disabled:from-blue-400 disabled:to-blue-500 disabled:cursor-not-allowed shadow-lg"
+          />
+        ) : mode === 'signup' ? (
+          <StudentSignUp onDone={handleSignUpDone} onCancel={() => setMode('login')} />
+        ) : (
+        <>
+        {notice && !error && (
+          <div className="p-3 text-sm text-green-700 dark:text-green-300 bg-green-50/80 dark:bg-green-900/30 rounded-lg border border-green-200 dark:border-green-800 backdrop-blur-sm">
+            {notice}
+          </div>
+        )}
+        {sessionExpired && !error && !notice && (
+          <div className="p-3 text-sm text-amber-700 dark:text-amber-300 bg-amber-50/80 dark:bg-amber-900/30 rounded-lg border border-amber-200 dark:border-amber-800 backdrop-blur-sm">
+            {sessionEndCode === 'ACCOUNT_INACTIVE'
+              ? 'Your account has been deactivated. Please contact the admin.'
+              : 'Your session has expired. Please sign in again.'}
+          </div>
+        )}
         <form className="space-y-5 sm:space-y-6" onSubmit={handleSubmit}>
             <div className="edu-symbol">
                 <label htmlFor="username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -97,6 +327,15 @@ export const Login: React.FC = () => {
                     )}
                   </button>
                 </div>
+                <div className="mt-2 text-right">
+                  <button
+                      type="button"
+                      onClick={() => { setError(null); setNotice(null); setMode('forgot'); }}
+                      className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
             </div>
 
             {error && (
@@ -113,6 +352,18 @@ export const Login: React.FC = () => {
                 {isLoading ? 'Signing in...' : 'Sign In'}
             </button>
         </form>
+        <div className="text-center text-sm text-gray-600 dark:text-gray-300">
+          New student?{' '}
+          <button
+              type="button"
+              onClick={() => { setError(null); setNotice(null); setMode('signup'); }}
+              className="font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Create an account
+          </button>
+        </div>
+        </>
+        )}
         
         <div className="text-center">
           <p className="text-xs text-gray-500 dark:text-gray-400">
@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
-import { User } from '../types';
-import { updateUserProfile, changePassword, requestTeacherRole } from '../services/api';
+import { User, LocationSelection, LocationLookups } from '../types';
+import { updateUserProfile, changePassword, requestTeacherRole, getLocations } from '../services/api';
 import { useToast } from '../context/ToastContext';
+import { useApi } from '../hooks/useApi';
+import { LocationSelectors } from './LocationSelectors';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { describeLocation, isDistrictCoordinator, pickLocation } from '../utils/locations';
 
 interface ProfilePageProps {
     user: User;
@@ -19,6 +23,8 @@ export const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack }) => {
         role: user.role,
         mobileNumber: (user as any).mobileNumber || '',
     });
+    const [location, setLocation] = useState<LocationSelection>(pickLocation(user));
+    const { data: locations } = useApi<LocationLookups>(getLocations, []);
     const [passwordData, setPasswordData] = useState({
         currentPassword: '',
         newPassword: '',
@@ -45,7 +51,8 @@ export const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack }) => {
             await updateUserProfile(user._id, {
                 name: formData.name,
                 email: formData.email,
-                mobileNumber: formData.mobileNumber
+                mobileNumber: formData.mobileNumber,
+                ...location
             });
             showToast('Profile updated successfully!', 'success');
             setIsEditing(false);
@@ -200,6 +207,14 @@ export const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack }) => {
                                     placeholder="Enter mobile number"
                                 />
                             </div>
+                            <LocationSelectors
+                                lookups={locations}
+                                value={location}
+                                onChange={setLocation}
+                                lockDistrict={isDistrictCoordinator(user)}
+                                selectClassName="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-60"
+                                idPrefix="profile"
+                            />
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                     Role
@@ -278,6 +293,12 @@ export const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack }) => {
                                     </label>
                                     <p className="text-gray-900 dark:text-white">{(user as any).mobileNumber || 'Not provided'}</p>
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                        School / District
+                                    </label>
+                                    <p className="text-gray-900 dark:text-white">{describeLocation(locations, user) || 'Not provided'}</p>
+                                </div>
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                         User ID
@@ -377,6 +398,8 @@ export const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack }) => {
                         </div>
                     )}
                 </div>
+
+                {user.role === 'admin' && <TwoFactorSettings />}
             </div>
         </div>
     );
@@ -3,11 +3,12 @@ import { CascadeSelectors } from './CascadeSelectors';
 import { useApi } from '../hooks/useApi';
 import * as api from '../services/api';
 import { QuizQuestion, AnswerOption, Content } from '../types';
-import { PlusIcon, TrashIcon, ImportIcon, SaveIcon, EditIcon } from './icons/AdminIcons';
+import { PlusIcon, TrashIcon, ImportIcon, SaveIcon, EditIcon, HistoryIcon } from './icons/AdminIcons';
 import { useToast } from '../context/ToastContext';
 import { useSession } from '../context/SessionContext';
 import { PublishToggle } from './common/PublishToggle';
 import { RichTextEditor } from './common/RichTextEditor';
+import { RevisionHistoryModal } from './common/RevisionHistoryModal';
 import Swal from 'sweetalert2';
 
 const Spinner = ({ className }: { className?: string }) => (
@@ -371,6 +372,7 @@ export const QuizConfiguration: React.FC = () => {
     const [isSaving, setIsSaving] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [importModalOpen, setImportModalOpen] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState(false);
 
     const { showToast } = useToast();
 
@@ -653,6 +655,20 @@ export const QuizConfiguration: React.FC = () => {
         setIsDirty(true);
     };
 
+    // A restore replaces the stored quiz, so reload it (unsaved edits are dropped)
+    const handleRevisionRestored = async () => {
+        if (!lessonId || !selectedQuizId) return;
+        try {
+            const grouped = await api.getContentsByLessonId(lessonId, ['quiz']);
+            const quizzes = grouped?.[0]?.docs || [];
+            setQuizList(quizzes);
+            const restored = quizzes.find(q => q._id === selectedQuizId);
+            if (restored) selectQuiz(restored);
+        } catch (e) {
+            console.error('[QuizConfiguration] Failed to reload restored quiz:', e);
+        }
+    };
+
     const handleSave = async () => {
         console.log('[QuizConfiguration] handleSave called');
 
@@ -739,8 +755,7 @@ export const QuizConfiguration: React.FC = () => {
             title: 'Delete Quiz?',
             html: `
                 <p>Are you sure you want to delete this quiz?</p>
-                <p class="text-red-600 font-semibold mt-2">⚠️ This action cannot be undone!</p>
-                <p class="text-sm text-gray-600 mt-2">All questions and answers will be permanently removed from the database.</p>
+                <p class="text-sm text-gray-600 mt-2">The quiz moves to the Recycle Bin, where an admin can restore it.</p>
             `,
             icon: 'warning',
             showCancelButton: true,
@@ -791,7 +806,7 @@ export const QuizConfiguration: React.FC = () => {
             // Show success message
             Swal.fire({
                 title: 'Deleted!',
-                text: 'Quiz has been permanently deleted from the database.',
+                text: 'Quiz has been moved to the Recycle Bin.',
                 icon: 'success',
                 timer: 2000,
                 showConfirmButton: false
@@ -895,6 +910,8 @@ export const QuizConfiguration: React.FC = () => {
                                                             showToast('Failed to update publish status', 'error');
                                                         });
                                                 }}
+                                                contentId={quiz._id}
+                                                review={quiz.review}
                                             />
                                         </div>
                                         <button
@@ -939,6 +956,16 @@ export const QuizConfiguration: React.FC = () => {
                                             />
                                         </div>
                                         <div className="flex gap-3 items-end">
+                                            {selectedQuizId && (
+                                                <button
+                                                    onClick={() => setHistoryOpen(true)}
+                                                    className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md text-sm transition-colors h-10"
+                                                    title="Revision history"
+                                                >
+                                                    <HistoryIcon className="w-4 h-4" />
+                                                    <span>History</span>
+                                                </button>
+                                            )}
                                             <button
                                                 onClick={() => setImportModalOpen(true)}
                                                 className="flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm transition-colors h-10"
@@ -1074,6 +1101,13 @@ export const QuizConfiguration: React.FC = () => {
                     setIsDirty(true);
                 }}
             />
+
+            <RevisionHistoryModal
+                contentId={historyOpen ? selectedQuizId : null}
+                title={quizTitle}
+                onClose={() => setHistoryOpen(false)}
+                onRestored={handleRevisionRestored}
+            />
         </div>
     );
 };
\ No newline at end of file
@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useApi } from '../hooks/useApi';
 import * as api from '../services/api';
-import { PlatformStats } from '../types';
+import { PlatformStats, LocationLookups, LocationSelection } from '../types';
+import { useSession } from '../context/SessionContext';
+import { LocationSelectors } from './LocationSelectors';
+import { describeLocation, isDistrictCoordinator } from '../utils/locations';
 import { RESOURCE_TYPES } from '../constants';
 import { UsersIcon, CollectionIcon } from './icons/AdminIcons';
 import { ActivityIcon } from './icons/ResourceTypeIcons'; // A generic content icon
@@ -24,9 +27,19 @@ const StatCard: React.FC<{
 );
 
 export const ReportsPage: React.FC = () => {
-    const { data: stats, isLoading, error } = useApi<PlatformStats>(api.getPlatformStats);
+    const { session } = useSession();
+    const isCoordinator = !!session.user && isDistrictCoordinator(session.user);
+    const [location, setLocation] = useState<LocationSelection>(
+        isCoordinator ? { districtId: session.user!.districtId } : {}
+    );
+    const { data: locations } = useApi<LocationLookups>(api.getLocations, []);
+    const { data: stats, isLoading, error } = useApi<PlatformStats>(
+        () => api.getPlatformStats(location),
+        [location.districtId, location.subDistrictId, location.schoolId]
+    );
+    const locationLabel = describeLocation(locations, location);
 
-    if (isLoading) {
+    if (isLoading && !stats) {
         return <div className="p-8 text-center">Loading reports...</div>;
     }
 
@@ -42,8 +55,25 @@ export const ReportsPage: React.FC = () => {
         <div className="p-4 sm:p-6 lg:p-8 h-full">
             <h1 className="text-lg sm:text-2xl font-bold text-gray-800 dark:text-white mb-6">Platform Reports</h1>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+            <div className="bg-white dark:bg-gray-800/50 p-4 rounded-lg shadow-md mb-6">
+                <LocationSelectors
+                    lookups={locations}
+                    value={location}
+                    onChange={setLocation}
+                    variant="filter"
+                    lockDistrict={isCoordinator}
+                    idPrefix="reports-filter"
+                />
+                {locationLabel && (
+                    <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                        User and download figures are for {locationLabel}. Course and content figures are platform-wide.
+                    </p>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
                 <StatCard title="Total Users" value={stats.userCount} Icon={UsersIcon} color="bg-blue-500" />
+                <StatCard title="Downloads" value={stats.downloadCount} Icon={ActivityIcon} color="bg-amber-500" />
                 <StatCard title="Total Chapters" value={stats.lessonCount} Icon={CollectionIcon} color="bg-green-500" />
                 <StatCard title="Total Content Items" value={stats.contentCount} Icon={ActivityIcon} color="bg-purple-500" />
             </div>
@@ -3,6 +3,7 @@ import { useApi } from '../hooks/useApi';
 import { getClasses, getSubjectsByClassId, getUnitsBySubjectId, getSubUnitsByUnitId, getLessonsBySubUnitId } from '../services/api';
 import { Class, Subject, Unit, SubUnit, Lesson } from '../types';
 import { XIcon } from './icons/AdminIcons';
+import { useAcademicYear } from '../context/AcademicYearContext';
 
 interface SelectionModalProps {
   isOpen: boolean;
@@ -72,7 +73,9 @@ export const SelectionModal: React.FC<SelectionModalProps> = ({
   defaultClass,
   onlyPublished = false
 }) => {
-  const { data: classes, isLoading: isLoadingClasses } = useApi<Class[]>(() => getClasses(onlyPublished), [onlyPublished]);
+  const { activeYear } = useAcademicYear();
+  const academicYear = activeYear?.name;
+  const { data: classes, isLoading: isLoadingClasses } = useApi<Class[]>(() => getClasses(onlyPublished, academicYear), [onlyPublished, academicYear]);
   const { data: subjects, isLoading: isLoadingSubjects } = useApi<Subject[]>(
     () => getSubjectsByClassId(classId!, onlyPublished),
     [classId, onlyPublished],
@@ -1,6 +1,7 @@
 import React from 'react';
 import { ResourceType } from '../types';
 import { ResourceIconStrip } from './ResourceIconStrip';
+import { TreeView, TreeSelection } from './TreeView';
 
 interface SidebarProps {
   lessonId: string | null;
@@ -8,6 +9,10 @@ interface SidebarProps {
   onSelectResourceType: (type: ResourceType) => void;
   isOpen: boolean;
   isMobile?: boolean;
+  // Course tree below the resources (hidden while the sidebar is collapsed)
+  treeSelection?: TreeSelection;
+  onTreeSelect?: (selection: TreeSelection) => void;
+  onlyPublished?: boolean;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -15,7 +20,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
   selectedResourceType,
   onSelectResourceType,
   isOpen,
-  isMobile = false
+  isMobile = false,
+  treeSelection,
+  onTreeSelect,
+  onlyPublished = false
 }) => {
   // Desktop: toggles between w-72 (Open) and w-20 (Collapsed)
   // Mobile: toggles between w-72 (Open) and w-0 (Hidden)
@@ -39,6 +47,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
           onSelectType={onSelectResourceType}
           collapsed={isCollapsed}
         />
+        {!isCollapsed && treeSelection && onTreeSelect && (
+          <div className="mt-6">
+            <h2 className="text-lg font-bold mb-3 text-gray-800 dark:text-gray-100">Course</h2>
+            <TreeView selection={treeSelection} onSelect={onTreeSelect} onlyPublished={onlyPublished} />
+          </div>
+        )}
       </div>
     </aside>
   );
@@ -0,0 +1,212 @@
+import React, { useEffect, useState, useMemo } from 'react';
+import { User, LocationLookups } from '../types';
+import { getStudentRegistrations, reviewStudentRegistrations, getLocations } from '../services/api';
+import { useToast } from '../context/ToastContext';
+import { useApi } from '../hooks/useApi';
+import { describeLocation } from '../utils/locations';
+
+type Tab = 'pending' | 'approved' | 'rejected';
+type Decision = 'approve' | 'reject';
+
+export const StudentRegistrations: React.FC = () => {
+    const [registrations, setRegistrations] = useState<User[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [activeTab, setActiveTab] = useState<Tab>('pending');
+    const [searchQuery, setSearchQuery] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isReviewing, setIsReviewing] = useState(false);
+    const { data: locations } = useApi<LocationLookups>(getLocations, []);
+
+    const { showToast } = useToast();
+
+    const fetchData = async () => {
+        try {
+            setLoading(true);
+            setRegistrations(await getStudentRegistrations());
+        } catch (error) {
+            console.error('Error fetching registrations:', error);
+            showToast('Failed to fetch registrations', 'error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    // Selection only makes sense within the visible tab
+    useEffect(() => {
+        setSelectedIds(new Set());
+    }, [activeTab]);
+
+    const handleReview = async (userIds: string[], decision: Decision) => {
+        if (userIds.length === 0) return;
+
+        let note: string | undefined;
+        if (decision === 'reject') {
+            const input = window.prompt(`Reject ${userIds.length} registration${userIds.length > 1 ? 's' : ''}? Optionally add a note for the applicant:`, '');
+            if (input === null) return;
+            note = input.trim() || undefined;
+        }
+
+        try {
+            setIsReviewing(true);
+            const result = await reviewStudentRegistrations(userIds, decision, note);
+            showToast(result.message, 'success');
+            if (result.emailFailures.length > 0) {
+                showToast(`Email could not be sent to: ${result.emailFailures.join(', ')}`, 'warning');
+            }
+            setSelectedIds(new Set());
+            fetchData();
+        } catch (error: any) {
+            console.error('[Registrations] Review failed:', error);
+            showToast(error.message || 'Failed to update registrations', 'error');
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    const filteredData = useMemo(() => {
+        const query = searchQuery.toLowerCase();
+        return registrations
+            .filter(user => user.registrationStatus === activeTab)
+            .filter(user => !query ||
+                (user.name && user.name.toLowerCase().includes(query)) ||
+                (user.email && user.email.toLowerCase().includes(query)) ||
+                (user.mobileNumber && user.mobileNumber.toLowerCase().includes(query)) ||
+                describeLocation(locations, user).toLowerCase().includes(query)
+            );
+    }, [activeTab, registrations, searchQuery, locations]);
+
+    const allSelected = filteredData.length > 0 && filteredData.every(user => selectedIds.has(user._id));
+
+    const toggleSelectAll = () => {
+        setSelectedIds(allSelected ? new Set() : new Set(filteredData.map(user => user._id)));
+    };
+
+    const toggleSelected = (userId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(userId)) next.delete(userId);
+            else next.add(userId);
+            return next;
+        });
+    };
+
+    if (loading && registrations.length === 0) return <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading...</div>;
+
+    const selected = Array.from(selectedIds);
+
+    return (
+        <div className="p-6 max-w-7xl mx-auto h-full overflow-y-auto">
+            <h1 className="text-2xl font-bold mb-6 text-gray-800 dark:text-white">Student Registrations</h1>
+
+            {/* Tabs */}
+            <div className="flex flex-wrap gap-2 border-b border-gray-200 dark:border-gray-700 mb-6 pb-2 overflow-x-auto">
+                {[
+                    { id: 'pending', label: 'Pending', count: registrations.filter(u => u.registrationStatus === 'pending').length, color: 'blue' },
+                    { id: 'approved', label: 'Approved', color: 'green' },
+                    { id: 'rejected', label: 'Rejected', color: 'red' }
+                ].map(tab => (
+                    <button
+                        key={tab.id}
+                        onClick={() => setActiveTab(tab.id as Tab)}
+                        className={`px-4 py-2 rounded-md font-medium text-sm transition-colors whitespace-nowrap ${activeTab === tab.id
+                                ? `bg-${tab.color}-100 text-${tab.color}-700 dark:bg-${tab.color}-900 dark:text-${tab.color}-300 ring-1 ring-${tab.color}-500`
+                                : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                            }`}
+                    >
+                        {tab.label}
+                        {tab.count !== undefined && tab.count > 0 && (
+                            <span className={`ml-2 px-2 py-0.5 rounded-full text-xs bg-${tab.color}-200 text-${tab.color}-800`}>
+                                {tab.count}
+                            </span>
+                        )}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <input
+                    type="text"
+                    placeholder="Search Name, Email, Mobile, School..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="max-w-md w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                {selected.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm text-gray-600 dark:text-gray-300">{selected.length} selected</span>
+                        {activeTab !== 'approved' && (
+                            <button disabled={isReviewing} onClick={() => handleReview(selected, 'approve')} className="text-white bg-green-600 hover:bg-green-700 px-3 py-1.5 rounded-md text-sm shadow-sm disabled:opacity-50">Approve Selected</button>
+                        )}
+                        {activeTab !== 'rejected' && (
+                            <button disabled={isReviewing} onClick={() => handleReview(selected, 'reject')} className="text-white bg-red-600 hover:bg-red-700 px-3 py-1.5 rounded-md text-sm shadow-sm disabled:opacity-50">Reject Selected</button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                <th className="px-4 py-3">
+                                    <input type="checkbox" checked={allSelected} onChange={toggleSelectAll} className="h-4 w-4 text-blue-600 border-gray-300 rounded" aria-label="Select all" />
+                                </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Name</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Details</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">School / Class</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Applied</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                            {filteredData.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                                        No registrations found.
+                                    </td>
+                                </tr>
+                            ) : (
+                                filteredData.map(user => (
+                                    <tr key={user._id} className={selectedIds.has(user._id) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}>
+                                        <td className="px-4 py-4 text-center">
+                                            <input type="checkbox" checked={selectedIds.has(user._id)} onChange={() => toggleSelected(user._id)} className="h-4 w-4 text-blue-600 border-gray-300 rounded" aria-label={`Select ${user.name}`} />
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            <div className="text-sm font-medium text-gray-900 dark:text-white">{user.name}</div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">@{user.username}</div>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="text-sm text-gray-900 dark:text-white">{user.email}</div>
+                                            {user.mobileNumber && <div className="text-sm text-gray-500">{user.mobileNumber}</div>}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">
+                                            <div>{describeLocation(locations, user) || '-'}</div>
+                                            {user.studentClass && <div className="text-xs">Class {user.studentClass}</div>}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
+                                            {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : '-'}
+                                            {user.registrationNote && <div className="text-xs italic max-w-xs truncate" title={user.registrationNote}>{user.registrationNote}</div>}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                                            {activeTab !== 'approved' && (
+                                                <button disabled={isReviewing} onClick={() => handleReview([user._id], 'approve')} className="text-white bg-green-600 hover:bg-green-700 px-3 py-1 rounded-md text-xs shadow-sm disabled:opacity-50">Approve</button>
+                                            )}
+                                            {activeTab !== 'rejected' && (
+                                                <button disabled={isReviewing} onClick={() => handleReview([user._id], 'reject')} className="text-white bg-red-600 hover:bg-red-700 px-3 py-1 rounded-md text-xs shadow-sm disabled:opacity-50">Reject</button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import * as api from '../services/api';
+import { LocationLookups, LocationSelection } from '../types';
+import { useApi } from '../hooks/useApi';
+import { LocationSelectors } from './LocationSelectors';
+
+const inputClasses = "w-full px-4 py-2.5 text-base bg-white/90 dark:bg-gray-700/90 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300 backdrop-blur-sm";
+
+const CLASS_OPTIONS = Array.from({ length: 12 }, (_, i) => String(i + 1));
+
+const emptyForm: api.StudentRegistrationData & { confirmPassword: string } = {
+  name: '',
+  username: '',
+  password: '',
+  confirmPassword: '',
+  email: '',
+  mobileNumber: '',
+  schoolId: '',
+  studentClass: ''
+};
+
+// Public sign-up form shown from the Login page. Creates a pending student account.
+export const StudentSignUp: React.FC<{
+  onDone: (username: string, message: string) => void;
+  onCancel: () => void;
+}> = ({ onDone, onCancel }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [location, setLocation] = useState<LocationSelection>({});
+  const { data: locations } = useApi<LocationLookups>(api.getLocations, []);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const setField = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (form.password !== form.confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const { confirmPassword, ...data } = form;
+      const result = await api.registerStudent({
+        ...data,
+        name: data.name.trim(),
+        username: data.username.trim(),
+        email: data.email.trim(),
+        mobileNumber: data.mobileNumber.trim(),
+        schoolId: location.schoolId || ''
+      });
+      onDone(data.username.trim(), result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const labelClasses = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-white">Student Sign Up</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Your account will be active once an admin approves it. We will email you the decision.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="signup-name" className={labelClasses}>Full Name</label>
+        <input id="signup-name" type="text" value={form.name} onChange={setField('name')} required className={inputClasses} autoComplete="name" />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="signup-email" className={labelClasses}>Email</label>
+          <input id="signup-email" type="email" value={form.email} onChange={setField('email')} required className={inputClasses} autoComplete="email" />
+        </div>
+        <div>
+          <label htmlFor="signup-mobile" className={labelClasses}>Mobile Number</label>
+          <input id="signup-mobile" type="tel" value={form.mobileNumber} onChange={setField('mobileNumber')} required className={inputClasses} autoComplete="tel" />
+        </div>
+      </div>
+      <LocationSelectors
+        lookups={locations}
+        value={location}
+        onChange={setLocation}
+        requireSchool
+        selectClassName={inputClasses}
+        gridClassName="grid grid-cols-1 sm:grid-cols-3 gap-4"
+        idPrefix="signup"
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="signup-class" className={labelClasses}>Class</label>
+          <select id="signup-class" value={form.studentClass} onChange={setField('studentClass')} required className={inputClasses}>
+            <option value="">Select</option>
+            {CLASS_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="signup-username" className={labelClasses}>Username</label>
+          <input id="signup-username" type="text" value={form.username} onChange={setField('username')} required className={inputClasses} autoComplete="username" />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="signup-password" className={labelClasses}>Password</label>
+          <input id="signup-password" type="password" value={form.password} onChange={setField('password')} required className={inputClasses} autoComplete="new-password" />
+        </div>
+        <div>
+          <label htmlFor="signup-confirm-password" className={labelClasses}>Confirm Password</label>
+          <input id="signup-confirm-password" type="password" value={form.confirmPassword} onChange={setField('confirmPassword')} required className={inputClasses} autoComplete="new-password" />
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-message p-3 text-sm text-red-600 dark:text-red-400 bg-red-50/80 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800 backdrop-blur-sm">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full px-4 py-3 text-base font-semibold text-white bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-900 rounded-lg transition-all duration-300 disabled:from-blue-400 disabled:to-blue-500 disabled:cursor-not-allowed shadow-lg"
+      >
+        {isLoading ? 'Submitting...' : 'Submit Registration'}
+      </button>
+
+      <div className="text-center text-sm">
+        <button type="button" onClick={onCancel} className="text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-300">
+          Already have an account? Sign in
+        </button>
+      </div>
+    </form>
+  );
+};
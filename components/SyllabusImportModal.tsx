@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import * as api from '../services/api';
+import { useToast } from '../context/ToastContext';
+
+type Step = 'input' | 'preview';
+
+const FORMAT_LABELS: Record<api.SyllabusFormat, string> = { outline: 'Indented outline', csv: 'CSV', json: 'JSON' };
+
+const KIND_LABELS: Record<api.HierarchyRoute, string> = {
+    classes: 'Class', subjects: 'Subject', units: 'Unit', subUnits: 'Sub-Unit', lessons: 'Chapter'
+};
+
+const PLACEHOLDERS: Record<api.SyllabusFormat, string> = {
+    outline: 'Class 8\n  Tamil\n    Unit 1\n      Prose\n        Chapter 1\n        Chapter 2',
+    csv: 'Class,Subject,Unit,Sub-Unit,Chapter\nClass 8,Tamil,Unit 1,Prose,Chapter 1\n,,,,Chapter 2',
+    json: '[{ "name": "Class 8", "children": [{ "name": "Tamil", "children": [] }] }]'
+};
+
+const formatFromFilename = (filename: string): api.SyllabusFormat =>
+    /\.json$/i.test(filename) ? 'json' : /\.csv$/i.test(filename) ? 'csv' : 'outline';
+
+const countNew = (counts: api.SyllabusImportPlan['counts']) => Object.values(counts.new).reduce((sum, count) => sum + count, 0);
+
+const PlanTree: React.FC<{ nodes: api.SyllabusPlanNode[] }> = ({ nodes }) => (
+    <ul className="pl-4 border-l border-gray-200 dark:border-gray-700">
+        {nodes.map(node => (
+            <li key={node._id} className="py-0.5">
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-xs text-gray-400 w-16 shrink-0">{KIND_LABELS[node.kind]}</span>
+                    <span className={node.status === 'new' ? 'font-medium text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400'}>{node.name}</span>
+                    {node.status === 'new' && <span className="px-1.5 text-[10px] rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">new</span>}
+                </div>
+                {node.children.length > 0 && <PlanTree nodes={node.children} />}
+            </li>
+        ))}
+    </ul>
+);
+
+// Builds classes → chapters from a pasted or uploaded outline. The preview marks what will be
+// created; nodes that already exist (same name, same parent) are reused, so re-importing is safe.
+export const SyllabusImportModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: () => void;
+    academicYear?: string;
+}> = ({ isOpen, onClose, onImported, academicYear }) => {
+    const [step, setStep] = useState<Step>('input');
+    const [format, setFormat] = useState<api.SyllabusFormat>('outline');
+    const [content, setContent] = useState('');
+    const [plan, setPlan] = useState<api.SyllabusImportPlan | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { showToast } = useToast();
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setStep('input');
+        setPlan(null);
+        setError(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        setContent('');
+        onClose();
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFormat(formatFromFilename(file.name));
+        setContent(await file.text());
+    };
+
+    const handlePreview = async () => {
+        setError(null);
+        setIsWorking(true);
+        try {
+            setPlan(await api.previewSyllabusImport(format, content, academicYear));
+            setStep('preview');
+        } catch (e: any) {
+            setError(e.message || 'Failed to read the outline');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setError(null);
+        setIsWorking(true);
+        try {
+            const result = await api.importSyllabus(format, content, academicYear);
+            showToast(`Syllabus imported: ${countNew(result.counts)} created, ${result.counts.existing} already there`, 'success');
+            onImported();
+            handleClose();
+        } catch (e: any) {
+            setError(e.message || 'Import failed');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const buttonBase = "px-4 py-2 rounded-md disabled:opacity-50";
+    const newCount = plan ? countNew(plan.counts) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold mb-1 text-gray-800 dark:text-white">Import Syllabus</h2>
+                {academicYear && <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Classes are added to {academicYear}.</p>}
+
+                {step === 'input' && (
+                    <div className="space-y-4 flex-1 flex flex-col min-h-0">
+                        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+                            {(Object.keys(FORMAT_LABELS) as api.SyllabusFormat[]).map(key => (
+                                <label key={key} className="flex items-center gap-2">
+                                    <input type="radio" checked={format === key} onChange={() => setFormat(key)} /> {FORMAT_LABELS[key]}
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300">
+                            Levels are Class, Subject, Unit, Sub-Unit and Chapter.
+                            {format === 'outline' && ' Put one name per line and indent each level one step further.'}
+                            {format === 'csv' && ' One row per path; leave leading cells empty to repeat the row above.'}
+                            {format === 'json' && ' A list of { "name", "children" } objects, as the JSON export writes it.'}
+                        </p>
+                        <input
+                            type="file"
+                            accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+                            onChange={e => handleFile(e.target.files?.[0])}
+                            className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                        />
+                        <textarea
+                            value={content}
+                            onChange={e => setContent(e.target.value)}
+                            placeholder={PLACEHOLDERS[format]}
+                            rows={12}
+                            spellCheck={false}
+                            className="w-full flex-1 px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                        />
+                    </div>
+                )}
+
+                {step === 'preview' && plan && (
+                    <>
+                        <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                            {newCount === 0
+                                ? 'Everything in the outline already exists; nothing will be created.'
+                                : `Creates ${(Object.keys(plan.counts.new) as api.HierarchyRoute[])
+                                    .filter(key => plan.counts.new[key] > 0)
+                                    .map(key => `${plan.counts.new[key]} ${KIND_LABELS[key].toLowerCase()}${plan.counts.new[key] === 1 ? '' : 's'}`)
+                                    .join(', ')}.`}
+                            {plan.counts.existing > 0 && ` ${plan.counts.existing} already exist and are kept as they are.`}
+                        </p>
+                        {plan.errors.length > 0 && (
+                            <div className="mb-3 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                                <p className="font-semibold mb-1">Fix these problems and preview again:</p>
+                                <ul className="list-disc pl-5 space-y-0.5">
+                                    {plan.errors.map((problem, index) => <li key={index}>{problem}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="flex-1 overflow-auto border border-gray-200 dark:border-gray-700 rounded-md p-3 -ml-4 pl-4">
+                            <PlanTree nodes={plan.tree} />
+                        </div>
+                    </>
+                )}
+
+                {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                <div className="mt-6 flex justify-end space-x-3">
+                    {step === 'preview' && (
+                        <button type="button" onClick={reset} disabled={isWorking} className={`${buttonBase} text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500`}>
+                            Edit Outline
+                        </button>
+                    )}
+                    <button type="button" onClick={handleClose} disabled={isWorking} className={`${buttonBase} text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500`}>
+                        Cancel
+                    </button>
+                    {step === 'input' && (
+                        <button type="button" onClick={handlePreview} disabled={!content.trim() || isWorking} className={`${buttonBase} text-white bg-blue-600 hover:bg-blue-700`}>
+                            {isWorking ? 'Reading...' : 'Preview'}
+                        </button>
+                    )}
+                    {step === 'preview' && plan && (
+                        <button type="button" onClick={handleImport} disabled={plan.errors.length > 0 || newCount === 0 || isWorking} className={`${buttonBase} text-white bg-blue-600 hover:bg-blue-700`}>
+                            {isWorking ? 'Importing...' : `Create ${newCount} Items`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
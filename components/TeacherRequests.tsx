@@ -1,7 +1,9 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { User } from '../types';
-import { getTeacherRequests, approveTeacherRequest, rejectTeacherRequest, getUsers } from '../services/api';
+import { User, LocationLookups, LocationSelection } from '../types';
+import { getTeacherRequests, approveTeacherRequest, rejectTeacherRequest, getUsers, getLocations } from '../services/api';
 import { useToast } from '../context/ToastContext';
+import { useApi } from '../hooks/useApi';
+import { LocationSelectors } from './LocationSelectors';
 
 type Tab = 'pending' | 'approved' | 'rejected' | 'teachers' | 'students';
 
@@ -13,9 +15,8 @@ export const TeacherRequests: React.FC = () => {
 
     // Filters
     const [searchQuery, setSearchQuery] = useState('');
-    const [districtFilter, setDistrictFilter] = useState('');
-    const [subDistrictFilter, setSubDistrictFilter] = useState('');
-    const [schoolFilter, setSchoolFilter] = useState('');
+    const [locationFilter, setLocationFilter] = useState<LocationSelection>({});
+    const { data: locations } = useApi<LocationLookups>(getLocations, []);
 
     const { showToast } = useToast();
 
@@ -98,14 +99,14 @@ export const TeacherRequests: React.FC = () => {
 
             // District/School Filters (Strictly for teachers/students usually, but safe to apply if fields exist)
             if (applyExtendedFilters) {
-                if (districtFilter && (!user.district || !user.district.toLowerCase().includes(districtFilter.toLowerCase()))) return false;
-                if (subDistrictFilter && (!user.subDistrict || !user.subDistrict.toLowerCase().includes(subDistrictFilter.toLowerCase()))) return false;
-                if (schoolFilter && (!user.school || !user.school.toLowerCase().includes(schoolFilter.toLowerCase()))) return false;
+                if (locationFilter.districtId && user.districtId !== locationFilter.districtId) return false;
+                if (locationFilter.subDistrictId && user.subDistrictId !== locationFilter.subDistrictId) return false;
+                if (locationFilter.schoolId && user.schoolId !== locationFilter.schoolId) return false;
             }
 
             return true;
         });
-    }, [activeTab, requests, allUsers, searchQuery, districtFilter, subDistrictFilter, schoolFilter]);
+    }, [activeTab, requests, allUsers, searchQuery, locationFilter]);
 
     if (loading && requests.length === 0 && allUsers.length === 0) return <div className="p-8 text-center text-gray-500 dark:text-gray-400">Loading...</div>;
 
@@ -144,7 +145,7 @@ export const TeacherRequests: React.FC = () => {
 
             {/* Filter Bar */}
             {showFilters && (
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                <div className="grid grid-cols-1 md:grid-cols-4 md:items-end gap-4 mb-6 bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
                     <input
                         type="text"
                         placeholder="Search Name, Email, Mobile..."
@@ -152,27 +153,16 @@ export const TeacherRequests: React.FC = () => {
                         onChange={(e) => setSearchQuery(e.target.value)}
                         className="px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                     />
-                    <input
-                        type="text"
-                        placeholder="Filter by District"
-                        value={districtFilter}
-                        onChange={(e) => setDistrictFilter(e.target.value)}
-                        className="px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                    />
-                    <input
-                        type="text"
-                        placeholder="Filter by Sub-District"
-                        value={subDistrictFilter}
-                        onChange={(e) => setSubDistrictFilter(e.target.value)}
-                        className="px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                    />
-                    <input
-                        type="text"
-                        placeholder="Filter by School"
-                        value={schoolFilter}
-                        onChange={(e) => setSchoolFilter(e.target.value)}
-                        className="px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                    />
+                    <div className="md:col-span-3">
+                        <LocationSelectors
+                            lookups={locations}
+                            value={locationFilter}
+                            onChange={setLocationFilter}
+                            variant="filter"
+                            selectClassName="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            idPrefix="requests-filter"
+                        />
+                    </div>
                 </div>
             )}
             {/* Simple Search for other tabs */}
@@ -221,10 +211,10 @@ export const TeacherRequests: React.FC = () => {
                                             {user.mobileNumber && <div className="text-sm text-gray-500">{user.mobileNumber}</div>}
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
-                                            {user.district && <div>{user.district}</div>}
-                                            {user.subDistrict && <div className="text-xs">{user.subDistrict}</div>}
-                                            {user.school && <div className="text-xs italic">{user.school}</div>}
-                                            {!user.district && !user.subDistrict && !user.school && <span className="text-gray-400">-</span>}
+                                            {user.districtId && <div>{locations?.districts.find(d => d._id === user.districtId)?.name}</div>}
+                                            {user.subDistrictId && <div className="text-xs">{locations?.subDistricts.find(s => s._id === user.subDistrictId)?.name}</div>}
+                                            {user.schoolId && <div className="text-xs italic">{locations?.schools.find(s => s._id === user.schoolId)?.name}</div>}
+                                            {!user.districtId && !user.subDistrictId && !user.schoolId && <span className="text-gray-400">-</span>}
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm">
                                             <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full 
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { CascadeSelectors } from './CascadeSelectors';
 import { Sidebar } from './Sidebar';
+import { TreeSelection } from './TreeView';
 import { Header } from './Header';
 import { ProfilePage } from './ProfilePage';
 import { ResourceType } from '../types';
@@ -8,6 +9,7 @@ import { ContentDisplay } from './ContentDisplay';
 import { useSession } from '../context/SessionContext';
 import { TeacherState } from '../types';
 import { useScrollPersistence } from '../hooks/useScrollPersistence';
+import { useUrlNavigation } from '../hooks/useUrlNavigation';
 import { SelectionRestorationIndicator } from './SelectionRestorationIndicator';
 
 export const TeacherView: React.FC = () => {
@@ -75,9 +77,14 @@ export const TeacherView: React.FC = () => {
 
     const handleLessonChange = useCallback((id: string | null) => {
         console.log('[TeacherView] Lesson changed:', { newLessonId: id, previousLessonId: state.lessonId });
-        updateStateAndResetScroll({ lessonId: id, selectedResourceType: id ? 'book' : null });
+        updateStateAndResetScroll({ lessonId: id, selectedResourceType: null });
     }, [updateStateAndResetScroll, state.lessonId]);
 
+    // Jump straight to any node from the course tree
+    const handleTreeSelect = useCallback((selection: TreeSelection) => {
+        updateStateAndResetScroll({ ...selection, selectedResourceType: null });
+    }, [updateStateAndResetScroll]);
+
     const handleSelectResourceType = useCallback((resourceType: ResourceType) => {
         updateStateAndResetScroll({ selectedResourceType: resourceType });
         // Auto-hide sidebar on mobile when menu item is selected
@@ -86,6 +93,9 @@ export const TeacherView: React.FC = () => {
         }
     }, [updateStateAndResetScroll, isMobile]);
 
+    // Address bar ⇄ selection: deep links, back/forward
+    useUrlNavigation(state, updateStateAndResetScroll);
+
     const handleProfile = useCallback(() => {
         setIsProfilePageOpen(!isProfilePageOpen);
     }, [isProfilePageOpen]);
@@ -96,7 +106,7 @@ export const TeacherView: React.FC = () => {
 
     return (
         <div className="flex flex-col h-screen overflow-hidden">
-            <Header user={user} onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} onLogout={logout} onProfile={handleProfile} />
+            <Header user={user} onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} onLogout={logout} onProfile={handleProfile} onAcademicYearChange={() => handleClassChange(null)} />
             <SelectionRestorationIndicator />
             <div className="flex flex-1 overflow-hidden">
                 <Sidebar
@@ -104,6 +114,9 @@ export const TeacherView: React.FC = () => {
                     selectedResourceType={state.selectedResourceType}
                     onSelectResourceType={handleSelectResourceType}
                     isOpen={sidebarOpen}
+                    treeSelection={state}
+                    onTreeSelect={handleTreeSelect}
+                    onlyPublished={!user.canEdit}
                 />
                 <main
                     ref={scrollElementRef}
@@ -1,16 +1,183 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useApi } from '../hooks/useApi';
+import * as api from '../services/api';
+import { TeacherState } from '../types';
+import { ChevronRightIcon, ClockIcon } from './icons/AdminIcons';
+import { useContentUpdate } from '../context/ContentUpdateContext';
+import { useAcademicYear } from '../context/AcademicYearContext';
 
-import React from 'react';
-
-// This is a placeholder component.
-// The TreeView could be used to display the hierarchical course structure
-// (Class > Subject > Unit > etc.) in a collapsible tree format.
-export const TreeView: React.FC = () => {
-  return (
-    <div className="p-4 text-sm text-gray-500">
-      {/* Tree view functionality would be implemented here. */}
-      Tree View Placeholder
-    </div>
-  );
+export type TreeSelection = Pick<TeacherState, 'classId' | 'subjectId' | 'unitId' | 'subUnitId' | 'lessonId'>;
+
+const SELECTION_KEYS: Record<api.HierarchyRoute, keyof TreeSelection> = {
+    classes: 'classId',
+    subjects: 'subjectId',
+    units: 'unitId',
+    subUnits: 'subUnitId',
+    lessons: 'lessonId'
+};
+
+const EMPTY_SELECTION: TreeSelection = { classId: null, subjectId: null, unitId: null, subUnitId: null, lessonId: null };
+
+interface TreeViewProps {
+    selection: TreeSelection;
+    // Called with the path down to the clicked node; levels below it are null
+    onSelect: (selection: TreeSelection) => void;
+    onlyPublished?: boolean;
+}
+
+// Nodes whose name matches (with everything below them) and the ancestors leading to them
+const filterTree = (nodes: api.HierarchyTreeNode[], query: string): api.HierarchyTreeNode[] =>
+    nodes.flatMap(node => {
+        if (node.name.toLowerCase().includes(query)) return [node];
+        const children = filterTree(node.children || [], query);
+        return children.length > 0 ? [{ ...node, children }] : [];
+    });
+
+const Highlight: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+    const index = query ? text.toLowerCase().indexOf(query) : -1;
+    if (index < 0) return <>{text}</>;
+    return (
+        <>
+            {text.slice(0, index)}
+            <mark className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{text.slice(index, index + query.length)}</mark>
+            {text.slice(index + query.length)}
+        </>
+    );
+};
+
+const TreeNodeRow: React.FC<{
+    node: api.HierarchyTreeNode;
+    depth: number;
+    path: TreeSelection;
+    selectedId: string | null;
+    expanded: Set<string>;
+    forceOpen: boolean;
+    query: string;
+    onlyPublished: boolean;
+    onToggle: (id: string) => void;
+    onSelect: (selection: TreeSelection) => void;
+}> = ({ node, depth, path, selectedId, expanded, forceOpen, query, onlyPublished, onToggle, onSelect }) => {
+    const nodePath = { ...path, [SELECTION_KEYS[node.kind]]: node._id };
+    const hasChildren = !!node.children && node.children.length > 0;
+    const isOpen = hasChildren && (forceOpen || expanded.has(node._id));
+    const isSelected = selectedId === node._id;
+    const counts = node.counts;
+
+    return (
+        <li>
+            <div
+                onClick={() => {
+                    onSelect(nodePath);
+                    if (hasChildren && !isOpen) onToggle(node._id);
+                }}
+                className={`group flex items-center gap-1 py-1 pr-2 rounded-md cursor-pointer text-sm ${isSelected ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 font-medium' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+                title={node.name}
+            >
+                <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); if (hasChildren) onToggle(node._id); }}
+                    className={`p-0.5 shrink-0 text-gray-400 ${hasChildren ? 'hover:text-gray-700 dark:hover:text-gray-200' : 'invisible'}`}
+                    aria-label={isOpen ? 'Collapse' : 'Expand'}
+                >
+                    <ChevronRightIcon className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                </button>
+                <span className={`truncate flex-1 ${!node.isPublished ? 'italic text-gray-400 dark:text-gray-500' : ''}`}>
+                    <Highlight text={node.name} query={query} />
+                </span>
+                {!node.isPublished && node.publishAt && <ClockIcon className="w-3 h-3 shrink-0 text-sky-500" />}
+                {counts && counts.total > 0 && (
+                    <span
+                        className="shrink-0 px-1.5 text-[10px] rounded-full bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400"
+                        title={onlyPublished ? `${counts.total} items` : `${counts.published} of ${counts.total} items published`}
+                    >
+                        {onlyPublished ? counts.total : `${counts.published}/${counts.total}`}
+                    </span>
+                )}
+            </div>
+            {isOpen && (
+                <ul>
+                    {node.children!.map(child => (
+                        <TreeNodeRow
+                            key={child._id}
+                            node={child}
+                            depth={depth + 1}
+                            path={nodePath}
+                            selectedId={selectedId}
+                            expanded={expanded}
+                            forceOpen={forceOpen}
+                            query={query}
+                            onlyPublished={onlyPublished}
+                            onToggle={onToggle}
+                            onSelect={onSelect}
+                        />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+// Collapsible, searchable Class → Chapter tree loaded in one request (GET /tree)
+export const TreeView: React.FC<TreeViewProps> = ({ selection, onSelect, onlyPublished = false }) => {
+    const { updateVersion } = useContentUpdate();
+    const { activeYear } = useAcademicYear();
+    const academicYear = activeYear?.name;
+    const { data: tree, isLoading, error } = useApi(() => api.getHierarchyTree({ onlyPublished, academicYear }), [onlyPublished, academicYear, updateVersion]);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [search, setSearch] = useState('');
+    const query = search.trim().toLowerCase();
+
+    // Keep the current selection's ancestors open, e.g. after a cascade selector change
+    useEffect(() => {
+        const ancestors = [selection.classId, selection.subjectId, selection.unitId, selection.subUnitId].filter(Boolean) as string[];
+        if (ancestors.length === 0) return;
+        setExpanded(current => ancestors.every(id => current.has(id)) ? current : new Set([...current, ...ancestors]));
+    }, [selection.classId, selection.subjectId, selection.unitId, selection.subUnitId]);
+
+    const selectedId = selection.lessonId || selection.subUnitId || selection.unitId || selection.subjectId || selection.classId;
+    const visible = useMemo(() => (tree && query ? filterTree(tree, query) : tree || []), [tree, query]);
+
+    const toggle = (id: string) => setExpanded(current => {
+        const next = new Set(current);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    return (
+        <div className="flex flex-col gap-2">
+            <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search classes, units, chapters..."
+                className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-800 dark:text-white"
+            />
+            {isLoading && !tree && <div className="p-2 text-sm text-gray-500">Loading...</div>}
+            {error && <div className="p-2 text-sm text-red-500">{error.message}</div>}
+            {tree && visible.length === 0 && (
+                <div className="p-2 text-sm text-gray-500">{query ? 'No matches' : 'No classes yet'}</div>
+            )}
+            <ul>
+                {visible.map(node => (
+                    <TreeNodeRow
+                        key={node._id}
+                        node={node}
+                        depth={0}
+                        path={EMPTY_SELECTION}
+                        selectedId={selectedId}
+                        expanded={expanded}
+                        forceOpen={!!query}
+                        query={query}
+                        onlyPublished={onlyPublished}
+                        onToggle={toggle}
+                        onSelect={onSelect}
+                    />
+                ))}
+            </ul>
+        </div>
+    );
 };
 
 export default TreeView;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { TwoFactorAnswer } from '../services/api';
+
+interface TwoFactorCodeFormProps {
+  onSubmit: (answer: TwoFactorAnswer) => Promise<void>;
+  onCancel: () => void;
+  inputClassName?: string;
+  buttonClassName?: string;
+}
+
+// Second sign-in step: a code from the authenticator app, or one of the saved recovery codes
+export const TwoFactorCodeForm: React.FC<TwoFactorCodeFormProps> = ({
+  onSubmit,
+  onCancel,
+  inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white",
+  buttonClassName = "w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-2 px-4 rounded-md transition duration-200"
+}) => {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      await onSubmit(useRecoveryCode ? { recoveryCode: value.trim() } : { code: value.trim() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      setValue('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setValue('');
+    setError(null);
+  };
+
+  return (
+    <form className="space-y-5" onSubmit={handleSubmit}>
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-white">Two-factor authentication</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when setting up two-factor authentication. Each code works once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+        </label>
+        <input
+          id="two-factor-code"
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          required
+          autoFocus
+          maxLength={useRecoveryCode ? 12 : 6}
+          className={`${inputClassName} tracking-widest`}
+          placeholder={useRecoveryCode ? 'XXXX-XXXX' : '6-digit code'}
+          autoComplete="one-time-code"
+        />
+      </div>
+
+      {error && (
+        <div className="error-message p-3 text-sm text-red-600 dark:text-red-400 bg-red-50/80 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800">
+          {error}
+        </div>
+      )}
+
+      <button type="submit" disabled={isLoading} className={buttonClassName}>
+        {isLoading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" onClick={onCancel} className="text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-300">
+          Back to sign in
+        </button>
+        <button type="button" onClick={toggleMode} className="text-blue-600 hover:text-blue-700 dark:text-blue-400">
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import * as api from '../services/api';
+import { useApi } from '../hooks/useApi';
+
+interface TwoFactorSettingsProps {
+    // Webmaster session token; omitted for the signed-in admin
+    authToken?: string | null;
+    className?: string;
+}
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white";
+const primaryButton = "px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+const secondaryButton = "px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 transition-colors duration-200 disabled:opacity-50";
+const linkButton = "px-3 py-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors duration-200";
+
+// Shown once, right after enabling or regenerating
+const RecoveryCodesList: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => {
+    const download = () => {
+        const blob = new Blob([`Recovery codes (each works once)\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'recovery-codes.txt';
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="p-3 text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 rounded-md border border-amber-200 dark:border-amber-800">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They will not be shown again.
+            </div>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+                {codes.map(code => <li key={code} className="px-3 py-1.5 bg-white dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">{code}</li>)}
+            </ul>
+            <div className="flex space-x-3">
+                <button type="button" onClick={download} className={secondaryButton}>Download</button>
+                <button type="button" onClick={onDone} className={primaryButton}>I have saved them</button>
+            </div>
+        </div>
+    );
+};
+
+// Enrol in, manage and turn off TOTP two-factor authentication for an admin or the webmaster
+export const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ authToken, className = "bg-gray-50 dark:bg-gray-800 rounded-lg p-6" }) => {
+    const [version, setVersion] = useState(0);
+    const { data: status, isLoading, error } = useApi(() => api.getTwoFactorStatus(authToken), [authToken, version]);
+    const [step, setStep] = useState<'idle' | 'setup' | 'disable' | 'regenerate'>('idle');
+    const [setup, setSetup] = useState<api.TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState('');
+    const [password, setPassword] = useState('');
+    const [formError, setFormError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const reset = () => {
+        setStep('idle');
+        setSetup(null);
+        setCode('');
+        setPassword('');
+        setFormError(null);
+    };
+
+    const run = async (action: () => Promise<void>) => {
+        setFormError(null);
+        setIsSaving(true);
+        try {
+            await action();
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStartSetup = () => run(async () => {
+        setSetup(await api.startTwoFactorSetup(authToken));
+        setStep('setup');
+    });
+
+    const handleEnable = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const result = await api.enableTwoFactor(code.trim(), authToken);
+            reset();
+            setRecoveryCodes(result.recoveryCodes);
+            setVersion(v => v + 1);
+        });
+    };
+
+    const handleDisable = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await api.disableTwoFactor(password, { code: code.trim() }, authToken);
+            reset();
+            setVersion(v => v + 1);
+        });
+    };
+
+    const handleRegenerate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const result = await api.regenerateRecoveryCodes(code.trim(), authToken);
+            reset();
+            setRecoveryCodes(result.recoveryCodes);
+            setVersion(v => v + 1);
+        });
+    };
+
+    const codeInput = (
+        <div>
+            <label htmlFor="two-factor-settings-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Code from your authenticator app
+            </label>
+            <input
+                id="two-factor-settings-code"
+                type="text"
+                inputMode="numeric"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                maxLength={6}
+                className={`${inputClasses} tracking-widest`}
+                placeholder="6-digit code"
+                autoComplete="one-time-code"
+            />
+        </div>
+    );
+
+    const formFooter = (submitLabel: string) => (
+        <>
+            {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
+            <div className="flex space-x-3">
+                <button type="submit" disabled={isSaving} className={primaryButton}>{isSaving ? 'Saving...' : submitLabel}</button>
+                <button type="button" onClick={reset} disabled={isSaving} className={secondaryButton}>Cancel</button>
+            </div>
+        </>
+    );
+
+    const renderBody = () => {
+        if (recoveryCodes) {
+            return <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+        }
+        if (isLoading && !status) return <p className="text-gray-600 dark:text-gray-400">Loading...</p>;
+        if (error) return <p className="text-red-600 dark:text-red-400">{error.message}</p>;
+        if (!status) return null;
+
+        if (step === 'setup' && setup) {
+            return (
+                <form onSubmit={handleEnable} className="space-y-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, Authy…), then enter the code it shows.
+                    </p>
+                    <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 bg-white p-2 rounded" />
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Can't scan it? Enter this key manually: <span className="font-mono text-gray-900 dark:text-white break-all">{setup.secret}</span>
+                    </p>
+                    {codeInput}
+                    {formFooter('Turn On')}
+                </form>
+            );
+        }
+
+        if (step === 'disable') {
+            return (
+                <form onSubmit={handleDisable} className="space-y-4">
+                    <div>
+                        <label htmlFor="two-factor-settings-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Password
+                        </label>
+                        <input
+                            id="two-factor-settings-password"
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                            className={inputClasses}
+                            autoComplete="current-password"
+                        />
+                    </div>
+                    {codeInput}
+                    {formFooter('Turn Off')}
+                </form>
+            );
+        }
+
+        if (step === 'regenerate') {
+            return (
+                <form onSubmit={handleRegenerate} className="space-y-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Your existing recovery codes will stop working.</p>
+                    {codeInput}
+                    {formFooter('Generate New Codes')}
+                </form>
+            );
+        }
+
+        if (!status.enabled) {
+            return (
+                <div className="space-y-3">
+                    <p className="text-gray-600 dark:text-gray-400">
+                        Require a code from your phone in addition to your password when signing in.
+                    </p>
+                    {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
+                    <button type="button" onClick={handleStartSetup} disabled={isSaving} className={primaryButton}>
+                        {isSaving ? 'Preparing...' : 'Set Up Two-Factor Authentication'}
+                    </button>
+                </div>
+            );
+        }
+
+        return (
+            <div className="space-y-3">
+                <p className="text-gray-600 dark:text-gray-400">
+                    <span className="px-2 py-0.5 mr-2 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">On</span>
+                    {status.enabledAt && `Since ${new Date(status.enabledAt).toLocaleDateString()}. `}
+                    {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                    <button type="button" onClick={() => setStep('regenerate')} className={linkButton}>New Recovery Codes</button>
+                    <button type="button" onClick={() => setStep('disable')} className={linkButton}>Turn Off</button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className={className}>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Two-Factor Authentication</h2>
+            {renderBody()}
+        </div>
+    );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import * as api from '../services/api';
+import { useToast } from '../context/ToastContext';
+
+type Step = 'upload' | 'preview' | 'done';
+
+const csvEscape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Generated passwords are only shown once, so offer them as a CSV download
+const downloadCredentials = (credentials: api.ImportedUserCredential[]) => {
+    const header = ['name', 'username', 'email', 'role', 'password'];
+    const lines = [
+        header.join(','),
+        ...credentials.map(c => [c.name, c.username, c.email, c.role, c.password].map(csvEscape).join(','))
+    ];
+    // BOM so Excel opens Tamil names as UTF-8
+    const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `imported_users_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+};
+
+export const UserImportModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: () => void;
+}> = ({ isOpen, onClose, onImported }) => {
+    const [step, setStep] = useState<Step>('upload');
+    const [file, setFile] = useState<File | null>(null);
+    const [rows, setRows] = useState<api.UserImportRow[]>([]);
+    const [sendEmails, setSendEmails] = useState(false);
+    const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+    const [created, setCreated] = useState<api.ImportedUserCredential[]>([]);
+    const [emailFailures, setEmailFailures] = useState<string[]>([]);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const { showToast } = useToast();
+
+    if (!isOpen) return null;
+
+    const invalidCount = rows.filter(row => row.errors.length > 0).length;
+    const visibleRows = showOnlyErrors ? rows.filter(row => row.errors.length > 0) : rows;
+
+    const reset = () => {
+        setStep('upload');
+        setFile(null);
+        setRows([]);
+        setSendEmails(false);
+        setShowOnlyErrors(false);
+        setCreated([]);
+        setEmailFailures([]);
+        setError(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handlePreview = async () => {
+        if (!file) return;
+        setError(null);
+        setIsWorking(true);
+        try {
+            const result = await api.previewUserImport(file);
+            setRows(result.rows);
+            setShowOnlyErrors(result.invalid > 0);
+            setStep('preview');
+        } catch (e: any) {
+            setError(e.message || 'Failed to read file');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setError(null);
+        setIsWorking(true);
+        try {
+            const result = await api.importUsers(rows, sendEmails);
+            setCreated(result.created);
+            setEmailFailures(result.emailFailures);
+            setStep('done');
+            showToast(`${result.created.length} users created`, 'success');
+            onImported();
+        } catch (e: any) {
+            setError(e.message || 'Import failed');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const buttonBase = "px-4 py-2 rounded-md disabled:opacity-50";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Import Users</h2>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600 dark:text-gray-300">
+                            Upload a CSV or XLSX file with the columns <strong>name, username, email, role</strong> and optionally <strong>mobile, district, school</strong>.
+                            District and school must match names under Districts &amp; Schools.
+                            Role must be <em>student</em> or <em>teacher</em>. Each user gets a generated password and must change it on first sign-in.
+                            Import at most 100 users per file; split longer lists into several files.
+                        </p>
+                        <input
+                            type="file"
+                            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                            onChange={e => setFile(e.target.files?.[0] || null)}
+                            className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                        />
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <>
+                        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                            <p className="text-sm text-gray-700 dark:text-gray-300">
+                                {rows.length} rows, {' '}
+                                <span className={invalidCount > 0 ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                                    {invalidCount > 0 ? `${invalidCount} with errors` : 'all valid'}
+                                </span>
+                                {invalidCount > 0 && ' — fix the file and upload it again.'}
+                            </p>
+                            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                <input type="checkbox" checked={showOnlyErrors} onChange={e => setShowOnlyErrors(e.target.checked)} className="h-4 w-4 rounded border-gray-300" />
+                                Show only rows with errors
+                            </label>
+                        </div>
+                        <div className="flex-1 overflow-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                            <table className="w-full text-sm text-left text-gray-600 dark:text-gray-300">
+                                <thead className="text-xs uppercase bg-gray-50 dark:bg-gray-700 sticky top-0">
+                                    <tr>
+                                        <th className="px-3 py-2">Row</th>
+                                        <th className="px-3 py-2">Name</th>
+                                        <th className="px-3 py-2">Username</th>
+                                        <th className="px-3 py-2">Email</th>
+                                        <th className="px-3 py-2">Role</th>
+                                        <th className="px-3 py-2">Mobile</th>
+                                        <th className="px-3 py-2">District / School</th>
+                                        <th className="px-3 py-2">Errors</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {visibleRows.map(row => (
+                                        <tr key={row.rowNumber} className={`border-b dark:border-gray-700 ${row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+                                            <td className="px-3 py-2">{row.rowNumber}</td>
+                                            <td className="px-3 py-2">{row.name}</td>
+                                            <td className="px-3 py-2">{row.username}</td>
+                                            <td className="px-3 py-2">{row.email}</td>
+                                            <td className="px-3 py-2 capitalize">{row.role}</td>
+                                            <td className="px-3 py-2">{row.mobileNumber}</td>
+                                            <td className="px-3 py-2">{[row.district, row.school].filter(Boolean).join(' / ')}</td>
+                                            <td className="px-3 py-2 text-red-600 dark:text-red-400">{row.errors.join('; ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <label className="flex items-center gap-2 mt-3 text-sm text-gray-700 dark:text-gray-300">
+                            <input type="checkbox" checked={sendEmails} onChange={e => setSendEmails(e.target.checked)} className="h-4 w-4 rounded border-gray-300" />
+                            Email each user their username and password
+                        </label>
+                    </>
+                )}
+
+                {step === 'done' && (
+                    <div className="space-y-3">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                            Created {created.length} users. Download the generated passwords now — they are not stored in readable form and cannot be shown again.
+                        </p>
+                        {emailFailures.length > 0 && (
+                            <p className="text-sm text-amber-700 dark:text-amber-300">
+                                Emails could not be sent to: {emailFailures.join(', ')}
+                            </p>
+                        )}
+                        <button onClick={() => downloadCredentials(created)} className={`${buttonBase} text-white bg-green-600 hover:bg-green-700`}>
+                            Download Passwords (CSV)
+                        </button>
+                    </div>
+                )}
+
+                {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                <div className="mt-6 flex justify-end space-x-3">
+                    {step === 'preview' && (
+                        <button type="button" onClick={reset} disabled={isWorking} className={`${buttonBase} text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500`}>
+                            Choose Another File
+                        </button>
+                    )}
+                    <button type="button" onClick={handleClose} disabled={isWorking} className={`${buttonBase} text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500`}>
+                        {step === 'done' ? 'Close' : 'Cancel'}
+                    </button>
+                    {step === 'upload' && (
+                        <button type="button" onClick={handlePreview} disabled={!file || isWorking} className={`${buttonBase} text-white bg-blue-600 hover:bg-blue-700`}>
+                            {isWorking ? 'Reading...' : 'Preview'}
+                        </button>
+                    )}
+                    {step === 'preview' && (
+                        <button type="button" onClick={handleImport} disabled={invalidCount > 0 || rows.length === 0 || isWorking} className={`${buttonBase} text-white bg-blue-600 hover:bg-blue-700`}>
+                            {isWorking ? 'Importing...' : `Create ${rows.length} Users`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
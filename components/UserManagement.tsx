@@ -1,21 +1,120 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useApi } from '../hooks/useApi';
 import * as api from '../services/api';
-import { User, UserRole } from '../types';
+import { User, UserRole, EditScope, Class, Subject, Unit, LocationLookups, LocationSelection } from '../types';
 import { PlusIcon, EditIcon, TrashIcon } from './icons/AdminIcons';
 import { ConfirmModal } from './ConfirmModal';
+import { UserImportModal } from './UserImportModal';
+import { LocationSelectors } from './LocationSelectors';
+import { pickLocation } from '../utils/locations';
 import { useToast } from '../context/ToastContext';
 
 const SearchIcon: React.FC<{className?: string}> = ({className}) => (
     <svg className={className} stroke="currentColor" fill="none" strokeWidth="2" viewBox="0 0 24 24" strokeLinecap="round" strokeLinejoin="round" height="1em" width="1em" xmlns="http://www.w3.org/2000/svg"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>
 );
 
+// Lets an admin restrict a teacher's edit access to specific classes, subjects or units
+const EditScopesEditor: React.FC<{
+    scopes: EditScope[];
+    onChange: (scopes: EditScope[]) => void;
+}> = ({ scopes, onChange }) => {
+    const { data: classes } = useApi<Class[]>(() => api.getClasses(), []);
+    const [classId, setClassId] = useState('');
+    const [subjectId, setSubjectId] = useState('');
+    const [unitId, setUnitId] = useState('');
+    const [subjectsByClass, setSubjectsByClass] = useState<Record<string, Subject[]>>({});
+    const [unitsBySubject, setUnitsBySubject] = useState<Record<string, Unit[]>>({});
+
+    // Load subject/unit names for the existing scopes and the current picker selection
+    useEffect(() => {
+        const classIds = new Set([...scopes.map(s => String(s.classId)), classId].filter(Boolean));
+        classIds.forEach(id => {
+            if (subjectsByClass[id]) return;
+            api.getSubjectsByClassId(id)
+                .then(subjects => setSubjectsByClass(prev => ({ ...prev, [id]: subjects })))
+                .catch(err => console.error('[EditScopes] Failed to load subjects:', err));
+        });
+        const subjectIds = new Set([...scopes.map(s => s.subjectId ? String(s.subjectId) : ''), subjectId].filter(Boolean));
+        subjectIds.forEach(id => {
+            if (unitsBySubject[id]) return;
+            api.getUnitsBySubjectId(id)
+                .then(units => setUnitsBySubject(prev => ({ ...prev, [id]: units })))
+                .catch(err => console.error('[EditScopes] Failed to load units:', err));
+        });
+    }, [scopes, classId, subjectId]);
+
+    const describeScope = (scope: EditScope) => {
+        const className = classes?.find(c => c._id === String(scope.classId))?.name || 'Class';
+        const parts = [className];
+        if (scope.subjectId) {
+            parts.push(subjectsByClass[String(scope.classId)]?.find(s => s._id === String(scope.subjectId))?.name || 'Subject');
+        }
+        if (scope.unitId && scope.subjectId) {
+            parts.push(unitsBySubject[String(scope.subjectId)]?.find(u => u._id === String(scope.unitId))?.name || 'Unit');
+        }
+        return parts.join(' › ');
+    };
+
+    const handleAdd = () => {
+        if (!classId) return;
+        const scope: EditScope = { classId, subjectId: subjectId || null, unitId: unitId || null };
+        const isDuplicate = scopes.some(s =>
+            String(s.classId) === scope.classId &&
+            String(s.subjectId || '') === String(scope.subjectId || '') &&
+            String(s.unitId || '') === String(scope.unitId || '')
+        );
+        if (!isDuplicate) onChange([...scopes, scope]);
+        setSubjectId('');
+        setUnitId('');
+    };
+
+    const selectClasses = "w-full px-2 py-1.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    return (
+        <div className="mt-2 p-3 rounded-md border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/40">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Edit Scopes</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Leave empty to allow editing everywhere.</p>
+            {scopes.length > 0 && (
+                <ul className="mb-3 space-y-1">
+                    {scopes.map((scope, index) => (
+                        <li key={`${scope.classId}-${scope.subjectId || ''}-${scope.unitId || ''}`} className="flex items-center justify-between text-sm bg-white dark:bg-gray-800 px-2 py-1 rounded">
+                            <span className="text-gray-800 dark:text-gray-200">{describeScope(scope)}</span>
+                            <button type="button" onClick={() => onChange(scopes.filter((_, i) => i !== index))} className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400" title="Remove scope">
+                                <TrashIcon className="w-3.5 h-3.5" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+                <select value={classId} onChange={e => { setClassId(e.target.value); setSubjectId(''); setUnitId(''); }} className={selectClasses}>
+                    <option value="">Class</option>
+                    {classes?.map(c => <option key={c._id} value={c._id}>{c.name}</option>)}
+                </select>
+                <select value={subjectId} onChange={e => { setSubjectId(e.target.value); setUnitId(''); }} disabled={!classId} className={selectClasses}>
+                    <option value="">All subjects</option>
+                    {(subjectsByClass[classId] || []).map(s => <option key={s._id} value={s._id}>{s.name}</option>)}
+                </select>
+                <select value={unitId} onChange={e => setUnitId(e.target.value)} disabled={!subjectId} className={selectClasses}>
+                    <option value="">All units</option>
+                    {(unitsBySubject[subjectId] || []).map(u => <option key={u._id} value={u._id}>{u.name}</option>)}
+                </select>
+            </div>
+            <button type="button" onClick={handleAdd} disabled={!classId} className="mt-2 flex items-center gap-1 px-3 py-1 text-sm rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/40 disabled:opacity-50">
+                <PlusIcon className="w-4 h-4" />
+                Add Scope
+            </button>
+        </div>
+    );
+};
+
 const UserModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
     onSave: (user: Omit<User, '_id' | 'isFirstLogin'>, id?: string) => Promise<void>;
     userToEdit: User | null;
-}> = ({ isOpen, onClose, onSave, userToEdit }) => {
+    locations: LocationLookups | null;
+}> = ({ isOpen, onClose, onSave, userToEdit, locations }) => {
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
     const [username, setUsername] = useState('');
@@ -23,6 +122,10 @@ const UserModal: React.FC<{
     const [role, setRole] = useState<UserRole>('teacher');
     const [status, setStatus] = useState<'active' | 'inactive'>('active');
     const [canEdit, setCanEdit] = useState(false);
+    const [editScopes, setEditScopes] = useState<EditScope[]>([]);
+    const [requiresReview, setRequiresReview] = useState(false);
+    const [location, setLocation] = useState<LocationSelection>({});
+    const [isCoordinator, setIsCoordinator] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
 
     useEffect(() => {
@@ -33,6 +136,10 @@ const UserModal: React.FC<{
             setStatus(userToEdit.status);
             setUsername(userToEdit.username);
             setCanEdit(!!userToEdit.canEdit);
+            setEditScopes(userToEdit.editScopes || []);
+            setRequiresReview(!!userToEdit.requiresReview);
+            setLocation(pickLocation(userToEdit));
+            setIsCoordinator(!!userToEdit.isDistrictCoordinator);
             setPassword(''); // Don't pre-fill password
         } else {
             setName('');
@@ -42,11 +149,17 @@ const UserModal: React.FC<{
             setRole('teacher');
             setStatus('active');
             setCanEdit(false);
+            setEditScopes([]);
+            setRequiresReview(false);
+            setLocation({});
+            setIsCoordinator(false);
         }
     }, [userToEdit, isOpen]);
 
     if (!isOpen) return null;
 
+    const coordinatorNeedsDistrict = role === 'teacher' && isCoordinator && !location.districtId;
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (name.trim() && email.trim() && username.trim() && !isSaving) {
@@ -54,18 +167,29 @@ const UserModal: React.FC<{
                 // Password is required for new users
                 return;
             }
+            if (coordinatorNeedsDistrict) return;
             setIsSaving(true);
-            const userData: Omit<User, '_id' | 'isFirstLogin'> = { name: name.trim(), email: email.trim(), username: username.trim(), role, status };
+            const userData: Omit<User, '_id' | 'isFirstLogin'> = {
+                name: name.trim(), email: email.trim(), username: username.trim(), role, status,
+                ...pickLocation(location),
+                isDistrictCoordinator: role === 'teacher' && isCoordinator
+            };
             if (password.trim()) {
                 userData.password = password.trim();
             }
             // Only teachers can have the canEdit permission set
             if (role === 'teacher') {
                 userData.canEdit = canEdit;
+                userData.editScopes = canEdit ? editScopes : [];
+                userData.requiresReview = canEdit && requiresReview;
             } else if (role === 'admin') {
                 userData.canEdit = true; // Admins always can edit
+                userData.editScopes = [];
+                userData.requiresReview = false;
             } else {
                 userData.canEdit = false; // Students cannot edit
+                userData.editScopes = [];
+                userData.requiresReview = false;
             }
 
             await onSave(userData, userToEdit?._id);
@@ -77,7 +201,7 @@ const UserModal: React.FC<{
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center">
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md" onClick={e => e.stopPropagation()}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
                 <h2 className="text-xl font-bold mb-6 text-gray-800 dark:text-white">{userToEdit ? 'Edit User' : 'Add New User'}</h2>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <div>
@@ -118,6 +242,46 @@ const UserModal: React.FC<{
                             </label>
                         </div>
                     )}
+                    {role === 'teacher' && canEdit && (
+                        <EditScopesEditor scopes={editScopes} onChange={setEditScopes} />
+                    )}
+                    {role === 'teacher' && canEdit && (
+                        <div>
+                            <div className="flex items-center">
+                                <input
+                                    id="requiresReview"
+                                    type="checkbox"
+                                    checked={requiresReview}
+                                    onChange={(e) => setRequiresReview(e.target.checked)}
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                />
+                                <label htmlFor="requiresReview" className="ml-2 block text-sm text-gray-900 dark:text-gray-300">
+                                    Needs review before publishing
+                                </label>
+                            </div>
+                            <p className="mt-1 ml-6 text-xs text-gray-500 dark:text-gray-400">Their content goes to the Review Queue and is published once an admin approves it.</p>
+                        </div>
+                    )}
+                    <LocationSelectors lookups={locations} value={location} onChange={setLocation} selectClassName={formInputClasses} gridClassName="space-y-4" idPrefix="user-modal" />
+                    {role === 'teacher' && (
+                        <div>
+                            <div className="flex items-center">
+                                <input
+                                    id="isDistrictCoordinator"
+                                    type="checkbox"
+                                    checked={isCoordinator}
+                                    onChange={(e) => setIsCoordinator(e.target.checked)}
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                />
+                                <label htmlFor="isDistrictCoordinator" className="ml-2 block text-sm text-gray-900 dark:text-gray-300">
+                                    District Coordinator (sees reports for all schools in the district)
+                                </label>
+                            </div>
+                            {coordinatorNeedsDistrict && (
+                                <p className="mt-1 text-xs text-red-600 dark:text-red-400">Select the district this coordinator covers.</p>
+                            )}
+                        </div>
+                    )}
                     <div>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Status</label>
                         <select value={status} onChange={e => setStatus(e.target.value as 'active' | 'inactive')} className={formInputClasses}>
@@ -127,7 +291,7 @@ const UserModal: React.FC<{
                     </div>
                     <div className="mt-8 flex justify-end space-x-3">
                         <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 disabled:opacity-50" disabled={isSaving}>Cancel</button>
-                        <button type="submit" className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-wait" disabled={!name || !email || !username || isSaving}>
+                        <button type="submit" className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-wait" disabled={!name || !email || !username || coordinatorNeedsDistrict || isSaving}>
                             {isSaving ? 'Saving...' : (userToEdit ? 'Save Changes' : 'Create User')}
                         </button>
                     </div>
@@ -140,9 +304,13 @@ const UserModal: React.FC<{
 export const UserManagement: React.FC = () => {
     const [version, setVersion] = useState(0);
     const { data: users, isLoading, error } = useApi<User[]>(api.getUsers, [version]);
+    const { data: loginLocks } = useApi<api.LoginLock[]>(api.getLoginLocks, [version]);
+    const { data: ipLocks } = useApi<api.LoginIpLock[]>(api.getLoginIpLocks, [version]);
+    const { data: locations } = useApi<LocationLookups>(api.getLocations, []);
     const [modalState, setModalState] = useState<{ isOpen: boolean; userToEdit: User | null }>({ isOpen: false, userToEdit: null });
     const [confirmModalState, setConfirmModalState] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
     const [searchQuery, setSearchQuery] = useState('');
+    const [isImportOpen, setIsImportOpen] = useState(false);
     
     const { showToast } = useToast();
 
@@ -202,7 +370,7 @@ export const UserManagement: React.FC = () => {
                     alert(errorMessage);
                 }
             } else {
-                showToast('Failed to save user', 'error');
+                showToast(e.message || 'Failed to save user', 'error');
             }
         }
         closeModal();
@@ -226,6 +394,32 @@ export const UserManagement: React.FC = () => {
         openConfirmModal(confirmAction);
     };
     
+    const handleUnlockUser = async (user: User) => {
+        try {
+            await api.unlockUser(user._id);
+            setVersion(v => v + 1);
+            showToast(`${user.username} unlocked`, 'success');
+        } catch (e) {
+            showToast('Failed to unlock user', 'error');
+        }
+    };
+
+    const handleUnlockIp = async (ip: string) => {
+        try {
+            await api.unlockIp(ip);
+            setVersion(v => v + 1);
+            showToast(`${ip} unlocked`, 'success');
+        } catch (e) {
+            showToast('Failed to unlock IP address', 'error');
+        }
+    };
+
+    // Lockouts are keyed by lower-cased username on the server
+    const lockedUsernames = useMemo(
+        () => new Map((loginLocks || []).map(lock => [lock.username, lock])),
+        [loginLocks]
+    );
+
     const filteredUsers = useMemo(() => {
         if (!users) return [];
         if (!searchQuery) return users;
@@ -243,14 +437,23 @@ export const UserManagement: React.FC = () => {
         <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-lg sm:text-2xl font-bold text-gray-800 dark:text-white">User Management</h1>
-                <button
-                    onClick={() => openModal()}
-                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 transition-colors"
-                    title="Add User"
-                >
-                    <PlusIcon className="w-5 h-5" />
-                    <span>Add New</span>
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setIsImportOpen(true)}
+                        className="flex items-center gap-2 px-4 py-2 text-blue-700 bg-blue-100 rounded-lg hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/40 dark:hover:bg-blue-900/60 transition-colors"
+                        title="Import users from CSV or XLSX"
+                    >
+                        <span>Import</span>
+                    </button>
+                    <button
+                        onClick={() => openModal()}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 transition-colors"
+                        title="Add User"
+                    >
+                        <PlusIcon className="w-5 h-5" />
+                        <span>Add New</span>
+                    </button>
+                </div>
             </div>
 
             <div className="mb-4">
@@ -268,6 +471,28 @@ export const UserManagement: React.FC = () => {
                 </div>
             </div>
 
+            {ipLocks && ipLocks.length > 0 && (
+                <div className="mb-4 p-3 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+                    <p className="text-sm font-medium text-amber-800 dark:text-amber-300 mb-2">Sign-ins blocked from these addresses</p>
+                    <ul className="space-y-1">
+                        {ipLocks.map(lock => (
+                            <li key={lock.ip} className="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-300">
+                                <span>
+                                    <span className="font-mono">{lock.ip}</span>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400"> · {lock.failures} failed attempts, until {new Date(lock.lockedUntil).toLocaleTimeString()}</span>
+                                </span>
+                                <button
+                                    onClick={() => handleUnlockIp(lock.ip)}
+                                    className="px-2 py-1 text-xs rounded-md text-amber-800 bg-amber-100 hover:bg-amber-200 dark:text-amber-200 dark:bg-amber-900/40 dark:hover:bg-amber-900/60"
+                                >
+                                    Unlock
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <div className="flex-1 overflow-x-auto bg-white dark:bg-gray-800/50 shadow-md rounded-lg">
                 <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
                     <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
@@ -303,14 +528,37 @@ export const UserManagement: React.FC = () => {
                                 <td className="px-6 py-4 capitalize">{user.role}</td>
                                 <td className="px-6 py-4">
                                     {user.role === 'teacher' && user.canEdit && (
-                                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">Editor</span>
+                                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
+                                            {user.editScopes && user.editScopes.length > 0 ? `Editor (${user.editScopes.length} scope${user.editScopes.length > 1 ? 's' : ''})` : 'Editor'}
+                                        </span>
+                                    )}
+                                    {user.role === 'teacher' && user.canEdit && user.requiresReview && (
+                                        <span className="ml-1 px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">
+                                            Reviewed
+                                        </span>
+                                    )}
+                                    {user.role === 'teacher' && user.isDistrictCoordinator && (
+                                        <span className="ml-1 px-2 py-1 text-xs font-medium rounded-full bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-300">
+                                            Coordinator
+                                        </span>
                                     )}
                                 </td>
                                 <td className="px-6 py-4">
                                     <span className={`px-2 py-1 text-xs font-medium rounded-full ${user.status === 'active' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'}`}>{user.status}</span>
+                                    {lockedUsernames.has(user.username.toLowerCase()) && (
+                                        <span
+                                            className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300"
+                                            title={`Locked until ${new Date(lockedUsernames.get(user.username.toLowerCase())!.lockedUntil).toLocaleTimeString()}`}
+                                        >
+                                            Locked
+                                        </span>
+                                    )}
                                 </td>
                                 <td className="px-6 py-4 text-right">
                                     <div className="flex items-center justify-end space-x-2">
+                                        {lockedUsernames.has(user.username.toLowerCase()) && (
+                                            <button onClick={() => handleUnlockUser(user)} className="px-2 py-1 text-xs font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200 dark:text-amber-300 dark:bg-amber-900/40" title="Unlock User">Unlock</button>
+                                        )}
                                         <button onClick={() => openModal(user)} className="p-1.5 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400" title="Edit User"><EditIcon className="w-4 h-4" /></button>
                                         <button onClick={() => handleDeleteUser(user)} className="p-1.5 text-gray-500 hover:text-red-600 dark:hover:text-red-400" title="Delete User"><TrashIcon className="w-4 h-4" /></button>
                                     </div>
@@ -320,11 +568,17 @@ export const UserManagement: React.FC = () => {
                     </tbody>
                 </table>
             </div>
+            <UserImportModal
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+                onImported={() => setVersion(v => v + 1)}
+            />
             <UserModal 
                 isOpen={modalState.isOpen}
                 onClose={closeModal}
                 onSave={handleSaveUser}
                 userToEdit={modalState.userToEdit}
+                locations={locations}
             />
             <ConfirmModal
                 isOpen={confirmModalState.isOpen}
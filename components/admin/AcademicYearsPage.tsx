@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import * as api from '../../services/api';
+import { AcademicYear } from '../../types';
+import { ConfirmModal } from '../ConfirmModal';
+import { useToast } from '../../context/ToastContext';
+import { useAcademicYear } from '../../context/AcademicYearContext';
+
+const statusBadge = (year: AcademicYear) => {
+    if (year.isCurrent) return <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">Current</span>;
+    if (year.isArchived) return <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">Archived · read-only</span>;
+    return <span className="px-2 py-0.5 text-xs rounded-full bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-400">Draft</span>;
+};
+
+// Syllabus versions: add next year, make it current when it starts, reopen an archived year
+// for corrections. A new year's classes are copied from Course Structure (Move or copy → Academic Year).
+export const AcademicYearsPage: React.FC = () => {
+    const { showToast } = useToast();
+    const { years, activeYear, setActiveYear, reloadYears } = useAcademicYear();
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [pendingCurrent, setPendingCurrent] = useState<AcademicYear | null>(null);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || isSaving) return;
+        setIsSaving(true);
+        try {
+            const year = await api.createAcademicYear(name.trim());
+            showToast(year.isCurrent ? `${year.name} created; existing classes now belong to it` : `${year.name} created`, 'success');
+            setName('');
+            await reloadYears();
+        } catch (e: any) {
+            showToast(e.message || 'Failed to create the year', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const update = async (year: AcademicYear, updates: { isCurrent?: boolean; isArchived?: boolean }, successMessage: string) => {
+        setBusyId(year._id);
+        try {
+            await api.updateAcademicYear(year._id, updates);
+            showToast(successMessage, 'success');
+            await reloadYears();
+        } catch (e: any) {
+            showToast(e.message || 'Something went wrong', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleMakeCurrent = () => {
+        const year = pendingCurrent;
+        setPendingCurrent(null);
+        if (year) update(year, { isCurrent: true }, `${year.name} is now the current year`);
+    };
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Academic Years</h1>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Each class belongs to one year. Older years are archived when a newer one becomes current and stay browsable, read-only.
+                    </p>
+                </div>
+                <form onSubmit={handleCreate} className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="e.g. 2026-27"
+                        maxLength={20}
+                        className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button type="submit" disabled={!name.trim() || isSaving} className="px-4 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50">
+                        {isSaving ? 'Adding...' : 'Add Year'}
+                    </button>
+                </form>
+            </div>
+
+            <div className="flex-1 overflow-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                {years.length === 0 ? (
+                    <div className="flex items-center justify-center h-64 text-gray-500 text-center px-4">
+                        No academic years yet. The first year you add becomes current and takes every existing class.
+                    </div>
+                ) : (
+                    <table className="w-full">
+                        <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Year</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {years.map(year => (
+                                <tr key={year._id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                                        {year.name}
+                                        {activeYear?._id === year._id && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(viewing)</span>}
+                                    </td>
+                                    <td className="px-4 py-3 text-sm">{statusBadge(year)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                                        {activeYear?._id !== year._id && (
+                                            <button
+                                                onClick={() => setActiveYear(year.name)}
+                                                className="px-3 py-1 mr-2 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                                            >
+                                                View
+                                            </button>
+                                        )}
+                                        {!year.isCurrent && (
+                                            <button
+                                                onClick={() => setPendingCurrent(year)}
+                                                disabled={busyId === year._id}
+                                                className="px-3 py-1 mr-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md disabled:opacity-50"
+                                            >
+                                                Make Current
+                                            </button>
+                                        )}
+                                        {!year.isCurrent && (
+                                            <button
+                                                onClick={() => update(year, { isArchived: !year.isArchived }, year.isArchived ? `${year.name} reopened for editing` : `${year.name} archived`)}
+                                                disabled={busyId === year._id}
+                                                className="px-3 py-1 text-xs font-medium text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-md disabled:opacity-50"
+                                            >
+                                                {year.isArchived ? 'Reopen' : 'Archive'}
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <ConfirmModal
+                isOpen={!!pendingCurrent}
+                onClose={() => setPendingCurrent(null)}
+                onConfirm={handleMakeCurrent}
+                title="Change Current Year"
+                message={`Make ${pendingCurrent?.name} the current year? It becomes the default for everyone, and every older year is archived (read-only).`}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import * as api from '../../services/api';
+import { User } from '../../types';
+import { useApi } from '../../hooks/useApi';
+
+const WEBMASTER_OPTION = '__webmaster__';
+
+const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const formatValue = (value: unknown) => {
+    if (value === undefined) return '—';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value, null, 2);
+};
+
+const methodColors: Record<string, string> = {
+    POST: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+    PUT: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+    PATCH: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+    DELETE: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
+};
+
+const AuditEntryDetails: React.FC<{ entry: api.AuditLogEntry }> = ({ entry }) => {
+    const changes = Object.entries(entry.changes || {});
+
+    if (changes.length === 0 && entry.details === undefined) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400">No field changes recorded.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {changes.length > 0 && (
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400">
+                            <th className="py-1 pr-4 w-48">Field</th>
+                            <th className="py-1 pr-4">Before</th>
+                            <th className="py-1">After</th>
+                        </tr>
+                    </thead>
+                    <tbody className="align-top">
+                        {changes.map(([field, change]) => (
+                            <tr key={field} className="border-t border-gray-200 dark:border-gray-700">
+                                <td className="py-1 pr-4 font-mono text-gray-700 dark:text-gray-300">{field}</td>
+                                <td className="py-1 pr-4"><pre className="whitespace-pre-wrap break-all text-red-700 dark:text-red-400">{formatValue(change.before)}</pre></td>
+                                <td className="py-1"><pre className="whitespace-pre-wrap break-all text-green-700 dark:text-green-400">{formatValue(change.after)}</pre></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {entry.details !== undefined && (
+                <div>
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Request</p>
+                    <pre className="text-xs whitespace-pre-wrap break-all text-gray-700 dark:text-gray-300">{formatValue(entry.details)}</pre>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const AuditLogPage: React.FC = () => {
+    const { data: users } = useApi<User[]>(api.getUsers, []);
+    const [actor, setActor] = useState('');
+    const [entity, setEntity] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [page, setPage] = useState(1);
+    const [logs, setLogs] = useState<api.AuditLogEntry[]>([]);
+    const [entities, setEntities] = useState<string[]>([]);
+    const [pagination, setPagination] = useState<{ total: number; page: number; pages: number } | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchLogs = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const filters: api.AuditLogFilters = { entity, startDate, endDate };
+                if (actor === WEBMASTER_OPTION) filters.actorType = 'webmaster';
+                else if (actor) filters.actorId = actor;
+
+                const response = await api.getAuditLogs(filters, page, 50);
+                setLogs(response.logs);
+                setEntities(response.entities);
+                setPagination(response.pagination);
+            } catch (e: any) {
+                console.error('Failed to fetch audit log:', e);
+                setError(e.message || 'Failed to load audit log');
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchLogs();
+    }, [actor, entity, startDate, endDate, page]);
+
+    // Any filter change starts again from the first page
+    const setFilter = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setter(e.target.value);
+        setPage(1);
+    };
+
+    const inputClasses = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-white";
+    const labelClasses = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900">
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-white mb-6">Audit Log</h1>
+
+            {/* Filters */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                <div>
+                    <label htmlFor="audit-actor" className={labelClasses}>User</label>
+                    <select id="audit-actor" value={actor} onChange={setFilter(setActor)} className={inputClasses}>
+                        <option value="">Everyone</option>
+                        <option value={WEBMASTER_OPTION}>Webmaster</option>
+                        {users?.slice().sort((a, b) => a.name.localeCompare(b.name)).map(u => (
+                            <option key={u._id} value={u._id}>{u.name} (@{u.username})</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="audit-entity" className={labelClasses}>Entity</label>
+                    <select id="audit-entity" value={entity} onChange={setFilter(setEntity)} className={inputClasses}>
+                        <option value="">All entities</option>
+                        {entities.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="audit-start" className={labelClasses}>From</label>
+                    <input id="audit-start" type="date" value={startDate} onChange={setFilter(setStartDate)} className={inputClasses} />
+                </div>
+                <div>
+                    <label htmlFor="audit-end" className={labelClasses}>To</label>
+                    <input id="audit-end" type="date" value={endDate} onChange={setFilter(setEndDate)} className={inputClasses} />
+                </div>
+            </div>
+
+            {/* Table */}
+            <div className="flex-1 overflow-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                {loading ? (
+                    <div className="flex items-center justify-center h-64 text-gray-500">Loading...</div>
+                ) : error ? (
+                    <div className="flex items-center justify-center h-64 text-red-500">{error}</div>
+                ) : logs.length === 0 ? (
+                    <div className="flex items-center justify-center h-64 text-gray-500">No audit entries found</div>
+                ) : (
+                    <table className="w-full">
+                        <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Date & Time</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">User</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Action</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Target</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Result</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {logs.map(entry => (
+                                <React.Fragment key={entry._id}>
+                                    <tr
+                                        onClick={() => setExpandedId(expandedId === entry._id ? null : entry._id)}
+                                        className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                                    >
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">{formatDate(entry.createdAt)}</td>
+                                        <td className="px-4 py-3 text-sm">
+                                            <div className="font-medium text-gray-900 dark:text-gray-100">{entry.actorName || (entry.actorType === 'anonymous' ? 'Anonymous' : '-')}</div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400 capitalize">{entry.actorRole || entry.actorType}</div>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm">
+                                            <span className={`px-2 py-0.5 mr-2 text-xs rounded-full ${methodColors[entry.method] || 'bg-gray-100 text-gray-800'}`}>{entry.method}</span>
+                                            <span className="font-mono text-xs text-gray-700 dark:text-gray-300">{entry.action.replace(/^\S+\s/, '')}</span>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">
+                                            {entry.entity || '-'}
+                                            {entry.entityId && <div className="text-xs font-mono text-gray-500 dark:text-gray-400">{entry.entityId}</div>}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                            <span className={`px-2 py-1 text-xs rounded-full ${entry.success
+                                                ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
+                                                : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'}`}>
+                                                {entry.statusCode}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {expandedId === entry._id && (
+                                        <tr className="bg-gray-50 dark:bg-gray-900/40">
+                                            <td colSpan={5} className="px-6 py-4">
+                                                <AuditEntryDetails entry={entry} />
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {/* Pagination */}
+                {pagination && pagination.pages > 1 && (
+                    <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+                        <div className="text-sm text-gray-700 dark:text-gray-300">
+                            Page {pagination.page} of {pagination.pages} ({pagination.total} total)
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPage(p => Math.max(1, p - 1))}
+                                disabled={page === 1}
+                                className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setPage(p => Math.min(pagination.pages, p + 1))}
+                                disabled={page === pagination.pages}
+                                className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
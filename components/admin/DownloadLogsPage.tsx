@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import * as api from '../../services/api';
+import { LocationLookups, LocationSelection } from '../../types';
+import { useApi } from '../../hooks/useApi';
+import { LocationSelectors } from '../LocationSelectors';
+import { isDistrictCoordinator } from '../../utils/locations';
 import { DownloadIcon, EyeIcon, XIcon } from '../icons/AdminIcons';
 
 interface DownloadLogsPageProps {
@@ -13,18 +17,27 @@ export const DownloadLogsPage: React.FC<DownloadLogsPageProps> = ({ user }) => {
     const [loading, setLoading] = useState(true);
     const [page, setPage] = useState(1);
     const [pagination, setPagination] = useState<any>(null);
+    // Coordinators only ever see their own district; the server enforces the same
+    const isCoordinator = isDistrictCoordinator(user);
+    const [location, setLocation] = useState<LocationSelection>(isCoordinator ? { districtId: user.districtId } : {});
+    const { data: locations } = useApi<LocationLookups>(api.getLocations, []);
 
     useEffect(() => {
         fetchStats();
-    }, []);
+    }, [location]);
 
     useEffect(() => {
         fetchDownloads();
-    }, [activeTab, page]);
+    }, [activeTab, page, location]);
+
+    const handleLocationChange = (value: LocationSelection) => {
+        setLocation(value);
+        setPage(1);
+    };
 
     const fetchStats = async () => {
         try {
-            const response = await api.getDownloadStats();
+            const response = await api.getDownloadStats(location);
             setStats(response.stats);
         } catch (error) {
             console.error('Failed to fetch stats:', error);
@@ -34,7 +47,7 @@ export const DownloadLogsPage: React.FC<DownloadLogsPageProps> = ({ user }) => {
     const fetchDownloads = async () => {
         setLoading(true);
         try {
-            const response = await api.getDownloadLogs(activeTab, page, 50);
+            const response = await api.getDownloadLogs(activeTab, page, 50, location);
             setDownloads(response.downloads);
             setPagination(response.pagination);
         } catch (error) {
@@ -67,6 +80,18 @@ export const DownloadLogsPage: React.FC<DownloadLogsPageProps> = ({ user }) => {
                 </div>
             </div>
 
+            {/* Location Filter */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-6">
+                <LocationSelectors
+                    lookups={locations}
+                    value={location}
+                    onChange={handleLocationChange}
+                    variant="filter"
+                    lockDistrict={isCoordinator}
+                    idPrefix="downloads-filter"
+                />
+            </div>
+
             {/* Stats Cards */}
             {stats && (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
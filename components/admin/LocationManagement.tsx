@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import * as api from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { LocationLookups } from '../../types';
+import { useToast } from '../../context/ToastContext';
+import { ConfirmModal } from '../ConfirmModal';
+import { PlusIcon, EditIcon, TrashIcon } from '../icons/AdminIcons';
+
+interface LocationItem {
+    _id: string;
+    name: string;
+}
+
+// One column of the District → Sub-district → School editor
+const LocationColumn: React.FC<{
+    title: string;
+    items: LocationItem[];
+    selectedId?: string;
+    onSelect?: (id: string) => void;
+    onAdd: (name: string) => Promise<void>;
+    onRename: (item: LocationItem) => void;
+    onDelete: (item: LocationItem) => void;
+    disabledMessage?: string;
+}> = ({ title, items, selectedId, onSelect, onAdd, onRename, onDelete, disabledMessage }) => {
+    const [name, setName] = useState('');
+    const [isAdding, setIsAdding] = useState(false);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        setIsAdding(true);
+        try {
+            await onAdd(name.trim());
+            setName('');
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow flex flex-col min-h-0">
+            <h2 className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 font-semibold text-gray-800 dark:text-white">
+                {title} <span className="text-sm font-normal text-gray-500">({items.length})</span>
+            </h2>
+            {disabledMessage ? (
+                <p className="p-4 text-sm text-gray-500 dark:text-gray-400">{disabledMessage}</p>
+            ) : (
+                <>
+                    <form onSubmit={handleAdd} className="flex gap-2 p-3 border-b border-gray-200 dark:border-gray-700">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder={`New ${title.toLowerCase().replace(/s$/, '')}`}
+                            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                        />
+                        <button type="submit" disabled={!name.trim() || isAdding} className="px-2 py-1.5 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50" title="Add">
+                            <PlusIcon className="w-4 h-4" />
+                        </button>
+                    </form>
+                    <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                        {items.length === 0 && <li className="p-4 text-sm text-gray-500 dark:text-gray-400">None yet.</li>}
+                        {items.map(item => (
+                            <li
+                                key={item._id}
+                                onClick={() => onSelect?.(item._id)}
+                                className={`flex items-center justify-between px-4 py-2 text-sm ${onSelect ? 'cursor-pointer' : ''} ${selectedId === item._id
+                                    ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                            >
+                                <span className="truncate">{item.name}</span>
+                                <span className="flex items-center gap-1 shrink-0">
+                                    <button onClick={e => { e.stopPropagation(); onRename(item); }} className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400" title="Rename">
+                                        <EditIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={e => { e.stopPropagation(); onDelete(item); }} className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400" title="Delete">
+                                        <TrashIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+export const LocationManagement: React.FC = () => {
+    const [version, setVersion] = useState(0);
+    const { data: locations, isLoading, error } = useApi<LocationLookups>(api.getLocations, [version]);
+    const [districtId, setDistrictId] = useState('');
+    const [subDistrictId, setSubDistrictId] = useState('');
+    const [pendingDelete, setPendingDelete] = useState<{ kind: api.LocationKind; item: LocationItem } | null>(null);
+
+    const { showToast } = useToast();
+
+    const refresh = () => setVersion(v => v + 1);
+
+    const subDistricts = (locations?.subDistricts || []).filter(s => s.districtId === districtId);
+    const schools = (locations?.schools || []).filter(s =>
+        s.districtId === districtId && (!subDistrictId || s.subDistrictId === subDistrictId)
+    );
+
+    const handleAdd = (kind: api.LocationKind) => async (name: string) => {
+        try {
+            await api.createLocation(kind, { name, districtId, subDistrictId: kind === 'schools' ? subDistrictId || null : undefined });
+            refresh();
+        } catch (e: any) {
+            showToast(e.message || 'Failed to add', 'error');
+        }
+    };
+
+    const handleRename = (kind: api.LocationKind) => async (item: LocationItem) => {
+        const name = window.prompt('New name:', item.name)?.trim();
+        if (!name || name === item.name) return;
+        try {
+            await api.renameLocation(kind, item._id, name);
+            refresh();
+        } catch (e: any) {
+            showToast(e.message || 'Failed to rename', 'error');
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!pendingDelete) return;
+        const { kind, item } = pendingDelete;
+        setPendingDelete(null);
+        try {
+            await api.deleteLocation(kind, item._id);
+            if (item._id === districtId) setDistrictId('');
+            if (item._id === subDistrictId) setSubDistrictId('');
+            showToast(`${item.name} deleted`, 'success');
+            refresh();
+        } catch (e: any) {
+            // 409 when users or child entries still reference it
+            showToast(e.message || 'Failed to delete', 'error');
+        }
+    };
+
+    if (isLoading && !locations) return <div className="p-8 text-center">Loading locations...</div>;
+    if (error) return <div className="p-8 text-center text-red-500">Error: {error.message}</div>;
+
+    const selectedDistrict = locations?.districts.find(d => d._id === districtId);
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col">
+            <h1 className="text-lg sm:text-2xl font-bold text-gray-800 dark:text-white mb-2">Districts & Schools</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                Users pick their district and school from these lists. Entries still assigned to users cannot be deleted.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1 min-h-0">
+                <LocationColumn
+                    title="Districts"
+                    items={locations?.districts || []}
+                    selectedId={districtId}
+                    onSelect={id => { setDistrictId(id); setSubDistrictId(''); }}
+                    onAdd={handleAdd('districts')}
+                    onRename={handleRename('districts')}
+                    onDelete={item => setPendingDelete({ kind: 'districts', item })}
+                />
+                <LocationColumn
+                    title="Sub-Districts"
+                    items={subDistricts}
+                    selectedId={subDistrictId}
+                    onSelect={id => setSubDistrictId(prev => prev === id ? '' : id)}
+                    onAdd={handleAdd('sub-districts')}
+                    onRename={handleRename('sub-districts')}
+                    onDelete={item => setPendingDelete({ kind: 'sub-districts', item })}
+                    disabledMessage={selectedDistrict ? undefined : 'Select a district.'}
+                />
+                <LocationColumn
+                    title="Schools"
+                    items={schools}
+                    onAdd={handleAdd('schools')}
+                    onRename={handleRename('schools')}
+                    onDelete={item => setPendingDelete({ kind: 'schools', item })}
+                    disabledMessage={selectedDistrict ? undefined : 'Select a district.'}
+                />
+            </div>
+            <ConfirmModal
+                isOpen={!!pendingDelete}
+                onClose={() => setPendingDelete(null)}
+                onConfirm={confirmDelete}
+                title="Confirm Deletion"
+                message={`Delete "${pendingDelete?.item.name}"? This cannot be undone.`}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import * as api from '../../services/api';
+import { formatScheduleDate } from '../../utils/publishSchedule';
+
+const KIND_LABELS: Record<api.RecycleBinKind, string> = {
+    classes: 'Class',
+    subjects: 'Subject',
+    units: 'Unit',
+    subUnits: 'Sub-Unit',
+    lessons: 'Chapter',
+    contents: 'Content'
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Whole weeks covering the month, Sunday first
+const monthGrid = (month: Date) => {
+    const start = new Date(month.getFullYear(), month.getMonth(), 1);
+    start.setDate(start.getDate() - start.getDay());
+    const end = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    if (end.getDay() !== 0) end.setDate(end.getDate() + 7 - end.getDay());
+    const days: Date[] = [];
+    for (const day = new Date(start); day < end; day.setDate(day.getDate() + 1)) days.push(new Date(day));
+    return { start, end, days };
+};
+
+const EventLabel: React.FC<{ event: api.ScheduledPublishEvent }> = ({ event }) => (
+    <div
+        className={`truncate px-1.5 py-0.5 rounded text-xs ${event.action === 'publish'
+            ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+            : 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'}`}
+        title={`${event.action === 'publish' ? 'Release' : 'Unpublish'}: ${event.name}`}
+    >
+        {new Date(event.at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} {event.name}
+    </div>
+);
+
+// Month view of scheduled releases and auto-unpublish dates across the whole course tree
+export const PublishCalendarPage: React.FC = () => {
+    const [month, setMonth] = useState(() => {
+        const now = new Date();
+        return new Date(now.getFullYear(), now.getMonth(), 1);
+    });
+    const [events, setEvents] = useState<api.ScheduledPublishEvent[]>([]);
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { start, end, days } = monthGrid(month);
+
+    useEffect(() => {
+        const fetchEvents = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const response = await api.getPublishSchedule(start, end);
+                setEvents(response.events);
+            } catch (e: any) {
+                console.error('Failed to fetch publish schedule:', e);
+                setError(e.message || 'Failed to load the release calendar');
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchEvents();
+    }, [month]);
+
+    const eventsByDay = new Map<string, api.ScheduledPublishEvent[]>();
+    for (const event of events) {
+        const key = dayKey(new Date(event.at));
+        eventsByDay.set(key, [...(eventsByDay.get(key) || []), event]);
+    }
+
+    const changeMonth = (offset: number) => {
+        setMonth(current => new Date(current.getFullYear(), current.getMonth() + offset, 1));
+        setSelectedDay(null);
+    };
+
+    const todayKey = dayKey(new Date());
+    const listed = selectedDay ? eventsByDay.get(selectedDay) || [] : events.filter(event => new Date(event.at) >= new Date());
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Release Calendar</h1>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Scheduled releases and automatic unpublishing. Set dates with the clock button in Course Structure or on a content item.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => changeMonth(-1)} className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600">Previous</button>
+                    <span className="w-40 text-center font-semibold text-gray-800 dark:text-white">
+                        {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                    </span>
+                    <button onClick={() => changeMonth(1)} className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600">Next</button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-auto grid grid-cols-1 xl:grid-cols-3 gap-6">
+                <div className="xl:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow">
+                    {error ? (
+                        <div className="flex items-center justify-center h-64 text-red-500">{error}</div>
+                    ) : (
+                        <div className={`grid grid-cols-7 ${loading ? 'opacity-50' : ''}`}>
+                            {WEEKDAYS.map(day => (
+                                <div key={day} className="px-2 py-2 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider bg-gray-50 dark:bg-gray-700 text-center">{day}</div>
+                            ))}
+                            {days.map(day => {
+                                const key = dayKey(day);
+                                const dayEvents = eventsByDay.get(key) || [];
+                                const outside = day.getMonth() !== month.getMonth();
+                                return (
+                                    <button
+                                        key={key}
+                                        onClick={() => setSelectedDay(selectedDay === key ? null : key)}
+                                        className={`min-h-[6rem] p-1.5 text-left align-top border-t border-r border-gray-100 dark:border-gray-700 space-y-1 overflow-hidden ${selectedDay === key ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'} ${outside ? 'opacity-40' : ''}`}
+                                    >
+                                        <div className={`text-xs font-semibold ${key === todayKey ? 'inline-block px-1.5 rounded-full bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                                            {day.getDate()}
+                                        </div>
+                                        {dayEvents.slice(0, 3).map(event => <EventLabel key={`${event._id}-${event.action}`} event={event} />)}
+                                        {dayEvents.length > 3 && <div className="text-xs text-gray-500 dark:text-gray-400">+{dayEvents.length - 3} more</div>}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 overflow-auto">
+                    <h2 className="font-semibold text-gray-800 dark:text-white mb-3">
+                        {selectedDay ? 'On this day' : 'Coming up'}
+                    </h2>
+                    {listed.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Nothing scheduled.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {listed.map(event => (
+                                <li key={`${event._id}-${event.action}`} className="text-sm border-l-4 pl-3 py-1 border-gray-200 dark:border-gray-600">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`px-2 py-0.5 text-xs rounded-full ${event.action === 'publish'
+                                            ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
+                                            : 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400'}`}>
+                                            {event.action === 'publish' ? 'Release' : 'Unpublish'}
+                                        </span>
+                                        <span className="text-gray-500 dark:text-gray-400">{formatScheduleDate(event.at)}</span>
+                                    </div>
+                                    <div className="mt-1 font-medium text-gray-900 dark:text-gray-100">{event.name}</div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                        {KIND_LABELS[event.kind]}{event.contentType ? ` · ${event.contentType}` : ''}
+                                        {event.breadcrumb.length > 0 && ` — ${event.breadcrumb.map(crumb => crumb.name).join(' › ')}`}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
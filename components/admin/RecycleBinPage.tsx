@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import * as api from '../../services/api';
+import { ConfirmModal } from '../ConfirmModal';
+import { useToast } from '../../context/ToastContext';
+
+const KIND_LABELS: Record<api.RecycleBinKind, string> = {
+    classes: 'Class',
+    subjects: 'Subject',
+    units: 'Unit',
+    subUnits: 'Sub-Unit',
+    lessons: 'Chapter',
+    contents: 'Content'
+};
+
+const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const daysLeft = (purgeAt: string) => Math.max(Math.ceil((new Date(purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)), 0);
+
+export const RecycleBinPage: React.FC = () => {
+    const { showToast } = useToast();
+    const [kind, setKind] = useState<api.RecycleBinKind | ''>('');
+    const [page, setPage] = useState(1);
+    const [version, setVersion] = useState(0);
+    const [items, setItems] = useState<api.RecycleBinItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
+    const [pagination, setPagination] = useState<{ total: number; page: number; pages: number } | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [pendingPurge, setPendingPurge] = useState<api.RecycleBinItem | null>(null);
+
+    useEffect(() => {
+        const fetchItems = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const response = await api.getRecycleBin(kind, page, 50);
+                setItems(response.items);
+                setRetentionDays(response.retentionDays);
+                setPagination(response.pagination);
+            } catch (e: any) {
+                console.error('Failed to fetch recycle bin:', e);
+                setError(e.message || 'Failed to load the Recycle Bin');
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchItems();
+    }, [kind, page, version]);
+
+    const run = async (item: api.RecycleBinItem, action: () => Promise<unknown>, successMessage: string) => {
+        setBusyId(item._id);
+        try {
+            await action();
+            showToast(successMessage, 'success');
+            setVersion(v => v + 1);
+        } catch (e: any) {
+            showToast(e.message || 'Something went wrong', 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRestore = (item: api.RecycleBinItem) =>
+        run(item, () => api.restoreRecycleBinItem(item.kind, item._id), `"${item.name}" restored`);
+
+    const handlePurge = () => {
+        const item = pendingPurge;
+        setPendingPurge(null);
+        if (item) run(item, () => api.purgeRecycleBinItem(item.kind, item._id), `"${item.name}" permanently deleted`);
+    };
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Recycle Bin</h1>
+                    {retentionDays !== null && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Deleted items are kept for {retentionDays} days, then removed for good along with their files.
+                        </p>
+                    )}
+                </div>
+                <select
+                    value={kind}
+                    onChange={(e) => { setKind(e.target.value as api.RecycleBinKind | ''); setPage(1); }}
+                    className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-white"
+                >
+                    <option value="">All items</option>
+                    {(Object.keys(KIND_LABELS) as api.RecycleBinKind[]).map(key => (
+                        <option key={key} value={key}>{KIND_LABELS[key]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex-1 overflow-auto bg-white dark:bg-gray-800 rounded-lg shadow">
+                {loading ? (
+                    <div className="flex items-center justify-center h-64 text-gray-500">Loading...</div>
+                ) : error ? (
+                    <div className="flex items-center justify-center h-64 text-red-500">{error}</div>
+                ) : items.length === 0 ? (
+                    <div className="flex items-center justify-center h-64 text-gray-500">The Recycle Bin is empty</div>
+                ) : (
+                    <table className="w-full">
+                        <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Item</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Location</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Deleted</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Purged In</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {items.map(item => {
+                                const deletedParent = item.breadcrumb.find(crumb => crumb.deleted);
+                                return (
+                                    <tr key={`${item.kind}-${item._id}`} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                        <td className="px-4 py-3 text-sm">
+                                            <div className="font-medium text-gray-900 dark:text-gray-100">{item.name}</div>
+                                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                                                {KIND_LABELS[item.kind]}{item.contentType ? ` · ${item.contentType}` : ''}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                                            {item.breadcrumb.length === 0 ? '—' : item.breadcrumb.map((crumb, index) => (
+                                                <React.Fragment key={crumb._id}>
+                                                    {index > 0 && <span className="mx-1 text-gray-400">›</span>}
+                                                    <span className={crumb.deleted ? 'line-through text-gray-400' : ''} title={crumb.deleted ? 'Also in the Recycle Bin' : undefined}>{crumb.name}</span>
+                                                </React.Fragment>
+                                            ))}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                                            {formatDate(item.deletedAt)}
+                                            {item.deletedBy && <div className="text-xs text-gray-500 dark:text-gray-400">by {item.deletedBy}</div>}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                                            {daysLeft(item.purgeAt)} days
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                                            <button
+                                                onClick={() => handleRestore(item)}
+                                                disabled={busyId === item._id || !!deletedParent}
+                                                title={deletedParent ? `Restore "${deletedParent.name}" first` : undefined}
+                                                className="px-3 py-1 mr-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                Restore
+                                            </button>
+                                            <button
+                                                onClick={() => setPendingPurge(item)}
+                                                disabled={busyId === item._id}
+                                                className="px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md disabled:opacity-50"
+                                            >
+                                                Delete Forever
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+
+                {/* Pagination */}
+                {pagination && pagination.pages > 1 && (
+                    <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+                        <div className="text-sm text-gray-700 dark:text-gray-300">
+                            Page {pagination.page} of {pagination.pages} ({pagination.total} total)
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPage(p => Math.max(1, p - 1))}
+                                disabled={page === 1}
+                                className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setPage(p => Math.min(pagination.pages, p + 1))}
+                                disabled={page === pagination.pages}
+                                className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <ConfirmModal
+                isOpen={!!pendingPurge}
+                onClose={() => setPendingPurge(null)}
+                onConfirm={handlePurge}
+                title="Delete Forever"
+                message={`Permanently delete "${pendingPurge?.name}"${pendingPurge?.kind !== 'contents' ? ' and everything inside it' : ''}, including stored files? This cannot be undone.`}
+            />
+        </div>
+    );
+};
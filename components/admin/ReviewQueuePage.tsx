@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import * as api from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useToast } from '../../context/ToastContext';
+import { RESOURCE_TYPES } from '../../constants';
+import { Content, ReviewStatus } from '../../types';
+import { formatScheduleDate } from '../../utils/publishSchedule';
+import { bodyToLines } from '../../utils/textDiff';
+import { ReviewStatusBadge, ReviewThread, reviewStatusLabel } from '../common/ReviewThread';
+
+const STATUS_TABS: ReviewStatus[] = ['submitted', 'changes_requested', 'approved', 'draft'];
+
+const plainTitle = (title: string) => title.replace(/<[^>]*>/g, '').trim() || 'Untitled';
+const typeLabel = (type: string) => RESOURCE_TYPES.find(resource => resource.key === type)?.label || type;
+
+// What the reviewer reads: text bodies line by line, stored files as a link
+const ReviewPreview: React.FC<{ item: Content }> = ({ item }) => {
+    const fileUrl = item.file?.url || item.filePath;
+    const isDataUrl = item.body?.startsWith('data:');
+    const lines = isDataUrl ? [] : bodyToLines(item.body);
+    return (
+        <div className="space-y-3">
+            {fileUrl && (
+                <a href={fileUrl} target="_blank" rel="noopener noreferrer" className="inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                    Open {item.originalFileName || 'attached file'}
+                </a>
+            )}
+            {isDataUrl && <p className="text-sm text-gray-500 dark:text-gray-400">This item is a stored file; open it from the lesson to read it.</p>}
+            {lines.length > 0 ? (
+                <div className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words font-tau-paalai">
+                    {lines.map((line, index) => <p key={index} className="min-h-[1em]">{line}</p>)}
+                </div>
+            ) : !fileUrl && !isDataUrl && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No text in this item.</p>
+            )}
+        </div>
+    );
+};
+
+// Content sent for review by teachers with requiresReview, with approve / request changes and comments
+export const ReviewQueuePage: React.FC = () => {
+    const { showToast } = useToast();
+    const [status, setStatus] = useState<ReviewStatus>('submitted');
+    const [version, setVersion] = useState(0);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [comment, setComment] = useState('');
+    const [quote, setQuote] = useState('');
+    const [busy, setBusy] = useState<string | null>(null);
+
+    const { data: queue, isLoading, error } = useApi<api.ReviewQueue>(() => api.getReviewQueue(status), [status, version]);
+    const { data: item, error: itemError } = useApi(
+        () => api.getReviewItem(selectedId!),
+        [selectedId, version],
+        !!selectedId
+    );
+
+    useEffect(() => {
+        setComment('');
+        setQuote('');
+    }, [selectedId]);
+
+    // Text selected in the preview becomes the passage the next comment is about
+    const captureSelection = () => {
+        const selected = window.getSelection()?.toString().trim();
+        if (selected) setQuote(selected.slice(0, 500));
+    };
+
+    const run = async (key: string, action: () => Promise<unknown>, message?: string) => {
+        setBusy(key);
+        try {
+            await action();
+            if (message) showToast(message, 'success');
+            setComment('');
+            setQuote('');
+            setVersion(v => v + 1);
+        } catch (e: any) {
+            showToast(e.message || 'Failed to update the review', 'error');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const decide = (decision: api.ReviewDecision, publish = false) => run(decision + (publish ? '-publish' : ''), async () => {
+        const result = await api.decideContentReview(selectedId!, { decision, comment: comment.trim() || undefined, publish });
+        const outcome = decision === 'approve' ? (publish ? 'Approved and published' : 'Approved') : 'Changes requested';
+        showToast(result.emailSent ? `${outcome}. The author has been emailed.` : `${outcome}. The author could not be emailed.`, result.emailSent ? 'success' : 'warning');
+    });
+
+    const postComment = () => run('comment', () => api.addReviewComment(selectedId!, { text: comment.trim(), quote: quote || undefined }), 'Comment added');
+
+    const items = queue?.items || [];
+    const isSubmitted = item?.review?.status === 'submitted';
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 h-full flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900">
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Review Queue</h1>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Content from teachers who need review. It is shown to students only once approved and published.
+                </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {STATUS_TABS.map(tab => (
+                    <button
+                        key={tab}
+                        onClick={() => { setStatus(tab); setSelectedId(null); }}
+                        className={`px-3 py-1.5 text-sm rounded-md ${status === tab ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 shadow-sm'}`}
+                    >
+                        {reviewStatusLabel(tab)}{queue ? ` (${queue.counts[tab] || 0})` : ''}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-y-auto">
+                    {error ? (
+                        <div className="p-6 text-sm text-red-500">{error.message}</div>
+                    ) : isLoading && !queue ? (
+                        <div className="p-6 text-sm text-gray-500">Loading...</div>
+                    ) : items.length === 0 ? (
+                        <div className="p-6 text-sm text-gray-500 dark:text-gray-400">Nothing here.</div>
+                    ) : (
+                        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                            {items.map(entry => (
+                                <li key={entry._id}>
+                                    <button
+                                        onClick={() => setSelectedId(entry._id)}
+                                        className={`w-full text-left px-4 py-3 border-l-4 ${entry._id === selectedId ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30' : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                                    >
+                                        <div className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{plainTitle(entry.title)}</div>
+                                        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                            {typeLabel(entry.type)} · {entry.breadcrumb.map(crumb => crumb.name).join(' › ')}
+                                        </div>
+                                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                                            {entry.review?.submittedBy?.name || 'Unknown author'}
+                                            {entry.review?.submittedAt && ` · ${formatScheduleDate(entry.review.submittedAt)}`}
+                                        </div>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow flex flex-col min-h-0">
+                    {!selectedId ? (
+                        <div className="flex-1 flex items-center justify-center p-6 text-sm text-gray-500 dark:text-gray-400">Select an item to review it.</div>
+                    ) : itemError ? (
+                        <div className="p-6 text-sm text-red-500">{itemError.message}</div>
+                    ) : !item ? (
+                        <div className="p-6 text-sm text-gray-500">Loading...</div>
+                    ) : (
+                        <>
+                            <div className="flex items-start justify-between gap-4 px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                                <div className="min-w-0">
+                                    <h2 className="text-lg font-semibold text-gray-800 dark:text-white truncate">{plainTitle(item.title)}</h2>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                        {typeLabel(item.type)} · {item.breadcrumb.map(crumb => crumb.name).join(' › ')}
+                                    </p>
+                                </div>
+                                {item.review && <ReviewStatusBadge status={item.review.status} />}
+                            </div>
+
+                            <div className="flex-1 min-h-0 grid grid-cols-1 xl:grid-cols-5">
+                                <div className="xl:col-span-3 overflow-y-auto p-6 border-b xl:border-b-0 xl:border-r border-gray-200 dark:border-gray-700" onMouseUp={captureSelection}>
+                                    <ReviewPreview item={item} />
+                                </div>
+                                <div className="xl:col-span-2 overflow-y-auto p-6">
+                                    <ReviewThread review={item.review} />
+                                </div>
+                            </div>
+
+                            <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                                {quote ? (
+                                    <div className="flex items-start gap-2 text-xs">
+                                        <blockquote className="flex-1 pl-2 border-l-2 border-amber-400 italic text-gray-600 dark:text-gray-400 line-clamp-2">{quote}</blockquote>
+                                        <button onClick={() => setQuote('')} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">Clear</button>
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Select text in the preview to comment on that passage.</p>
+                                )}
+                                <textarea
+                                    value={comment}
+                                    onChange={e => setComment(e.target.value)}
+                                    rows={3}
+                                    placeholder={isSubmitted ? 'Comment, or note for the author with your decision' : 'Add a comment'}
+                                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                                />
+                                <div className="flex flex-wrap justify-end gap-2">
+                                    <button
+                                        onClick={postComment}
+                                        disabled={!!busy || !comment.trim()}
+                                        className="px-4 py-2 text-sm rounded-md text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                                    >
+                                        {busy === 'comment' ? 'Posting...' : 'Comment'}
+                                    </button>
+                                    {isSubmitted && (
+                                        <>
+                                            <button
+                                                onClick={() => decide('request_changes')}
+                                                disabled={!!busy || !comment.trim()}
+                                                title={comment.trim() ? undefined : 'Say what needs to change first'}
+                                                className="px-4 py-2 text-sm rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                                            >
+                                                {busy === 'request_changes' ? 'Sending...' : 'Request Changes'}
+                                            </button>
+                                            <button
+                                                onClick={() => decide('approve')}
+                                                disabled={!!busy}
+                                                className="px-4 py-2 text-sm rounded-md text-green-700 dark:text-green-300 border border-green-600 hover:bg-green-50 dark:hover:bg-green-900/30 disabled:opacity-50"
+                                            >
+                                                {busy === 'approve' ? 'Approving...' : 'Approve'}
+                                            </button>
+                                            <button
+                                                onClick={() => decide('approve', true)}
+                                                disabled={!!busy}
+                                                className="px-4 py-2 text-sm rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                                            >
+                                                {busy === 'approve-publish' ? 'Publishing...' : 'Approve & Publish'}
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
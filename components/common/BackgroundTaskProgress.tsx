@@ -40,7 +40,7 @@ export const BackgroundTaskProgress: React.FC = () => {
                             <UploadCloudIcon className="w-5 h-5 text-gray-300" />
                         )}
                         <span className="font-semibold text-sm">
-                            {activeTask ? 'Uploading...' : 'Background Tasks'}
+                            {activeTask ? (activeTask.type === 'copy' ? 'Copying...' : 'Uploading...') : 'Background Tasks'}
                         </span>
                         <span className="bg-gray-700 text-xs px-2 py-0.5 rounded-full">
                             {completedCount}/{totalCount}
@@ -68,7 +68,7 @@ export const BackgroundTaskProgress: React.FC = () => {
                                     />
                                 </div>
                                 <div className="text-xs text-gray-500 mt-1 flex justify-between">
-                                    <span>{activeTask.contentType}</span>
+                                    <span>{activeTask.type === 'copy' ? 'Copying content and files' : activeTask.contentType}</span>
                                 </div>
                             </div>
                         )}
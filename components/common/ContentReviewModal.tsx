@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useToast } from '../../context/ToastContext';
+import { Content } from '../../types';
+import { ReviewStatusBadge, ReviewThread } from './ReviewThread';
+
+interface ContentReviewModalProps {
+    contentId: string | null;
+    onClose: () => void;
+    onChanged: (content: Content) => void;
+}
+
+// The author's side of editorial review: the item's status and thread, and sending it for review
+export const ContentReviewModal: React.FC<ContentReviewModalProps> = ({ contentId, onClose, onChanged }) => {
+    const { showToast } = useToast();
+    const [note, setNote] = useState('');
+    const [busy, setBusy] = useState<'submit' | 'comment' | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const { data: item, isLoading, error } = useApi<Content>(
+        () => api.getReviewItem(contentId!),
+        [contentId, reloadKey],
+        !!contentId
+    );
+
+    useEffect(() => { setNote(''); }, [contentId]);
+
+    if (!contentId) return null;
+
+    // Items a teacher who needs review created before the workflow existed have no status yet
+    const status = item ? item.review?.status || (item.isPublished ? null : 'draft') : null;
+    const title = item?.title.replace(/<[^>]*>/g, '');
+    const canSubmit = status === 'draft' || status === 'changes_requested';
+
+    const run = async (action: 'submit' | 'comment') => {
+        setBusy(action);
+        try {
+            const updated = action === 'submit'
+                ? await api.submitContentForReview(contentId, note.trim() || undefined)
+                : await api.addReviewComment(contentId, { text: note.trim() });
+            if (action === 'submit') showToast('Sent for review. You will get an email when it has been reviewed.', 'success');
+            setNote('');
+            setReloadKey(key => key + 1);
+            onChanged(updated);
+        } catch (e: any) {
+            showToast(e.message || 'Failed to update the review', 'error');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4 px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Review</h2>
+                        {title && <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{title}</p>}
+                    </div>
+                    {status && <ReviewStatusBadge status={status} />}
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+                    {isLoading && !item && <p className="text-sm text-gray-500">Loading...</p>}
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>}
+                    {status === 'submitted' && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300">An admin will review this item. It stays unpublished until it is approved.</p>
+                    )}
+                    {status === 'approved' && !item?.isPublished && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300">Approved. You can publish it now.</p>
+                    )}
+                    {item && <ReviewThread review={item.review} />}
+                </div>
+
+                <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                    <textarea
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        rows={3}
+                        placeholder={canSubmit ? 'Note for the reviewer (optional)' : 'Add a comment'}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button onClick={onClose} className="px-4 py-2 text-sm rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                            Close
+                        </button>
+                        <button
+                            onClick={() => run('comment')}
+                            disabled={!!busy || !note.trim()}
+                            className="px-4 py-2 text-sm rounded-md text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                        >
+                            {busy === 'comment' ? 'Posting...' : 'Comment'}
+                        </button>
+                        {canSubmit && (
+                            <button
+                                onClick={() => run('submit')}
+                                disabled={!!busy}
+                                className="px-4 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                {busy === 'submit' ? 'Sending...' : status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,12 +1,47 @@
 import React from 'react';
+import { ClockIcon } from '../icons/AdminIcons';
+import { ScheduledItem, formatScheduleDate, summarizeSchedules } from '../../utils/publishSchedule';
 
 interface ContentStatusBannerProps {
     isPublished?: boolean;
     publishedCount?: number;
     unpublishedCount?: number;
+    // Single item: its scheduled release / withdrawal
+    publishAt?: string | null;
+    unpublishAt?: string | null;
+    // List view: the items behind the counts, to report scheduled ones
+    items?: ScheduledItem[];
 }
 
-export const ContentStatusBanner: React.FC<ContentStatusBannerProps> = ({ isPublished, publishedCount, unpublishedCount }) => {
+const ScheduleNote: React.FC<{ items: ScheduledItem[] }> = ({ items }) => {
+    const { scheduledCount, nextRelease, expiringCount, nextUnpublish } = summarizeSchedules(items);
+    if (!scheduledCount && !expiringCount) return null;
+    return (
+        <div className="bg-sky-50 dark:bg-sky-900/30 border-b border-sky-200 dark:border-sky-700/50 px-4 py-1.5 flex flex-wrap items-center justify-center gap-x-4 shrink-0 w-full -mt-2 mb-2 text-sky-800 dark:text-sky-200 text-xs font-medium">
+            {nextRelease && (
+                <span className="flex items-center gap-1.5">
+                    <ClockIcon className="w-4 h-4" />
+                    {scheduledCount} Scheduled — next release {formatScheduleDate(nextRelease)}
+                </span>
+            )}
+            {nextUnpublish && (
+                <span className="flex items-center gap-1.5">
+                    <ClockIcon className="w-4 h-4" />
+                    {expiringCount} set to unpublish — first on {formatScheduleDate(nextUnpublish)}
+                </span>
+            )}
+        </div>
+    );
+};
+
+export const ContentStatusBanner: React.FC<ContentStatusBannerProps> = (props) => (
+    <>
+        <StatusBanner {...props} />
+        {props.items && <ScheduleNote items={props.items} />}
+    </>
+);
+
+const StatusBanner: React.FC<ContentStatusBannerProps> = ({ isPublished, publishedCount, unpublishedCount, publishAt, unpublishAt }) => {
     // List View Mode
     if (publishedCount !== undefined && unpublishedCount !== undefined) {
         if (unpublishedCount > 0) {
@@ -38,6 +73,19 @@ export const ContentStatusBanner: React.FC<ContentStatusBannerProps> = ({ isPubl
                 <span className="text-green-800 dark:text-green-200 text-xs font-semibold uppercase tracking-wider flex items-center gap-2">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                     Published Content
+                    {unpublishAt && <span className="normal-case font-medium">— until {formatScheduleDate(unpublishAt)}</span>}
+                </span>
+            </div>
+        );
+    }
+
+    if (publishAt) {
+        return (
+            <div className="bg-sky-100 dark:bg-sky-900/40 border-b border-sky-200 dark:border-sky-700/50 px-4 py-1.5 flex items-center justify-center shrink-0 w-full mb-2">
+                <span className="text-sky-800 dark:text-sky-200 text-xs font-semibold uppercase tracking-wider flex items-center gap-2">
+                    <ClockIcon className="w-4 h-4" />
+                    Scheduled – Releases {formatScheduleDate(publishAt)}
+                    {unpublishAt && <span className="normal-case font-medium">(until {formatScheduleDate(unpublishAt)})</span>}
                 </span>
             </div>
         );
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../../services/api';
+import { CognitiveProcess, Lesson } from '../../types';
+import { COGNITIVE_PROCESSES } from '../../constants';
+import { useToast } from '../../context/ToastContext';
+
+interface LessonMetadataModalProps {
+    lesson: Lesson | null;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white";
+const labelClasses = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+const toKeywords = (text: string) => text.split(',').map(word => word.trim()).filter(Boolean);
+
+// Objectives, periods, keywords and competencies shown on the chapter's overview card
+export const LessonMetadataModal: React.FC<LessonMetadataModalProps> = ({ lesson, onClose, onSaved }) => {
+    const { showToast } = useToast();
+    const [objectives, setObjectives] = useState('');
+    const [periods, setPeriods] = useState('');
+    const [keywords, setKeywords] = useState('');
+    const [competencies, setCompetencies] = useState<CognitiveProcess[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!lesson) return;
+        setObjectives((lesson.learningObjectives || []).join('\n'));
+        setPeriods(lesson.periods ? String(lesson.periods) : '');
+        setKeywords((lesson.keywords || []).join(', '));
+        setCompetencies(lesson.competencies || []);
+        setError(null);
+    }, [lesson]);
+
+    if (!lesson) return null;
+
+    const toggleCompetency = (code: CognitiveProcess) =>
+        setCompetencies(current => current.includes(code) ? current.filter(c => c !== code) : [...current, code]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSaving(true);
+        try {
+            await api.updateLessonMetadata(lesson._id, {
+                learningObjectives: toLines(objectives),
+                periods: periods ? Number(periods) : null,
+                keywords: toKeywords(keywords),
+                competencies
+            });
+            showToast(`Details saved for "${lesson.name}"`, 'success');
+            onSaved();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the details');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold mb-1 text-gray-800 dark:text-white">Chapter Details</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 truncate">{lesson.name}</p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className={labelClasses} htmlFor="lesson-objectives">Learning objectives <span className="font-normal text-gray-400">(one per line)</span></label>
+                        <textarea
+                            id="lesson-objectives"
+                            value={objectives}
+                            onChange={e => setObjectives(e.target.value)}
+                            rows={5}
+                            placeholder="Students will be able to..."
+                            className={inputClasses}
+                        />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label className={labelClasses} htmlFor="lesson-periods">Teaching periods</label>
+                            <input id="lesson-periods" type="number" min={1} max={200} value={periods} onChange={e => setPeriods(e.target.value)} className={inputClasses} />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <label className={labelClasses} htmlFor="lesson-keywords">Keywords <span className="font-normal text-gray-400">(comma separated)</span></label>
+                            <input id="lesson-keywords" type="text" value={keywords} onChange={e => setKeywords(e.target.value)} className={inputClasses} />
+                        </div>
+                    </div>
+                    <fieldset>
+                        <legend className={labelClasses}>Competencies</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                            {(Object.keys(COGNITIVE_PROCESSES) as CognitiveProcess[]).map(code => (
+                                <label key={code} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                    <input type="checkbox" checked={competencies.includes(code)} onChange={() => toggleCompetency(code)} />
+                                    <span className="font-mono text-xs text-gray-500">{code}</span> {COGNITIVE_PROCESSES[code].label}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 disabled:opacity-50">
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50">
+                            {isSaving ? 'Saving...' : 'Save Details'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
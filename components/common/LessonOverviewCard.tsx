@@ -0,0 +1,73 @@
+import React from 'react';
+import { LessonMetadata } from '../../types';
+import { COGNITIVE_PROCESSES } from '../../constants';
+
+interface LessonOverviewCardProps {
+    lessonName: string;
+    path: string[];
+    metadata: LessonMetadata;
+}
+
+// What the chapter covers, before a resource type is picked
+export const LessonOverviewCard: React.FC<LessonOverviewCardProps> = ({ lessonName, path, metadata }) => {
+    const objectives = metadata.learningObjectives || [];
+    const keywords = metadata.keywords || [];
+    const competencies = metadata.competencies || [];
+    const isEmpty = objectives.length === 0 && keywords.length === 0 && competencies.length === 0 && !metadata.periods;
+
+    return (
+        <div className="h-full overflow-y-auto p-4 sm:p-8">
+            <div className="max-w-3xl mx-auto bg-white dark:bg-gray-800/50 rounded-lg shadow-sm p-6 space-y-5">
+                <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{path.join(' › ')}</p>
+                    <div className="flex flex-wrap items-baseline justify-between gap-2 mt-1">
+                        <h2 className="text-2xl font-bold text-gray-800 dark:text-white">{lessonName}</h2>
+                        {!!metadata.periods && (
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                                {metadata.periods} {metadata.periods === 1 ? 'period' : 'periods'}
+                            </span>
+                        )}
+                    </div>
+                </div>
+
+                {objectives.length > 0 && (
+                    <section>
+                        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Learning objectives</h3>
+                        <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                            {objectives.map((objective, index) => <li key={index}>{objective}</li>)}
+                        </ul>
+                    </section>
+                )}
+
+                {competencies.length > 0 && (
+                    <section>
+                        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Competencies</h3>
+                        <div className="flex flex-wrap gap-2">
+                            {competencies.map(code => (
+                                <span key={code} className={`px-2 py-0.5 text-xs rounded border ${COGNITIVE_PROCESSES[code].color}`}>
+                                    {code} · {COGNITIVE_PROCESSES[code].label}
+                                </span>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {keywords.length > 0 && (
+                    <section>
+                        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Keywords</h3>
+                        <div className="flex flex-wrap gap-2">
+                            {keywords.map(keyword => (
+                                <span key={keyword} className="px-2 py-0.5 text-xs rounded-full bg-sky-50 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300">{keyword}</span>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {isEmpty ? 'No overview has been added for this chapter yet. ' : ''}
+                    Choose a resource type from the sidebar to view its content.
+                </p>
+            </div>
+        </div>
+    );
+};
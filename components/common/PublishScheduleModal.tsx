@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+import { ScheduledItem, formatScheduleDate, fromDateTimeLocal, toDateTimeLocal } from '../../utils/publishSchedule';
+
+interface PublishScheduleModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    route: api.HierarchyRoute | 'content';
+    item: (ScheduledItem & { _id: string }) | null;
+    itemName: string;
+    onSaved: () => void;
+}
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white";
+
+// Release date and optional auto-unpublish date for a class, ..., lesson or content item
+export const PublishScheduleModal: React.FC<PublishScheduleModalProps> = ({ isOpen, onClose, route, item, itemName, onSaved }) => {
+    const { showToast } = useToast();
+    const [publishAt, setPublishAt] = useState('');
+    const [unpublishAt, setUnpublishAt] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen || !item) return;
+        setPublishAt(toDateTimeLocal(item.publishAt));
+        setUnpublishAt(toDateTimeLocal(item.unpublishAt));
+        setError(null);
+    }, [isOpen, item]);
+
+    if (!isOpen || !item) return null;
+
+    const save = async (schedule: api.PublishSchedule, message: string) => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            await api.setPublishSchedule(route, item._id, schedule);
+            showToast(message, 'success');
+            onSaved();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the schedule');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const release = fromDateTimeLocal(publishAt);
+        const withdraw = fromDateTimeLocal(unpublishAt);
+        if (release && withdraw && new Date(withdraw) <= new Date(release)) {
+            setError('The unpublish date must be after the release date');
+            return;
+        }
+        save(
+            { publishAt: release, unpublishAt: withdraw },
+            release && new Date(release) > new Date() ? `"${itemName}" will be released on ${formatScheduleDate(release)}` : 'Schedule saved'
+        );
+    };
+
+    const hasSchedule = !!(item.publishAt || item.unpublishAt);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center" onClick={onClose}>
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md m-4 space-y-4" onClick={e => e.stopPropagation()}>
+                <div>
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-white">Schedule Publishing</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate" title={itemName}>{itemName}</p>
+                </div>
+
+                <div>
+                    <label htmlFor="schedule-publish-at" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Release on</label>
+                    <input id="schedule-publish-at" type="datetime-local" value={publishAt} onChange={(e) => setPublishAt(e.target.value)} className={inputClasses} />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Stays unpublished until then. Leave empty to keep the current state.</p>
+                </div>
+
+                <div>
+                    <label htmlFor="schedule-unpublish-at" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Unpublish on (optional)</label>
+                    <input id="schedule-unpublish-at" type="datetime-local" value={unpublishAt} onChange={(e) => setUnpublishAt(e.target.value)} className={inputClasses} />
+                </div>
+
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                <div className="flex justify-between items-center pt-2">
+                    {hasSchedule ? (
+                        <button
+                            type="button"
+                            disabled={isSaving}
+                            onClick={() => save({ publishAt: null, unpublishAt: null }, 'Schedule cleared')}
+                            className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md disabled:opacity-50"
+                        >
+                            Clear Schedule
+                        </button>
+                    ) : <span />}
+                    <div className="flex space-x-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500">
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50">
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            </form>
+        </div>
+    );
+};
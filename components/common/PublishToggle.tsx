@@ -1,23 +1,89 @@
-import React from 'react';
-import { CheckCircleIcon } from '../icons/AdminIcons';
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CheckCircleIcon, ClockIcon, CommentIcon } from '../icons/AdminIcons';
+import { formatScheduleDate } from '../../utils/publishSchedule';
+import { requiresReview } from '../../utils/editScopes';
+import { useSession } from '../../context/SessionContext';
+import { ContentReview } from '../../types';
+import { ContentReviewModal } from './ContentReviewModal';
+import { reviewStatusLabel } from './ReviewThread';
 
 export const PublishToggle: React.FC<{
     isPublished: boolean;
     onToggle: () => void;
     className?: string;
-}> = ({ isPublished, onToggle, className }) => (
-    <button
-        onClick={(e) => { e.stopPropagation(); onToggle(); }}
-        className={`p-1 rounded-full backdrop-blur-sm shadow-sm transition-all duration-200 hover:scale-110 active:scale-95 ${isPublished
-                ? 'bg-blue-600/90 hover:bg-blue-700 text-white ring-1 ring-blue-400/50'
-                : 'bg-white/90 hover:bg-gray-100 text-gray-500 dark:bg-gray-700/90 dark:hover:bg-gray-600 dark:text-gray-400 ring-1 ring-gray-300/50 dark:ring-gray-600/50'
-            } ${className || ''}`}
-        title={isPublished ? "Published (Click to Unpublish)" : "Draft (Click to Publish)"}
-    >
-        {isPublished ? (
-            <CheckCircleIcon className="w-3.5 h-3.5" />
-        ) : (
-            <div className="w-3.5 h-3.5 rounded-full border-2 border-current" />
-        )}
-    </button>
-);
+    // Pending scheduled release, shown as a clock on a draft
+    publishAt?: string | null;
+    // Content items only: a teacher who needs review gets the review dialog instead of publishing
+    // until the item is approved
+    contentId?: string;
+    review?: ContentReview | null;
+}> = ({ isPublished, onToggle, className, publishAt, contentId, review }) => {
+    const { session } = useSession();
+    const [reviewOpen, setReviewOpen] = useState(false);
+    // Review state returned by the dialog, shown until the list reloads the item
+    const [updatedReview, setUpdatedReview] = useState<ContentReview | undefined>();
+    useEffect(() => { setUpdatedReview(undefined); }, [review]);
+    const scheduled = !isPublished && !!publishAt;
+    const reviewStatus = (updatedReview || review)?.status;
+
+    if (contentId && requiresReview(session.user) && !isPublished && reviewStatus !== 'approved') {
+        const status = reviewStatus || 'draft';
+        return (
+            <>
+                <button
+                    onClick={(e) => { e.stopPropagation(); setReviewOpen(true); }}
+                    className={`p-1 rounded-full backdrop-blur-sm shadow-sm transition-all duration-200 hover:scale-110 active:scale-95 ${status === 'submitted'
+                            ? 'bg-amber-100/90 hover:bg-amber-200 text-amber-700 dark:bg-amber-900/80 dark:text-amber-300 ring-1 ring-amber-300/50'
+                            : status === 'changes_requested'
+                                ? 'bg-red-100/90 hover:bg-red-200 text-red-700 dark:bg-red-900/80 dark:text-red-300 ring-1 ring-red-300/50'
+                                : 'bg-white/90 hover:bg-gray-100 text-gray-500 dark:bg-gray-700/90 dark:hover:bg-gray-600 dark:text-gray-400 ring-1 ring-gray-300/50 dark:ring-gray-600/50'
+                        } ${className || ''}`}
+                    title={`${reviewStatusLabel(status)} (Click to open the review)`}
+                >
+                    {status === 'draft' ? <div className="w-3.5 h-3.5 rounded-full border-2 border-current" /> : <CommentIcon className="w-3.5 h-3.5" />}
+                </button>
+                {/* Portalled: the toggle sits inside cards that are transformed or open on click */}
+                {reviewOpen && createPortal(
+                    <div onClick={(e) => e.stopPropagation()}>
+                        <ContentReviewModal
+                            contentId={contentId}
+                            onClose={() => setReviewOpen(false)}
+                            onChanged={(content) => setUpdatedReview(content.review)}
+                        />
+                    </div>,
+                    document.body
+                )}
+            </>
+        );
+    }
+
+    const awaitingReview = !isPublished && reviewStatus === 'submitted';
+    return (
+        <button
+            onClick={(e) => { e.stopPropagation(); onToggle(); }}
+            className={`p-1 rounded-full backdrop-blur-sm shadow-sm transition-all duration-200 hover:scale-110 active:scale-95 ${isPublished
+                    ? 'bg-blue-600/90 hover:bg-blue-700 text-white ring-1 ring-blue-400/50'
+                    : awaitingReview
+                        ? 'bg-amber-100/90 hover:bg-amber-200 text-amber-700 dark:bg-amber-900/80 dark:text-amber-300 ring-1 ring-amber-300/50'
+                        : scheduled
+                            ? 'bg-sky-100/90 hover:bg-sky-200 text-sky-700 dark:bg-sky-900/80 dark:hover:bg-sky-800 dark:text-sky-300 ring-1 ring-sky-300/50 dark:ring-sky-600/50'
+                            : 'bg-white/90 hover:bg-gray-100 text-gray-500 dark:bg-gray-700/90 dark:hover:bg-gray-600 dark:text-gray-400 ring-1 ring-gray-300/50 dark:ring-gray-600/50'
+                } ${className || ''}`}
+            title={isPublished
+                ? "Published (Click to Unpublish)"
+                : awaitingReview ? "Waiting for review (Click to approve and publish)"
+                    : scheduled ? `Scheduled for ${formatScheduleDate(publishAt!)} (Click to Publish now)` : "Draft (Click to Publish)"}
+        >
+            {isPublished ? (
+                <CheckCircleIcon className="w-3.5 h-3.5" />
+            ) : awaitingReview ? (
+                <CommentIcon className="w-3.5 h-3.5" />
+            ) : scheduled ? (
+                <ClockIcon className="w-3.5 h-3.5" />
+            ) : (
+                <div className="w-3.5 h-3.5 rounded-full border-2 border-current" />
+            )}
+        </button>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ContentReview, ReviewComment, ReviewStatus } from '../../types';
+import { formatScheduleDate } from '../../utils/publishSchedule';
+
+const STATUS_STYLES: Record<ReviewStatus, { label: string; className: string }> = {
+    draft: { label: 'Draft', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+    submitted: { label: 'Waiting for review', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+    approved: { label: 'Approved', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+    changes_requested: { label: 'Changes requested', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' }
+};
+
+const ACTION_LABELS: Record<NonNullable<ReviewComment['action']>, string> = {
+    submitted: 'submitted for review',
+    approved: 'approved',
+    changes_requested: 'requested changes'
+};
+
+export const reviewStatusLabel = (status: ReviewStatus) => STATUS_STYLES[status].label;
+
+export const ReviewStatusBadge: React.FC<{ status: ReviewStatus; className?: string }> = ({ status, className }) => (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[status].className} ${className || ''}`}>
+        {STATUS_STYLES[status].label}
+    </span>
+);
+
+// Submissions, decisions and comments on one item, oldest first
+export const ReviewThread: React.FC<{ review?: ContentReview | null }> = ({ review }) => {
+    const comments = review?.comments || [];
+    if (comments.length === 0) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400">No comments yet.</p>;
+    }
+    return (
+        <ul className="space-y-3">
+            {comments.map(comment => (
+                <li key={comment._id} className="text-sm">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                        <span className="font-semibold text-gray-700 dark:text-gray-200">{comment.author?.name || 'Someone'}</span>
+                        {comment.action && <span> {ACTION_LABELS[comment.action]}</span>}
+                        <span> · {formatScheduleDate(comment.createdAt)}</span>
+                    </div>
+                    {comment.quote && (
+                        <blockquote className="mt-1 pl-2 border-l-2 border-amber-400 text-xs italic text-gray-600 dark:text-gray-400 line-clamp-3">
+                            {comment.quote}
+                        </blockquote>
+                    )}
+                    {comment.text && <p className="mt-1 text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{comment.text}</p>}
+                </li>
+            ))}
+        </ul>
+    );
+};
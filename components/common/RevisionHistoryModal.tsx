@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as api from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useToast } from '../../context/ToastContext';
+import { formatScheduleDate } from '../../utils/publishSchedule';
+import { bodyToLines, diffLines } from '../../utils/textDiff';
+
+interface RevisionHistoryModalProps {
+    contentId: string | null;
+    title?: string;
+    onClose: () => void;
+    onRestored: () => void;
+}
+
+const LINE_STYLES = {
+    same: 'text-gray-600 dark:text-gray-400',
+    added: 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    removed: 'bg-red-50 text-red-800 line-through decoration-red-300 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const LINE_MARKS = { same: ' ', added: '+', removed: '−' };
+
+const revisionLines = (revision: api.ContentRevision) => [
+    ...(revision.title ? [`# ${revision.title}`] : []),
+    ...bodyToLines(revision.body),
+    ...(revision.metadata ? ['', ...JSON.stringify(revision.metadata, null, 2).split('\n')] : [])
+];
+
+// Saved versions of one content item, each diffed against the version before it
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ contentId, title, onClose, onRestored }) => {
+    const { showToast } = useToast();
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const { data: revisions, isLoading, error } = useApi<api.ContentRevision[]>(
+        () => api.getContentRevisions(contentId!),
+        [contentId, reloadKey],
+        !!contentId
+    );
+
+    useEffect(() => { setSelectedId(null); }, [contentId]);
+
+    const selectedIndex = revisions ? Math.max(0, revisions.findIndex(revision => revision._id === selectedId)) : -1;
+    const selected = revisions?.[selectedIndex];
+    const previous = revisions?.[selectedIndex + 1];
+
+    const diff = useMemo(
+        () => selected ? diffLines(previous ? revisionLines(previous) : [], revisionLines(selected)) : [],
+        [selected, previous]
+    );
+
+    if (!contentId) return null;
+
+    const handleRestore = async (revision: api.ContentRevision) => {
+        setRestoringId(revision._id);
+        try {
+            await api.restoreContentRevision(contentId, revision._id);
+            showToast(`Restored the version from ${formatScheduleDate(revision.createdAt)}`, 'success');
+            setSelectedId(null);
+            setReloadKey(key => key + 1);
+            onRestored();
+        } catch (e: any) {
+            showToast(e.message || 'Failed to restore', 'error');
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex justify-center items-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Revision History</h2>
+                        {title && <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{title}</p>}
+                    </div>
+                    <button onClick={onClose} className="px-3 py-1 text-sm rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                        Close
+                    </button>
+                </div>
+
+                {isLoading && !revisions && <div className="p-6 text-sm text-gray-500">Loading...</div>}
+                {error && <div className="p-6 text-sm text-red-600 dark:text-red-400">{error.message}</div>}
+                {revisions && revisions.length === 0 && (
+                    <div className="p-6 text-sm text-gray-500 dark:text-gray-400">No earlier versions yet. One is kept every time this item is saved.</div>
+                )}
+
+                {revisions && revisions.length > 0 && (
+                    <div className="flex flex-1 min-h-0">
+                        <ul className="w-64 shrink-0 overflow-y-auto border-r border-gray-200 dark:border-gray-700">
+                            {revisions.map((revision, index) => (
+                                <li key={revision._id}>
+                                    <button
+                                        onClick={() => setSelectedId(revision._id)}
+                                        className={`w-full text-left px-4 py-3 border-l-4 ${revision._id === selected?._id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30' : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                                    >
+                                        <div className="text-sm font-medium text-gray-800 dark:text-gray-200">{formatScheduleDate(revision.createdAt)}</div>
+                                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                                            {revision.savedBy?.name || 'Before history was kept'}
+                                        </div>
+                                        <div className="flex gap-1 mt-1">
+                                            {index === 0 && <span className="px-1.5 text-[10px] rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">current</span>}
+                                            {revision.restoredFrom && <span className="px-1.5 text-[10px] rounded-full bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300">restored</span>}
+                                        </div>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="flex-1 flex flex-col min-w-0">
+                            {selected && (
+                                <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+                                    <span className="text-gray-600 dark:text-gray-300">
+                                        {previous ? `Changes from ${formatScheduleDate(previous.createdAt)}` : 'Earliest saved version'}
+                                    </span>
+                                    {selectedIndex > 0 && (
+                                        <button
+                                            onClick={() => handleRestore(selected)}
+                                            disabled={!!restoringId}
+                                            className="px-3 py-1 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                        >
+                                            {restoringId === selected._id ? 'Restoring...' : 'Restore this version'}
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            <pre className="flex-1 overflow-auto p-4 text-xs font-mono whitespace-pre-wrap break-words">
+                                {diff.length === 0 && <span className="text-gray-500">No text in this version.</span>}
+                                {diff.map((line, index) => (
+                                    <div key={index} className={`px-2 ${LINE_STYLES[line.type]}`}>
+                                        <span className="select-none mr-2 text-gray-400">{LINE_MARKS[line.type]}</span>{line.text || ' '}
+                                    </div>
+                                ))}
+                            </pre>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
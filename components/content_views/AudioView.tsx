@@ -15,6 +15,7 @@ import { ContentStatusBanner } from '../common/ContentStatusBanner';
 interface AudioViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // Custom Audio Player with Visualizer
@@ -603,10 +604,10 @@ const AddAudioForm: React.FC<{ lessonId: string; existingTitles: string[]; onAdd
     );
 };
 
-export const AudioView: React.FC<AudioViewProps> = ({ lessonId, user }) => {
+export const AudioView: React.FC<AudioViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const { triggerContentUpdate, updateVersion } = useContentUpdate();
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['audio'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user, updateVersion]);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['audio'], !canEdit), [lessonId, version, user, updateVersion]);
     const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
     const [showAddForm, setShowAddForm] = useState(false);
     const [stats, setStats] = useState<{ count: number } | null>(null);
@@ -625,7 +626,6 @@ export const AudioView: React.FC<AudioViewProps> = ({ lessonId, user }) => {
     }, [lessonId]);
 
     const audioContents = groupedContent?.[0]?.docs || [];
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     const handleDelete = (contentId: string) => {
         const action = async () => {
@@ -667,6 +667,7 @@ export const AudioView: React.FC<AudioViewProps> = ({ lessonId, user }) => {
                 <ContentStatusBanner
                     publishedCount={audioContents.filter(a => a.isPublished).length}
                     unpublishedCount={audioContents.filter(a => !a.isPublished).length}
+                    items={audioContents}
                 />
             )}
 
@@ -17,6 +17,7 @@ import { useContentUpdate } from '../../context/ContentUpdateContext';
 interface BookViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // Utility to convert Base64 to Blob URL for faster PDF rendering (Legacy support)
@@ -104,6 +105,9 @@ const SavedBookViewer: React.FC<{ content: Content; onRemove: () => void; isAdmi
                         <PublishToggle
                             isPublished={!!content.isPublished}
                             onToggle={onTogglePublish}
+                            publishAt={content.publishAt}
+                            contentId={content._id}
+                            review={content.review}
                         />
                     </div>
                 )}
@@ -354,12 +358,12 @@ const UploadForm: React.FC<{ lessonId: string; onUpload: () => void; onExpand: (
     );
 };
 
-export const BookView: React.FC<BookViewProps> = ({ lessonId, user }) => {
+export const BookView: React.FC<BookViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const { triggerContentUpdate, updateVersion } = useContentUpdate(); // Added updateVersion
 
     const { data: groupedContent, isLoading } = useApi(
-        () => api.getContentsByLessonId(lessonId, ['book'], (user.role !== 'admin' && !user.canEdit)),
+        () => api.getContentsByLessonId(lessonId, ['book'], !canEdit),
         [lessonId, version, user, updateVersion]
     );
 
@@ -376,7 +380,6 @@ export const BookView: React.FC<BookViewProps> = ({ lessonId, user }) => {
     }, [lessonId]);
 
     const bookContent = groupedContent?.[0]?.docs[0];
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     const handleDelete = (contentId: string) => {
         const confirmAction = async () => {
@@ -407,7 +410,7 @@ export const BookView: React.FC<BookViewProps> = ({ lessonId, user }) => {
         <div className="h-full overflow-hidden flex flex-col relative">
             {/* Content Status Banner */}
             {bookContent && canEdit && (
-                <ContentStatusBanner isPublished={!!bookContent.isPublished} />
+                <ContentStatusBanner isPublished={!!bookContent.isPublished} publishAt={bookContent.publishAt} unpublishAt={bookContent.unpublishAt} />
             )}
 
             <div className="p-4 sm:p-6 lg:p-8 flex-1 overflow-hidden flex flex-col min-h-0">
@@ -460,7 +463,7 @@ export const BookView: React.FC<BookViewProps> = ({ lessonId, user }) => {
                 onClose={() => setConfirmModalState({ isOpen: false, onConfirm: null })}
                 onConfirm={confirmModalState.onConfirm}
                 title="Remove Book"
-                message="Are you sure you want to remove this book? This action cannot be undone."
+                message="Are you sure you want to remove this book? It will be moved to the Recycle Bin."
             />
             {fullscreenPdfUrl && (
                 <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex flex-col animate-fade-in h-screen w-screen">
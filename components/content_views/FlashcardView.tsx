@@ -3,7 +3,7 @@ import { Content, User, ResourceType } from '../../types';
 import { useApi } from '../../hooks/useApi';
 import * as api from '../../services/api';
 import { FlashcardIcon } from '../icons/ResourceTypeIcons';
-import { PlusIcon, EditIcon, TrashIcon, ImportIcon, ChevronRightIcon, ChevronLeftIcon, EyeIcon, CollectionIcon } from '../icons/AdminIcons';
+import { PlusIcon, EditIcon, TrashIcon, ImportIcon, ChevronRightIcon, ChevronLeftIcon, EyeIcon, CollectionIcon, HistoryIcon } from '../icons/AdminIcons';
 import { PublishToggle } from '../common/PublishToggle';
 import { UnpublishedContentMessage } from '../common/UnpublishedContentMessage';
 import { ConfirmModal } from '../ConfirmModal';
@@ -15,6 +15,7 @@ import { useContentUpdate } from '../../context/ContentUpdateContext';
 import { processContentForHTML } from '../../utils/htmlUtils';
 import { formatCount } from '../../utils/formatUtils';
 import { ContentStatusBanner } from '../common/ContentStatusBanner';
+import { RevisionHistoryModal } from '../common/RevisionHistoryModal';
 import Quill from 'quill';
 import 'quill/dist/quill.snow.css';
 
@@ -251,6 +252,7 @@ const FlashcardEditorModal: React.FC<FlashcardEditorModalProps> = ({ isOpen, onC
 interface FlashcardViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // --- MathJax Block Component ---
@@ -288,7 +290,8 @@ const Flashcard: React.FC<{
     onDelete: () => void;
     isAdmin: boolean;
     onTogglePublish?: () => void;
-}> = ({ card, frontTheme, backTheme, isCurrent, onEdit, onDelete, isAdmin, onTogglePublish }) => {
+    onHistory?: () => void;
+}> = ({ card, frontTheme, backTheme, isCurrent, onEdit, onDelete, isAdmin, onTogglePublish, onHistory }) => {
     const [isFlipped, setIsFlipped] = useState(false);
 
     useEffect(() => {
@@ -317,9 +320,13 @@ const Flashcard: React.FC<{
                                 <PublishToggle
                                     isPublished={!!card.isPublished}
                                     onToggle={onTogglePublish}
+                                    publishAt={card.publishAt}
+                                    contentId={card._id}
+                                    review={card.review}
                                 />
                             )}
                             <button onClick={(e) => { e.stopPropagation(); onEdit(); }} className="p-2 rounded-full bg-white/30 hover:bg-white/50 backdrop-blur-md shadow-sm transition-all" title="Edit Card"><EditIcon className="w-5 h-5 text-current" /></button>
+                            {onHistory && <button onClick={(e) => { e.stopPropagation(); onHistory(); }} className="p-2 rounded-full bg-white/30 hover:bg-white/50 backdrop-blur-md shadow-sm transition-all" title="Revision History"><HistoryIcon className="w-5 h-5 text-current" /></button>}
                             <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="p-2 rounded-full bg-white/30 hover:bg-white/50 backdrop-blur-md shadow-sm transition-all" title="Delete Card"><TrashIcon className="w-5 h-5 text-current" /></button>
                         </div>
                     )}
@@ -341,9 +348,13 @@ const Flashcard: React.FC<{
                                 <PublishToggle
                                     isPublished={!!card.isPublished}
                                     onToggle={onTogglePublish}
+                                    publishAt={card.publishAt}
+                                    contentId={card._id}
+                                    review={card.review}
                                 />
                             )}
                             <button onClick={(e) => { e.stopPropagation(); onEdit(); }} className="p-2 rounded-full bg-black/10 hover:bg-black/20 backdrop-blur-md shadow-sm transition-all text-gray-800 dark:text-gray-200" title="Edit Card"><EditIcon className="w-5 h-5 text-current" /></button>
+                            {onHistory && <button onClick={(e) => { e.stopPropagation(); onHistory(); }} className="p-2 rounded-full bg-black/10 hover:bg-black/20 backdrop-blur-md shadow-sm transition-all text-gray-800 dark:text-gray-200" title="Revision History"><HistoryIcon className="w-5 h-5 text-current" /></button>}
                             <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="p-2 rounded-full bg-black/10 hover:bg-black/20 backdrop-blur-md shadow-sm transition-all text-gray-800 dark:text-gray-200" title="Delete Card"><TrashIcon className="w-5 h-5 text-current" /></button>
                         </div>
                     )}
@@ -366,8 +377,9 @@ const ThankYouScreen: React.FC<{ onRetry: () => void }> = ({ onRetry }) => (
 );
 
 // --- Main View Component ---
-export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user }) => {
+export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
+    const [historyCard, setHistoryCard] = useState<Content | null>(null);
     const { triggerContentUpdate } = useContentUpdate();
 
     // Debug logging to track lessonId changes
@@ -376,7 +388,7 @@ export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user })
     }, [lessonId]);
 
     // Use the same API pattern as QAView - fetch content by type
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['flashcard'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user]);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['flashcard'], !canEdit), [lessonId, version, user]);
 
     // Debug logging to track content changes
     useEffect(() => {
@@ -422,7 +434,6 @@ export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user })
 
     const flashcards = useMemo(() => groupedContent?.[0]?.docs || [], [groupedContent]);
     const resourceType: ResourceType = 'flashcard';
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     // Debug logging for flashcards array
     useEffect(() => {
@@ -610,6 +621,7 @@ export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user })
                     <ContentStatusBanner
                         publishedCount={flashcards.filter(f => f.isPublished).length}
                         unpublishedCount={flashcards.filter(f => !f.isPublished).length}
+                        items={flashcards}
                     />
                 )}
                 <div className="p-4 sm:p-6 lg:p-8 flex-1 overflow-hidden flex flex-col">
@@ -655,6 +667,7 @@ export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user })
                 <ContentStatusBanner
                     publishedCount={flashcards.filter(f => f.isPublished).length}
                     unpublishedCount={flashcards.filter(f => !f.isPublished).length}
+                    items={flashcards}
                 />
             )}
             <div className="p-4 sm:p-6 lg:p-8 flex-1 overflow-hidden flex flex-col">
@@ -695,6 +708,7 @@ export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user })
                                 onDelete={() => handleDelete(currentCard._id)}
                                 isAdmin={canEdit}
                                 onTogglePublish={handleTogglePublish}
+                                onHistory={() => setHistoryCard(currentCard)}
                             />
                         </div>
                     </div>
@@ -727,6 +741,7 @@ export const FlashcardView: React.FC<FlashcardViewProps> = ({ lessonId, user })
 
             <FlashcardEditorModal isOpen={editorModalState.isOpen} onClose={() => setEditorModalState({ isOpen: false, content: null })} onSave={handleSave} cardToEdit={editorModalState.content} />
             <ConfirmModal isOpen={confirmModalState.isOpen} onClose={() => setConfirmModalState({ isOpen: false, onConfirm: null })} onConfirm={confirmModalState.onConfirm} title="Delete Flashcard" message="Are you sure you want to delete this flashcard?" />
+            <RevisionHistoryModal contentId={historyCard?._id || null} title="Flashcard" onClose={() => setHistoryCard(null)} onRestored={() => setVersion(v => v + 1)} />
             <ImportFlashcardsModal isOpen={importModalOpen} onClose={() => setImportModalOpen(false)} onImport={handleImport} />
             <ManageFlashcardsModal isOpen={manageModalOpen} onClose={() => setManageModalOpen(false)} currentFlashcards={flashcards} onDelete={handleBulkDelete} />
         </div>
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Content, User, ResourceType } from '../../types';
 import { useApi } from '../../hooks/useApi';
 import * as api from '../../services/api';
-import { PlusIcon, EditIcon, TrashIcon, ChevronRightIcon, UploadCloudIcon, ExpandIcon, XIcon, EyeIcon, DownloadIcon } from '../icons/AdminIcons';
+import { PlusIcon, EditIcon, TrashIcon, ChevronRightIcon, UploadCloudIcon, ExpandIcon, XIcon, EyeIcon, DownloadIcon, ClockIcon, HistoryIcon } from '../icons/AdminIcons';
 import { PublishToggle } from '../common/PublishToggle';
 import { UnpublishedContentMessage } from '../common/UnpublishedContentMessage';
 import { ConfirmModal } from '../ConfirmModal';
@@ -16,6 +16,8 @@ import path from 'path';
 import { processContentForHTML } from '../../utils/htmlUtils';
 import { formatCount } from '../../utils/formatUtils';
 import { ContentStatusBanner } from '../common/ContentStatusBanner';
+import { PublishScheduleModal } from '../common/PublishScheduleModal';
+import { RevisionHistoryModal } from '../common/RevisionHistoryModal';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
 
@@ -31,6 +33,7 @@ const isHeading = (el: HTMLElement): boolean => {
 interface GenericContentViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
     resourceType: ResourceType;
 }
 
@@ -166,7 +169,7 @@ const GenericEditorModal: React.FC<GenericEditorModalProps> = ({ isOpen, onClose
 
 
 
-const ContentCard: React.FC<{ item: Content; onEdit: (c: Content) => void; onDelete: (id: string) => void; isAdmin: boolean; onExpandPdf?: (url: string) => void; onDownload?: (id: string) => void; onTogglePublish?: (item: Content) => void }> = ({ item, onEdit, onDelete, isAdmin, onExpandPdf, onDownload, onTogglePublish }) => {
+const ContentCard: React.FC<{ item: Content; onEdit: (c: Content) => void; onDelete: (id: string) => void; isAdmin: boolean; onExpandPdf?: (url: string) => void; onDownload?: (id: string) => void; onTogglePublish?: (item: Content) => void; onSchedule?: (item: Content) => void; onHistory?: (item: Content) => void }> = ({ item, onEdit, onDelete, isAdmin, onExpandPdf, onDownload, onTogglePublish, onSchedule, onHistory }) => {
     const [isOpen, setIsOpen] = useState(false);
     // Check if this is a PDF-based content (either has fileId or is worksheet with file metadata)
     const isPdf = item.type === 'worksheet' && (item.metadata as any)?.fileId;
@@ -294,6 +297,9 @@ const ContentCard: React.FC<{ item: Content; onEdit: (c: Content) => void; onDel
                                     <PublishToggle
                                         isPublished={!!item.isPublished}
                                         onToggle={() => onTogglePublish(item)}
+                                        publishAt={item.publishAt}
+                                        contentId={item._id}
+                                        review={item.review}
                                     />
                                 </div>
                             </div>
@@ -303,6 +309,16 @@ const ContentCard: React.FC<{ item: Content; onEdit: (c: Content) => void; onDel
                                 <button onClick={() => onEdit(item)} className="p-2 rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/30 text-gray-400 hover:text-blue-600 transition-colors" title="Edit">
                                     <EditIcon className="w-4 h-4" />
                                 </button>
+                                {onSchedule && (
+                                    <button onClick={() => onSchedule(item)} className="p-2 rounded-full hover:bg-sky-50 dark:hover:bg-sky-900/30 text-gray-400 hover:text-sky-600 transition-colors" title="Schedule publishing">
+                                        <ClockIcon className="w-4 h-4" />
+                                    </button>
+                                )}
+                                {onHistory && (
+                                    <button onClick={() => onHistory(item)} className="p-2 rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/30 text-gray-400 hover:text-blue-600 transition-colors" title="Revision History">
+                                        <HistoryIcon className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button onClick={() => onDelete(item._id)} className="p-2 rounded-full hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 transition-colors" title="Delete">
                                     <TrashIcon className="w-4 h-4" />
                                 </button>
@@ -624,16 +640,18 @@ const ExportEmailModal: React.FC<{
 import { useContentUpdate } from '../../context/ContentUpdateContext';
 // ... previous imports
 
-export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId, user, resourceType }) => {
+export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId, user, canEdit, resourceType }) => {
     const [version, setVersion] = useState(0);
+    const [historyItem, setHistoryItem] = useState<Content | null>(null);
     const { triggerContentUpdate } = useContentUpdate();
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, [resourceType], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, resourceType, user]);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, [resourceType], !canEdit), [lessonId, version, resourceType, user]);
 
     // ... (rest of state items)
     const [modalState, setModalState] = useState<{ isOpen: boolean; content: Content | null }>({ isOpen: false, content: null });
     const [confirmModalState, setConfirmModalState] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
     const [isAddingPdf, setIsAddingPdf] = useState(false);
     const [fullscreenPdfUrl, setFullscreenPdfUrl] = useState<string | null>(null);
+    const [schedulingItem, setSchedulingItem] = useState<Content | null>(null);
     const [stats, setStats] = useState<{ count: number; downloads: number } | null>(null);
     const { showToast } = useToast();
 
@@ -658,7 +676,6 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
 
     const contentItems = groupedContent?.[0]?.docs || [];
     const resourceInfo = RESOURCE_TYPES.find(r => r.key === resourceType) || { key: resourceType, label: resourceType, Icon: () => null, description: 'Resource', color: 'text-gray-500', gradient: 'from-gray-500 to-gray-600' };
-    const canEdit = user.role === 'admin' || !!user.canEdit;
     const isWorksheet = resourceType === 'worksheet';
 
     const handleSave = async (contentData: { title: string; body: string; metadata?: any; isPublished?: boolean }) => {
@@ -735,7 +752,7 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
     // Export PDF Logic
     const handleExportConfirm = async (email: string) => {
         setIsExporting(true);
-        const isAdmin = user.role === 'admin' || user.canEdit;
+        const isAdmin = canEdit;
 
         setSweetAlert({
             show: true,
@@ -834,7 +851,7 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
                 formData.append('type', resourceType);
                 formData.append('userName', user.name || 'User');
 
-                const res = await fetch('/api/export/send-pdf', {
+                const res = await api.authFetch('/api/export/send-pdf', {
                     method: 'POST',
                     body: formData,
                 });
@@ -864,8 +881,8 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
             setSweetAlert({
                 show: true,
                 type: 'error',
-                title: user.role === 'admin' || user.canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
-                message: (user.role === 'admin' || user.canEdit)
+                title: canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
+                message: canEdit
                     ? `Export தோல்வியடைந்தது: ${error.message}\n\nதொடர்புக்கு: ${adminPhone}`
                     : `PDF மின்னஞ்சலுக்கு அனுப்ப முடியவில்லை.\n(${error.message})\n\nதயவு செய்து நிர்வாகியை தொடர்பு கொள்ளவும்:\n📞 ${adminPhone}`,
                 phone: adminPhone
@@ -898,7 +915,7 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
             message: 'தயவுசெய்து காத்திருக்கவும்...\n\nPlease wait...'
         });
 
-        const isAdminUser = user.role === 'admin' || !!user.canEdit;
+        const isAdminUser = canEdit;
 
         try {
             const res = await api.downloadContent(contentId, user._id, user.email);
@@ -968,6 +985,7 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
                 <ContentStatusBanner
                     publishedCount={contentItems.filter(i => i.isPublished).length}
                     unpublishedCount={contentItems.filter(i => !i.isPublished).length}
+                    items={contentItems}
                 />
             )}
 
@@ -1047,6 +1065,8 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
                                         onExpandPdf={setFullscreenPdfUrl}
                                         onDownload={handleDownload}
                                         onTogglePublish={handleTogglePublish}
+                                        onSchedule={setSchedulingItem}
+                                        onHistory={setHistoryItem}
                                     />
                                 );
                             })}
@@ -1062,6 +1082,26 @@ export const GenericContentView: React.FC<GenericContentViewProps> = ({ lessonId
                 </div>
 
                 <GenericEditorModal isOpen={modalState.isOpen} onClose={() => setModalState({ isOpen: false, content: null })} onSave={handleSave} contentToEdit={modalState.content} resourceLabel={resourceInfo.label} resourceType={resourceType} />
+                <PublishScheduleModal
+                    isOpen={!!schedulingItem}
+                    onClose={() => setSchedulingItem(null)}
+                    route="content"
+                    item={schedulingItem}
+                    itemName={schedulingItem?.title.replace(/<[^>]*>/g, '') || ''}
+                    onSaved={() => {
+                        setVersion(v => v + 1);
+                        triggerContentUpdate();
+                    }}
+                />
+                <RevisionHistoryModal
+                    contentId={historyItem?._id || null}
+                    title={historyItem?.title.replace(/<[^>]*>/g, '')}
+                    onClose={() => setHistoryItem(null)}
+                    onRestored={() => {
+                        setVersion(v => v + 1);
+                        triggerContentUpdate();
+                    }}
+                />
                 <ConfirmModal isOpen={confirmModalState.isOpen} onClose={() => setConfirmModalState({ isOpen: false, onConfirm: null })} onConfirm={confirmModalState.onConfirm} title={`Delete ${resourceInfo.label}`} message={`Are you sure you want to delete this ${resourceInfo.label.toLowerCase()}?`} />
 
                 {fullscreenPdfUrl && (
@@ -5,10 +5,11 @@ import { Content, User, ResourceType } from '../../types';
 import { useApi } from '../../hooks/useApi';
 import * as api from '../../services/api';
 import { NotesIcon } from '../icons/ResourceTypeIcons';
-import { PlusIcon, EditIcon, TrashIcon, DownloadIcon, XIcon, EyeIcon } from '../icons/AdminIcons';
+import { PlusIcon, EditIcon, TrashIcon, DownloadIcon, XIcon, EyeIcon, HistoryIcon } from '../icons/AdminIcons';
 import { PublishToggle } from '../common/PublishToggle';
 import { UnpublishedContentMessage } from '../common/UnpublishedContentMessage';
 import { ContentStatusBanner } from '../common/ContentStatusBanner';
+import { RevisionHistoryModal } from '../common/RevisionHistoryModal';
 import { ConfirmModal } from '../ConfirmModal';
 import { NoteEditor } from './NoteEditor';
 import { useToast } from '../../context/ToastContext';
@@ -26,6 +27,7 @@ declare global {
 interface NotesViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 const ExportEmailModal: React.FC<{
@@ -95,7 +97,8 @@ const NoteCard: React.FC<{
     onDelete: (id: string) => void;
     isAdmin: boolean;
     onTogglePublish?: (item: Content) => void;
-}> = ({ item, onEdit, onDelete, isAdmin, onTogglePublish }) => {
+    onHistory?: (item: Content) => void;
+}> = ({ item, onEdit, onDelete, isAdmin, onTogglePublish, onHistory }) => {
     const { session } = useSession();
     const fontStyle = { fontSize: `${session.fontSize}px` };
 
@@ -115,12 +118,20 @@ const NoteCard: React.FC<{
                             <PublishToggle
                                 isPublished={!!item.isPublished}
                                 onToggle={() => onTogglePublish(item)}
+                                publishAt={item.publishAt}
+                                contentId={item._id}
+                                review={item.review}
                             />
                         </div>
                     )}
                     <button onClick={() => onEdit(item)} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm shadow-sm" title="Edit Note">
                         <EditIcon className="w-4 h-4 text-gray-600 dark:text-gray-300" />
                     </button>
+                    {onHistory && (
+                        <button onClick={() => onHistory(item)} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm shadow-sm" title="Revision History">
+                            <HistoryIcon className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                        </button>
+                    )}
                     <button onClick={() => onDelete(item._id)} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm shadow-sm" title="Delete Note">
                         <TrashIcon className="w-4 h-4 text-gray-600 dark:text-gray-300" />
                     </button>
@@ -152,10 +163,11 @@ const removeUnformattedDuplicates = (html: string): string => {
 import { useContentUpdate } from '../../context/ContentUpdateContext';
 // ... previous imports
 
-export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
+export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
+    const [historyNote, setHistoryNote] = useState<Content | null>(null);
     const { triggerContentUpdate } = useContentUpdate();
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['notes'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user]);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['notes'], !canEdit), [lessonId, version, user]);
     const [editingNote, setEditingNote] = useState<Content | boolean | null>(null);
     const [confirmModalState, setConfirmModalState] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
     const [exportModalOpen, setExportModalOpen] = useState(false);
@@ -178,7 +190,6 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
     const exportContainerRef = useRef<HTMLDivElement>(null);
     const notes = groupedContent?.[0]?.docs || [];
     const resourceType: ResourceType = 'notes';
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     useEffect(() => {
         if (window.MathJax && !isLoading && notes.length > 0 && editingNote === null) {
@@ -254,7 +265,7 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
     // PDF Export Logic
     const handleExportConfirm = async (email: string) => {
         setIsExporting(true);
-        const isAdmin = user.role === 'admin' || user.canEdit;
+        const isAdmin = canEdit;
 
         setSweetAlert({
             show: true,
@@ -349,7 +360,7 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
                 formData.append('type', 'notes');
                 formData.append('userName', user.name || 'User');
 
-                const res = await fetch('/api/export/send-pdf', {
+                const res = await api.authFetch('/api/export/send-pdf', {
                     method: 'POST',
                     body: formData,
                 });
@@ -376,8 +387,8 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
             setSweetAlert({
                 show: true,
                 type: 'error',
-                title: user.role === 'admin' || user.canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
-                message: (user.role === 'admin' || user.canEdit)
+                title: canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
+                message: canEdit
                     ? `Export தோல்வியடைந்தது: ${error.message}\n\nதொடர்புக்கு: ${adminPhone}`
                     : `PDF மின்னஞ்சலுக்கு அனுப்ப முடியவில்லை.\n(${error.message})\n\nதயவு செய்து நிர்வாகியை தொடர்பு கொள்ளவும்:\n📞 ${adminPhone}`,
                 phone: adminPhone
@@ -409,6 +420,7 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
                 <ContentStatusBanner
                     publishedCount={notes.filter(n => n.isPublished).length}
                     unpublishedCount={notes.filter(n => !n.isPublished).length}
+                    items={notes}
                 />
             )}
 
@@ -465,7 +477,7 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
 
                         {!isLoading && notes.length > 0 && (
                             <div className="space-y-[30px] px-2">
-                                {notes.map(note => <NoteCard key={note._id} item={note} onEdit={setEditingNote} onDelete={handleDelete} isAdmin={canEdit} onTogglePublish={handleTogglePublish} />)}
+                                {notes.map(note => <NoteCard key={note._id} item={note} onEdit={setEditingNote} onDelete={handleDelete} isAdmin={canEdit} onTogglePublish={handleTogglePublish} onHistory={setHistoryNote} />)}
                             </div>
                         )}
 
@@ -480,6 +492,13 @@ export const NotesView: React.FC<NotesViewProps> = ({ lessonId, user }) => {
 
                 <ConfirmModal isOpen={confirmModalState.isOpen} onClose={() => setConfirmModalState({ isOpen: false, onConfirm: null })} onConfirm={confirmModalState.onConfirm} title="Delete Note" message="Are you sure you want to delete this note?" />
 
+                <RevisionHistoryModal
+                    contentId={historyNote?._id || null}
+                    title="Note"
+                    onClose={() => setHistoryNote(null)}
+                    onRestored={() => setVersion(v => v + 1)}
+                />
+
                 <ExportEmailModal
                     isOpen={exportModalOpen}
                     onClose={() => setExportModalOpen(false)}
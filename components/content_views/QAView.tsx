@@ -4,7 +4,8 @@ import { RichTextEditor } from '../common/RichTextEditor';
 import { useApi } from '../../hooks/useApi';
 import * as api from '../../services/api';
 import { QAIcon } from '../icons/ResourceTypeIcons';
-import { PlusIcon, EditIcon, TrashIcon, ChevronRightIcon, DownloadIcon, XIcon, EyeIcon, UploadCloudIcon, CollectionIcon } from '../icons/AdminIcons';
+import { COGNITIVE_PROCESSES } from '../../constants';
+import { PlusIcon, EditIcon, TrashIcon, ChevronRightIcon, DownloadIcon, XIcon, EyeIcon, UploadCloudIcon, CollectionIcon, HistoryIcon } from '../icons/AdminIcons';
 import { PublishToggle } from '../common/PublishToggle';
 import { UnpublishedContentMessage } from '../common/UnpublishedContentMessage';
 import { ConfirmModal } from '../ConfirmModal';
@@ -22,6 +23,7 @@ import {
 } from '../../utils/htmlUtils';
 import { formatCount } from '../../utils/formatUtils';
 import { ContentStatusBanner } from '../common/ContentStatusBanner';
+import { RevisionHistoryModal } from '../common/RevisionHistoryModal';
 
 declare const Quill: any;
 
@@ -34,19 +36,10 @@ declare global {
 interface QAViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // --- Constants & Helpers ---
-const COGNITIVE_PROCESSES: { [key in CognitiveProcess]: { label: string, color: string } } = {
-    'CP1': { label: 'Conceptual Clarity', color: 'bg-blue-100 text-blue-800 border-blue-200' },
-    'CP2': { label: 'Application Skill', color: 'bg-green-100 text-green-800 border-green-200' },
-    'CP3': { label: 'Computational Thinking', color: 'bg-purple-100 text-purple-800 border-purple-200' },
-    'CP4': { label: 'Analytical Thinking', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
-    'CP5': { label: 'Critical Thinking', color: 'bg-red-100 text-red-800 border-red-200' },
-    'CP6': { label: 'Creative Thinking', color: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
-    'CP7': { label: 'Values/Attitudes', color: 'bg-pink-100 text-pink-800 border-pink-200' },
-};
-
 const getMarksColor = (marks: number): string => {
     switch (marks) {
         case 2: return 'bg-teal-100 text-teal-800 border-teal-200';
@@ -588,7 +581,8 @@ const QACard: React.FC<{
     onDelete: (id: string) => void;
     isAdmin: boolean;
     onTogglePublish?: (item: Content) => void;
-}> = ({ item, isOpen, onToggle, onEdit, onDelete, isAdmin, onTogglePublish }) => {
+    onHistory?: (item: Content) => void;
+}> = ({ item, isOpen, onToggle, onEdit, onDelete, isAdmin, onTogglePublish, onHistory }) => {
 
     const { session } = useSession();
     const meta = item.metadata as QAMetadata | undefined;
@@ -641,11 +635,19 @@ const QACard: React.FC<{
                                     <PublishToggle
                                         isPublished={!!item.isPublished}
                                         onToggle={() => onTogglePublish(item)}
+                                        publishAt={item.publishAt}
+                                        contentId={item._id}
+                                        review={item.review}
                                     />
                                 )}
                                 <button onClick={(e) => { e.stopPropagation(); onEdit(item); }} className="p-2 rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/30 text-gray-400 hover:text-blue-600 transition-colors shadow-sm border border-transparent hover:border-blue-100 dark:hover:border-blue-800" title="Edit Q&A">
                                     <EditIcon className="w-4 h-4" />
                                 </button>
+                                {onHistory && (
+                                    <button onClick={(e) => { e.stopPropagation(); onHistory(item); }} className="p-2 rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/30 text-gray-400 hover:text-blue-600 transition-colors shadow-sm border border-transparent hover:border-blue-100 dark:hover:border-blue-800" title="Revision History">
+                                        <HistoryIcon className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button onClick={(e) => { e.stopPropagation(); onDelete(item._id); }} className="p-2 rounded-full hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-600 transition-colors shadow-sm border border-transparent hover:border-red-100 dark:hover:border-red-800" title="Delete Q&A">
                                     <TrashIcon className="w-4 h-4" />
                                 </button>
@@ -678,9 +680,10 @@ const QACard: React.FC<{
     );
 };
 
-export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
+export const QAView: React.FC<QAViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['qa'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user]);
+    const [historyItem, setHistoryItem] = useState<Content | null>(null);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['qa'], !canEdit), [lessonId, version, user]);
     const [modalState, setModalState] = useState<{ isOpen: boolean; content: Content | null }>({ isOpen: false, content: null });
     const [confirmModalState, setConfirmModalState] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
     const [openCardId, setOpenCardId] = useState<string | null>(null);
@@ -722,7 +725,6 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
 
     const qaItems = groupedContent?.[0]?.docs || [];
     const resourceType: ResourceType = 'qa';
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     // Scroll persistence
     const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -822,7 +824,7 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
     // Export PDF Logic
     const handleExportConfirm = async (email: string) => {
         setIsExporting(true);
-        const isAdmin = user.role === 'admin' || user.canEdit;
+        const isAdmin = canEdit;
 
         setSweetAlert({
             show: true,
@@ -919,7 +921,7 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
                 formData.append('type', 'qa');
                 formData.append('userName', user.name || 'User');
 
-                const res = await fetch('/api/export/send-pdf', {
+                const res = await api.authFetch('/api/export/send-pdf', {
                     method: 'POST',
                     body: formData,
                 });
@@ -943,8 +945,8 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
             setSweetAlert({
                 show: true,
                 type: 'error',
-                title: user.role === 'admin' || user.canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
-                message: (user.role === 'admin' || user.canEdit)
+                title: canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
+                message: canEdit
                     ? `Export தோல்வியடைந்தது: ${error.message}\n\nதொடர்புக்கு: ${adminPhone}`
                     : `PDF மின்னஞ்சலுக்கு அனுப்ப முடியவில்லை.\n(${error.message})\n\nதயவு செய்து நிர்வாகியை தொடர்பு கொள்ளவும்:\n📞 ${adminPhone}`,
                 phone: adminPhone
@@ -973,6 +975,7 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
                 <ContentStatusBanner
                     publishedCount={qaItems.filter(i => i.isPublished).length}
                     unpublishedCount={qaItems.filter(i => !i.isPublished).length}
+                    items={qaItems}
                 />
             )}
 
@@ -1054,6 +1057,7 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
                                     onDelete={handleDelete}
                                     isAdmin={canEdit}
                                     onTogglePublish={handleTogglePublish}
+                                    onHistory={setHistoryItem}
                                 />
                             ))}
                         </div>
@@ -1091,6 +1095,13 @@ export const QAView: React.FC<QAViewProps> = ({ lessonId, user }) => {
                 message="Are you sure you want to delete this Q&A item?"
             />
 
+            <RevisionHistoryModal
+                contentId={historyItem?._id || null}
+                title="Q&A"
+                onClose={() => setHistoryItem(null)}
+                onRestored={() => setVersion(v => v + 1)}
+            />
+
             {/* SweetAlert Modal */}
             {sweetAlert.show && (
                 <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
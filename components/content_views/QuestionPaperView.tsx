@@ -5,17 +5,20 @@ import { Content, User } from '../../types';
 import { useApi } from '../../hooks/useApi';
 import * as api from '../../services/api';
 import { QuestionPaperIcon } from '../icons/ResourceTypeIcons';
-import { TrashIcon, UploadCloudIcon, PlusIcon, DownloadIcon, EyeIcon, XIcon, LinkIcon, CheckCircleIcon } from '../icons/AdminIcons';
+import { TrashIcon, UploadCloudIcon, PlusIcon, DownloadIcon, EyeIcon, XIcon, LinkIcon, CheckCircleIcon, ClockIcon } from '../icons/AdminIcons';
 import { ConfirmModal } from '../ConfirmModal';
 import { PdfViewer } from './PdfViewer';
 import { useToast } from '../../context/ToastContext';
 import '../../worksheet-styles.css';
 import { formatCount } from '../../utils/formatUtils';
 import { ContentStatusBanner } from '../common/ContentStatusBanner';
+import { PublishScheduleModal } from '../common/PublishScheduleModal';
+import { formatScheduleDate } from '../../utils/publishSchedule';
 
 interface QuestionPaperViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // Beautiful Simple Card Component
@@ -28,7 +31,8 @@ const BeautifulQuestionCard: React.FC<{
     index: number;
     downloading: boolean;
     onTogglePublish?: (item: Content) => void;
-}> = ({ content, onRemove, isAdmin, onExpand, onDownloadClick, index, downloading, onTogglePublish }) => {
+    onSchedule?: (item: Content) => void;
+}> = ({ content, onRemove, isAdmin, onExpand, onDownloadClick, index, downloading, onTogglePublish, onSchedule }) => {
     const displayUrl = content.file?.url || content.filePath || content.body;
     const viewCount = content.viewCount || 0;
     const downloadCount = content.downloadCount || 0;
@@ -72,9 +76,18 @@ const BeautifulQuestionCard: React.FC<{
                             <button
                                 onClick={(e) => { e.stopPropagation(); onTogglePublish(content); }}
                                 className={`p-1.5 rounded-full backdrop-blur-sm shadow-md transition-colors ${content.isPublished ? 'bg-blue-600/90 hover:bg-blue-700 text-white' : 'bg-white/90 hover:bg-gray-100 text-gray-500'}`}
-                                title={content.isPublished ? "Published" : "Draft"}
+                                title={content.isPublished ? "Published" : content.publishAt ? `Scheduled for ${formatScheduleDate(content.publishAt)}` : "Draft"}
                             >
-                                {content.isPublished ? <CheckCircleIcon className="w-4 h-4" /> : <div className="w-4 h-4 rounded-full border-2 border-gray-400" />}
+                                {content.isPublished ? <CheckCircleIcon className="w-4 h-4" /> : content.publishAt ? <ClockIcon className="w-4 h-4 text-sky-600" /> : <div className="w-4 h-4 rounded-full border-2 border-gray-400" />}
+                            </button>
+                        )}
+                        {onSchedule && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onSchedule(content); }}
+                                className="p-1.5 rounded-full bg-black/20 hover:bg-sky-500 text-white backdrop-blur-sm"
+                                title="Schedule publishing"
+                            >
+                                <ClockIcon className="w-4 h-4" />
                             </button>
                         )}
                         <button
@@ -98,6 +111,12 @@ const BeautifulQuestionCard: React.FC<{
                     {content.title}
                 </h3>
 
+                {isAdmin && (content.publishAt || content.unpublishAt) && (
+                    <p className="-mt-1 mb-2 text-xs text-center text-sky-700 dark:text-sky-300">
+                        {!content.isPublished && content.publishAt ? `Releases ${formatScheduleDate(content.publishAt)}` : `Unpublishes ${formatScheduleDate(content.unpublishAt!)}`}
+                    </p>
+                )}
+
                 <div className="mt-auto pt-4 flex items-center justify-between border-t border-gray-100 dark:border-gray-700">
                     <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400 font-medium">
                         {/* View count removed */}
@@ -267,18 +286,18 @@ const UploadForm: React.FC<{ lessonId: string; onUpload: () => void; onCancel: (
     );
 };
 
-export const QuestionPaperView: React.FC<QuestionPaperViewProps> = ({ lessonId, user }) => {
+export const QuestionPaperView: React.FC<QuestionPaperViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const [showUploadForm, setShowUploadForm] = useState(false);
     const { triggerContentUpdate, updateVersion } = useContentUpdate();
     // Fetch 'questionPaper' type content
-    const { data: grouped, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['questionPaper'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user, updateVersion]);
+    const { data: grouped, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['questionPaper'], !canEdit), [lessonId, version, user, updateVersion]);
     const papers = grouped?.[0]?.docs || [];
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     // Modal & PDF States
     const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
     const [fullscreenUrl, setFullscreenUrl] = useState<string | null>(null);
+    const [schedulingPaper, setSchedulingPaper] = useState<Content | null>(null);
     const { showToast } = useToast();
     const [stats, setStats] = useState<{ count: number } | null>(null);
     const [downloading, setDownloading] = useState(false);
@@ -426,6 +445,7 @@ export const QuestionPaperView: React.FC<QuestionPaperViewProps> = ({ lessonId,
                 <ContentStatusBanner
                     publishedCount={papers.filter(p => p.isPublished).length}
                     unpublishedCount={papers.filter(p => !p.isPublished).length}
+                    items={papers}
                 />
             )}
 
@@ -476,6 +496,7 @@ export const QuestionPaperView: React.FC<QuestionPaperViewProps> = ({ lessonId,
                                     onDownloadClick={() => handleDownloadRequest(item._id, item.title)}
                                     downloading={downloading}
                                     onTogglePublish={handleTogglePublish}
+                                    onSchedule={canEdit ? setSchedulingPaper : undefined}
                                 />
                             ))}
                         </div>
@@ -483,6 +504,18 @@ export const QuestionPaperView: React.FC<QuestionPaperViewProps> = ({ lessonId,
                 </div>
             </div>
 
+            <PublishScheduleModal
+                isOpen={!!schedulingPaper}
+                onClose={() => setSchedulingPaper(null)}
+                route="content"
+                item={schedulingPaper}
+                itemName={schedulingPaper?.title || ''}
+                onSaved={() => {
+                    setVersion(v => v + 1);
+                    triggerContentUpdate();
+                }}
+            />
+
             <ConfirmModal
                 isOpen={confirmModal.isOpen}
                 onClose={() => setConfirmModal({ ...confirmModal, isOpen: false })}
@@ -15,6 +15,7 @@ import { formatCount } from '../../utils/formatUtils';
 interface QuizViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // --- Components for the Result Screen ---
@@ -236,13 +237,12 @@ const QuestionCard: React.FC<QuestionCardProps> = ({ question, index, totalQuest
 // --- Main View ---
 import { useContentUpdate } from '../../context/ContentUpdateContext';
 
-export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user }) => {
+export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const { triggerContentUpdate } = useContentUpdate();
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['quiz'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user]);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['quiz'], !canEdit), [lessonId, version, user]);
     const { showToast } = useToast();
 
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     const [quizzes, setQuizzes] = useState<Content[]>([]);
     const [selectedQuiz, setSelectedQuiz] = useState<Content | null>(null);
@@ -362,7 +362,7 @@ export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user }) => {
     // Export PDF Logic
     const handleExportConfirm = async (email: string) => {
         setIsExporting(true);
-        const isAdmin = user.role === 'admin' || user.canEdit;
+        const isAdmin = canEdit;
 
         setSweetAlert({
             show: true,
@@ -470,7 +470,7 @@ export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user }) => {
                 formData.append('type', 'quiz');
                 formData.append('userName', user.name || 'User');
 
-                const res = await fetch('/api/export/send-pdf', {
+                const res = await api.authFetch('/api/export/send-pdf', {
                     method: 'POST',
                     body: formData,
                 });
@@ -499,8 +499,8 @@ export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user }) => {
             setSweetAlert({
                 show: true,
                 type: 'error',
-                title: user.role === 'admin' || user.canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
-                message: (user.role === 'admin' || user.canEdit)
+                title: canEdit ? 'பிழை | Error' : 'மின்னஞ்சல் தோல்வி | Email Failed',
+                message: canEdit
                     ? `Export தோல்வியடைந்தது: ${error.message}\n\nதொடர்புக்கு: ${adminPhone}`
                     : `PDF மின்னஞ்சலுக்கு அனுப்ப முடியவில்லை.\n(${error.message})\n\nதயவு செய்து நிர்வாகியை தொடர்பு கொள்ளவும்:\n📞 ${adminPhone}`,
                 phone: adminPhone
@@ -565,6 +565,7 @@ export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user }) => {
                     <ContentStatusBanner
                         publishedCount={quizzes.filter(q => q.isPublished).length}
                         unpublishedCount={quizzes.filter(q => !q.isPublished).length}
+                        items={quizzes}
                     />
                 )}
 
@@ -607,6 +608,9 @@ export const QuizView: React.FC<QuizViewProps> = ({ lessonId, user }) => {
                                         <PublishToggle
                                             isPublished={!!quiz.isPublished}
                                             onToggle={() => handleTogglePublish(quiz)}
+                                            publishAt={quiz.publishAt}
+                                            contentId={quiz._id}
+                                            review={quiz.review}
                                         />
                                     </div>
                                 )}
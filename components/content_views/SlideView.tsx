@@ -24,6 +24,7 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = LOCAL_WORKER_URL;
 interface SlideViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // Utility to convert Base64 to Blob URL for faster PDF rendering
@@ -816,7 +817,7 @@ const UploadForm: React.FC<{ lessonId: string; onUpload: () => void; onExpand: (
     );
 };
 
-export const SlideView: React.FC<SlideViewProps> = ({ lessonId, user }) => {
+export const SlideView: React.FC<SlideViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const { triggerContentUpdate, updateVersion } = useContentUpdate();
 
@@ -825,7 +826,7 @@ export const SlideView: React.FC<SlideViewProps> = ({ lessonId, user }) => {
     }, [lessonId]);
 
     const { data: groupedContent, isLoading } = useApi(
-        () => api.getContentsByLessonId(lessonId, ['slide'], (user.role !== 'admin' && !user.canEdit)),
+        () => api.getContentsByLessonId(lessonId, ['slide'], !canEdit),
         [lessonId, version, user, updateVersion]
     );
 
@@ -840,7 +841,6 @@ export const SlideView: React.FC<SlideViewProps> = ({ lessonId, user }) => {
     const { showToast } = useToast();
 
     const slideContent = groupedContent?.[0]?.docs[0];
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     const handleDelete = (contentId: string) => {
         const confirmAction = async () => {
@@ -870,7 +870,7 @@ export const SlideView: React.FC<SlideViewProps> = ({ lessonId, user }) => {
     return (
         <div className="h-full overflow-hidden flex flex-col">
             {slideContent && canEdit && (
-                <ContentStatusBanner isPublished={!!slideContent.isPublished} />
+                <ContentStatusBanner isPublished={!!slideContent.isPublished} publishAt={slideContent.publishAt} unpublishAt={slideContent.unpublishAt} />
             )}
 
             <div className="flex-1 overflow-hidden flex flex-col p-0 sm:p-6 lg:p-8 min-h-0">
@@ -908,7 +908,7 @@ export const SlideView: React.FC<SlideViewProps> = ({ lessonId, user }) => {
                 onClose={() => setConfirmModalState({ isOpen: false, onConfirm: null })}
                 onConfirm={confirmModalState.onConfirm}
                 title="Remove Slides"
-                message="Are you sure you want to remove these slides? This action cannot be undone."
+                message="Are you sure you want to remove these slides? They will be moved to the Recycle Bin."
             />
 
             {fullscreenMode && slideContent && (
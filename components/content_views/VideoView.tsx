@@ -17,6 +17,7 @@ import { ContentStatusBanner } from '../common/ContentStatusBanner';
 interface VideoViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 // ... (getYouTubeEmbedUrl and SavedVideoViewer remain same)
@@ -282,6 +283,9 @@ const SavedVideoViewer: React.FC<{ content: Content; onRemove: () => void; isAdm
                             <PublishToggle
                                 isPublished={!!content.isPublished}
                                 onToggle={() => onTogglePublish(content)}
+                                publishAt={content.publishAt}
+                                contentId={content._id}
+                                review={content.review}
                             />
                         </div>
                     )}
@@ -660,10 +664,10 @@ const AddVideoForm: React.FC<{ lessonId: string; existingTitles: string[]; onAdd
     );
 };
 
-export const VideoView: React.FC<VideoViewProps> = ({ lessonId, user }) => {
+export const VideoView: React.FC<VideoViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const { triggerContentUpdate, updateVersion } = useContentUpdate();
-    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['video'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user, updateVersion]);
+    const { data: groupedContent, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['video'], !canEdit), [lessonId, version, user, updateVersion]);
     const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; onConfirm: (() => void) | null; }>({ isOpen: false, onConfirm: null, });
     const [showAddForm, setShowAddForm] = useState(false);
     const [stats, setStats] = useState<{ count: number } | null>(null);
@@ -677,7 +681,6 @@ export const VideoView: React.FC<VideoViewProps> = ({ lessonId, user }) => {
     }, [lessonId]);
 
     const videoContents: Content[] = groupedContent?.[0]?.docs || [];
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     const handleDelete = (contentId: string) => {
         const action = async () => {
@@ -719,6 +722,7 @@ export const VideoView: React.FC<VideoViewProps> = ({ lessonId, user }) => {
                 <ContentStatusBanner
                     publishedCount={videoContents.filter(v => v.isPublished).length}
                     unpublishedCount={videoContents.filter(v => !v.isPublished).length}
+                    items={videoContents}
                 />
             )}
 
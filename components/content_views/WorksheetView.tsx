@@ -14,6 +14,7 @@ import { formatCount } from '../../utils/formatUtils';
 interface WorksheetViewProps {
     lessonId: string;
     user: User;
+    canEdit: boolean;
 }
 
 
@@ -269,14 +270,13 @@ const UploadForm: React.FC<{ lessonId: string; onUpload: () => void; onCancel: (
 
 import { useContentUpdate } from '../../context/ContentUpdateContext';
 
-export const WorksheetView: React.FC<WorksheetViewProps> = ({ lessonId, user }) => {
+export const WorksheetView: React.FC<WorksheetViewProps> = ({ lessonId, user, canEdit }) => {
     const [version, setVersion] = useState(0);
     const { triggerContentUpdate, updateVersion } = useContentUpdate(); // Added updateVersion
     const [showUploadForm, setShowUploadForm] = useState(false);
     // Added updateVersion to dependencies
-    const { data: grouped, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['worksheet'], (user.role !== 'admin' && !user.canEdit)), [lessonId, version, user, updateVersion]);
+    const { data: grouped, isLoading } = useApi(() => api.getContentsByLessonId(lessonId, ['worksheet'], !canEdit), [lessonId, version, user, updateVersion]);
     const worksheets = grouped?.[0]?.docs || [];
-    const canEdit = user.role === 'admin' || !!user.canEdit;
 
     // Modal & PDF States
     const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; onConfirm: (() => void) | null }>({ isOpen: false, onConfirm: null });
@@ -1,7 +1,7 @@
 
 
 import React from 'react';
-import { ResourceType } from './types';
+import { ResourceType, CognitiveProcess } from './types';
 import { BookIcon, FlashcardIcon, NotesIcon, QAIcon, ActivityIcon, VideoIcon, AudioIcon, WorksheetIcon, QuestionPaperIcon, QuizIcon, SlideIcon } from './components/icons/ResourceTypeIcons';
 
 interface ResourceInfo {
@@ -25,4 +25,15 @@ export const RESOURCE_TYPES: ResourceInfo[] = [
   { key: 'quiz', label: 'Quiz', Icon: QuizIcon, description: 'Test your knowledge with interactive quizzes.', color: 'text-rose-600', gradient: 'from-black to-rose-600 dark:from-white dark:to-rose-400' },
   { key: 'worksheet', label: 'Worksheet', Icon: WorksheetIcon, description: 'Downloadable practice sheets and assignments.', color: 'text-green-600', gradient: 'from-black to-green-600 dark:from-white dark:to-green-400' },
   { key: 'questionPaper', label: 'Question Papers', Icon: QuestionPaperIcon, description: 'Previous year and sample question papers.', color: 'text-indigo-600', gradient: 'from-black to-indigo-600 dark:from-white dark:to-indigo-400' },
-];
\ No newline at end of file
+];
+
+// Cognitive processes, used to tag Q&A items and the competencies a lesson covers
+export const COGNITIVE_PROCESSES: { [key in CognitiveProcess]: { label: string, color: string } } = {
+  'CP1': { label: 'Conceptual Clarity', color: 'bg-blue-100 text-blue-800 border-blue-200' },
+  'CP2': { label: 'Application Skill', color: 'bg-green-100 text-green-800 border-green-200' },
+  'CP3': { label: 'Computational Thinking', color: 'bg-purple-100 text-purple-800 border-purple-200' },
+  'CP4': { label: 'Analytical Thinking', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  'CP5': { label: 'Critical Thinking', color: 'bg-red-100 text-red-800 border-red-200' },
+  'CP6': { label: 'Creative Thinking', color: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
+  'CP7': { label: 'Values/Attitudes', color: 'bg-pink-100 text-pink-800 border-pink-200' },
+};
@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { AcademicYear } from '../types';
+import * as api from '../services/api';
+import { useSession } from './SessionContext';
+
+const LOCAL_STORAGE_KEY = 'learningPlatformAcademicYear';
+
+interface AcademicYearContextType {
+    years: AcademicYear[];
+    // The year being browsed: the stored choice, else the current year. Null until years exist.
+    activeYear: AcademicYear | null;
+    setActiveYear: (name: string) => void;
+    // Archived years can be browsed but not changed
+    isReadOnly: boolean;
+    reloadYears: () => Promise<void>;
+}
+
+const AcademicYearContext = createContext<AcademicYearContextType | undefined>(undefined);
+
+export const AcademicYearProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { session } = useSession();
+    const [years, setYears] = useState<AcademicYear[]>([]);
+    const [selectedName, setSelectedName] = useState<string | null>(() => localStorage.getItem(LOCAL_STORAGE_KEY));
+
+    const reloadYears = useCallback(async () => {
+        try {
+            setYears(await api.getAcademicYears());
+        } catch (error) {
+            console.error('[AcademicYearContext] Failed to load academic years:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (session.user) reloadYears();
+        else setYears([]);
+    }, [session.user?._id, reloadYears]);
+
+    const setActiveYear = useCallback((name: string) => {
+        localStorage.setItem(LOCAL_STORAGE_KEY, name);
+        setSelectedName(name);
+    }, []);
+
+    const activeYear = years.find(year => year.name === selectedName) || years.find(year => year.isCurrent) || null;
+
+    return (
+        <AcademicYearContext.Provider value={{ years, activeYear, setActiveYear, isReadOnly: !!activeYear?.isArchived, reloadYears }}>
+            {children}
+        </AcademicYearContext.Provider>
+    );
+};
+
+export const useAcademicYear = (): AcademicYearContextType => {
+    const context = useContext(AcademicYearContext);
+    if (context === undefined) {
+        throw new Error('useAcademicYear must be used within an AcademicYearProvider');
+    }
+    return context;
+};
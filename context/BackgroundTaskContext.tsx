@@ -1,16 +1,19 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from 'react';
 import { useContentUpdate } from './ContentUpdateContext';
 import { useToast } from './ToastContext';
+import { authFetch, getAuthHeaders, copyHierarchyNode, duplicateContentFile, HierarchyRoute } from '../services/api';
 
-export type TaskType = 'upload';
+export type TaskType = 'upload' | 'copy';
 export type ContentType = 'worksheet' | 'book' | 'video' | 'audio' | 'slide' | 'questionPaper';
 
+export type TaskStatus = 'pending' | 'uploading' | 'completed' | 'error';
+
 export interface UploadTask {
     id: string;
-    type: TaskType;
+    type: 'upload';
     contentType: ContentType;
     file: File;
-    status: 'pending' | 'uploading' | 'completed' | 'error';
+    status: TaskStatus;
     progress: number;
     error?: string;
 
@@ -24,9 +27,29 @@ export interface UploadTask {
     mimeType?: string;
 }
 
+// Copy of a hierarchy node: one request copies the structure and content, then each
+// copied stored file is duplicated in its own request (progress counts those)
+export interface CopyTask {
+    id: string;
+    type: 'copy';
+    status: TaskStatus;
+    progress: number;
+    error?: string;
+
+    title: string;
+    route: HierarchyRoute;
+    sourceId: string;
+    targetParentId?: string; // Omitted for classes
+    academicYear?: string; // Classes only: the year the copy goes to
+    onCopied?: () => void; // Called once the copied nodes exist, before the files are done
+}
+
+export type BackgroundTask = UploadTask | CopyTask;
+export type NewBackgroundTask = Omit<UploadTask, 'id' | 'status' | 'progress'> | Omit<CopyTask, 'id' | 'status' | 'progress'>;
+
 interface BackgroundTaskContextType {
-    tasks: UploadTask[];
-    addTask: (task: Omit<UploadTask, 'id' | 'status' | 'progress'>) => void;
+    tasks: BackgroundTask[];
+    addTask: (task: NewBackgroundTask) => void;
     cancelTask: (id: string) => void;
     clearCompleted: () => void;
 }
@@ -34,19 +57,19 @@ interface BackgroundTaskContextType {
 const BackgroundTaskContext = createContext<BackgroundTaskContextType | undefined>(undefined);
 
 export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [tasks, setTasks] = useState<UploadTask[]>([]);
+    const [tasks, setTasks] = useState<BackgroundTask[]>([]);
     const processingRef = useRef<boolean>(false);
     const { triggerContentUpdate } = useContentUpdate();
     const { showToast } = useToast();
 
     // Add a new task to the queue
-    const addTask = useCallback((taskData: Omit<UploadTask, 'id' | 'status' | 'progress'>) => {
-        const newTask: UploadTask = {
+    const addTask = useCallback((taskData: NewBackgroundTask) => {
+        const newTask = {
             ...taskData,
             id: crypto.randomUUID(),
             status: 'pending',
             progress: 0
-        };
+        } as BackgroundTask;
         setTasks(prev => [...prev, newTask]);
     }, []);
 
@@ -61,7 +84,7 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
     }, []);
 
     // Update a task's state in the array
-    const updateTask = useCallback((id: string, updates: Partial<UploadTask>) => {
+    const updateTask = useCallback((id: string, updates: Partial<Pick<BackgroundTask, 'status' | 'progress' | 'error'>>) => {
         setTasks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
     }, []);
 
@@ -78,7 +101,9 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
             updateTask(nextTask.id, { status: 'uploading', progress: 0 });
 
             try {
-                if (['worksheet', 'book', 'slide', 'questionPaper'].includes(nextTask.contentType)) {
+                if (nextTask.type === 'copy') {
+                    await processCopy(nextTask);
+                } else if (['worksheet', 'book', 'slide', 'questionPaper'].includes(nextTask.contentType)) {
                     await processLocalUpload(nextTask);
                 } else if (['video', 'audio'].includes(nextTask.contentType)) {
                     await processCloudinaryUpload(nextTask);
@@ -86,12 +111,13 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
 
                 updateTask(nextTask.id, { status: 'completed', progress: 100 });
                 triggerContentUpdate(); // Refresh the views!
-                showToast(`${nextTask.title} uploaded successfully`, 'success');
+                showToast(`${nextTask.title} ${nextTask.type === 'copy' ? 'copied' : 'uploaded'} successfully`, 'success');
 
             } catch (error: any) {
                 console.error("Task failed:", error);
-                updateTask(nextTask.id, { status: 'error', error: error.message || 'Upload failed' });
-                showToast(`Upload failed: ${nextTask.title}`, 'error');
+                const action = nextTask.type === 'copy' ? 'Copy' : 'Upload';
+                updateTask(nextTask.id, { status: 'error', error: error.message || `${action} failed` });
+                showToast(`${action} failed: ${nextTask.title}`, 'error');
             } finally {
                 processingRef.current = false;
             }
@@ -101,6 +127,29 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
     }, [tasks, updateTask, triggerContentUpdate, showToast]);
 
 
+    // Strategy: Hierarchy Copy
+    const processCopy = async (task: CopyTask): Promise<void> => {
+        const { pendingFiles } = await copyHierarchyNode(task.route, task.sourceId, task.targetParentId, task.academicYear);
+        task.onCopied?.();
+
+        // Structure is in place at 10%; the files make up the rest
+        updateTask(task.id, { progress: 10 });
+        let failed = 0;
+        for (const [index, contentId] of pendingFiles.entries()) {
+            try {
+                await duplicateContentFile(contentId);
+            } catch (error) {
+                console.error(`Failed to duplicate file for content ${contentId}:`, error);
+                failed++;
+            }
+            updateTask(task.id, { progress: 10 + Math.round(((index + 1) / pendingFiles.length) * 90) });
+        }
+
+        if (failed > 0) {
+            throw new Error(`Copied, but ${failed} of ${pendingFiles.length} files could not be duplicated and still point at the original`);
+        }
+    };
+
     // Strategy: Local Upload (Worksheet, Book, Slide, QuestionPaper)
     const processLocalUpload = (task: UploadTask): Promise<void> => {
         return new Promise((resolve, reject) => {
@@ -141,6 +190,7 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
             xhr.onerror = () => reject(new Error('Network error'));
 
             xhr.open('POST', '/api/upload');
+            Object.entries(getAuthHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
             xhr.send(formData);
         });
     };
@@ -148,7 +198,7 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
     // Strategy: Cloudinary Upload (Video, Audio)
     const processCloudinaryUpload = async (task: UploadTask): Promise<void> => {
         // Step 1: Get Signature
-        const sigRes = await fetch('/api/upload/signature', {
+        const sigRes = await authFetch('/api/upload/signature', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -199,7 +249,7 @@ export const BackgroundTaskProvider: React.FC<{ children: ReactNode }> = ({ chil
             // Step 3: Save Metadata
             updateTask(task.id, { progress: 95 }); // Saving state
 
-            const saveRes = await fetch('/api/content/cloudinary-save', {
+            const saveRes = await authFetch('/api/content/cloudinary-save', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { User, Session, AdminState, TeacherState, FontSize } from '../types';
 import { usePersistentNavigation } from '../hooks/usePersistentNavigation';
+import { setAuthToken, setSessionErrorHandler, getCurrentSession, SessionErrorCode } from '../services/api';
 
 interface SessionContextType {
     session: Session;
@@ -19,6 +20,8 @@ interface SessionContextType {
         isRestored: boolean;
     };
     forceSaveNavigation: () => void;
+    sessionExpired: boolean;
+    sessionEndCode: SessionErrorCode | null;
 }
 
 const defaultAdminState: AdminState = {
@@ -40,29 +43,61 @@ const defaultSession: Session = {
 };
 
 const LOCAL_STORAGE_KEY = 'learningPlatformSession';
+// setTimeout cannot schedule further out than ~24.8 days
+const MAX_TIMEOUT_MS = 2147483647;
 const SessionContext = createContext<SessionContextType | undefined>(undefined);
 
-export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    // Initialize session from localStorage (only authentication data)
-    const [session, setSession] = useState<Session>(() => {
-        try {
-            const savedSession = localStorage.getItem(LOCAL_STORAGE_KEY);
-            if (savedSession) {
-                const parsed = JSON.parse(savedSession);
-                return {
+// Read the exp claim (ms) from a JWT. The signature is checked by the server, not here.
+const getTokenExpiry = (token: string | null): number | null => {
+    if (!token) return null;
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
+// Load the stored session, dropping it if its token has expired (or predates signed tokens)
+const loadStoredSession = (): { session: Session; expired: boolean } => {
+    try {
+        const savedSession = localStorage.getItem(LOCAL_STORAGE_KEY);
+        if (savedSession) {
+            const parsed = JSON.parse(savedSession);
+            // Ensure fontSize is a number, fallback to 18 if invalid or old string format
+            const fontSize = typeof parsed.fontSize === 'number' ? parsed.fontSize : 18;
+            const token: string | null = parsed.token || null;
+            const expiry = getTokenExpiry(token);
+
+            if (parsed.user && (!expiry || expiry <= Date.now())) {
+                setAuthToken(null);
+                return { session: { ...defaultSession, fontSize }, expired: true };
+            }
+
+            setAuthToken(token);
+            return {
+                session: {
                     ...defaultSession,
                     user: parsed.user || null,
-                    token: parsed.token || null,
-                    // Ensure fontSize is a number, fallback to 18 if invalid or old string format
-                    fontSize: typeof parsed.fontSize === 'number' ? parsed.fontSize : 18
-                };
-            }
-        } catch (error) {
-            console.error("Failed to parse session from localStorage", error);
-            localStorage.removeItem(LOCAL_STORAGE_KEY);
+                    token,
+                    fontSize
+                },
+                expired: false
+            };
         }
-        return defaultSession;
-    });
+    } catch (error) {
+        console.error("Failed to parse session from localStorage", error);
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+    }
+    return { session: defaultSession, expired: false };
+};
+
+export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    // Initialize session from localStorage (only authentication data)
+    const [initialState] = useState(loadStoredSession);
+    const [session, setSession] = useState<Session>(initialState.session);
+    const [sessionExpired, setSessionExpired] = useState(initialState.expired);
+    const [sessionEndCode, setSessionEndCode] = useState<SessionErrorCode | null>(null);
 
     // Persistent navigation state
     const {
@@ -123,6 +158,9 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }, [currentSession.user, currentSession.token, currentSession.fontSize]);
 
     const login = useCallback((sessionData: { user: User, token: string }) => {
+        setAuthToken(sessionData.token);
+        setSessionExpired(false);
+        setSessionEndCode(null);
         setSession(prev => ({
             ...prev,
             user: sessionData.user,
@@ -132,13 +170,47 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
     const logout = useCallback(() => {
         // Clear authentication session
+        setAuthToken(null);
         setSession(defaultSession);
         localStorage.removeItem(LOCAL_STORAGE_KEY);
 
-        // Clear navigation state
+        // Clear navigation state and the link to it
         clearPersistedNavigationState();
+        window.history.replaceState(null, '', '/');
     }, [clearPersistedNavigationState]);
 
+    // Send the user back to Login when the token runs out. Navigation state is kept so
+    // signing in again returns to the same lesson.
+    const expireSession = useCallback((code: SessionErrorCode = 'TOKEN_EXPIRED') => {
+        setAuthToken(null);
+        setSessionExpired(true);
+        setSessionEndCode(code);
+        setSession(prev => prev.user ? { ...defaultSession, fontSize: prev.fontSize } : prev);
+    }, []);
+
+    // Server rejected the token (expired, revoked, invalid or account deactivated)
+    useEffect(() => {
+        setSessionErrorHandler(code => expireSession(code));
+        return () => setSessionErrorHandler(null);
+    }, [expireSession]);
+
+    // Expire locally at the token's exp time instead of waiting for a failing request
+    useEffect(() => {
+        const expiry = getTokenExpiry(session.token);
+        if (!expiry) return;
+        const timer = setTimeout(() => expireSession(), Math.min(Math.max(expiry - Date.now(), 0), MAX_TIMEOUT_MS));
+        return () => clearTimeout(timer);
+    }, [session.token, expireSession]);
+
+    // Validate a restored token once on load and refresh the stored user record
+    useEffect(() => {
+        const token = initialState.session.token;
+        if (!token) return;
+        getCurrentSession()
+            .then(({ user }) => setSession(prev => prev.token === token ? { ...prev, user } : prev))
+            .catch(error => console.warn('[SessionContext] Session validation failed:', error));
+    }, [initialState]);
+
     const updateProfile = useCallback((updatedUser: User) => {
         setSession(prev => prev.user ? { ...prev, user: updatedUser } : prev);
     }, []);
@@ -172,7 +244,9 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
         clearNavigationState,
         isNavigationRestored,
         getCurrentNavigationState: getCurrentState,
-        forceSaveNavigation: forceSave
+        forceSaveNavigation: forceSave,
+        sessionExpired,
+        sessionEndCode
     }), [
         currentSession,
         login,
@@ -184,7 +258,9 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
         clearNavigationState,
         isNavigationRestored,
         getCurrentState,
-        forceSave
+        forceSave,
+        sessionExpired,
+        sessionEndCode
     ]);
 
     return (
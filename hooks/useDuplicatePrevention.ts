@@ -1,5 +1,6 @@
 // Hook for duplicate upload prevention
 import { useState, useCallback } from 'react';
+import { authFetch } from '../services/api';
 
 interface DuplicateCheckResult {
   isDuplicate: boolean;
@@ -35,7 +36,7 @@ export const useDuplicatePrevention = () => {
         queryParams.append('fileSize', file.size.toString());
       }
 
-      const response = await fetch(`/api/content/check-duplicate?${queryParams}`);
+      const response = await authFetch(`/api/content/check-duplicate?${queryParams}`);
       
       if (!response.ok) {
         throw new Error('Failed to check for duplicates');
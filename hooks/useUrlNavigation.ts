@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { UrlNavigationState, buildNavigationPath, parseNavigationPath } from '../utils/urlNavigation';
+
+/**
+ * Keeps the address bar in step with the navigation state so any lesson and resource can be
+ * linked to, and back/forward move through earlier selections.
+ *
+ * A deep link opened on load wins over the state restored from localStorage; a bare "/"
+ * keeps the restored state. `apply` receives everything the URL names in one call, since the
+ * persisted state is saved debounced and a second update would replace the first.
+ */
+export const useUrlNavigation = (
+  state: UrlNavigationState,
+  apply: (updates: Partial<UrlNavigationState>) => void,
+  { withPages = false } = {}
+) => {
+  const currentPath = buildNavigationPath(withPages ? state : { ...state, activePage: undefined });
+  const currentPathRef = useRef(currentPath);
+  currentPathRef.current = currentPath;
+
+  // Set while a selection taken from the URL is on its way into state: the path the state
+  // had at that moment, which must not be written back over the URL
+  const pendingFrom = useRef<string | null>(null);
+
+  const applyFromUrl = (fromUrl: Partial<UrlNavigationState>) => {
+    pendingFrom.current = currentPathRef.current;
+    apply(fromUrl);
+  };
+
+  useEffect(() => {
+    const { pathname } = window.location;
+    const fromUrl = pathname === '/' ? null : parseNavigationPath(pathname, { withPages });
+    if (fromUrl) {
+      applyFromUrl(fromUrl);
+    } else {
+      window.history.replaceState(null, '', currentPath);
+    }
+    // Only the URL the app was opened with
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const fromUrl = parseNavigationPath(window.location.pathname, { withPages });
+      if (fromUrl) applyFromUrl(fromUrl);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apply, withPages]);
+
+  useEffect(() => {
+    if (pendingFrom.current !== null) {
+      if (currentPath === pendingFrom.current) return;
+      pendingFrom.current = null;
+    }
+    if (currentPath !== window.location.pathname) {
+      window.history.pushState(null, '', currentPath);
+    }
+  }, [currentPath]);
+};
@@ -1,15 +1,57 @@
-import { Class, Subject, Unit, SubUnit, Lesson, Content, ResourceType, GroupedContent, ResourceCounts, User, PlatformStats, QuestionPaperMetadata } from '../types';
+import { Class, Subject, Unit, SubUnit, Lesson, Content, ResourceType, GroupedContent, ResourceCounts, User, PlatformStats, QuestionPaperMetadata, LocationLookups, LocationSelection, District, SubDistrict, School, AcademicYear, LessonMetadata, ReviewStatus } from '../types';
 
 const API_BASE = ((import.meta as any).env && (import.meta as any).env.VITE_API_URL ? (import.meta as any).env.VITE_API_URL : '') + '/api';
 
+// --- Session Token ---
+// SessionContext owns the token; it is mirrored here synchronously so requests fired
+// by freshly mounted views already carry it.
+export type SessionErrorCode = 'AUTH_REQUIRED' | 'TOKEN_EXPIRED' | 'TOKEN_INVALID' | 'ACCOUNT_INACTIVE';
+const SESSION_ERROR_CODES: SessionErrorCode[] = ['AUTH_REQUIRED', 'TOKEN_EXPIRED', 'TOKEN_INVALID', 'ACCOUNT_INACTIVE'];
+
+let authToken: string | null = null;
+let sessionErrorHandler: ((code: SessionErrorCode) => void) | null = null;
+
+export const setAuthToken = (token: string | null) => {
+    authToken = token;
+};
+
+export const setSessionErrorHandler = (handler: ((code: SessionErrorCode) => void) | null) => {
+    sessionErrorHandler = handler;
+};
+
+export const getAuthHeaders = (): Record<string, string> =>
+    authToken ? { Authorization: `Bearer ${authToken}` } : {};
+
+// Notify the session owner when the server rejects our token, so the user is sent back to Login
+const checkSessionError = async (response: Response) => {
+    if (response.status !== 401 || !authToken) return;
+    const errorData = await response.clone().json().catch(() => ({}));
+    if (SESSION_ERROR_CODES.includes(errorData.code)) {
+        sessionErrorHandler?.(errorData.code);
+    }
+};
+
+// fetch() with the session token attached, for callers that cannot use apiRequest (FormData, blobs)
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetch(input, {
+        ...init,
+        headers: {
+            ...getAuthHeaders(),
+            ...(init.headers as Record<string, string> | undefined),
+        },
+    });
+    await checkSessionError(response);
+    return response;
+};
+
 // Helper for fetch requests
 const apiRequest = async <T>(endpoint: string, options?: RequestInit): Promise<T> => {
-    const response = await fetch(`${API_BASE}${endpoint}`, {
+    const response = await authFetch(`${API_BASE}${endpoint}`, {
+        ...options,
         headers: {
             'Content-Type': 'application/json',
-            // Add Authorization header here if token exists in localStorage/Context
+            ...(options?.headers as Record<string, string> | undefined),
         },
-        ...options,
     });
 
     if (!response.ok) {
@@ -21,7 +63,7 @@ const apiRequest = async <T>(endpoint: string, options?: RequestInit): Promise<T
 };
 
 export const uploadFile = async (formData: FormData): Promise<any> => {
-    const response = await fetch(`${API_BASE}/upload`, {
+    const response = await authFetch(`${API_BASE}/upload`, {
         method: 'POST',
         body: formData,
         // Content-Type header is automatically set by browser with boundary for FormData
@@ -50,7 +92,14 @@ export const createContentFromUrl = async (url: string, lessonId: string, type:
 
 // --- Hierarchy ---
 
-export const getClasses = (onlyPublished?: boolean): Promise<Class[]> => apiRequest(`/classes${onlyPublished ? '?onlyPublished=true' : ''}`);
+// academicYear limits the list to one year's classes
+export const getClasses = (onlyPublished?: boolean, academicYear?: string | null): Promise<Class[]> => {
+    const params = new URLSearchParams();
+    if (onlyPublished) params.append('onlyPublished', 'true');
+    if (academicYear) params.append('academicYear', academicYear);
+    const query = params.toString();
+    return apiRequest(`/classes${query ? `?${query}` : ''}`);
+};
 export const unpublishAllClasses = (): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/classes/unpublish-all', { method: 'PUT' });
 export const publishAllClasses = (): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/classes/publish-all', { method: 'PUT' });
 export const getHierarchy = (lessonId: string): Promise<{
@@ -59,6 +108,9 @@ export const getHierarchy = (lessonId: string): Promise<{
     unitName: string;
     subUnitName: string;
     lessonName: string;
+    classId: string;
+    subjectId: string;
+    unitId: string;
     notesDownloadCount?: number;
     qaDownloadCount?: number;
     // Download Counts
@@ -74,7 +126,7 @@ export const getHierarchy = (lessonId: string): Promise<{
     worksheetPdfDownloadCount?: number;
     questionPaperPdfDownloadCount?: number;
     isPublished?: boolean;
-}> => apiRequest(`/hierarchy/${lessonId}`);
+} & LessonMetadata> => apiRequest(`/hierarchy/${lessonId}`);
 
 export const incrementViewCount = (contentId: string): Promise<{ success: boolean; views: number }> =>
     apiRequest(`/content/${contentId}/view`, { method: 'POST' });
@@ -82,40 +134,172 @@ export const incrementViewCount = (contentId: string): Promise<{ success: boolea
 export const incrementLessonDownload = (lessonId: string, type: string): Promise<{ success: boolean }> =>
     apiRequest(`/stats/download/lesson/${lessonId}`, { method: 'POST', body: JSON.stringify({ type }) });
 
-export const addClass = (name: string): Promise<Class> => apiRequest('/classes', { method: 'POST', body: JSON.stringify({ name }) });
+export type HierarchyRoute = 'classes' | 'subjects' | 'units' | 'subUnits' | 'lessons';
+
+// Deleting a hierarchy node moves everything below it to the Recycle Bin as well
+export interface HierarchyDeletionSummary {
+    classes: number;
+    subjects: number;
+    units: number;
+    subUnits: number;
+    lessons: number;
+    contents: number;
+    files: number;
+}
+
+export interface HierarchyDeletionResult {
+    success: boolean;
+    deleted: HierarchyDeletionSummary;
+}
+
+export const getDeletionSummary = (route: HierarchyRoute, id: string): Promise<HierarchyDeletionSummary> =>
+    apiRequest(`/${route}/${id}/deletion-summary`);
+
+// ids: every sibling under one parent, in the new order
+export const reorderHierarchy = (route: HierarchyRoute, ids: string[]): Promise<{ success: boolean }> =>
+    apiRequest(`/${route}/reorder`, { method: 'POST', body: JSON.stringify({ ids }) });
+
+// targetParentId: the new parent, one level up (a class for a subject, a sub-unit for a lesson...)
+export const moveHierarchyNode = (route: HierarchyRoute, id: string, targetParentId: string): Promise<Class | Subject | Unit | SubUnit | Lesson> =>
+    apiRequest(`/${route}/${id}/move`, { method: 'POST', body: JSON.stringify({ targetParentId }) });
+
+export interface HierarchyCopyResult {
+    success: boolean;
+    rootId: string;
+    copied: Omit<HierarchyDeletionSummary, 'files'>;
+    // Copied content still sharing its source's file; pass each to duplicateContentFile
+    pendingFiles: string[];
+}
+
+// targetParentId is omitted when copying a class; academicYear copies a class into that year
+export const copyHierarchyNode = (route: HierarchyRoute, id: string, targetParentId?: string, academicYear?: string): Promise<HierarchyCopyResult> =>
+    apiRequest(`/${route}/${id}/copy`, { method: 'POST', body: JSON.stringify({ targetParentId, academicYear }) });
+
+export const duplicateContentFile = (contentId: string): Promise<{ success: boolean; duplicated: boolean }> =>
+    apiRequest(`/content/${contentId}/duplicate-file`, { method: 'POST' });
+
+// --- Hierarchy Tree ---
+export interface TreeCounts {
+    total: number;
+    published: number;
+    byType: { [key in ResourceType]?: { total: number; published: number } };
+}
+
+export interface HierarchyTreeNode {
+    _id: string;
+    kind: HierarchyRoute;
+    name: string;
+    isPublished: boolean;
+    publishAt: string | null;
+    // Only when the tree was loaded down to lessons
+    counts?: TreeCounts;
+    children?: HierarchyTreeNode[];
+}
+
+// Whole course tree by default; pass a node for its subtree and depth to stop early
+export const getHierarchyTree = (options: { kind?: HierarchyRoute; id?: string; depth?: number; onlyPublished?: boolean; academicYear?: string | null } = {}): Promise<HierarchyTreeNode[]> => {
+    const params = new URLSearchParams();
+    if (options.kind && options.id) {
+        params.append('kind', options.kind);
+        params.append('id', options.id);
+    }
+    if (options.depth !== undefined) params.append('depth', options.depth.toString());
+    if (options.onlyPublished) params.append('onlyPublished', 'true');
+    if (options.academicYear) params.append('academicYear', options.academicYear);
+    const query = params.toString();
+    return apiRequest(`/tree${query ? `?${query}` : ''}`);
+};
+
+// --- Syllabus Import / Export ---
+// outline: one name per line, indented per level; csv: Class,Subject,Unit,Sub-Unit,Chapter
+// rows; json: [{ name, children }]
+export type SyllabusFormat = 'outline' | 'csv' | 'json';
+
+export interface SyllabusPlanNode {
+    _id: string;
+    kind: HierarchyRoute;
+    name: string;
+    // Matched by name to a node already under the same parent, or to be created
+    status: 'existing' | 'new';
+    children: SyllabusPlanNode[];
+}
+
+export interface SyllabusImportPlan {
+    academicYear: string | null;
+    tree: SyllabusPlanNode[];
+    counts: { existing: number; new: Record<HierarchyRoute, number> };
+    errors: string[];
+}
+
+export const previewSyllabusImport = (format: SyllabusFormat, content: string, academicYear?: string): Promise<SyllabusImportPlan> =>
+    apiRequest('/syllabus/import/preview', { method: 'POST', body: JSON.stringify({ format, content, academicYear }) });
+
+export const importSyllabus = (format: SyllabusFormat, content: string, academicYear?: string): Promise<Omit<SyllabusImportPlan, 'errors'> & { success: boolean }> =>
+    apiRequest('/syllabus/import', { method: 'POST', body: JSON.stringify({ format, content, academicYear }) });
+
+export const exportSyllabus = (format: SyllabusFormat, options: { academicYear?: string; classId?: string } = {}): Promise<{ format: SyllabusFormat; filename: string; content: string }> => {
+    const params = new URLSearchParams({ format });
+    if (options.academicYear) params.append('academicYear', options.academicYear);
+    if (options.classId) params.append('classId', options.classId);
+    return apiRequest(`/syllabus/export?${params.toString()}`);
+};
+
+// --- Academic Years ---
+export const getAcademicYears = (): Promise<AcademicYear[]> => apiRequest('/academic-years');
+
+// The first year created becomes current and takes every existing class
+export const createAcademicYear = (name: string): Promise<AcademicYear> =>
+    apiRequest('/academic-years', { method: 'POST', body: JSON.stringify({ name }) });
+
+// isCurrent: true also archives every older year
+export const updateAcademicYear = (id: string, updates: { isCurrent?: boolean; isArchived?: boolean }): Promise<AcademicYear> =>
+    apiRequest(`/academic-years/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+
+// Pass null to clear a date; a publishAt already past publishes straight away
+export interface PublishSchedule {
+    publishAt?: string | null;
+    unpublishAt?: string | null;
+}
+
+export const setPublishSchedule = <T extends Class | Subject | Unit | SubUnit | Lesson | Content>(route: HierarchyRoute | 'content', id: string, schedule: PublishSchedule): Promise<T> =>
+    apiRequest(`/${route}/${id}/schedule`, { method: 'PUT', body: JSON.stringify(schedule) });
+
+export const addClass = (name: string, academicYear?: string): Promise<Class> => apiRequest('/classes', { method: 'POST', body: JSON.stringify({ name, academicYear }) });
 export const updateClass = (id: string, updates: any): Promise<Class> => apiRequest(`/classes/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
-export const deleteClass = (id: string): Promise<{ success: boolean }> => apiRequest(`/classes/${id}`, { method: 'DELETE' });
+export const deleteClass = (id: string): Promise<HierarchyDeletionResult> => apiRequest(`/classes/${id}`, { method: 'DELETE' });
 
 export const getSubjectsByClassId = (classId: string, onlyPublished?: boolean): Promise<Subject[]> => apiRequest(`/subjects?classId=${classId}${onlyPublished ? '&onlyPublished=true' : ''}`);
 export const addSubject = (name: string, classId: string): Promise<Subject> => apiRequest('/subjects', { method: 'POST', body: JSON.stringify({ name, classId }) });
 export const updateSubject = (id: string, updates: any): Promise<Subject> => apiRequest(`/subjects/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
 export const unpublishAllSubjects = (classId: string): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/subjects/unpublish-all', { method: 'PUT', body: JSON.stringify({ classId }) });
 export const publishAllSubjects = (classId: string): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/subjects/publish-all', { method: 'PUT', body: JSON.stringify({ classId }) });
-export const deleteSubject = (id: string): Promise<{ success: boolean }> => apiRequest(`/subjects/${id}`, { method: 'DELETE' });
+export const deleteSubject = (id: string): Promise<HierarchyDeletionResult> => apiRequest(`/subjects/${id}`, { method: 'DELETE' });
 
 export const getUnitsBySubjectId = (subjectId: string, onlyPublished?: boolean): Promise<Unit[]> => apiRequest(`/units?subjectId=${subjectId}${onlyPublished ? '&onlyPublished=true' : ''}`);
 export const addUnit = (name: string, subjectId: string): Promise<Unit> => apiRequest('/units', { method: 'POST', body: JSON.stringify({ name, subjectId }) });
 export const updateUnit = (id: string, updates: any): Promise<Unit> => apiRequest(`/units/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
 export const unpublishAllUnits = (subjectId: string): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/units/unpublish-all', { method: 'PUT', body: JSON.stringify({ subjectId }) });
 export const publishAllUnits = (subjectId: string): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/units/publish-all', { method: 'PUT', body: JSON.stringify({ subjectId }) });
-export const deleteUnit = (id: string): Promise<{ success: boolean }> => apiRequest(`/units/${id}`, { method: 'DELETE' });
+export const deleteUnit = (id: string): Promise<HierarchyDeletionResult> => apiRequest(`/units/${id}`, { method: 'DELETE' });
 
 export const getSubUnitsByUnitId = (unitId: string, onlyPublished?: boolean): Promise<SubUnit[]> => apiRequest(`/subUnits?unitId=${unitId}${onlyPublished ? '&onlyPublished=true' : ''}`);
 export const addSubUnit = (name: string, unitId: string): Promise<SubUnit> => apiRequest('/subUnits', { method: 'POST', body: JSON.stringify({ name, unitId }) });
 export const updateSubUnit = (id: string, updates: any): Promise<SubUnit> => apiRequest(`/subUnits/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
 export const unpublishAllSubUnits = (unitId: string): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/subUnits/unpublish-all', { method: 'PUT', body: JSON.stringify({ unitId }) });
 export const publishAllSubUnits = (unitId: string): Promise<{ success: boolean; message: string; count: number }> => apiRequest('/subUnits/publish-all', { method: 'PUT', body: JSON.stringify({ unitId }) });
-export const deleteSubUnit = (id: string): Promise<{ success: boolean }> => apiRequest(`/subUnits/${id}`, { method: 'DELETE' });
+export const deleteSubUnit = (id: string): Promise<HierarchyDeletionResult> => apiRequest(`/subUnits/${id}`, { method: 'DELETE' });
 
 export const getLessonsBySubUnitId = (subUnitId: string, onlyPublished?: boolean): Promise<Lesson[]> => apiRequest(`/lessons?subUnitId=${subUnitId}${onlyPublished ? '&onlyPublished=true' : ''}`);
 export const addLesson = (name: string, subUnitId: string): Promise<Lesson> => apiRequest('/lessons', { method: 'POST', body: JSON.stringify({ name, subUnitId }) });
 export const updateLesson = (id: string, updates: any): Promise<Lesson> => apiRequest(`/lessons/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+export const updateLessonMetadata = (id: string, metadata: LessonMetadata): Promise<LessonMetadata & { _id: string; name: string }> =>
+    apiRequest(`/lessons/${id}/metadata`, { method: 'PUT', body: JSON.stringify(metadata) });
 export const unpublishAllLessons = (subUnitId: string): Promise<{ success: boolean; message: string; count: number }> =>
     apiRequest('/lessons/unpublish-all', { method: 'PUT', body: JSON.stringify({ subUnitId }) });
 export const publishAllLessons = (subUnitId: string): Promise<{ success: boolean; message: string; count: number }> =>
     apiRequest('/lessons/publish-all', { method: 'PUT', body: JSON.stringify({ subUnitId }) });
 
-export const deleteLesson = (id: string): Promise<{ success: boolean }> => apiRequest(`/lessons/${id}`, { method: 'DELETE' });
+export const deleteLesson = (id: string): Promise<HierarchyDeletionResult> => apiRequest(`/lessons/${id}`, { method: 'DELETE' });
 
 // --- Content ---
 
@@ -237,6 +421,56 @@ export const addMultipleContent = async (contentsData: Omit<Content, '_id'>[]):
 export const updateContent = (id: string, updates: Partial<Omit<Content, '_id'>>): Promise<Content> =>
     apiRequest(`/content/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
 
+// A saved version of a content item; the newest is the current text
+export interface ContentRevision {
+    _id: string;
+    contentId: string;
+    title?: string;
+    body?: string;
+    metadata?: any;
+    savedBy?: { userId?: string; name?: string }; // empty for the version saved before history was kept
+    restoredFrom?: string;
+    createdAt: string;
+}
+
+export const getContentRevisions = (id: string): Promise<ContentRevision[]> => apiRequest(`/content/${id}/revisions`);
+
+export const restoreContentRevision = (id: string, revisionId: string): Promise<Content> =>
+    apiRequest(`/content/${id}/revisions/${revisionId}/restore`, { method: 'POST' });
+
+// --- Editorial Review ---
+export type ReviewDecision = 'approve' | 'request_changes';
+
+export interface ReviewQueueItem extends Pick<Content, '_id' | 'title' | 'type' | 'lessonId' | 'isPublished' | 'review'> {
+    updatedAt: string;
+    breadcrumb: { _id: string; kind: RecycleBinKind; name: string }[];
+}
+
+export interface ReviewQueue {
+    items: ReviewQueueItem[];
+    counts: Record<ReviewStatus, number>;
+}
+
+export const getReviewQueue = (status: ReviewStatus = 'submitted'): Promise<ReviewQueue> =>
+    apiRequest(`/reviews?status=${status}`);
+
+// The item with its body and review thread
+export const getReviewItem = (id: string): Promise<Content & { breadcrumb: ReviewQueueItem['breadcrumb'] }> =>
+    apiRequest(`/content/${id}/review`);
+
+export const submitContentForReview = (id: string, comment?: string): Promise<Content> =>
+    apiRequest(`/content/${id}/review/submit`, { method: 'POST', body: JSON.stringify({ comment }) });
+
+export const addReviewComment = (id: string, comment: { text: string; quote?: string }): Promise<Content> =>
+    apiRequest(`/content/${id}/review/comments`, { method: 'POST', body: JSON.stringify(comment) });
+
+// The author is emailed about the decision; emailSent is false when that failed or mail is not set up
+export const decideContentReview = (
+    id: string,
+    decision: { decision: ReviewDecision; comment?: string; publish?: boolean }
+): Promise<{ content: Content; emailSent: boolean }> =>
+    apiRequest(`/content/${id}/review/decision`, { method: 'POST', body: JSON.stringify(decision) });
+
 export const deleteContent = (id: string): Promise<{ success: boolean }> =>
     apiRequest(`/content/${id}`, { method: 'DELETE' });
 
@@ -261,11 +495,82 @@ export const getBreadcrumbs = async (lessonId: string): Promise<string> => {
 
 // --- Auth & User ---
 
-export const loginUser = (username: string, password: string): Promise<{ user: User, token: string }> =>
+// Admins with two-factor enabled get a challenge instead of a session; finish with verifyTwoFactorLogin
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    challengeToken: string;
+    expiresAt: string;
+}
+
+export const loginUser = (username: string, password: string): Promise<{ user: User, token: string, expiresAt: string } | TwoFactorChallenge> =>
     apiRequest('/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
 
+export const verifyTwoFactorLogin = (challengeToken: string, answer: TwoFactorAnswer): Promise<{ user: User, token: string, expiresAt: string, recoveryCodesRemaining: number }> =>
+    apiRequest('/auth/2fa/verify', { method: 'POST', body: JSON.stringify({ challengeToken, ...answer }) });
+
+export const getCurrentSession = (): Promise<{ user: User; expiresAt: string }> =>
+    apiRequest('/auth/session');
+
+export const requestPasswordReset = (identifier: string): Promise<{ success: boolean; message: string }> =>
+    apiRequest('/auth/forgot-password', { method: 'POST', body: JSON.stringify({ identifier }) });
+
+export const resetPassword = (identifier: string, code: string, newPassword: string, confirmPassword: string): Promise<{ success: boolean; message: string }> =>
+    apiRequest('/auth/reset-password', { method: 'POST', body: JSON.stringify({ identifier, code, newPassword, confirmPassword }) });
+
 export const getUsers = (): Promise<User[]> => apiRequest('/users');
 
+export interface LoginLock {
+    username: string;
+    failures: number;
+    lockedUntil: string;
+}
+export const getLoginLocks = (): Promise<LoginLock[]> => apiRequest('/users/login-locks');
+export const unlockUser = (id: string): Promise<{ success: boolean; message: string }> => apiRequest(`/users/${id}/unlock`, { method: 'POST' });
+
+export interface LoginIpLock {
+    ip: string;
+    failures: number;
+    lockedUntil: string;
+}
+export const getLoginIpLocks = (): Promise<LoginIpLock[]> => apiRequest('/users/login-locks/ips');
+export const unlockIp = (ip: string): Promise<{ success: boolean; message: string }> =>
+    apiRequest('/users/login-locks/ips/unlock', { method: 'POST', body: JSON.stringify({ ip }) });
+
+// --- Bulk User Import ---
+export interface UserImportRow {
+    rowNumber: number;
+    name: string;
+    username: string;
+    email: string;
+    role: string;
+    mobileNumber: string;
+    district: string;
+    school: string;
+    errors: string[];
+}
+
+export interface ImportedUserCredential {
+    name: string;
+    username: string;
+    email: string;
+    role: string;
+    password: string;
+}
+
+export const previewUserImport = async (file: File): Promise<{ rows: UserImportRow[]; total: number; invalid: number }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await authFetch(`${API_BASE}/users/import/preview`, { method: 'POST', body: formData });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `API Error: ${response.statusText}`);
+    }
+    return response.json();
+};
+
+export const importUsers = (rows: UserImportRow[], sendEmails: boolean): Promise<{ success: boolean; created: ImportedUserCredential[]; emailFailures: string[] }> =>
+    apiRequest('/users/import', { method: 'POST', body: JSON.stringify({ rows, sendEmails }) });
+
 export const addUser = (user: Omit<User, '_id' | 'isFirstLogin'>): Promise<User> =>
     apiRequest('/users', { method: 'POST', body: JSON.stringify(user) });
 
@@ -279,7 +584,7 @@ export const updateProfile = (id: string, data: { password: string; mobileNumber
     apiRequest(`/users/${id}/profile`, { method: 'PUT', body: JSON.stringify(data) });
 
 // New profile management endpoints
-export const updateUserProfile = (id: string, data: { name: string; email: string; mobileNumber?: string }): Promise<{ success: boolean; user: User; message: string }> =>
+export const updateUserProfile = (id: string, data: { name: string; email: string; mobileNumber?: string } & LocationSelection): Promise<{ success: boolean; user: User; message: string }> =>
     apiRequest(`/users/${id}/update-profile`, { method: 'PUT', body: JSON.stringify(data) });
 
 export const changePassword = (id: string, data: { currentPassword: string; newPassword: string; confirmPassword: string }): Promise<{ success: boolean; message: string }> =>
@@ -328,7 +633,17 @@ export const downloadContent = async (contentId: string, userId: string, userEma
     });
 };
 
-export const getDownloadLogs = async (status?: 'success' | 'failed', page: number = 1, limit: number = 50): Promise<{
+// Adds the non-empty location fields as query parameters
+const appendLocationParams = (params: URLSearchParams, location?: LocationSelection) => {
+    if (!location) return params;
+    (['districtId', 'subDistrictId', 'schoolId'] as const).forEach(field => {
+        const value = location[field];
+        if (value) params.append(field, value);
+    });
+    return params;
+};
+
+export const getDownloadLogs = async (status?: 'success' | 'failed', page: number = 1, limit: number = 50, location?: LocationSelection): Promise<{
     success: boolean;
     downloads: DownloadLog[];
     pagination: { total: number; page: number; pages: number };
@@ -337,11 +652,12 @@ export const getDownloadLogs = async (status?: 'success' | 'failed', page: numbe
     if (status) params.append('status', status);
     params.append('page', page.toString());
     params.append('limit', limit.toString());
+    appendLocationParams(params, location);
 
     return apiRequest(`/admin/downloads?${params.toString()}`);
 };
 
-export const getDownloadStats = (): Promise<{
+export const getDownloadStats = (location?: LocationSelection): Promise<{
     success: boolean;
     stats: {
         total: number;
@@ -350,11 +666,17 @@ export const getDownloadStats = (): Promise<{
         successRate: string;
     };
     recentDownloads: DownloadLog[];
-}> => apiRequest('/admin/downloads/stats');
+}> => {
+    const query = appendLocationParams(new URLSearchParams(), location).toString();
+    return apiRequest(`/admin/downloads/stats${query ? `?${query}` : ''}`);
+};
 
 // --- Stats ---
 
-export const getPlatformStats = (): Promise<PlatformStats> => apiRequest('/stats');
+export const getPlatformStats = (location?: LocationSelection): Promise<PlatformStats> => {
+    const query = appendLocationParams(new URLSearchParams(), location).toString();
+    return apiRequest(`/stats${query ? `?${query}` : ''}`);
+};
 
 // --- User Teacher Request ---
 
@@ -368,4 +690,222 @@ export const approveTeacherRequest = (userId: string): Promise<{ success: boolea
     apiRequest(`/user/approve-teacher/${userId}`, { method: 'POST' });
 
 export const rejectTeacherRequest = (userId: string): Promise<{ success: boolean; message: string }> =>
-    apiRequest(`/user/reject-teacher/${userId}`, { method: 'POST' });
\ No newline at end of file
+    apiRequest(`/user/reject-teacher/${userId}`, { method: 'POST' });
+
+// --- Student Self-Registration ---
+export interface StudentRegistrationData {
+    name: string;
+    username: string;
+    password: string;
+    email: string;
+    mobileNumber: string;
+    schoolId: string;
+    studentClass: string;
+}
+
+export const registerStudent = (data: StudentRegistrationData): Promise<{ success: boolean; message: string }> =>
+    apiRequest('/auth/register', { method: 'POST', body: JSON.stringify(data) });
+
+export const getStudentRegistrations = (): Promise<User[]> => apiRequest('/user/registrations');
+
+export const reviewStudentRegistrations = (
+    userIds: string[],
+    decision: 'approve' | 'reject',
+    note?: string
+): Promise<{ success: boolean; message: string; updated: number; emailFailures: string[] }> =>
+    apiRequest('/user/registrations/review', { method: 'POST', body: JSON.stringify({ userIds, decision, note }) });
+
+
+// --- Location Lookups ---
+export type LocationKind = 'districts' | 'sub-districts' | 'schools';
+
+export const getLocations = (): Promise<LocationLookups> => apiRequest('/locations');
+
+export const createLocation = (kind: LocationKind, data: { name: string; districtId?: string; subDistrictId?: string | null }): Promise<District | SubDistrict | School> =>
+    apiRequest(`/locations/${kind}`, { method: 'POST', body: JSON.stringify(data) });
+
+export const renameLocation = (kind: LocationKind, id: string, name: string): Promise<District | SubDistrict | School> =>
+    apiRequest(`/locations/${kind}/${id}`, { method: 'PUT', body: JSON.stringify({ name }) });
+
+export const deleteLocation = (kind: LocationKind, id: string): Promise<{ success: boolean }> =>
+    apiRequest(`/locations/${kind}/${id}`, { method: 'DELETE' });
+
+
+// --- Audit Log ---
+export interface AuditLogEntry {
+    _id: string;
+    actorType: 'user' | 'webmaster' | 'anonymous';
+    actorId?: string;
+    actorName?: string;
+    actorRole?: string;
+    action: string;
+    method: string;
+    path: string;
+    entity?: string;
+    entityId?: string;
+    changes?: Record<string, { before?: unknown; after?: unknown }>;
+    details?: unknown;
+    statusCode: number;
+    success: boolean;
+    ipAddress?: string;
+    createdAt: string;
+}
+
+export interface AuditLogFilters {
+    actorId?: string;
+    actorType?: 'user' | 'webmaster' | 'anonymous';
+    entity?: string;
+    startDate?: string;
+    endDate?: string;
+}
+
+export const getAuditLogs = (filters: AuditLogFilters, page: number = 1, limit: number = 50): Promise<{
+    success: boolean;
+    logs: AuditLogEntry[];
+    entities: string[];
+    pagination: { total: number; page: number; pages: number };
+}> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+    });
+    params.append('page', page.toString());
+    params.append('limit', limit.toString());
+    return apiRequest(`/admin/audit-logs?${params.toString()}`);
+};
+
+
+// --- Recycle Bin ---
+// Soft-deleted hierarchy nodes and content, restorable until purged after the retention period
+export type RecycleBinKind = HierarchyRoute | 'contents';
+
+export interface RecycleBinItem {
+    _id: string;
+    kind: RecycleBinKind;
+    name: string;
+    contentType?: string;
+    deletedAt: string;
+    deletedBy: string | null;
+    purgeAt: string;
+    // Ancestors, class first; `deleted` marks ones that are in the bin too
+    breadcrumb: { _id: string; kind: RecycleBinKind; name: string; deleted: boolean }[];
+}
+
+export const getRecycleBin = (kind: RecycleBinKind | '' = '', page: number = 1, limit: number = 50): Promise<{
+    success: boolean;
+    items: RecycleBinItem[];
+    retentionDays: number;
+    pagination: { total: number; page: number; pages: number };
+}> => {
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+    if (kind) params.append('kind', kind);
+    return apiRequest(`/admin/recycle-bin?${params.toString()}`);
+};
+
+export const restoreRecycleBinItem = (kind: RecycleBinKind, id: string): Promise<{ success: boolean; restored: Record<string, number> }> =>
+    apiRequest(`/admin/recycle-bin/${kind}/${id}/restore`, { method: 'POST' });
+
+export const purgeRecycleBinItem = (kind: RecycleBinKind, id: string): Promise<{ success: boolean; deleted: HierarchyDeletionSummary & { filesFailed: number } }> =>
+    apiRequest(`/admin/recycle-bin/${kind}/${id}`, { method: 'DELETE' });
+
+
+// --- Publish Schedule ---
+export interface ScheduledPublishEvent {
+    _id: string;
+    kind: RecycleBinKind;
+    name: string;
+    contentType?: string;
+    action: 'publish' | 'unpublish';
+    at: string;
+    breadcrumb: { _id: string; kind: RecycleBinKind; name: string }[];
+}
+
+// Scheduled releases and withdrawals in [from, to), soonest first
+export const getPublishSchedule = (from: Date, to: Date): Promise<{ success: boolean; from: string; to: string; events: ScheduledPublishEvent[] }> => {
+    const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+    return apiRequest(`/admin/publish-schedule?${params.toString()}`);
+};
+
+
+// --- Global Search ---
+export type SearchStatus = 'published' | 'draft' | 'all';
+
+export interface SearchFilters {
+    classId?: string | null;
+    subjectId?: string | null;
+    academicYear?: string | null;
+    type?: ResourceType | null;
+    // Editors only; everyone else always searches published items
+    status?: SearchStatus;
+}
+
+type SearchBreadcrumb = { _id: string; kind: RecycleBinKind; name: string }[];
+
+export interface ContentSearchResult {
+    _id: string;
+    title: string; // plain text
+    type: ResourceType;
+    lessonId: string;
+    isPublished: boolean;
+    reviewStatus: ReviewStatus | null;
+    snippet: string;
+    score: number;
+    breadcrumb: SearchBreadcrumb;
+}
+
+export interface HierarchySearchResult {
+    _id: string;
+    kind: HierarchyRoute;
+    name: string;
+    isPublished: boolean;
+    score: number;
+    breadcrumb: SearchBreadcrumb;
+}
+
+// Content items and classes → lessons whose names match, best first
+export const searchAll = (query: string, filters: SearchFilters = {}): Promise<{ contents: ContentSearchResult[]; nodes: HierarchySearchResult[] }> => {
+    const params = new URLSearchParams({ q: query });
+    if (filters.classId) params.append('classId', filters.classId);
+    if (filters.subjectId) params.append('subjectId', filters.subjectId);
+    if (filters.academicYear) params.append('academicYear', filters.academicYear);
+    if (filters.type) params.append('type', filters.type);
+    if (filters.status) params.append('status', filters.status);
+    return apiRequest(`/search?${params.toString()}`);
+};
+
+// --- Two-Factor Authentication ---
+// The webmaster panel keeps its own session, so these take an optional token overriding the user's
+export interface TwoFactorAnswer {
+    code?: string;
+    recoveryCode?: string;
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: string | null;
+    recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    otpauthUrl: string;
+    qrCode: string; // data: URL of a PNG
+}
+
+const bearer = (token?: string | null): Record<string, string> | undefined =>
+    token ? { Authorization: `Bearer ${token}` } : undefined;
+
+export const getTwoFactorStatus = (token?: string | null): Promise<TwoFactorStatus> =>
+    apiRequest('/auth/2fa/status', { headers: bearer(token) });
+
+export const startTwoFactorSetup = (token?: string | null): Promise<TwoFactorSetup> =>
+    apiRequest('/auth/2fa/setup', { method: 'POST', headers: bearer(token) });
+
+export const enableTwoFactor = (code: string, token?: string | null): Promise<{ success: boolean; recoveryCodes: string[] }> =>
+    apiRequest('/auth/2fa/enable', { method: 'POST', body: JSON.stringify({ code }), headers: bearer(token) });
+
+export const disableTwoFactor = (password: string, answer: TwoFactorAnswer, token?: string | null): Promise<{ success: boolean }> =>
+    apiRequest('/auth/2fa/disable', { method: 'POST', body: JSON.stringify({ password, ...answer }), headers: bearer(token) });
+
+export const regenerateRecoveryCodes = (code: string, token?: string | null): Promise<{ success: boolean; recoveryCodes: string[] }> =>
+    apiRequest('/auth/2fa/recovery-codes', { method: 'POST', body: JSON.stringify({ code }), headers: bearer(token) });
\ No newline at end of file
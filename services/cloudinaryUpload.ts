@@ -1,6 +1,8 @@
 // Enhanced Cloudinary Upload Service with Progress Tracking
 // Implements two-step upload: Cloudinary first, then MongoDB save
 
+import { authFetch } from './api';
+
 interface UploadProgress {
   loaded: number;
   total: number;
@@ -199,7 +201,7 @@ class CloudinaryUploadService {
    */
   async cleanupFile(publicId: string, resourceType: string = 'auto'): Promise<boolean> {
     try {
-      const response = await fetch('/api/cloudinary/cleanup', {
+      const response = await authFetch('/api/cloudinary/cleanup', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1,6 +1,8 @@
 // File storage service for the application
 // Handles file uploads via API and manages file references
 
+import { authFetch } from './api';
+
 interface StoredFile {
     id: string;
     name: string;
@@ -35,7 +37,7 @@ class FileStorageService {
         }
 
         try {
-            const response = await fetch('/api/upload', {
+            const response = await authFetch('/api/upload', {
                 method: 'POST',
                 body: formData
             });
@@ -101,7 +103,7 @@ class FileStorageService {
         const file = this.files.get(fileId);
         if (file) {
             try {
-                const response = await fetch(`/api/content/${fileId}`, {
+                const response = await authFetch(`/api/content/${fileId}`, {
                     method: 'DELETE'
                 });
 
@@ -226,7 +228,7 @@ export const FileUploadHelper = {
             formData.append('metadata', JSON.stringify(metadata));
         }
 
-        const response = await fetch('/api/upload', {
+        const response = await authFetch('/api/upload', {
             method: 'POST',
             body: formData
         });
@@ -283,7 +285,7 @@ export const FileUploadHelper = {
 
     // Create content from direct URL
     async createContentFromUrl(url: string, lessonId: string, type: string, title: string, metadata?: any): Promise<{ fileId: string; path: string; apiResponse: any }> {
-        const response = await fetch('/api/content/url', {
+        const response = await authFetch('/api/content/url', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json'
@@ -393,7 +395,7 @@ export const FileUploadHelper = {
             // Handle content ID format (content_xxx)
             if (fileId.startsWith('content_')) {
                 const contentId = fileId.replace('content_', '');
-                const response = await fetch(`/api/content/${contentId}`, {
+                const response = await authFetch(`/api/content/${contentId}`, {
                     method: 'DELETE'
                 });
                 return response.ok;
@@ -402,7 +404,7 @@ export const FileUploadHelper = {
             // Handle database-stored fileId format - Check if it looks like a content ID
             if (fileId.match(/^[0-9a-fA-F]{24}$/)) {
                 // This looks like a MongoDB ObjectId, treat it as a content ID
-                const response = await fetch(`/api/content/${fileId}`, {
+                const response = await authFetch(`/api/content/${fileId}`, {
                     method: 'DELETE'
                 });
                 return response.ok;
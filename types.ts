@@ -3,6 +3,14 @@ import React from 'react';
 
 export type UserRole = 'admin' | 'teacher' | 'student';
 
+// One edit grant for a teacher with canEdit. Narrower fields are optional: a scope with only
+// classId covers the whole class, adding subjectId narrows it to that subject, and so on.
+export interface EditScope {
+  classId: string;
+  subjectId?: string | null;
+  unitId?: string | null;
+}
+
 export interface User {
   _id: string;
   name: string;
@@ -14,17 +22,70 @@ export interface User {
   mobileNumber?: string;
   isFirstLogin: boolean;
   canEdit?: boolean; // New property for granular edit permissions
+  editScopes?: EditScope[]; // Empty means canEdit applies everywhere
+  requiresReview?: boolean; // canEdit teacher whose content an admin approves before it is published
   requestRole?: string | null;
   teacherRequestStatus?: 'pending' | 'approved' | 'rejected' | null;
-  district?: string;
-  subDistrict?: string;
-  school?: string;
+  registrationStatus?: 'pending' | 'approved' | 'rejected' | null;
+  registrationReviewedAt?: string;
+  registrationNote?: string;
+  studentClass?: string;
+  districtId?: string | null;
+  subDistrictId?: string | null;
+  schoolId?: string | null;
+  isDistrictCoordinator?: boolean; // Teacher who sees reports for every school in districtId
+  twoFactor?: { enabled: boolean; enabledAt?: string }; // Admins only; managed from the profile page
+  createdAt?: string;
+}
+
+// Managed location lookups (District → SubDistrict → School)
+export interface District {
+  _id: string;
+  name: string;
+}
+
+export interface SubDistrict {
+  _id: string;
+  districtId: string;
+  name: string;
+}
+
+export interface School {
+  _id: string;
+  districtId: string;
+  subDistrictId?: string | null;
+  name: string;
+}
+
+export interface LocationLookups {
+  districts: District[];
+  subDistricts: SubDistrict[];
+  schools: School[];
+}
+
+// A user's place, or a report filter; empty fields mean "any"
+export interface LocationSelection {
+  districtId?: string | null;
+  subDistrictId?: string | null;
+  schoolId?: string | null;
 }
 
 export interface Class {
   _id: string;
   name: string;
   isPublished?: boolean;
+  order?: number;
+  publishAt?: string; // scheduled release; isPublished flips on the server when it passes
+  unpublishAt?: string;
+  academicYear?: string; // AcademicYear.name; subjects and below belong to their class's year
+}
+
+// Syllabus version, e.g. "2025-26". Archived years are read-only.
+export interface AcademicYear {
+  _id: string;
+  name: string;
+  isCurrent: boolean;
+  isArchived: boolean;
 }
 
 export interface Subject {
@@ -32,6 +93,9 @@ export interface Subject {
   classId: string;
   name: string;
   isPublished?: boolean;
+  order?: number;
+  publishAt?: string;
+  unpublishAt?: string;
 }
 
 export interface Unit {
@@ -39,6 +103,9 @@ export interface Unit {
   subjectId: string;
   name: string;
   isPublished?: boolean;
+  order?: number;
+  publishAt?: string;
+  unpublishAt?: string;
 }
 
 export interface SubUnit {
@@ -46,13 +113,27 @@ export interface SubUnit {
   unitId: string;
   name: string;
   isPublished?: boolean;
+  order?: number;
+  publishAt?: string;
+  unpublishAt?: string;
 }
 
-export interface Lesson {
+export interface Lesson extends LessonMetadata {
   _id: string;
   subUnitId: string;
   name: string;
   isPublished?: boolean;
+  order?: number;
+  publishAt?: string;
+  unpublishAt?: string;
+}
+
+// Lesson overview, shown before a resource type is picked
+export interface LessonMetadata {
+  learningObjectives?: string[];
+  periods?: number | null; // estimated teaching periods
+  keywords?: string[];
+  competencies?: CognitiveProcess[];
 }
 
 export type ResourceType = 'book' | 'flashcard' | 'notes' | 'qa' | 'activity' | 'video' | 'audio' | 'worksheet' | 'questionPaper' | 'quiz' | 'slide';
@@ -83,6 +164,27 @@ export interface FileMetadata {
   uploadDate: string;
 }
 
+export type ReviewStatus = 'draft' | 'submitted' | 'approved' | 'changes_requested';
+
+export interface ReviewComment {
+  _id: string;
+  author?: { userId?: string; name?: string };
+  text?: string;
+  quote?: string; // passage of the body the comment is about
+  action?: 'submitted' | 'approved' | 'changes_requested';
+  createdAt: string;
+}
+
+// Editorial review of content written by a teacher with requiresReview
+export interface ContentReview {
+  status: ReviewStatus;
+  submittedBy?: { userId?: string; name?: string };
+  submittedAt?: string;
+  reviewedBy?: { userId?: string; name?: string };
+  reviewedAt?: string;
+  comments?: ReviewComment[];
+}
+
 export interface Content {
   _id: string;
   lessonId: string;
@@ -95,6 +197,8 @@ export interface Content {
   viewCount?: number;
   downloadCount?: number;
   isPublished?: boolean;
+  publishAt?: string;
+  unpublishAt?: string;
 
   // Unified Cloudinary Model
   file?: {
@@ -108,6 +212,7 @@ export interface Content {
   storage?: 'cloudinary' | 'local' | 'database';
 
   metadata?: QuestionPaperMetadata | QAMetadata | FileMetadata | Record<string, any>; // Union type for metadata with flexibility
+  review?: ContentReview; // absent unless the item went through editorial review
 }
 
 export interface GroupedContent {
@@ -149,6 +254,7 @@ export interface PlatformStats {
   adminCount: number;
   teacherCount: number;
   studentCount: number;
+  downloadCount: number; // Successful downloads by the (location-filtered) users
   contentByType: ResourceCounts;
 
   // Publication Stats
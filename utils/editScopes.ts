@@ -0,0 +1,41 @@
+import { EditScope, User } from '../types';
+
+export interface HierarchyPath {
+  classId?: string | null;
+  subjectId?: string | null;
+  unitId?: string | null;
+}
+
+/**
+ * Whether the user may open the editing views at all (admin, or teacher with canEdit)
+ */
+export const hasEditAccess = (user: User): boolean =>
+  user.role === 'admin' || (user.role === 'teacher' && !!user.canEdit);
+
+/**
+ * Teacher whose content an admin approves before it can be published (api/utils/contentReview.cjs)
+ */
+export const requiresReview = (user: User | null | undefined): boolean =>
+  !!user && user.role === 'teacher' && !!user.canEdit && !!user.requiresReview;
+
+const scopeCovers = (scope: EditScope, path: HierarchyPath): boolean => {
+  if (String(scope.classId) !== String(path.classId)) return false;
+  if (scope.subjectId && String(scope.subjectId) !== String(path.subjectId)) return false;
+  if (scope.unitId && String(scope.unitId) !== String(path.unitId)) return false;
+  return true;
+};
+
+/**
+ * Whether the user may edit content under the given class/subject/unit.
+ * Mirrors the server check in api/utils/editScopes.cjs. An unknown path (still loading)
+ * is only editable by users without scope restrictions.
+ */
+export const canEditPath = (user: User, path?: HierarchyPath | null): boolean => {
+  if (user.role === 'admin') return true;
+  if (!hasEditAccess(user)) return false;
+
+  const scopes = user.editScopes || [];
+  if (scopes.length === 0) return true;
+  if (!path || !path.classId) return false;
+  return scopes.some(scope => scopeCovers(scope, path));
+};
@@ -0,0 +1,24 @@
+import { LocationLookups, LocationSelection, User } from '../types';
+
+/**
+ * Whether the user reads reports and download logs for their district (mirrors api/middleware/permissions.cjs)
+ */
+export const isDistrictCoordinator = (user: User): boolean =>
+  user.role === 'teacher' && !!user.isDistrictCoordinator && !!user.districtId;
+
+/**
+ * "School, Sub-district, District" for a user or filter, skipping unset or unknown levels
+ */
+export const describeLocation = (lookups: LocationLookups | null | undefined, location: LocationSelection): string => {
+  if (!lookups) return '';
+  const school = lookups.schools.find(s => s._id === location.schoolId);
+  const subDistrict = lookups.subDistricts.find(s => s._id === location.subDistrictId);
+  const district = lookups.districts.find(d => d._id === location.districtId);
+  return [school?.name, subDistrict?.name, district?.name].filter(Boolean).join(', ');
+};
+
+export const pickLocation = (location: LocationSelection): LocationSelection => ({
+  districtId: location.districtId || null,
+  subDistrictId: location.subDistrictId || null,
+  schoolId: location.schoolId || null
+});
@@ -0,0 +1,36 @@
+export interface ScheduledItem {
+  isPublished?: boolean;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+}
+
+export const formatScheduleDate = (value: string | Date): string =>
+  new Date(value).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * ISO date → value for an <input type="datetime-local">, in the browser's time zone
+ */
+export const toDateTimeLocal = (value?: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeLocal = (value: string): string | null => value ? new Date(value).toISOString() : null;
+
+/**
+ * Counts and the soonest pending dates across a list of items, for the status banner
+ */
+export const summarizeSchedules = (items: ScheduledItem[]) => {
+  const soonest = (dates: (string | null | undefined)[]) =>
+    dates.filter((date): date is string => !!date).sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0] || null;
+  const scheduled = items.filter(item => !item.isPublished && item.publishAt);
+  const expiring = items.filter(item => item.isPublished && item.unpublishAt);
+  return {
+    scheduledCount: scheduled.length,
+    nextRelease: soonest(scheduled.map(item => item.publishAt)),
+    expiringCount: expiring.length,
+    nextUnpublish: soonest(expiring.map(item => item.unpublishAt))
+  };
+};
@@ -0,0 +1,86 @@
+/**
+ * Line diff for the revision history panel
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Longest-common-subsequence tables grow with a × b; past this the diff is shown as a replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Readable lines for a stored body: rich-text HTML becomes one line per block, JSON bodies
+ * (quizzes, flashcards) are pretty-printed, anything else is split as it is
+ */
+export const bodyToLines = (body?: string | null): string[] => {
+  if (!body) return [];
+  const trimmed = body.trim();
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      return JSON.stringify(JSON.parse(trimmed), null, 2).split('\n');
+    } catch {
+      // not JSON after all
+    }
+  }
+
+  if (/<[a-z][\s\S]*>/i.test(trimmed)) {
+    const withBreaks = trimmed
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr|blockquote|pre)>/gi, '\n');
+    const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+    return (doc.body.textContent || '').split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  return trimmed.split(/\r?\n/);
+};
+
+export const diffLines = (before: string[], after: string[]): DiffLine[] => {
+  // Common head and tail first; most saves change a few lines in the middle
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const head: DiffLine[] = before.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = before.slice(endBefore).map(text => ({ type: 'same', text }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...head, ...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text })), ...tail];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'removed', text: a[i++] });
+    } else {
+      middle.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) middle.push({ type: 'added', text: b[j++] });
+
+  return [...head, ...middle, ...tail];
+};
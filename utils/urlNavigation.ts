@@ -0,0 +1,73 @@
+import { AdminState, ResourceType } from '../types';
+import { RESOURCE_TYPES } from '../constants';
+
+/**
+ * URL ⇄ navigation state.
+ *
+ *   /browse/<classId>/<subjectId>/<unitId>/<subUnitId>/<lessonId>/<resourceType>
+ *   /admin/<page>
+ *
+ * A browse path may stop at any level, and the resource type only follows a lesson.
+ */
+
+export type UrlNavigationState = Pick<AdminState, 'classId' | 'subjectId' | 'unitId' | 'subUnitId' | 'lessonId' | 'selectedResourceType'> & {
+  activePage?: string;
+};
+
+const ID_FIELDS = ['classId', 'subjectId', 'unitId', 'subUnitId', 'lessonId'] as const;
+const OBJECT_ID = /^[a-f0-9]{24}$/i;
+const PAGE_SLUG = /^[a-z][a-z-]*$/;
+const BROWSER_PAGE = 'browser';
+
+const isResourceType = (value: string): value is ResourceType => RESOURCE_TYPES.some(resource => resource.key === value);
+
+export const buildNavigationPath = (state: UrlNavigationState): string => {
+  if (state.activePage && state.activePage !== BROWSER_PAGE) return `/admin/${state.activePage}`;
+
+  const ids: string[] = [];
+  for (const field of ID_FIELDS) {
+    const id = state[field];
+    if (!id) break;
+    ids.push(id);
+  }
+  if (ids.length === 0) return '/';
+  const resource = state.lessonId && ids.length === ID_FIELDS.length && state.selectedResourceType ? `/${state.selectedResourceType}` : '';
+  return `/browse/${ids.join('/')}${resource}`;
+};
+
+/**
+ * Navigation state for a path, or null when the path is not one of ours (or names an
+ * admin page and pages are not allowed). "/" is the empty selection; an admin page keeps
+ * whatever selection the browser had.
+ */
+export const parseNavigationPath = (pathname: string, { withPages = false } = {}): Partial<UrlNavigationState> | null => {
+  const parts = pathname.split('/').filter(Boolean);
+  const empty: UrlNavigationState = { classId: null, subjectId: null, unitId: null, subUnitId: null, lessonId: null, selectedResourceType: null };
+  const browser = withPages ? { activePage: BROWSER_PAGE } : {};
+
+  if (parts.length === 0) return { ...empty, ...browser };
+
+  if (parts[0] === 'admin') {
+    return withPages && parts.length === 2 && PAGE_SLUG.test(parts[1]) ? { activePage: parts[1] } : null;
+  }
+  if (parts[0] !== 'browse' || parts.length < 2 || parts.length > ID_FIELDS.length + 2) return null;
+
+  const ids = parts.slice(1, ID_FIELDS.length + 1);
+  const resource = parts[ID_FIELDS.length + 1];
+  if (!ids.every(id => OBJECT_ID.test(id))) return null;
+  if (resource !== undefined && (ids.length < ID_FIELDS.length || !isResourceType(resource))) return null;
+
+  const state: UrlNavigationState = { ...empty, ...browser, selectedResourceType: resource ? resource as ResourceType : null };
+  ID_FIELDS.forEach((field, index) => { state[field] = ids[index] || null; });
+  return state;
+};
+
+/**
+ * Opens `state` from outside a view's own selection handling (e.g. a search result in the
+ * header): the path is pushed and announced like a back/forward step, which useUrlNavigation
+ * then applies.
+ */
+export const openNavigationPath = (state: UrlNavigationState) => {
+  window.history.pushState(null, '', buildNavigationPath(state));
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};